@@ -4,18 +4,24 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { CommandPalette } from "@/components/layout/command-palette";
 import Landing from "@/pages/landing";
 import Login from "@/pages/login";
+import AcceptInvitation from "@/pages/accept-invitation";
 import Register from "@/pages/register";
 import Dashboard from "@/pages/dashboard";
 import Projects from "@/pages/projects";
 import ProjectDetails from "@/pages/project-details";
 import Users from "@/pages/users";
 import Settings from "@/pages/settings";
+import Trash from "@/pages/trash";
+import Audit from "@/pages/audit";
+import TwoFactorSetupPage from "@/pages/two-factor-setup";
+import PasswordExpiredPage from "@/pages/password-expired";
 import NotFound from "@/pages/not-found";
 
 function Router() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, twoFactorSetupRequired, passwordChangeRequired } = useAuth();
 
   if (isLoading) {
     return (
@@ -28,25 +34,40 @@ function Router() {
     );
   }
 
+  if (twoFactorSetupRequired) {
+    return <TwoFactorSetupPage />;
+  }
+
+  if (passwordChangeRequired) {
+    return <PasswordExpiredPage />;
+  }
+
   return (
-    <Switch>
-      {!isAuthenticated ? (
-        <>
-          <Route path="/" component={Landing} />
-          <Route path="/login" component={Login} />
-          <Route path="/register" component={Register} />
-        </>
-      ) : (
-        <>
-          <Route path="/" component={Dashboard} />
-          <Route path="/projects" component={Projects} />
-          <Route path="/projects/:id" component={ProjectDetails} />
-          <Route path="/users" component={Users} />
-          <Route path="/settings" component={Settings} />
-        </>
-      )}
-      <Route component={NotFound} />
-    </Switch>
+    <>
+      {isAuthenticated && <CommandPalette />}
+      <Switch>
+        {!isAuthenticated ? (
+          <>
+            <Route path="/" component={Landing} />
+            <Route path="/login" component={Login} />
+            <Route path="/reset-password" component={Login} />
+            <Route path="/invite" component={AcceptInvitation} />
+            <Route path="/register" component={Register} />
+          </>
+        ) : (
+          <>
+            <Route path="/" component={Dashboard} />
+            <Route path="/projects" component={Projects} />
+            <Route path="/projects/:id" component={ProjectDetails} />
+            <Route path="/users" component={Users} />
+            <Route path="/settings" component={Settings} />
+            <Route path="/trash" component={Trash} />
+            <Route path="/audit" component={Audit} />
+          </>
+        )}
+        <Route component={NotFound} />
+      </Switch>
+    </>
   );
 }
 
@@ -38,7 +38,7 @@ export function DocumentList({ projectId, documents }: DocumentListProps) {
       queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
       toast({
         title: "Success",
-        description: "Document deleted successfully",
+        description: "Document moved to the trash",
       });
     },
     onError: (error) => {
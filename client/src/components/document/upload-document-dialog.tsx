@@ -1,5 +1,5 @@
 import { useState, useRef } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { queryClient } from "@/lib/queryClient";
@@ -44,6 +44,12 @@ export function UploadDocumentDialog({
   const [files, setFiles] = useState<FileUpload[]>([]);
   const [isDragging, setIsDragging] = useState(false);
 
+  // Depends on the file store the server uploads to
+  const { data: uploadLimit } = useQuery<{ maxFileSize: number }>({
+    queryKey: ["/api/documents/upload-limit"],
+    staleTime: Infinity,
+  });
+
   const uploadMutation = useMutation({
     mutationFn: async (files: File[]) => {
       const formData = new FormData();
@@ -179,9 +185,11 @@ export function UploadDocumentDialog({
             <p className="text-sm text-gray-500 mb-4">
               Supported formats: PDF, DOC, DOCX, XLS, XLSX, PPT, PPTX, TXT, JPG, PNG, GIF, SVG
             </p>
-            <p className="text-xs text-gray-400 mb-4">
-              Maximum file size: 10MB per file
-            </p>
+            {uploadLimit && (
+              <p className="text-xs text-gray-400 mb-4">
+                Maximum file size: {formatFileSize(uploadLimit.maxFileSize)} per file
+              </p>
+            )}
             
             <input
               ref={fileInputRef}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Folder, FileText, User } from "lucide-react";
+import type { SearchResults } from "@shared/schema";
+
+const OPEN_EVENT = "open-command-palette";
+
+// Opens the palette from anywhere, e.g. the sidebar search button
+export function openCommandPalette() {
+  window.dispatchEvent(new Event(OPEN_EVENT));
+}
+
+// Searches projects, documents and people. Opened with Ctrl+K / Cmd+K.
+export function CommandPalette() {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const q = useDebouncedValue(search.trim());
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen(open => !open);
+      }
+    };
+    const onOpen = () => setOpen(true);
+
+    document.addEventListener("keydown", onKeyDown);
+    window.addEventListener(OPEN_EVENT, onOpen);
+    return () => {
+      document.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener(OPEN_EVENT, onOpen);
+    };
+  }, []);
+
+  const { data: results, isFetching } = useQuery<SearchResults>({
+    queryKey: ["/api/search", { q }],
+    retry: false,
+    enabled: open && q.length > 0,
+  });
+
+  const close = () => {
+    setOpen(false);
+    setSearch("");
+  };
+
+  const openProject = (id: string) => {
+    close();
+    setLocation(`/projects/${id}`);
+  };
+
+  const openDocument = (id: string) => {
+    close();
+    window.open(`/api/documents/${id}/download`, '_blank');
+  };
+
+  // Admins can look the person up in user management; everyone else gets an email link
+  const openPerson = (email: string) => {
+    close();
+    if (user?.role === 'admin') {
+      setLocation(`/users?q=${encodeURIComponent(email)}`);
+    } else {
+      window.location.href = `mailto:${email}`;
+    }
+  };
+
+  const hasResults = !!results && (results.projects.length + results.documents.length + results.users.length) > 0;
+
+  return (
+    // Results are already matched by the server, so cmdk's own filtering is off
+    <CommandDialog open={open} onOpenChange={(open) => (open ? setOpen(true) : close())} shouldFilter={false}>
+      <CommandInput
+        placeholder="Search projects, documents and people..."
+        value={search}
+        onValueChange={setSearch}
+        data-testid="input-command-search"
+      />
+      <CommandList>
+        {q && !hasResults && (
+          <CommandEmpty>{isFetching ? "Searching..." : "No results found."}</CommandEmpty>
+        )}
+        {results && results.projects.length > 0 && (
+          <CommandGroup heading="Projects">
+            {results.projects.map(project => (
+              <CommandItem
+                key={project.id}
+                value={`project-${project.id}`}
+                onSelect={() => openProject(project.id)}
+                data-testid={`search-result-project-${project.id}`}
+              >
+                <Folder className="mr-2 text-indigo-500" />
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{project.name}</p>
+                  {project.description && (
+                    <p className="truncate text-xs text-muted-foreground">{project.description}</p>
+                  )}
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+        {results && results.documents.length > 0 && (
+          <CommandGroup heading="Documents">
+            {results.documents.map(document => (
+              <CommandItem
+                key={document.id}
+                value={`document-${document.id}`}
+                onSelect={() => openDocument(document.id)}
+                data-testid={`search-result-document-${document.id}`}
+              >
+                <FileText className="mr-2 text-amber-500" />
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{document.originalName}</p>
+                  <p className="truncate text-xs text-muted-foreground">{document.projectName}</p>
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+        {results && results.users.length > 0 && (
+          <CommandGroup heading="People">
+            {results.users.map(person => (
+              <CommandItem
+                key={person.id}
+                value={`user-${person.id}`}
+                onSelect={() => openPerson(person.email)}
+                data-testid={`search-result-user-${person.id}`}
+              >
+                <User className="mr-2 text-purple-500" />
+                <div className="min-w-0">
+                  <p className="truncate font-medium">
+                    {person.firstName && person.lastName ? `${person.firstName} ${person.lastName}` : person.email}
+                  </p>
+                  <p className="truncate text-xs text-muted-foreground">{person.email}</p>
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
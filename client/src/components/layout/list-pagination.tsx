@@ -0,0 +1,49 @@
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { Page } from "@shared/schema";
+
+interface ListPaginationProps {
+  page: Page<unknown>;
+  onPageChange: (page: number) => void;
+  // Plural noun for the summary, e.g. "projects"
+  label: string;
+}
+
+export function ListPagination({ page, onPageChange, label }: ListPaginationProps) {
+  const pageCount = Math.max(1, Math.ceil(page.total / page.pageSize));
+  const first = page.total === 0 ? 0 : (page.page - 1) * page.pageSize + 1;
+  const last = Math.min(page.page * page.pageSize, page.total);
+
+  return (
+    <div className="flex items-center justify-between py-4" data-testid="list-pagination">
+      <p className="text-sm text-gray-600" data-testid="text-pagination-summary">
+        {page.total === 0 ? `No ${label}` : `Showing ${first}-${last} of ${page.total} ${label}`}
+      </p>
+      <div className="flex items-center space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page.page - 1)}
+          disabled={page.page <= 1}
+          data-testid="button-previous-page"
+        >
+          <ChevronLeft className="h-4 w-4" />
+          Previous
+        </Button>
+        <span className="text-sm font-medium text-gray-700">
+          Page {page.page} of {pageCount}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page.page + 1)}
+          disabled={page.page >= pageCount}
+          data-testid="button-next-page"
+        >
+          Next
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
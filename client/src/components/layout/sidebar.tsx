@@ -2,13 +2,17 @@ import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
+import { openCommandPalette } from "@/components/layout/command-palette";
 import { 
   Home, 
   Folder, 
   Users, 
   Settings, 
+  Trash2,
+  ScrollText,
   Gamepad2, 
   LogOut,
+  Search,
   X 
 } from "lucide-react";
 import { cn } from "@/lib/utils";
@@ -53,6 +57,16 @@ export function Sidebar() {
       href: "/users",
       icon: Users,
       testId: "nav-users",
+    }, {
+      name: "Trash",
+      href: "/trash",
+      icon: Trash2,
+      testId: "nav-trash",
+    }, {
+      name: "Audit Log",
+      href: "/audit",
+      icon: ScrollText,
+      testId: "nav-audit",
     }] : []),
     {
       name: "Settings",
@@ -130,6 +144,20 @@ export function Sidebar() {
           </div>
         </div>
 
+        {/* Search */}
+        <div className="px-4 pt-2">
+          <button
+            type="button"
+            onClick={openCommandPalette}
+            className="w-full flex items-center px-4 py-2.5 text-sm text-gray-500 bg-gray-50 border border-gray-200 rounded-xl hover:bg-gray-100 hover:text-gray-700 transition-all duration-200"
+            data-testid="button-sidebar-search"
+          >
+            <Search className="h-4 w-4 mr-3" />
+            <span className="flex-1 text-left">Search...</span>
+            <kbd className="text-xs font-medium text-gray-400">Ctrl K</kbd>
+          </button>
+        </div>
+
         {/* Enhanced Navigation */}
         <nav className="flex-1 px-4 py-4 space-y-2">
           {navigation.map((item) => {
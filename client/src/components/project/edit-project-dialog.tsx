@@ -0,0 +1,360 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { z } from "zod";
+
+const editProjectSchema = z.object({
+  name: z.string().trim().min(1, "Project name is required"),
+  description: z.string(),
+  deadline: z.string(),
+  status: z.enum(['active', 'completed', 'on_hold']),
+  // Why the change was made, shown in the project's activity feed
+  note: z.string().max(500, "Keep the reason under 500 characters"),
+});
+
+type EditProjectForm = z.infer<typeof editProjectSchema>;
+
+// The fields this dialog edits, as the API returns them
+export interface EditableProject {
+  id: string;
+  name: string;
+  description: string | null;
+  deadline: Date | string | null;
+  status: 'active' | 'completed' | 'on_hold';
+  version: number;
+}
+
+interface EditProjectDialogProps {
+  project: EditableProject;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const statusLabels: Record<EditProjectForm['status'], string> = {
+  active: 'Active',
+  on_hold: 'On Hold',
+  completed: 'Completed',
+};
+
+const toForm = (project: EditableProject): EditProjectForm => ({
+  name: project.name,
+  description: project.description ?? "",
+  deadline: project.deadline ? new Date(project.deadline).toISOString().slice(0, 10) : "",
+  status: project.status,
+  note: "",
+});
+
+type ProjectField = Exclude<keyof EditProjectForm, 'note'>;
+
+const fieldLabels: Record<ProjectField, string> = {
+  name: 'Name',
+  description: 'Description',
+  deadline: 'Deadline',
+  status: 'Status',
+};
+
+const displayValue = (field: ProjectField, form: EditProjectForm) => {
+  if (field === 'status') return statusLabels[form.status];
+  return form[field] || '—';
+};
+
+export function EditProjectDialog({ project, open, onOpenChange }: EditProjectDialogProps) {
+  const { toast } = useToast();
+  // Version the edit is based on. Saving fails with 412 if someone else saved since.
+  const [baseVersion, setBaseVersion] = useState(project.version);
+  // Their saved version, when our save was refused
+  const [conflict, setConflict] = useState<EditableProject | null>(null);
+
+  const form = useForm<EditProjectForm>({
+    resolver: zodResolver(editProjectSchema),
+    defaultValues: toForm(project),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toForm(project));
+      setBaseVersion(project.version);
+      setConflict(null);
+    }
+    // Only when the dialog opens - later refetches must not wipe the user's edits
+  }, [open]);
+
+  const updateProjectMutation = useMutation({
+    mutationFn: async ({ data, version }: { data: EditProjectForm; version: number }) => {
+      await apiRequest('PATCH', `/api/projects/${project.id}`, {
+        name: data.name,
+        description: data.description || null,
+        deadline: data.deadline || null,
+        status: data.status,
+        note: data.note.trim() || null,
+      }, { 'If-Match': `"${version}"` });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: "Project updated successfully",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+
+      // Someone else saved first - the 412 carries their version
+      if (error.message.startsWith('412')) {
+        const body = JSON.parse(error.message.slice(error.message.indexOf('{')));
+        setConflict(body.current);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to update project",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: EditProjectForm) => {
+    updateProjectMutation.mutate({ data, version: baseVersion });
+  };
+
+  // Take their version and close
+  const discardMine = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    onOpenChange(false);
+  };
+
+  // Save ours over theirs
+  const overwriteTheirs = () => {
+    updateProjectMutation.mutate({ data: form.getValues(), version: conflict!.version });
+  };
+
+  // Go back to the form, now based on their version, to combine the two by hand
+  const keepEditing = () => {
+    setBaseVersion(conflict!.version);
+    setConflict(null);
+  };
+
+  const mine = form.getValues();
+  const theirs = conflict ? toForm(conflict) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] bg-white/95 backdrop-blur-xl border-0 shadow-2xl" data-testid="dialog-edit-project">
+        {theirs ? (
+          <>
+            <DialogHeader className="pb-2">
+              <DialogTitle className="text-2xl font-bold text-gray-900">Someone else changed this project</DialogTitle>
+              <DialogDescription>
+                Their changes were saved while you were editing. Choose which version to keep, or go back and combine them.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="rounded-xl border border-gray-200 overflow-hidden" data-testid="table-edit-conflict">
+              <div className="grid grid-cols-[8rem_1fr_1fr] bg-gray-50 text-sm font-semibold text-gray-700">
+                <div className="px-3 py-2"></div>
+                <div className="px-3 py-2">Your version</div>
+                <div className="px-3 py-2">Their version</div>
+              </div>
+              {(Object.keys(fieldLabels) as ProjectField[]).map(field => {
+                const differs = mine[field] !== theirs[field];
+                return (
+                  <div
+                    key={field}
+                    className={cn("grid grid-cols-[8rem_1fr_1fr] border-t border-gray-100 text-sm", differs && "bg-amber-50")}
+                    data-testid={`row-conflict-${field}`}
+                  >
+                    <div className="px-3 py-2 font-medium text-gray-600">{fieldLabels[field]}</div>
+                    <div className="px-3 py-2 text-gray-900 break-words">{displayValue(field, mine)}</div>
+                    <div className="px-3 py-2 text-gray-900 break-words">{displayValue(field, theirs)}</div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button
+                variant="outline"
+                onClick={discardMine}
+                data-testid="button-conflict-keep-theirs"
+              >
+                Keep Theirs
+              </Button>
+              <Button
+                variant="outline"
+                onClick={keepEditing}
+                data-testid="button-conflict-keep-editing"
+              >
+                Keep Editing
+              </Button>
+              <Button
+                onClick={overwriteTheirs}
+                disabled={updateProjectMutation.isPending}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg"
+                data-testid="button-conflict-keep-mine"
+              >
+                {updateProjectMutation.isPending ? "Saving..." : "Save Mine"}
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <DialogHeader className="pb-2">
+              <DialogTitle className="text-2xl font-bold text-gray-900">Edit Project</DialogTitle>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 font-semibold">Project Name</FormLabel>
+                      <FormControl>
+                        <Input className="h-12 bg-gray-50/80 border-gray-200" {...field} data-testid="input-edit-project-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 font-semibold">Description</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={3}
+                          className="bg-gray-50/80 border-gray-200 resize-none"
+                          {...field}
+                          data-testid="textarea-edit-project-description"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="deadline"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-gray-700 font-semibold">Deadline</FormLabel>
+                        <FormControl>
+                          <Input type="date" className="h-12 bg-gray-50/80 border-gray-200" {...field} data-testid="input-edit-project-deadline" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="status"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-gray-700 font-semibold">Status</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="h-12 bg-gray-50/80 border-gray-200" data-testid="select-edit-project-status">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {(Object.keys(statusLabels) as EditProjectForm['status'][]).map(status => (
+                              <SelectItem key={status} value={status}>{statusLabels[status]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="note"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 font-semibold">Reason for change (optional)</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={2}
+                          placeholder="e.g. On hold until the publisher signs off on the new scope"
+                          className="bg-gray-50/80 border-gray-200 resize-none"
+                          {...field}
+                          data-testid="textarea-edit-project-note"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex justify-end space-x-2 pt-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => onOpenChange(false)}
+                    className="px-6 py-2 border-gray-300 text-gray-700 hover:bg-gray-50"
+                    data-testid="button-cancel-edit-project"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={updateProjectMutation.isPending}
+                    className="px-6 py-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg"
+                    data-testid="button-submit-edit-project"
+                  >
+                    {updateProjectMutation.isPending ? "Saving..." : "Save Changes"}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
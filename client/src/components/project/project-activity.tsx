@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { ListPagination } from "@/components/layout/list-pagination";
+import {
+  Activity,
+  FileText,
+  FileX,
+  FolderPlus,
+  Pencil,
+  RotateCcw,
+  UserCog,
+  UserMinus,
+  UserPlus,
+  type LucideIcon,
+} from "lucide-react";
+import type { AuditChanges, Page, ProjectActivity as ProjectActivityEntry } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+interface ProjectActivityProps {
+  projectId: string;
+  // Current team, to name people in older lead changes that only kept ids
+  members: Array<{ id: string; firstName: string | null; lastName: string | null; email: string }>;
+}
+
+const actionIcons: Record<string, LucideIcon> = {
+  'project.create': FolderPlus,
+  'project.update': Pencil,
+  'project.assign': UserPlus,
+  'project.unassign': UserMinus,
+  'project.lead_change': UserCog,
+  'document.upload': FileText,
+  'document.delete': FileX,
+  'trash.restore': RotateCcw,
+};
+
+const statusLabels: Record<string, string> = {
+  active: 'Active',
+  on_hold: 'On Hold',
+  completed: 'Completed',
+};
+
+const fieldLabels: Record<string, string> = {
+  name: 'name',
+  description: 'description',
+  deadline: 'deadline',
+  status: 'status',
+  projectLeadId: 'project lead',
+};
+
+const formatDate = (value: unknown) =>
+  new Date(String(value)).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export function ProjectActivity({ projectId, members }: ProjectActivityProps) {
+  const [page, setPage] = useState(1);
+
+  const { data: activityPage, isLoading } = useQuery<Page<ProjectActivityEntry>>({
+    queryKey: ["/api/projects", projectId, "activity", { page, pageSize: PAGE_SIZE }],
+    retry: false,
+    placeholderData: keepPreviousData,
+  });
+
+  const memberName = (userId: unknown) => {
+    const member = members.find(m => m.id === userId);
+    if (!member) return 'a former member';
+    return member.firstName && member.lastName ? `${member.firstName} ${member.lastName}` : member.email;
+  };
+
+  const formatField = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return 'none';
+    if (field === 'status') return statusLabels[String(value)] ?? String(value);
+    if (field === 'deadline') return formatDate(value);
+    if (field === 'projectLeadId') return memberName(value);
+    return String(value);
+  };
+
+  // One line per changed field, e.g. "Changed the status from Active to On Hold"
+  const describeChanges = (changes: AuditChanges) =>
+    Object.entries(changes)
+      .filter(([field]) => field in fieldLabels)
+      .map(([field, { before, after }]) => (
+        <li key={field} data-testid={`activity-change-${field}`}>
+          Changed the {fieldLabels[field]}{field === 'description' ? '' : (
+            <>
+              {' from '}<span className="font-medium">{formatField(field, before)}</span>
+              {' to '}<span className="font-medium">{formatField(field, after)}</span>
+            </>
+          )}
+        </li>
+      ));
+
+  const describe = (entry: ProjectActivityEntry) => {
+    const changes = entry.changes ?? {};
+    switch (entry.action) {
+      case 'project.create':
+        return 'created the project';
+      case 'project.update':
+        return 'edited the project';
+      case 'project.assign':
+        return `added ${changes.member?.after ?? 'a member'} to the team`;
+      case 'project.unassign':
+        return `removed ${changes.member?.before ?? 'a member'} from the team`;
+      case 'project.lead_change': {
+        const lead = changes.projectLead?.after ?? formatField('projectLeadId', changes.projectLeadId?.after);
+        return `made ${lead} the project lead`;
+      }
+      case 'document.upload':
+        return `uploaded ${entry.targetName ?? 'a document'}`;
+      case 'document.delete':
+        return `moved ${entry.targetName ?? 'a document'} to the trash`;
+      case 'trash.restore':
+        return `restored ${entry.targetName ?? 'an item'} from the trash`;
+      default:
+        return entry.action;
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="h-16 bg-gray-200 rounded-lg"></div>
+        ))}
+      </div>
+    );
+  }
+
+  if (!activityPage || activityPage.total === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="h-16 w-16 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Activity className="h-8 w-8 text-gray-400" />
+        </div>
+        <p className="text-gray-500 font-medium">No activity yet</p>
+        <p className="text-sm text-gray-400 mt-1">Changes to the project, its team and its documents show up here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <ol className="relative border-l border-gray-200 ml-4 space-y-6" data-testid="list-project-activity">
+        {activityPage.items.map((entry) => {
+          const Icon = actionIcons[entry.action] ?? Activity;
+          const showChanges = entry.action === 'project.update' && entry.changes;
+          return (
+            <li key={entry.id} className="ml-6" data-testid={`activity-${entry.id}`}>
+              <span className="absolute -left-4 flex h-8 w-8 items-center justify-center rounded-full bg-indigo-100 ring-4 ring-white">
+                <Icon className="h-4 w-4 text-indigo-600" />
+              </span>
+              <p className="text-sm text-gray-900">
+                <span className="font-semibold">{entry.actorEmail ?? 'System'}</span> {describe(entry)}
+              </p>
+              <p className="text-xs text-gray-500">{formatTime(entry.createdAt)}</p>
+              {showChanges && (
+                <ul className="mt-2 space-y-1 text-sm text-gray-700">
+                  {describeChanges(entry.changes!)}
+                </ul>
+              )}
+              {entry.note && (
+                <p className="mt-2 rounded-lg bg-gray-50 border border-gray-100 px-3 py-2 text-sm text-gray-700 italic" data-testid={`activity-note-${entry.id}`}>
+                  “{entry.note}”
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      <ListPagination page={activityPage} onPageChange={setPage} label="events" />
+    </div>
+  );
+}
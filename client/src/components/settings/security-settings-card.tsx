@@ -0,0 +1,224 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ShieldCheck } from "lucide-react";
+import type { PasswordPolicy, RegistrationMode, SecuritySettings } from "@shared/schema";
+
+const roles: Array<{ value: SecuritySettings['twoFactorRequiredRoles'][number]; label: string }> = [
+  { value: 'admin', label: 'Admins' },
+  { value: 'project_lead', label: 'Project Leads' },
+  { value: 'developer', label: 'Developers' },
+];
+
+type PolicyFlag = 'requireLowercase' | 'requireUppercase' | 'requireNumber' | 'requireSymbol' | 'blockCommon';
+
+const policyFlags: Array<{ value: PolicyFlag; label: string }> = [
+  { value: 'requireLowercase', label: 'Require a lowercase letter' },
+  { value: 'requireUppercase', label: 'Require an uppercase letter' },
+  { value: 'requireNumber', label: 'Require a number' },
+  { value: 'requireSymbol', label: 'Require a symbol' },
+  { value: 'blockCommon', label: 'Refuse common passwords' },
+];
+
+type PolicyNumber = 'minLength' | 'historySize' | 'maxAgeDays';
+
+const policyNumbers: Array<{ value: PolicyNumber; label: string; hint: string; min: number; max: number }> = [
+  { value: 'minLength', label: 'Minimum length', hint: 'Characters', min: 6, max: 128 },
+  { value: 'historySize', label: 'Previous passwords refused', hint: '0 allows reuse', min: 0, max: 10 },
+  { value: 'maxAgeDays', label: 'Password expiry', hint: 'Days; 0 for never', min: 0, max: 3650 },
+];
+
+const registrationModes: Array<{ value: RegistrationMode; label: string; hint: string }> = [
+  { value: 'off', label: 'Off', hint: 'Nobody new can join, not even by invitation.' },
+  { value: 'invite_only', label: 'Invite only', hint: 'People join by accepting an invitation from the Users page.' },
+  { value: 'domains', label: 'Allowed email domains', hint: 'People with an email at these domains can also sign up. They wait for an admin to approve them on the Users page.' },
+];
+
+// Workspace security settings, for admins
+export function SecuritySettingsCard() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<SecuritySettings | null>(null);
+  // Edited as text, split into the allowed domains when saving
+  const [domains, setDomains] = useState("");
+
+  const { data: settings } = useQuery<SecuritySettings>({
+    queryKey: ["/api/settings/security"],
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setDraft(settings);
+      setDomains(settings.registration.allowedDomains.join(", "));
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: SecuritySettings) => {
+      const res = await apiRequest("PUT", "/api/settings/security", next);
+      return await res.json() as SecuritySettings;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/settings/security"], saved);
+      queryClient.setQueryData(["/api/auth/password-policy"], saved.passwordPolicy);
+      queryClient.setQueryData(["/api/auth/registration"], saved.registration);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/two-factor"] });
+      toast({
+        title: "Success",
+        description: "Security settings saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleRole = (role: SecuritySettings['twoFactorRequiredRoles'][number], required: boolean) => {
+    if (!draft) return;
+    const others = draft.twoFactorRequiredRoles.filter(r => r !== role);
+    setDraft({ ...draft, twoFactorRequiredRoles: required ? [...others, role] : others });
+  };
+
+  const setPolicy = (changes: Partial<PasswordPolicy>) => {
+    if (!draft) return;
+    setDraft({ ...draft, passwordPolicy: { ...draft.passwordPolicy, ...changes } });
+  };
+
+  return (
+    <Card className="border-0 shadow-xl bg-white/70 backdrop-blur-sm">
+      <CardHeader className="bg-gradient-to-r from-red-500/10 to-pink-500/10 border-b border-gray-100">
+        <CardTitle className="flex items-center space-x-3">
+          <div className="h-8 w-8 bg-gradient-to-br from-red-500 to-pink-600 rounded-lg flex items-center justify-center">
+            <ShieldCheck className="h-4 w-4 text-white" />
+          </div>
+          <span className="text-gray-900 font-semibold">Security Policy</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6">
+        {!draft ? (
+          <div className="animate-pulse h-24 bg-gray-200 rounded-lg"></div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              const allowedDomains = domains.split(/[\s,]+/).map(d => d.replace(/^@/, "")).filter(Boolean);
+              saveMutation.mutate({ ...draft, registration: { ...draft.registration, allowedDomains } });
+            }}
+            className="space-y-6"
+          >
+            <div className="space-y-3">
+              <h4 className="font-medium text-gray-900">Require two-factor authentication</h4>
+              <p className="text-sm text-gray-600">
+                People with these roles must set up two-factor authentication before they can do anything else,
+                including those already signed in.
+              </p>
+              {roles.map(({ value, label }) => (
+                <div key={value} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`require-two-factor-${value}`}
+                    checked={draft.twoFactorRequiredRoles.includes(value)}
+                    onCheckedChange={(checked) => toggleRole(value, checked === true)}
+                    data-testid={`checkbox-require-two-factor-${value}`}
+                  />
+                  <Label htmlFor={`require-two-factor-${value}`}>{label}</Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-3">
+              <h4 className="font-medium text-gray-900">Password policy</h4>
+              <p className="text-sm text-gray-600">
+                Applies to every new password. Expiry takes effect the next time people sign in.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {policyNumbers.map(({ value, label, hint, min, max }) => (
+                  <div key={value} className="space-y-1">
+                    <Label htmlFor={`password-policy-${value}`}>{label}</Label>
+                    <Input
+                      id={`password-policy-${value}`}
+                      type="number"
+                      min={min}
+                      max={max}
+                      value={draft.passwordPolicy[value]}
+                      onChange={(e) => setPolicy({ [value]: e.target.valueAsNumber || 0 })}
+                      data-testid={`input-password-policy-${value}`}
+                    />
+                    <p className="text-xs text-gray-500">{hint}</p>
+                  </div>
+                ))}
+              </div>
+              {policyFlags.map(({ value, label }) => (
+                <div key={value} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`password-policy-${value}`}
+                    checked={draft.passwordPolicy[value]}
+                    onCheckedChange={(checked) => setPolicy({ [value]: checked === true })}
+                    data-testid={`checkbox-password-policy-${value}`}
+                  />
+                  <Label htmlFor={`password-policy-${value}`}>{label}</Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-3">
+              <h4 className="font-medium text-gray-900">Registration</h4>
+              <p className="text-sm text-gray-600">
+                {registrationModes.find(mode => mode.value === draft.registration.mode)?.hint}
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <Label>Who can join</Label>
+                  <Select
+                    value={draft.registration.mode}
+                    onValueChange={(mode) => setDraft({ ...draft, registration: { ...draft.registration, mode: mode as RegistrationMode } })}
+                  >
+                    <SelectTrigger data-testid="select-registration-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {registrationModes.map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {draft.registration.mode === 'domains' && (
+                  <div className="space-y-1 sm:col-span-2">
+                    <Label htmlFor="registration-domains">Email domains</Label>
+                    <Input
+                      id="registration-domains"
+                      value={domains}
+                      onChange={(e) => setDomains(e.target.value)}
+                      placeholder="studio.com, partner.io"
+                      data-testid="input-registration-domains"
+                    />
+                    <p className="text-xs text-gray-500">Separated by commas</p>
+                  </div>
+                )}
+              </div>
+            </div>
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-security-settings">
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Monitor, Smartphone, MonitorSmartphone } from "lucide-react";
+import type { ActiveSession } from "@shared/schema";
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+// "Chrome on macOS" from a user agent string, as far as it can tell
+function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return 'Unknown device';
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? userAgent.slice(0, 60);
+}
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Mobi|Android|iPhone|iPad/.test(userAgent);
+
+// The signed-in user's sessions, each of which can be signed out
+export function ActiveSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+    retry: false,
+  });
+
+  const onError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: "Failed to sign out the session",
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: ActiveSession) => {
+      await apiRequest('DELETE', `/api/auth/sessions/${session.id}`);
+      return session;
+    },
+    onSuccess: (session) => {
+      // Signing out this session is signing out
+      if (session.current) {
+        window.location.href = "/";
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Success",
+        description: "Session signed out",
+      });
+    },
+    onError,
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('DELETE', '/api/auth/sessions');
+      return await res.json() as { revoked: number };
+    },
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Success",
+        description: revoked === 1 ? "1 other session signed out" : `${revoked} other sessions signed out`,
+      });
+    },
+    onError,
+  });
+
+  const hasOthers = !!sessions?.some(s => !s.current);
+
+  return (
+    <Card className="border-0 shadow-xl bg-white/70 backdrop-blur-sm">
+      <CardHeader className="bg-gradient-to-r from-emerald-500/10 to-teal-500/10 border-b border-gray-100">
+        <CardTitle className="flex items-center space-x-3">
+          <div className="h-8 w-8 bg-gradient-to-br from-emerald-500 to-teal-600 rounded-lg flex items-center justify-center">
+            <MonitorSmartphone className="h-4 w-4 text-white" />
+          </div>
+          <span className="text-gray-900 font-semibold">Active Sessions</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6">
+        <p className="text-sm text-gray-600 mb-4">
+          Devices signed in to your account. Signing out a session you don't recognise takes effect immediately.
+        </p>
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            {[...Array(2)].map((_, i) => (
+              <div key={i} className="h-14 bg-gray-200 rounded-lg"></div>
+            ))}
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100" data-testid="list-sessions">
+            {sessions?.map((session) => {
+              const Icon = isMobile(session.userAgent) ? Smartphone : Monitor;
+              return (
+                <li key={session.id} className="flex items-center justify-between py-3" data-testid={`session-${session.id}`}>
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <Icon className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate" title={session.userAgent ?? undefined}>
+                        {describeUserAgent(session.userAgent)}
+                        {session.current && (
+                          <Badge variant="outline" className="ml-2 text-emerald-700 bg-emerald-50 border-emerald-200">
+                            This device
+                          </Badge>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {session.ip ?? 'Unknown IP'} · Last active {formatTime(session.lastSeenAt)} · Signed in {formatTime(session.createdAt)}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(session)}
+                    disabled={revokeMutation.isPending}
+                    className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                    data-testid={`button-revoke-session-${session.id}`}
+                  >
+                    Sign out
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {hasOthers && (
+          <Button
+            variant="outline"
+            className="mt-4"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={revokeOthersMutation.isPending}
+            data-testid="button-revoke-other-sessions"
+          >
+            Sign out all other sessions
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
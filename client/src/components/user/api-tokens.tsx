@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, KeyRound, Plus } from "lucide-react";
+import { MAX_PAGE_SIZE, apiTokenLifetimes } from "@shared/schema";
+import type { ApiTokenAccess, ApiTokenSummary, CreatedApiToken, Page, ProjectWithDetails } from "@shared/schema";
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const accessLabels: Record<ApiTokenAccess, string> = {
+  read: 'Read',
+  write: 'Read and write',
+};
+
+type TokenDraft = { name: string; access: ApiTokenAccess; projectIds: string[]; expiresInDays: number };
+
+const emptyDraft: TokenDraft = { name: "", access: 'read', projectIds: [], expiresInDays: 30 };
+
+// The signed-in user's personal API tokens, for scripts and CI jobs. Each can
+// read, or also write, the projects it was created for until it expires.
+export function ApiTokens() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<TokenDraft>(emptyDraft);
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<ApiTokenSummary[]>({
+    queryKey: ["/api/auth/tokens"],
+    retry: false,
+  });
+
+  const { data: projectPage } = useQuery<Page<ProjectWithDetails>>({
+    queryKey: ["/api/projects", { pageSize: MAX_PAGE_SIZE, sort: 'name' }],
+    retry: false,
+  });
+
+  // Offered are the user's own projects - those they lead or are assigned to -
+  // even for admins, who see every project
+  const projects = (projectPage?.items ?? []).filter(project =>
+    project.projectLeadId === user?.id ||
+    project.assignments.some(assignment => assignment.userId === user?.id)
+  );
+  const projectNames = new Map((projectPage?.items ?? []).map(project => [project.id, project.name]));
+
+  const onError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: apiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: TokenDraft) => {
+      const res = await apiRequest('POST', '/api/auth/tokens', data);
+      return await res.json() as CreatedApiToken;
+    },
+    onSuccess: (token) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/tokens"] });
+      setCreated(token);
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (token: ApiTokenSummary) => {
+      await apiRequest('DELETE', `/api/auth/tokens/${token.id}`);
+      return token;
+    },
+    onSuccess: (token) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/tokens"] });
+      toast({
+        title: "Success",
+        description: `Token "${token.name}" revoked`,
+      });
+    },
+    onError,
+  });
+
+  const openDialog = () => {
+    setDraft(emptyDraft);
+    setCreated(null);
+    setOpen(true);
+  };
+
+  const toggleProject = (projectId: string, checked: boolean) => {
+    setDraft(current => ({
+      ...current,
+      projectIds: checked
+        ? [...current.projectIds, projectId]
+        : current.projectIds.filter(id => id !== projectId),
+    }));
+  };
+
+  const copy = async (token: string) => {
+    await navigator.clipboard.writeText(token);
+    toast({ title: "Copied", description: "API token copied to the clipboard" });
+  };
+
+  return (
+    <Card className="border-0 shadow-xl bg-white/70 backdrop-blur-sm">
+      <CardHeader className="bg-gradient-to-r from-slate-500/10 to-gray-500/10 border-b border-gray-100">
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-3">
+            <div className="h-8 w-8 bg-gradient-to-br from-slate-600 to-gray-800 rounded-lg flex items-center justify-center">
+              <KeyRound className="h-4 w-4 text-white" />
+            </div>
+            <span className="text-gray-900 font-semibold">API Tokens</span>
+          </span>
+          <Button size="sm" variant="outline" onClick={openDialog} data-testid="button-new-api-token">
+            <Plus className="h-4 w-4 mr-1" />
+            New token
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6">
+        <p className="text-sm text-gray-600 mb-4">
+          Scripts and CI jobs can call the project API with a token instead of signing in, by sending it
+          as <code className="text-xs bg-gray-100 rounded px-1">Authorization: Bearer &lt;token&gt;</code>.
+          A token acts as you, on the projects you choose only.
+        </p>
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            {[...Array(2)].map((_, i) => (
+              <div key={i} className="h-14 bg-gray-200 rounded-lg"></div>
+            ))}
+          </div>
+        ) : tokens?.length ? (
+          <ul className="divide-y divide-gray-100" data-testid="list-api-tokens">
+            {tokens.map((token) => {
+              const expired = new Date(token.expiresAt) <= new Date();
+              return (
+                <li key={token.id} className="flex items-center justify-between py-3" data-testid={`api-token-${token.id}`}>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {token.name}
+                      <span className="ml-2 font-mono text-xs text-gray-500">{token.prefix}…</span>
+                      <Badge variant="outline" className="ml-2">{accessLabels[token.access]}</Badge>
+                      {expired && (
+                        <Badge variant="outline" className="ml-2 text-red-700 bg-red-50 border-red-200">
+                          Expired
+                        </Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {token.projectIds.map(id => projectNames.get(id) ?? 'Unavailable project').join(', ')}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {token.lastUsedAt ? `Last used ${formatTime(token.lastUsedAt)}` : 'Never used'}
+                      {' · '}
+                      {expired ? 'Expired' : 'Expires'} {formatTime(token.expiresAt)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(token)}
+                    disabled={revokeMutation.isPending}
+                    className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                    data-testid={`button-revoke-api-token-${token.id}`}
+                  >
+                    Revoke
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500" data-testid="text-no-api-tokens">You have no API tokens.</p>
+        )}
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{created ? "Your new API token" : "New API token"}</DialogTitle>
+            <DialogDescription>
+              {created
+                ? "Copy it now and keep it somewhere safe, like your CI system's secrets. It won't be shown again."
+                : "Choose what the token can do. You can revoke it at any time."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {created ? (
+            <div className="space-y-4">
+              <div className="rounded-lg bg-gray-50 border border-gray-100 p-3 font-mono text-sm break-all" data-testid="text-new-api-token">
+                {created.token}
+              </div>
+              <div className="flex space-x-2">
+                <Button type="button" variant="outline" onClick={() => copy(created.token)} data-testid="button-copy-api-token">
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                <Button type="button" className="flex-1" onClick={() => setOpen(false)} data-testid="button-close-api-token">
+                  Done
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                createMutation.mutate(draft);
+              }}
+              className="space-y-4"
+            >
+              <div className="space-y-1">
+                <Label htmlFor="api-token-name">Name</Label>
+                <Input
+                  id="api-token-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Nightly build"
+                  maxLength={100}
+                  data-testid="input-api-token-name"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label>Access</Label>
+                  <Select value={draft.access} onValueChange={(access) => setDraft({ ...draft, access: access as ApiTokenAccess })}>
+                    <SelectTrigger data-testid="select-api-token-access">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="read">{accessLabels.read}</SelectItem>
+                      <SelectItem value="write">{accessLabels.write}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Expires after</Label>
+                  <Select
+                    value={String(draft.expiresInDays)}
+                    onValueChange={(days) => setDraft({ ...draft, expiresInDays: Number(days) })}
+                  >
+                    <SelectTrigger data-testid="select-api-token-expiry">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {apiTokenLifetimes.map(days => (
+                        <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Projects</Label>
+                {projects.length ? (
+                  <div className="max-h-48 overflow-y-auto space-y-2 rounded-lg border border-gray-100 p-3">
+                    {projects.map(project => (
+                      <div key={project.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`api-token-project-${project.id}`}
+                          checked={draft.projectIds.includes(project.id)}
+                          onCheckedChange={(checked) => toggleProject(project.id, checked === true)}
+                          data-testid={`checkbox-api-token-project-${project.id}`}
+                        />
+                        <Label htmlFor={`api-token-project-${project.id}`} className="font-normal">{project.name}</Label>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">You aren't on any projects yet.</p>
+                )}
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={createMutation.isPending || !draft.name.trim() || draft.projectIds.length === 0}
+                data-testid="button-create-api-token"
+              >
+                {createMutation.isPending ? "Creating..." : "Create token"}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
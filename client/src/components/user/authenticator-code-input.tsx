@@ -0,0 +1,40 @@
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface AuthenticatorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Called once all six digits are in
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  testId?: string;
+}
+
+// Six-digit code from an authenticator app
+export function AuthenticatorCodeInput({ value, onChange, onComplete, disabled, testId }: AuthenticatorCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={6}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus
+      containerClassName="justify-center"
+      data-testid={testId}
+    >
+      <InputOTPGroup>
+        <InputOTPSlot index={0} />
+        <InputOTPSlot index={1} />
+        <InputOTPSlot index={2} />
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        <InputOTPSlot index={3} />
+        <InputOTPSlot index={4} />
+        <InputOTPSlot index={5} />
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
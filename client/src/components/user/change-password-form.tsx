@@ -0,0 +1,125 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PasswordStrengthMeter } from "@/components/user/password-strength-meter";
+import { changePasswordSchema } from "@shared/schema";
+
+const passwordChangeFormSchema = changePasswordSchema.extend({
+  confirmPassword: z.string().min(1, "Please confirm your password"),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type PasswordChangeForm = z.infer<typeof passwordChangeFormSchema>;
+
+const inputClassName = "h-12 border-2 border-gray-200 rounded-xl focus:border-orange-400 focus:ring-orange-400/20 transition-all duration-200";
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return (
+    <p className="text-sm text-red-600 flex items-center mt-2">
+      <span className="w-4 h-4 bg-red-100 rounded-full flex items-center justify-center mr-2">!</span>
+      {message}
+    </p>
+  );
+}
+
+// Changing one's own password, on the Settings page or when it has expired
+export function ChangePasswordForm({ onChanged }: { onChanged?: () => void }) {
+  const { toast } = useToast();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+    reset,
+  } = useForm<PasswordChangeForm>({
+    resolver: zodResolver(passwordChangeFormSchema),
+    defaultValues: { currentPassword: "", newPassword: "", confirmPassword: "" },
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async ({ currentPassword, newPassword }: PasswordChangeForm) => {
+      await apiRequest("PATCH", "/api/users/password", { currentPassword, newPassword });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Password updated successfully",
+      });
+      reset();
+      onChanged?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <form onSubmit={handleSubmit((data) => changeMutation.mutate(data))} className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="currentPassword" className="text-sm font-semibold text-gray-700">Current Password</Label>
+        <Input
+          id="currentPassword"
+          type="password"
+          autoComplete="current-password"
+          {...register("currentPassword")}
+          className={inputClassName}
+          placeholder="Enter your current password"
+          data-testid="input-current-password"
+        />
+        <FieldError message={errors.currentPassword?.message} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="newPassword" className="text-sm font-semibold text-gray-700">New Password</Label>
+        <Input
+          id="newPassword"
+          type="password"
+          autoComplete="new-password"
+          {...register("newPassword")}
+          className={inputClassName}
+          placeholder="Enter your new password"
+          data-testid="input-new-password"
+        />
+        <FieldError message={errors.newPassword?.message} />
+        <PasswordStrengthMeter password={watch("newPassword")} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword" className="text-sm font-semibold text-gray-700">Confirm New Password</Label>
+        <Input
+          id="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          {...register("confirmPassword")}
+          className={inputClassName}
+          placeholder="Confirm your new password"
+          data-testid="input-confirm-password"
+        />
+        <FieldError message={errors.confirmPassword?.message} />
+      </div>
+
+      <Button
+        type="submit"
+        disabled={changeMutation.isPending}
+        className="w-full h-12 bg-gradient-to-r from-orange-500 to-red-600 hover:from-orange-600 hover:to-red-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200"
+        data-testid="button-update-password"
+      >
+        {changeMutation.isPending ? "Updating..." : "Update Password"}
+      </Button>
+    </form>
+  );
+}
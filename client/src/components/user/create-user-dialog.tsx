@@ -4,10 +4,11 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
@@ -28,48 +29,46 @@ import {
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { insertUserSchema } from "@shared/schema";
 import { z } from "zod";
 
-const createUserSchema = z.object({
+// Invitees choose their own password, and can change the suggested name
+const inviteUserSchema = z.object({
   email: z.string().email("Invalid email address"),
-  firstName: z.string().min(1, "First name is required"),
-  lastName: z.string().min(1, "Last name is required"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
   role: z.enum(['project_lead', 'developer']).default('developer'),
 });
 
-type CreateUserForm = z.infer<typeof createUserSchema>;
+type InviteUserForm = z.infer<typeof inviteUserSchema>;
 
 interface CreateUserDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
+// Adds a user by emailing them an invitation
 export function CreateUserDialog({ open, onOpenChange }: CreateUserDialogProps) {
   const { toast } = useToast();
 
-  const form = useForm<CreateUserForm>({
-    resolver: zodResolver(createUserSchema),
+  const form = useForm<InviteUserForm>({
+    resolver: zodResolver(inviteUserSchema),
     defaultValues: {
       email: "",
       firstName: "",
       lastName: "",
-      password: "",
       role: "developer",
     },
   });
 
-  const createUserMutation = useMutation({
-    mutationFn: async (data: CreateUserForm) => {
-      await apiRequest('POST', '/api/users', data);
+  const inviteUserMutation = useMutation({
+    mutationFn: async (data: InviteUserForm) => {
+      await apiRequest('POST', '/api/invitations', data);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    onSuccess: (_, data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
       toast({
-        title: "Success",
-        description: "User created successfully",
+        title: "Invitation sent",
+        description: `${data.email} can now accept the invitation from their email`,
       });
       form.reset();
       onOpenChange(false);
@@ -86,32 +85,19 @@ export function CreateUserDialog({ open, onOpenChange }: CreateUserDialogProps)
         }, 500);
         return;
       }
-      
-      // Handle validation errors
-      if (error.message.includes('Invalid user data')) {
-        toast({
-          title: "Validation Error",
-          description: "Please check your input and try again",
-          variant: "destructive",
-        });
-      } else if (error.message.includes('duplicate') || error.message.includes('unique')) {
-        toast({
-          title: "Error",
-          description: "A user with this email already exists",
-          variant: "destructive",
-        });
-      } else {
-        toast({
-          title: "Error",
-          description: "Failed to create user",
-          variant: "destructive",
-        });
-      }
+
+      // The invitation may have been saved even though its email failed
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error),
+        variant: "destructive",
+      });
     },
   });
 
-  const onSubmit = (data: CreateUserForm) => {
-    createUserMutation.mutate(data);
+  const onSubmit = (data: InviteUserForm) => {
+    inviteUserMutation.mutate(data);
   };
 
   const formatRoleLabel = (role: string) => {
@@ -130,8 +116,11 @@ export function CreateUserDialog({ open, onOpenChange }: CreateUserDialogProps)
         <div className="relative z-10">
           <DialogHeader className="pb-6">
             <DialogTitle className="text-2xl font-bold text-center bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-              Add New User
+              Invite User
             </DialogTitle>
+            <DialogDescription className="text-center">
+              We'll email them a link to choose their password and join. It expires in 7 days.
+            </DialogDescription>
           </DialogHeader>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -162,7 +151,7 @@ export function CreateUserDialog({ open, onOpenChange }: CreateUserDialogProps)
                 name="firstName"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel className="text-gray-700 font-semibold">First Name</FormLabel>
+                    <FormLabel className="text-gray-700 font-semibold">First Name (optional)</FormLabel>
                     <FormControl>
                       <Input
                         placeholder="John"
@@ -182,7 +171,7 @@ export function CreateUserDialog({ open, onOpenChange }: CreateUserDialogProps)
                 name="lastName"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel className="text-gray-700 font-semibold">Last Name</FormLabel>
+                    <FormLabel className="text-gray-700 font-semibold">Last Name (optional)</FormLabel>
                     <FormControl>
                       <Input
                         placeholder="Doe"
@@ -198,27 +187,6 @@ export function CreateUserDialog({ open, onOpenChange }: CreateUserDialogProps)
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="password"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-gray-700 font-semibold">Password</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="password"
-                      placeholder="Enter password"
-                      className="h-12 bg-gray-50/80 border-gray-200 focus:bg-white focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200"
-                      {...field}
-                      value={field.value ?? ""}
-                      data-testid="input-user-password"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
             <FormField
               control={form.control}
               name="role"
@@ -253,11 +221,11 @@ export function CreateUserDialog({ open, onOpenChange }: CreateUserDialogProps)
               </Button>
               <Button
                 type="submit"
-                disabled={createUserMutation.isPending}
+                disabled={inviteUserMutation.isPending}
                 data-testid="button-submit-create-user"
                 className="px-6 py-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg"
               >
-                {createUserMutation.isPending ? "Creating..." : "Add User"}
+                {inviteUserMutation.isPending ? "Sending..." : "Send Invitation"}
               </Button>
             </div>
           </form>
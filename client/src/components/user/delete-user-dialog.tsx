@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import type { TrashItem, UserWithStats } from "@shared/schema";
+
+type LeadPolicy = 'reassign' | 'nullify' | 'restrict';
+type OwnedRecordsPolicy = 'reassign' | 'restrict';
+
+// Permanently deletes a user from the trash
+interface DeleteUserDialogProps {
+  user: TrashItem;
+  // Candidates for taking over the user's projects and records
+  users: UserWithStats[];
+  currentUserId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatName = (user: UserWithStats) =>
+  user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : user.email;
+
+export function DeleteUserDialog({ user, users, currentUserId, open, onOpenChange }: DeleteUserDialogProps) {
+  const { toast } = useToast();
+  const [projectLead, setProjectLead] = useState<LeadPolicy>('nullify');
+  const [ownedRecords, setOwnedRecords] = useState<OwnedRecordsPolicy>('reassign');
+  const [reassignTo, setReassignTo] = useState(currentUserId);
+
+  const reassignees = users.filter(u => u.id !== user.id && u.role !== 'developer');
+  const needsReassignee = projectLead === 'reassign' || ownedRecords === 'reassign';
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/trash/user/${user.id}`, {
+        projectLead,
+        ownedRecords,
+        reassignTo: needsReassignee ? reassignTo : undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: "User permanently deleted",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+
+      // A refused delete comes back as 409 with the reason
+      if (error.message.startsWith('409')) {
+        const body = JSON.parse(error.message.slice(error.message.indexOf('{')));
+        toast({
+          title: "User not deleted",
+          description: body.message,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Error",
+          description: "Failed to delete user",
+          variant: "destructive",
+        });
+      }
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] bg-white/95 backdrop-blur-xl border-0 shadow-2xl" data-testid="dialog-delete-user">
+        <DialogHeader className="pb-2">
+          <DialogTitle className="text-2xl font-bold text-gray-900">
+            Permanently delete {user.name}?
+          </DialogTitle>
+          <DialogDescription>
+            This cannot be undone. Their project assignments are removed. Choose what happens to the projects
+            they lead and the projects, assignments and documents they created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label className="text-gray-700 font-semibold">Projects they lead</Label>
+            <Select value={projectLead} onValueChange={(value) => setProjectLead(value as LeadPolicy)}>
+              <SelectTrigger className="h-12 bg-gray-50/80 border-gray-200" data-testid="select-delete-lead-policy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="nullify">Leave without a lead</SelectItem>
+                <SelectItem value="reassign">Hand over to another user</SelectItem>
+                <SelectItem value="restrict">Don't delete if they lead any</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-gray-700 font-semibold">Projects, assignments and documents they created</Label>
+            <Select value={ownedRecords} onValueChange={(value) => setOwnedRecords(value as OwnedRecordsPolicy)}>
+              <SelectTrigger className="h-12 bg-gray-50/80 border-gray-200" data-testid="select-delete-owned-policy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="reassign">Hand over to another user</SelectItem>
+                <SelectItem value="restrict">Don't delete if they created any</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {needsReassignee && (
+            <div className="space-y-2">
+              <Label className="text-gray-700 font-semibold">Hand over to</Label>
+              <Select value={reassignTo} onValueChange={setReassignTo}>
+                <SelectTrigger className="h-12 bg-gray-50/80 border-gray-200" data-testid="select-delete-reassign-to">
+                  <SelectValue placeholder="Select a user" />
+                </SelectTrigger>
+                <SelectContent>
+                  {reassignees.map(candidate => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {formatName(candidate)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            data-testid="button-cancel-delete-user"
+            className="px-6 py-2 border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => deleteUserMutation.mutate()}
+            disabled={deleteUserMutation.isPending || (needsReassignee && !reassignTo)}
+            data-testid="button-confirm-delete-user"
+            className="px-6 py-2"
+          >
+            {deleteUserMutation.isPending ? "Deleting..." : "Delete Permanently"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
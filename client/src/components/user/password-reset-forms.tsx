@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { PasswordStrengthMeter } from "@/components/user/password-strength-meter";
+import { forgotPasswordSchema, resetPasswordSchema } from "@shared/schema";
+import { KeyRound, MailCheck } from "lucide-react";
+
+const newPasswordSchema = resetPasswordSchema.pick({ password: true }).extend({
+  confirmPassword: z.string().min(1, "Please confirm your password"),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type ForgotPasswordForm = z.infer<typeof forgotPasswordSchema>;
+type NewPasswordForm = z.infer<typeof newPasswordSchema>;
+
+const inputClassName = "h-12 px-4 bg-gray-50 border-gray-200 focus:bg-white focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200";
+const submitClassName = "w-full h-12 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold rounded-lg shadow-lg";
+
+function ScreenHeading({ icon: Icon, title, children }: { icon: typeof KeyRound; title: string; children: React.ReactNode }) {
+  return (
+    <div className="text-center space-y-2">
+      <div className="mx-auto h-12 w-12 bg-indigo-100 rounded-full flex items-center justify-center">
+        <Icon className="h-6 w-6 text-indigo-600" />
+      </div>
+      <h3 className="font-semibold text-gray-900">{title}</h3>
+      <p className="text-sm text-gray-600">{children}</p>
+    </div>
+  );
+}
+
+// Asks for the email to send a reset link to. The server answers the same
+// way for every address, so this only ever says the link may be on its way.
+export function ForgotPasswordForm({ onBack }: { onBack: () => void }) {
+  const { toast } = useToast();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const form = useForm<ForgotPasswordForm>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const forgotMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordForm) => {
+      await apiRequest("POST", "/api/auth/forgot", data);
+    },
+    onSuccess: (_, data) => setSentTo(data.email),
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (sentTo) {
+    return (
+      <div className="space-y-6">
+        <ScreenHeading icon={MailCheck} title="Check your email">
+          If an account uses <span className="font-medium" data-testid="text-reset-sent-to">{sentTo}</span>, we've
+          sent it a link to reset the password. The link expires in an hour.
+        </ScreenHeading>
+        <Button type="button" variant="outline" className="w-full h-12" onClick={onBack} data-testid="button-back-to-sign-in">
+          Back to sign in
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => forgotMutation.mutate(data))} className="space-y-6">
+        <ScreenHeading icon={KeyRound} title="Forgot your password?">
+          Enter your email address and we'll send you a link to choose a new one.
+        </ScreenHeading>
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-gray-700 font-medium">Email Address</FormLabel>
+              <FormControl>
+                <Input type="email" autoFocus className={inputClassName} {...field} data-testid="input-forgot-email" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className={submitClassName} disabled={forgotMutation.isPending} data-testid="button-send-reset-link">
+          {forgotMutation.isPending ? "Sending..." : "Send reset link"}
+        </Button>
+        <button
+          type="button"
+          className="block mx-auto text-sm text-gray-500 hover:underline"
+          onClick={onBack}
+          data-testid="button-back-to-sign-in"
+        >
+          Back to sign in
+        </button>
+      </form>
+    </Form>
+  );
+}
+
+interface ResetPasswordFormProps {
+  // From the emailed link
+  token: string;
+  onDone: () => void;
+  onRequestNewLink: () => void;
+}
+
+// Choosing a new password with the token from a reset link
+export function ResetPasswordForm({ token, onDone, onRequestNewLink }: ResetPasswordFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<NewPasswordForm>({
+    resolver: zodResolver(newPasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: NewPasswordForm) => {
+      await apiRequest("POST", "/api/auth/reset", { token, password: data.password });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Your password has been reset. Sign in with your new password.",
+      });
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-6">
+        <ScreenHeading icon={KeyRound} title="Choose a new password">
+          Once it's changed, you're signed out everywhere you were signed in.
+        </ScreenHeading>
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-gray-700 font-medium">New Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" autoFocus className={inputClassName} {...field} data-testid="input-reset-password" />
+              </FormControl>
+              <FormMessage />
+              <PasswordStrengthMeter password={field.value} />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-gray-700 font-medium">Confirm New Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" className={inputClassName} {...field} data-testid="input-reset-confirm-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className={submitClassName} disabled={resetMutation.isPending} data-testid="button-reset-password">
+          {resetMutation.isPending ? "Saving..." : "Reset password"}
+        </Button>
+        <button
+          type="button"
+          className="block mx-auto text-sm text-blue-600 hover:underline"
+          onClick={onRequestNewLink}
+          data-testid="button-request-new-link"
+        >
+          Link expired? Get a new one
+        </button>
+      </form>
+    </Form>
+  );
+}
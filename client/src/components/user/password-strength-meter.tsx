@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { Check, X } from "lucide-react";
+import { passwordRules, passwordStrength } from "@shared/password-policy";
+import type { PasswordPolicy } from "@shared/schema";
+
+const levels = [
+  { label: "Very weak", className: "bg-red-500" },
+  { label: "Weak", className: "bg-orange-500" },
+  { label: "Fair", className: "bg-yellow-500" },
+  { label: "Good", className: "bg-lime-500" },
+  { label: "Strong", className: "bg-green-500" },
+];
+
+// Shown under a new password field: how strong the password looks, and which
+// of the workspace's password rules it meets. The server has the final say -
+// it also refuses common and recently used passwords.
+export function PasswordStrengthMeter({ password }: { password: string }) {
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/auth/password-policy"],
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  if (!password) return null;
+
+  const strength = passwordStrength(password);
+  const level = levels[strength];
+
+  return (
+    <div className="space-y-2" data-testid="password-strength-meter">
+      <div className="flex items-center space-x-3">
+        <div className="flex flex-1 space-x-1">
+          {levels.slice(1).map((_, index) => (
+            <div
+              key={index}
+              className={`h-1.5 flex-1 rounded-full ${index < strength ? level.className : "bg-gray-200"}`}
+            />
+          ))}
+        </div>
+        <span className="text-xs font-medium text-gray-600 w-16 text-right" data-testid="text-password-strength">
+          {level.label}
+        </span>
+      </div>
+      {policy && (
+        <ul className="space-y-1">
+          {passwordRules(password, policy).map((rule) => (
+            <li
+              key={rule.label}
+              className={`flex items-center text-xs ${rule.met ? "text-green-700" : "text-gray-500"}`}
+            >
+              {rule.met ? <Check className="h-3 w-3 mr-1.5" /> : <X className="h-3 w-3 mr-1.5" />}
+              {rule.label}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
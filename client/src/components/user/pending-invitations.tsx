@@ -0,0 +1,151 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { MailPlus, Send, X } from "lucide-react";
+import type { PendingInvitation } from "@shared/schema";
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const roleLabels: Record<PendingInvitation['role'], string> = {
+  admin: 'Admin',
+  project_lead: 'Project Lead',
+  developer: 'Developer',
+};
+
+// Invitations nobody has accepted yet, for admins to resend or revoke. Shown
+// only while there are some.
+export function PendingInvitations() {
+  const { toast } = useToast();
+
+  const { data: invitations } = useQuery<PendingInvitation[]>({
+    queryKey: ["/api/invitations"],
+    retry: false,
+  });
+
+  const onError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: apiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const resendMutation = useMutation({
+    mutationFn: async (invitation: PendingInvitation) => {
+      await apiRequest('POST', `/api/invitations/${invitation.id}/resend`);
+      return invitation;
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({
+        title: "Invitation sent",
+        description: `A new link is on its way to ${invitation.email}. Earlier links no longer work.`,
+      });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitation: PendingInvitation) => {
+      await apiRequest('DELETE', `/api/invitations/${invitation.id}`);
+      return invitation;
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({
+        title: "Success",
+        description: `Invitation for ${invitation.email} revoked`,
+      });
+    },
+    onError,
+  });
+
+  if (!invitations?.length) return null;
+
+  const now = Date.now();
+
+  return (
+    <Card className="border-0 shadow-xl bg-white/80 backdrop-blur-sm rounded-2xl overflow-hidden mb-8">
+      <CardHeader className="bg-gradient-to-r from-amber-500/10 to-orange-500/10 border-b border-gray-100">
+        <CardTitle className="flex items-center space-x-3">
+          <div className="h-8 w-8 bg-gradient-to-br from-amber-500 to-orange-600 rounded-lg flex items-center justify-center">
+            <MailPlus className="h-4 w-4 text-white" />
+          </div>
+          <span className="text-gray-900 font-semibold">Pending Invitations</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6">
+        <ul className="divide-y divide-gray-100" data-testid="list-invitations">
+          {invitations.map((invitation) => {
+            const expired = new Date(invitation.expiresAt).getTime() <= now;
+            const name = [invitation.firstName, invitation.lastName].filter(Boolean).join(' ');
+            return (
+              <li key={invitation.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3" data-testid={`invitation-${invitation.id}`}>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {invitation.email}
+                    {name && <span className="text-gray-500 font-normal"> · {name}</span>}
+                    <Badge variant="outline" className="ml-2">{roleLabels[invitation.role]}</Badge>
+                    {expired && (
+                      <Badge variant="outline" className="ml-2 text-red-700 bg-red-50 border-red-200" data-testid={`badge-invitation-expired-${invitation.id}`}>
+                        Expired
+                      </Badge>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Sent {formatTime(invitation.sentAt)} · {expired ? 'Expired' : 'Expires'} {formatTime(invitation.expiresAt)}
+                  </p>
+                </div>
+                <div className="flex space-x-2 flex-shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => resendMutation.mutate(invitation)}
+                    disabled={resendMutation.isPending}
+                    data-testid={`button-resend-invitation-${invitation.id}`}
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    Resend
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(invitation)}
+                    disabled={revokeMutation.isPending}
+                    className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                    data-testid={`button-revoke-invitation-${invitation.id}`}
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Revoke
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Check, UserCheck, X } from "lucide-react";
+import type { PendingRegistration, User } from "@shared/schema";
+
+type Role = User['role'];
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const roleLabels: Record<Role, string> = {
+  admin: 'Admin',
+  project_lead: 'Project Lead',
+  developer: 'Developer',
+};
+
+// People who signed up themselves and are waiting for an admin to approve
+// them, with the role they get, or reject them. Shown only while there are
+// some.
+export function PendingRegistrations() {
+  const { toast } = useToast();
+  // The role chosen for each sign-up; developer unless changed
+  const [roles, setRoles] = useState<Record<string, Role>>({});
+
+  const { data: registrations } = useQuery<PendingRegistration[]>({
+    queryKey: ["/api/registrations"],
+    retry: false,
+  });
+
+  const onError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: apiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async ({ registration, role }: { registration: PendingRegistration; role: Role }) => {
+      await apiRequest('POST', `/api/registrations/${registration.id}/approve`, { role });
+      return registration;
+    },
+    onSuccess: (registration) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/registrations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: `${registration.email} can now sign in`,
+      });
+    },
+    onError,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async (registration: PendingRegistration) => {
+      await apiRequest('DELETE', `/api/registrations/${registration.id}`);
+      return registration;
+    },
+    onSuccess: (registration) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/registrations"] });
+      toast({
+        title: "Success",
+        description: `Sign-up from ${registration.email} rejected`,
+      });
+    },
+    onError,
+  });
+
+  if (!registrations?.length) return null;
+
+  return (
+    <Card className="border-0 shadow-xl bg-white/80 backdrop-blur-sm rounded-2xl overflow-hidden mb-8">
+      <CardHeader className="bg-gradient-to-r from-emerald-500/10 to-teal-500/10 border-b border-gray-100">
+        <CardTitle className="flex items-center space-x-3">
+          <div className="h-8 w-8 bg-gradient-to-br from-emerald-500 to-teal-600 rounded-lg flex items-center justify-center">
+            <UserCheck className="h-4 w-4 text-white" />
+          </div>
+          <span className="text-gray-900 font-semibold">Waiting for Approval</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6">
+        <ul className="divide-y divide-gray-100" data-testid="list-registrations">
+          {registrations.map((registration) => {
+            const role = roles[registration.id] ?? 'developer';
+            return (
+              <li key={registration.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3" data-testid={`registration-${registration.id}`}>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {registration.email}
+                    <span className="text-gray-500 font-normal"> · {registration.firstName} {registration.lastName}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">Signed up {formatTime(registration.createdAt)}</p>
+                </div>
+                <div className="flex space-x-2 flex-shrink-0">
+                  <Select
+                    value={role}
+                    onValueChange={(value) => setRoles({ ...roles, [registration.id]: value as Role })}
+                  >
+                    <SelectTrigger className="w-36 h-9" data-testid={`select-registration-role-${registration.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(roleLabels) as Role[]).map(value => (
+                        <SelectItem key={value} value={value}>{roleLabels[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => approveMutation.mutate({ registration, role })}
+                    disabled={approveMutation.isPending}
+                    data-testid={`button-approve-registration-${registration.id}`}
+                  >
+                    <Check className="h-4 w-4 mr-2" />
+                    Approve
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => rejectMutation.mutate(registration)}
+                    disabled={rejectMutation.isPending}
+                    className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                    data-testid={`button-reject-registration-${registration.id}`}
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
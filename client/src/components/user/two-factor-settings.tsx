@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AuthenticatorCodeInput } from "@/components/user/authenticator-code-input";
+import { RecoveryCodesList, TwoFactorSetup } from "@/components/user/two-factor-setup";
+import { KeyRound } from "lucide-react";
+import type { TwoFactorStatus } from "@shared/schema";
+
+type DialogMode = 'setup' | 'recovery-codes' | 'disable';
+
+const dialogTitles: Record<DialogMode, string> = {
+  'setup': "Set up two-factor authentication",
+  'recovery-codes': "New recovery codes",
+  'disable': "Turn off two-factor authentication",
+};
+
+// Two-factor authentication of the signed-in user: turning it on and off, and
+// replacing the recovery codes
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<DialogMode | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/two-factor"],
+    retry: false,
+  });
+
+  const openDialog = (next: DialogMode) => {
+    setCode("");
+    setRecoveryCode("");
+    setUseRecoveryCode(false);
+    setNewRecoveryCodes(null);
+    setMode(next);
+  };
+
+  const closeDialog = () => {
+    setMode(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/two-factor"] });
+  };
+
+  const onError = (error: Error) => {
+    setCode("");
+    toast({
+      title: "Error",
+      description: apiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const recoveryCodesMutation = useMutation({
+    mutationFn: async (appCode: string) => {
+      const res = await apiRequest("POST", "/api/auth/two-factor/recovery-codes", { code: appCode });
+      return await res.json() as { recoveryCodes: string[] };
+    },
+    onSuccess: (result) => setNewRecoveryCodes(result.recoveryCodes),
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (appCode: string) => {
+      await apiRequest(
+        "POST",
+        "/api/auth/two-factor/disable",
+        useRecoveryCode ? { recoveryCode } : { code: appCode },
+      );
+    },
+    onSuccess: () => {
+      closeDialog();
+      toast({
+        title: "Success",
+        description: "Two-factor authentication turned off",
+      });
+    },
+    onError,
+  });
+
+  const submitCode = (appCode = code) => {
+    if (mode === 'recovery-codes') recoveryCodesMutation.mutate(appCode);
+    if (mode === 'disable') disableMutation.mutate(appCode);
+  };
+  const isPending = recoveryCodesMutation.isPending || disableMutation.isPending;
+
+  return (
+    <Card className="border-0 shadow-xl bg-white/70 backdrop-blur-sm">
+      <CardHeader className="bg-gradient-to-r from-sky-500/10 to-indigo-500/10 border-b border-gray-100">
+        <CardTitle className="flex items-center space-x-3">
+          <div className="h-8 w-8 bg-gradient-to-br from-sky-500 to-indigo-600 rounded-lg flex items-center justify-center">
+            <KeyRound className="h-4 w-4 text-white" />
+          </div>
+          <span className="text-gray-900 font-semibold">Two-Factor Authentication</span>
+          {status?.enabled && (
+            <Badge className="bg-green-100 text-green-800 border-0" data-testid="badge-two-factor-on">On</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {isLoading || !status ? (
+          <div className="animate-pulse h-14 bg-gray-200 rounded-lg"></div>
+        ) : status.enabled ? (
+          <>
+            <p className="text-sm text-gray-600">
+              Signing in asks for a code from your authenticator app after your password.
+              You have {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'}.
+            </p>
+            <div className="flex flex-wrap gap-3">
+              <Button variant="outline" onClick={() => openDialog('recovery-codes')} data-testid="button-new-recovery-codes">
+                New recovery codes
+              </Button>
+              <Button
+                variant="outline"
+                className="text-red-600 hover:text-red-700"
+                onClick={() => openDialog('disable')}
+                disabled={status.required}
+                data-testid="button-disable-two-factor"
+              >
+                Turn off
+              </Button>
+            </div>
+            {status.required && (
+              <p className="text-xs text-gray-500">Your role requires two-factor authentication, so it can't be turned off.</p>
+            )}
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Protect your account with a code from an authenticator app as well as your password.
+            </p>
+            <Button onClick={() => openDialog('setup')} data-testid="button-setup-two-factor">
+              Set up two-factor authentication
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={mode !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{mode && dialogTitles[mode]}</DialogTitle>
+            {mode === 'recovery-codes' && !newRecoveryCodes && (
+              <DialogDescription>Your current recovery codes stop working once you have new ones.</DialogDescription>
+            )}
+          </DialogHeader>
+
+          {mode === 'setup' && <TwoFactorSetup onComplete={closeDialog} />}
+
+          {mode === 'recovery-codes' && newRecoveryCodes && (
+            <div className="space-y-4">
+              <RecoveryCodesList codes={newRecoveryCodes} />
+              <Button className="w-full" onClick={closeDialog} data-testid="button-close-recovery-codes">Done</Button>
+            </div>
+          )}
+
+          {(mode === 'disable' || (mode === 'recovery-codes' && !newRecoveryCodes)) && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitCode();
+              }}
+              className="space-y-4"
+            >
+              <p className="text-sm text-gray-600">
+                {useRecoveryCode ? "Enter one of your recovery codes." : "Enter the 6-digit code from your authenticator app."}
+              </p>
+              {useRecoveryCode ? (
+                <Input
+                  value={recoveryCode}
+                  onChange={(e) => setRecoveryCode(e.target.value)}
+                  placeholder="xxxxx-xxxxx"
+                  autoFocus
+                  className="text-center font-mono"
+                  data-testid="input-recovery-code"
+                />
+              ) : (
+                <AuthenticatorCodeInput
+                  value={code}
+                  onChange={setCode}
+                  onComplete={submitCode}
+                  disabled={isPending}
+                  testId="input-two-factor-code"
+                />
+              )}
+              <Button
+                type="submit"
+                className="w-full"
+                variant={mode === 'disable' ? "destructive" : "default"}
+                disabled={isPending || (useRecoveryCode ? !recoveryCode.trim() : code.length < 6)}
+                data-testid="button-confirm-two-factor-code"
+              >
+                {mode === 'disable' ? "Turn off" : "Create new codes"}
+              </Button>
+              {mode === 'disable' && (
+                <button
+                  type="button"
+                  className="block mx-auto text-sm text-blue-600 hover:underline"
+                  onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                >
+                  {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+                </button>
+              )}
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
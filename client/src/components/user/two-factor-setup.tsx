@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { AuthenticatorCodeInput } from "@/components/user/authenticator-code-input";
+import { Copy, Download } from "lucide-react";
+
+type SetupDetails = { secret: string; otpauthUrl: string; qrCode: string };
+
+// Recovery codes, shown once after they are created
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({ title: "Copied", description: "Recovery codes copied to the clipboard" });
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([codes.join("\n") + "\n"], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "pixelforge-nexus-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Keep these codes somewhere safe. Each one signs you in once if you lose your authenticator app,
+        and they won't be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-lg bg-gray-50 border border-gray-100 p-4 font-mono text-sm" data-testid="list-recovery-codes">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex space-x-2">
+        <Button type="button" variant="outline" size="sm" onClick={copy} data-testid="button-copy-recovery-codes">
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={download} data-testid="button-download-recovery-codes">
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface TwoFactorSetupProps {
+  // Called once the user has turned it on and seen their recovery codes
+  onComplete: () => void;
+}
+
+// Setting up two-factor authentication: scan the QR code, confirm with a code
+// from the app, save the recovery codes
+export function TwoFactorSetup({ onComplete }: TwoFactorSetupProps) {
+  const { toast } = useToast();
+  const [details, setDetails] = useState<SetupDetails | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const onError = (error: Error) => {
+    setCode("");
+    toast({
+      title: "Error",
+      description: apiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/two-factor/setup");
+      return await res.json() as SetupDetails;
+    },
+    onSuccess: setDetails,
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (appCode: string) => {
+      const res = await apiRequest("POST", "/api/auth/two-factor/enable", { code: appCode });
+      return await res.json() as { recoveryCodes: string[] };
+    },
+    onSuccess: (result) => setRecoveryCodes(result.recoveryCodes),
+    onError,
+  });
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="font-medium text-gray-900">Two-factor authentication is on</p>
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button className="w-full" onClick={onComplete} data-testid="button-finish-two-factor-setup">
+          I've saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (!details) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          You'll need an authenticator app such as Google Authenticator, 1Password or Authy. Each time you
+          sign in, you enter a code from the app after your password.
+        </p>
+        <Button
+          className="w-full"
+          onClick={() => startMutation.mutate()}
+          disabled={startMutation.isPending}
+          data-testid="button-start-two-factor-setup"
+        >
+          {startMutation.isPending ? "Starting..." : "Get started"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        enableMutation.mutate(code);
+      }}
+      className="space-y-4"
+    >
+      <p className="text-sm text-gray-600">Scan this QR code with your authenticator app.</p>
+      <img src={details.qrCode} alt="QR code for your authenticator app" className="mx-auto h-48 w-48" data-testid="img-two-factor-qr" />
+      <p className="text-xs text-gray-500 text-center">
+        Can't scan it? Enter this key instead:
+        <span className="block mt-1 font-mono text-sm text-gray-800 break-all" data-testid="text-two-factor-secret">
+          {details.secret.match(/.{1,4}/g)!.join(" ")}
+        </span>
+      </p>
+      <p className="text-sm text-gray-600">Then enter the 6-digit code the app shows.</p>
+      <AuthenticatorCodeInput
+        value={code}
+        onChange={setCode}
+        onComplete={(appCode) => enableMutation.mutate(appCode)}
+        disabled={enableMutation.isPending}
+        testId="input-two-factor-setup-code"
+      />
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={enableMutation.isPending || code.length < 6}
+        data-testid="button-enable-two-factor"
+      >
+        {enableMutation.isPending ? "Verifying..." : "Turn on two-factor authentication"}
+      </Button>
+    </form>
+  );
+}
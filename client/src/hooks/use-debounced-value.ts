@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+
+// Follows `value` once it has stopped changing for `delay` ms, e.g. to query
+// the server as the user types
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -2,7 +2,10 @@ import { useQuery } from "@tanstack/react-query";
 import type { User } from "@shared/schema";
 
 export function useAuth() {
-  const { data: user, isLoading, error } = useQuery<User>({
+  // Users whose role requires two-factor authentication get nothing done
+  // until they have set it up, nor those whose password has expired until
+  // they have changed it
+  const { data: user, isLoading, error } = useQuery<User & { twoFactorSetupRequired?: boolean; passwordChangeRequired?: boolean }>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
@@ -16,5 +19,7 @@ export function useAuth() {
     user,
     isLoading,
     isAuthenticated: !!user,
+    twoFactorSetupRequired: !!user?.twoFactorSetupRequired,
+    passwordChangeRequired: !!user?.passwordChangeRequired,
   };
 }
@@ -7,14 +7,26 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// What went wrong, from an error thrown for a failed response: the body's
+// `message` where it has one
+export function apiErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers?: Record<string, string>,
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: { ...(data ? { "Content-Type": "application/json" } : {}), ...headers },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -23,13 +35,33 @@ export async function apiRequest(
   return res;
 }
 
+// Query keys are URL segments, optionally ending in an object of query string
+// parameters - ["/api/projects", { page: 2 }] fetches /api/projects?page=2.
+// Empty parameters are left out.
+function queryKeyToUrl(queryKey: readonly unknown[]): string {
+  const last = queryKey[queryKey.length - 1];
+  if (last === null || typeof last !== "object") {
+    return queryKey.join("/");
+  }
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(last)) {
+    if (value !== undefined && value !== null && value !== "") {
+      params.set(key, String(value));
+    }
+  }
+  const path = queryKey.slice(0, -1).join("/");
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(queryKeyToUrl(queryKey), {
       credentials: "include",
     });
 
@@ -0,0 +1,200 @@
+import { useEffect } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { PasswordStrengthMeter } from "@/components/user/password-strength-meter";
+import { Gamepad2, MailX } from "lucide-react";
+import { acceptInvitationSchema } from "@shared/schema";
+import type { InvitationDetails } from "@shared/schema";
+
+const acceptFormSchema = acceptInvitationSchema.omit({ token: true }).extend({
+  confirmPassword: z.string().min(1, "Please confirm your password"),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type AcceptForm = z.infer<typeof acceptFormSchema>;
+
+const roleLabels: Record<InvitationDetails['role'], string> = {
+  admin: 'an admin',
+  project_lead: 'a project lead',
+  developer: 'a developer',
+};
+
+// Where invite links from the emails land: /invite?token=... The invitee
+// chooses their name and password, and is signed in to their new account.
+export default function AcceptInvitation() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const token = new URLSearchParams(useSearch()).get("token") ?? "";
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationDetails>({
+    queryKey: ["/api/auth/invitation", { token }],
+    retry: false,
+    enabled: !!token,
+  });
+
+  const form = useForm<AcceptForm>({
+    resolver: zodResolver(acceptFormSchema),
+    defaultValues: {
+      firstName: "",
+      lastName: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  useEffect(() => {
+    if (invitation) {
+      form.reset({
+        ...form.getValues(),
+        firstName: invitation.firstName ?? "",
+        lastName: invitation.lastName ?? "",
+      });
+    }
+  }, [invitation, form]);
+
+  const acceptMutation = useMutation({
+    mutationFn: async (data: AcceptForm) => {
+      const res = await apiRequest("POST", "/api/auth/invitation", {
+        token,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        password: data.password,
+      });
+      return await res.json();
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/auth/user"], user);
+      // Picks up whether two-factor setup is needed first
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      toast({
+        title: "Welcome!",
+        description: "Your account is ready.",
+      });
+      setLocation("/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const inputClassName = "h-12 px-4 bg-gray-50 border-gray-200 focus:bg-white focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-100 via-blue-50 to-indigo-100 flex items-center justify-center py-12 px-4">
+      <Card className="max-w-md w-full shadow-2xl border-0 bg-white/90">
+        <CardHeader className="text-center space-y-3">
+          <div className="mx-auto h-12 w-12 bg-gradient-to-br from-blue-600 via-indigo-600 to-purple-600 rounded-xl flex items-center justify-center">
+            <Gamepad2 className="h-6 w-6 text-white" />
+          </div>
+          <CardTitle data-testid="text-accept-invitation-title">Join PixelForge Nexus</CardTitle>
+          {invitation && (
+            <p className="text-sm text-gray-600">
+              You've been invited as {roleLabels[invitation.role]} with{" "}
+              <span className="font-medium text-gray-900">{invitation.email}</span>. Choose your name and a password to finish.
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse h-48 bg-gray-200 rounded-lg"></div>
+          ) : !token || error || !invitation ? (
+            <div className="text-center space-y-4">
+              <div className="mx-auto h-12 w-12 bg-red-100 rounded-full flex items-center justify-center">
+                <MailX className="h-6 w-6 text-red-600" />
+              </div>
+              <p className="text-sm text-gray-600" data-testid="text-invitation-invalid">
+                This invitation is invalid or has expired. Ask your administrator to send you a new one.
+              </p>
+              <Button variant="outline" className="w-full" onClick={() => setLocation("/login")}>
+                Go to sign in
+              </Button>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => acceptMutation.mutate(data))} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="firstName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-gray-700 font-medium">First Name</FormLabel>
+                        <FormControl>
+                          <Input className={inputClassName} {...field} data-testid="input-invitation-first-name" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="lastName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-gray-700 font-medium">Last Name</FormLabel>
+                        <FormControl>
+                          <Input className={inputClassName} {...field} data-testid="input-invitation-last-name" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 font-medium">Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" className={inputClassName} {...field} data-testid="input-invitation-password" />
+                      </FormControl>
+                      <FormMessage />
+                      <PasswordStrengthMeter password={field.value} />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 font-medium">Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" className={inputClassName} {...field} data-testid="input-invitation-confirm-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full h-12 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold rounded-lg shadow-lg"
+                  disabled={acceptMutation.isPending}
+                  data-testid="button-accept-invitation"
+                >
+                  {acceptMutation.isPending ? "Creating your account..." : "Create account"}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+import { useEffect, useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Sidebar } from "@/components/layout/sidebar";
+import { ListPagination } from "@/components/layout/list-pagination";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { ScrollText, Download, ShieldCheck, ShieldAlert, Menu } from "lucide-react";
+import { MAX_PAGE_SIZE, auditActions, auditTargetTypes } from "@shared/schema";
+import type { AuditChainStatus, AuditChanges, AuditEntry, Page, UserWithStats } from "@shared/schema";
+
+const PAGE_SIZE = 25;
+
+export default function Audit() {
+  const { user, isLoading } = useAuth();
+  const { toast } = useToast();
+  const [action, setAction] = useState("all");
+  const [targetType, setTargetType] = useState("all");
+  const [actorId, setActorId] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [page, setPage] = useState(1);
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !user) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [user, isLoading, toast]);
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!isLoading && user && user.role !== 'admin') {
+      toast({
+        title: "Access Denied",
+        description: "You don't have permission to access this page.",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/";
+      }, 500);
+      return;
+    }
+  }, [user, isLoading, toast]);
+
+  // Dates are picked as whole days in the browser's time zone
+  const filters = {
+    action: action === 'all' ? undefined : action,
+    targetType: targetType === 'all' ? undefined : targetType,
+    actorId: actorId === 'all' ? undefined : actorId,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+  };
+
+  const { data: entryPage, isLoading: entriesLoading } = useQuery<Page<AuditEntry>>({
+    queryKey: ["/api/audit", { ...filters, page, pageSize: PAGE_SIZE }],
+    retry: false,
+    placeholderData: keepPreviousData,
+    enabled: user?.role === 'admin',
+  });
+  const entries = entryPage?.items;
+
+  const { data: chain } = useQuery<AuditChainStatus>({
+    queryKey: ["/api/audit/verify"],
+    retry: false,
+    staleTime: 0,
+    enabled: user?.role === 'admin',
+  });
+
+  const { data: users } = useQuery<Page<UserWithStats>, Error, UserWithStats[]>({
+    queryKey: ["/api/users", { sort: 'email', pageSize: MAX_PAGE_SIZE }],
+    retry: false,
+    select: (data) => data.items,
+    enabled: user?.role === 'admin',
+  });
+
+  // Any change to the filters starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [action, targetType, actorId, fromDate, toDate]);
+
+  if (isLoading || !user) {
+    return <div>Loading...</div>;
+  }
+
+  if (user.role !== 'admin') {
+    return null; // Will redirect via useEffect
+  }
+
+  const exportUrl = (format: 'csv' | 'json') => {
+    const params = new URLSearchParams({ format });
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value);
+    }
+    return `/api/audit/export?${params}`;
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  const formatDate = (date: Date | string) => {
+    return new Date(date).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  };
+
+  const formatChanges = (changes: AuditChanges | null) => {
+    if (!changes) return <span className="text-gray-400">—</span>;
+    return (
+      <ul className="space-y-1">
+        {Object.entries(changes).map(([field, { before, after }]) => (
+          <li key={field} className="text-xs">
+            <span className="font-semibold text-gray-700">{field}:</span>{' '}
+            <span className="text-red-600 line-through">{formatValue(before)}</span>{' '}
+            <span className="text-gray-400">→</span>{' '}
+            <span className="text-green-700">{formatValue(after)}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-indigo-50/20">
+      <Sidebar />
+
+      {/* Mobile/Desktop hamburger menu button */}
+      <div className="fixed top-4 left-4 z-50">
+        <Button
+          variant="outline"
+          size="sm"
+          className="bg-white/90 backdrop-blur-sm shadow-lg border-gray-200"
+          onClick={() => {
+            const sidebar = document.getElementById('sidebar');
+            const overlay = document.getElementById('sidebar-overlay');
+            if (sidebar && overlay) {
+              sidebar.classList.remove('-translate-x-full');
+              overlay.classList.remove('hidden');
+            }
+          }}
+        >
+          <Menu className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="lg:pl-64 pl-0">
+        <div className="p-4 lg:p-8 pt-16 lg:pt-8 max-w-7xl mx-auto">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+          <div className="space-y-1">
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent" data-testid="text-audit-title">
+              Audit Log
+            </h1>
+            <p className="text-gray-600 font-medium">Who changed what, and who downloaded which documents</p>
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" asChild data-testid="button-export-csv">
+              <a href={exportUrl('csv')} download>
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </a>
+            </Button>
+            <Button variant="outline" asChild data-testid="button-export-json">
+              <a href={exportUrl('json')} download>
+                <Download className="h-4 w-4 mr-2" />
+                JSON
+              </a>
+            </Button>
+          </div>
+        </div>
+
+        {chain && (
+          <div
+            className={`flex items-center space-x-3 rounded-xl px-4 py-3 mb-6 ${chain.valid ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}
+            data-testid="status-audit-chain"
+          >
+            {chain.valid ? <ShieldCheck className="h-5 w-5" /> : <ShieldAlert className="h-5 w-5" />}
+            <span className="font-medium">
+              {chain.valid
+                ? `Hash chain intact across all ${chain.entries} entries`
+                : `Hash chain broken at entry #${chain.brokenAt} - the log has been tampered with from there on`}
+            </span>
+          </div>
+        )}
+
+        <Card className="border-0 shadow-xl bg-white/80 backdrop-blur-sm rounded-2xl overflow-hidden">
+          <CardHeader className="bg-gradient-to-r from-indigo-500/10 via-purple-500/10 to-pink-500/10 border-b border-gray-100 pb-6">
+            <CardTitle className="flex items-center space-x-3 text-xl">
+              <div className="h-10 w-10 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-xl flex items-center justify-center">
+                <ScrollText className="h-5 w-5 text-white" />
+              </div>
+              <span className="font-bold text-gray-900">Entries</span>
+            </CardTitle>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3 pt-4">
+              <Select value={action} onValueChange={setAction}>
+                <SelectTrigger className="bg-white" data-testid="select-filter-action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {auditActions.map(a => (
+                    <SelectItem key={a} value={a}>{a}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={targetType} onValueChange={setTargetType}>
+                <SelectTrigger className="bg-white capitalize" data-testid="select-filter-target-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All targets</SelectItem>
+                  {auditTargetTypes.map(type => (
+                    <SelectItem key={type} value={type} className="capitalize">{type}s</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={actorId} onValueChange={setActorId}>
+                <SelectTrigger className="bg-white" data-testid="select-filter-actor">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Everyone</SelectItem>
+                  {users?.map(u => (
+                    <SelectItem key={u.id} value={u.id}>{u.email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="bg-white"
+                title="From"
+                data-testid="input-filter-from"
+              />
+              <Input
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="bg-white"
+                title="To"
+                data-testid="input-filter-to"
+              />
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {entriesLoading ? (
+              <div className="space-y-4 p-6">
+                {Array.from({ length: 5 }).map((_, i) => (
+                  <div key={i} className="animate-pulse">
+                    <div className="h-16 bg-gradient-to-r from-gray-200 to-gray-100 rounded-xl"></div>
+                  </div>
+                ))}
+              </div>
+            ) : entries && entries.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-b-2 border-gray-100 hover:bg-transparent">
+                      <TableHead className="font-semibold text-gray-700 py-4 px-6">#</TableHead>
+                      <TableHead className="font-semibold text-gray-700 py-4 px-6">Time</TableHead>
+                      <TableHead className="font-semibold text-gray-700 py-4 px-6">Actor</TableHead>
+                      <TableHead className="font-semibold text-gray-700 py-4 px-6">Action</TableHead>
+                      <TableHead className="font-semibold text-gray-700 py-4 px-6">Target</TableHead>
+                      <TableHead className="font-semibold text-gray-700 py-4 px-6">Changes</TableHead>
+                      <TableHead className="font-semibold text-gray-700 py-4 px-6">IP</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map(entry => (
+                      <TableRow
+                        key={entry.id}
+                        data-testid={`audit-row-${entry.sequence}`}
+                        className="hover:bg-gradient-to-r hover:from-blue-50/50 hover:to-indigo-50/50 transition-all duration-200 border-b border-gray-50 align-top"
+                      >
+                        <TableCell className="py-4 px-6 text-gray-500 font-mono text-xs" title={entry.hash}>
+                          {entry.sequence}
+                        </TableCell>
+                        <TableCell className="py-4 px-6 text-gray-700 whitespace-nowrap">
+                          {formatDate(entry.createdAt)}
+                        </TableCell>
+                        <TableCell className="py-4 px-6 text-gray-900">
+                          {entry.actorEmail ?? <span className="text-gray-400">System</span>}
+                        </TableCell>
+                        <TableCell className="py-4 px-6">
+                          <Badge variant="outline" className="font-mono text-xs whitespace-nowrap">
+                            {entry.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="py-4 px-6">
+                          <p className="font-semibold text-gray-900">{entry.targetName ?? entry.targetId}</p>
+                          <p className="text-xs text-gray-500 capitalize">{entry.targetType}</p>
+                        </TableCell>
+                        <TableCell className="py-4 px-6 max-w-sm break-words">
+                          {formatChanges(entry.changes)}
+                        </TableCell>
+                        <TableCell className="py-4 px-6 text-gray-500 font-mono text-xs">
+                          {entry.ip ?? '—'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <div className="px-6 border-t border-gray-100">
+                  <ListPagination page={entryPage!} onPageChange={setPage} label="entries" />
+                </div>
+              </div>
+            ) : hasFilters ? (
+              <div className="text-center py-16 px-6">
+                <h3 className="text-xl font-bold text-gray-900 mb-3">No matching entries</h3>
+                <p className="text-gray-500">No audit entries match these filters.</p>
+              </div>
+            ) : (
+              <div className="text-center py-16 px-6">
+                <div className="h-20 w-20 bg-gradient-to-br from-gray-100 to-gray-200 rounded-2xl flex items-center justify-center mx-auto mb-6">
+                  <ScrollText className="h-10 w-10 text-gray-400" />
+                </div>
+                <h3 className="text-xl font-bold text-gray-900 mb-3">Nothing recorded yet</h3>
+                <p className="text-gray-500 max-w-md mx-auto">Changes to users, projects and documents, and document downloads, show up here as they happen.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,7 +11,7 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Link } from "wouter";
 import { Folder, Users, Clock, FileText, Gamepad2, Menu } from "lucide-react";
-import type { ProjectWithDetails, DashboardStats } from "@shared/schema";
+import type { Page, ProjectWithDetails, DashboardStats } from "@shared/schema";
 
 // Using DashboardStats from shared schema
 
@@ -39,10 +39,10 @@ export default function Dashboard() {
     retry: false,
   });
 
-  const { data: recentProjects, isLoading: projectsLoading } = useQuery<ProjectWithDetails[]>({
-    queryKey: ["/api/projects"],
+  const { data: recentProjects, isLoading: projectsLoading } = useQuery<Page<ProjectWithDetails>, Error, ProjectWithDetails[]>({
+    queryKey: ["/api/projects", { pageSize: 5 }], // Get only recent 5 projects
     retry: false,
-    select: (data) => data?.slice(0, 5) || [], // Get only recent 5 projects
+    select: (data) => data.items,
   });
 
   if (isLoading || !user) {
@@ -1,22 +1,53 @@
 import { useState } from "react";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { loginSchema, type LoginForm } from "@shared/schema";
-import { Gamepad2, Eye, EyeOff } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { loginSchema, type LoginForm, type OidcProvider, type RegistrationPolicy } from "@shared/schema";
+import { AuthenticatorCodeInput } from "@/components/user/authenticator-code-input";
+import { ForgotPasswordForm, ResetPasswordForm } from "@/components/user/password-reset-forms";
+import { Gamepad2, Eye, EyeOff, ShieldCheck, LogIn } from "lucide-react";
+
+// A second factor sent along with the credentials, when the account has
+// two-factor authentication on
+type LoginRequest = LoginForm & { code?: string; recoveryCode?: string };
+
+type Screen = 'sign-in' | 'forgot-password' | 'reset-password';
 
 export default function Login() {
-  const [, setLocation] = useLocation();
+  const [location, setLocation] = useLocation();
   const { toast } = useToast();
+  // Reset links from the emails open /reset-password?token=...
+  const search = useSearch();
+  const resetToken = location === "/reset-password" ? new URLSearchParams(search).get("token") : null;
+  const [screen, setScreen] = useState<Screen>(
+    location === "/reset-password" ? (resetToken ? 'reset-password' : 'forgot-password') : 'sign-in',
+  );
+  // Single sign-on problems come back as /login?sso_error=...
+  const ssoError = location === "/login" ? new URLSearchParams(search).get("sso_error") : null;
   const queryClient = useQueryClient();
   const [showPassword, setShowPassword] = useState(false);
+  // Credentials that were right, waiting for a two-factor code
+  const [pendingLogin, setPendingLogin] = useState<LoginForm | null>(null);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+
+  const { data: oidcProvider } = useQuery<OidcProvider>({
+    queryKey: ["/api/auth/oidc"],
+    retry: false,
+  });
+
+  const { data: registrationPolicy } = useQuery<RegistrationPolicy>({
+    queryKey: ["/api/auth/registration"],
+    retry: false,
+  });
 
   const form = useForm<LoginForm>({
     resolver: zodResolver(loginSchema),
@@ -27,11 +58,16 @@ export default function Login() {
   });
 
   const loginMutation = useMutation({
-    mutationFn: async (data: LoginForm) => {
+    mutationFn: async (data: LoginRequest) => {
       const response = await apiRequest("POST", "/api/auth/login", data);
       return await response.json();
     },
-    onSuccess: (user) => {
+    onSuccess: (user, data) => {
+      if (user.twoFactorRequired) {
+        setPendingLogin({ email: data.email, password: data.password });
+        return;
+      }
+
       // Update the auth user query cache
       queryClient.setQueryData(["/api/auth/user"], user);
       toast({
@@ -41,9 +77,10 @@ export default function Login() {
       setLocation("/");
     },
     onError: (error: Error) => {
+      setCode("");
       toast({
         title: "Login Failed",
-        description: error.message || "Invalid email or password",
+        description: apiErrorMessage(error) || "Invalid email or password",
         variant: "destructive",
       });
     },
@@ -53,6 +90,22 @@ export default function Login() {
     loginMutation.mutate(data);
   };
 
+  const submitSecondFactor = (appCode = code) => {
+    if (!pendingLogin) return;
+    loginMutation.mutate(
+      useRecoveryCode ? { ...pendingLogin, recoveryCode } : { ...pendingLogin, code: appCode },
+    );
+  };
+
+  const backToSignIn = () => {
+    setPendingLogin(null);
+    setUseRecoveryCode(false);
+    setCode("");
+    setRecoveryCode("");
+    setScreen('sign-in');
+    if (location !== "/login") setLocation("/login");
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-100 via-blue-50 to-indigo-100 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 relative overflow-hidden">
       {/* Background Elements */}
@@ -101,6 +154,89 @@ export default function Login() {
               </div>
             </CardHeader>
             <CardContent className="space-y-6 px-8 pb-8">
+            {screen === 'forgot-password' ? (
+              <ForgotPasswordForm onBack={backToSignIn} />
+            ) : screen === 'reset-password' && resetToken ? (
+              <ResetPasswordForm
+                token={resetToken}
+                onDone={backToSignIn}
+                onRequestNewLink={() => setScreen('forgot-password')}
+              />
+            ) : pendingLogin ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  submitSecondFactor();
+                }}
+                className="space-y-6"
+              >
+                <div className="text-center space-y-2">
+                  <div className="mx-auto h-12 w-12 bg-indigo-100 rounded-full flex items-center justify-center">
+                    <ShieldCheck className="h-6 w-6 text-indigo-600" />
+                  </div>
+                  <h3 className="font-semibold text-gray-900">Two-factor authentication</h3>
+                  <p className="text-sm text-gray-600">
+                    {useRecoveryCode
+                      ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+                      : "Enter the 6-digit code from your authenticator app."}
+                  </p>
+                </div>
+
+                {useRecoveryCode ? (
+                  <Input
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    placeholder="xxxxx-xxxxx"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    className="h-12 px-4 text-center font-mono bg-gray-50 border-gray-200"
+                    data-testid="input-login-recovery-code"
+                  />
+                ) : (
+                  <AuthenticatorCodeInput
+                    value={code}
+                    onChange={setCode}
+                    onComplete={submitSecondFactor}
+                    disabled={loginMutation.isPending}
+                    testId="input-login-code"
+                  />
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full h-12 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold rounded-lg shadow-lg"
+                  disabled={loginMutation.isPending || (useRecoveryCode ? !recoveryCode.trim() : code.length < 6)}
+                  data-testid="button-verify-code"
+                >
+                  {loginMutation.isPending ? "Verifying..." : "Verify"}
+                </Button>
+
+                <div className="flex justify-between text-sm">
+                  <button
+                    type="button"
+                    className="text-blue-600 hover:underline"
+                    onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                    data-testid="button-toggle-recovery-code"
+                  >
+                    {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+                  </button>
+                  <button
+                    type="button"
+                    className="text-gray-500 hover:underline"
+                    onClick={backToSignIn}
+                    data-testid="button-back-to-sign-in"
+                  >
+                    Back to sign in
+                  </button>
+                </div>
+              </form>
+            ) : (
+            <>
+            {ssoError && (
+              <div className="rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700" data-testid="text-sso-error">
+                {ssoError}
+              </div>
+            )}
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                 <FormField
@@ -128,7 +264,17 @@ export default function Login() {
                   name="password"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel className="text-gray-700 font-medium">Password</FormLabel>
+                      <div className="flex items-center justify-between">
+                        <FormLabel className="text-gray-700 font-medium">Password</FormLabel>
+                        <button
+                          type="button"
+                          className="text-sm text-blue-600 hover:underline"
+                          onClick={() => setScreen('forgot-password')}
+                          data-testid="button-forgot-password"
+                        >
+                          Forgot password?
+                        </button>
+                      </div>
                       <FormControl>
                         <div className="relative">
                           <Input
@@ -176,11 +322,41 @@ export default function Login() {
                 </Button>
               </form>
             </Form>
+            {oidcProvider?.enabled && (
+              <>
+                <div className="flex items-center space-x-3 text-xs text-gray-400">
+                  <div className="flex-1 border-t border-gray-200" />
+                  <span>or</span>
+                  <div className="flex-1 border-t border-gray-200" />
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full h-12 font-semibold"
+                  onClick={() => { window.location.href = "/api/auth/oidc/login"; }}
+                  data-testid="button-login-sso"
+                >
+                  <LogIn className="h-4 w-4 mr-2" />
+                  Sign in with {oidcProvider.name}
+                </Button>
+              </>
+            )}
+            </>
+            )}
             
             <div className="mt-6 text-center">
-              <p className="text-sm text-gray-500">
-                Need an account? Contact your administrator.
-              </p>
+              {registrationPolicy?.mode === 'domains' ? (
+                <p className="text-sm text-gray-500">
+                  Need an account?{" "}
+                  <a href="/register" className="font-medium text-blue-600 hover:underline" data-testid="link-register">
+                    Sign up
+                  </a>
+                </p>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Need an account? Contact your administrator.
+                </p>
+              )}
             </div>
           </CardContent>
           </div>
@@ -0,0 +1,36 @@
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChangePasswordForm } from "@/components/user/change-password-form";
+import { KeyRound } from "lucide-react";
+
+// Shown in place of the app to users who signed in with a password older than
+// the password policy allows, until they change it
+export default function PasswordExpiredPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-100 via-blue-50 to-indigo-100 flex items-center justify-center py-12 px-4">
+      <Card className="max-w-md w-full shadow-2xl border-0 bg-white/90">
+        <CardHeader className="text-center space-y-3">
+          <div className="mx-auto h-12 w-12 bg-orange-100 rounded-full flex items-center justify-center">
+            <KeyRound className="h-6 w-6 text-orange-600" />
+          </div>
+          <CardTitle data-testid="text-password-expired-title">Your password has expired</CardTitle>
+          <p className="text-sm text-gray-600">
+            Your administrator requires passwords to be changed regularly. Choose a new one to continue.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ChangePasswordForm onChanged={() => queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] })} />
+          <Button
+            variant="ghost"
+            className="w-full text-gray-500"
+            onClick={() => { window.location.href = "/api/logout"; }}
+            data-testid="button-password-expired-logout"
+          >
+            Sign out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
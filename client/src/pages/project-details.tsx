@@ -8,12 +8,17 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Sidebar } from "@/components/layout/sidebar";
 import { UploadDocumentDialog } from "@/components/document/upload-document-dialog";
 import { DocumentList } from "@/components/document/document-list";
+import { EditProjectDialog } from "@/components/project/edit-project-dialog";
+import { ProjectActivity } from "@/components/project/project-activity";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { MAX_PAGE_SIZE } from "@shared/schema";
+import type { Page } from "@shared/schema";
 import { 
   Gamepad2, 
   Users, 
@@ -24,6 +29,9 @@ import {
   UserPlus, 
   UserMinus,
   Trash2,
+  Pencil,
+  Activity,
+  LayoutGrid,
   Menu
 } from "lucide-react";
 // Define types locally to avoid import issues
@@ -36,6 +44,7 @@ interface ProjectWithDetails {
   createdBy: { id: string; firstName: string | null; lastName: string | null; email: string };
   projectLead?: { id: string; firstName: string | null; lastName: string | null; email: string };
   projectLeadId: string | null;
+  version: number;
   assignments: Array<{
     id: string;
     projectId: string;
@@ -65,6 +74,7 @@ export default function ProjectDetails() {
   const { user, isLoading } = useAuth();
   const { toast } = useToast();
   const [showUploadDialog, setShowUploadDialog] = useState(false);
+  const [showEditDialog, setShowEditDialog] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<string>("");
 
   // Redirect to home if not authenticated
@@ -88,9 +98,15 @@ export default function ProjectDetails() {
     enabled: !!id,
   });
 
-  const { data: users } = useQuery<UserWithStats[]>({
-    queryKey: ["/api/users"],
+  // Admins assign project leads, project leads assign developers
+  const { data: users } = useQuery<Page<UserWithStats>, Error, UserWithStats[]>({
+    queryKey: ["/api/users", {
+      role: user?.role === 'admin' ? 'project_lead' : 'developer',
+      sort: 'email',
+      pageSize: MAX_PAGE_SIZE,
+    }],
     retry: false,
+    select: (data) => data.items,
     enabled: user?.role === 'admin' || user?.role === 'project_lead',
   });
 
@@ -165,7 +181,7 @@ export default function ProjectDetails() {
       queryClient.invalidateQueries({ queryKey: ["/api/projects", id] });
       toast({
         title: "Success",
-        description: "Document deleted successfully",
+        description: "Document moved to the trash",
       });
     },
     onError: (error) => {
@@ -250,6 +266,9 @@ export default function ProjectDetails() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  // Project leads can edit projects they lead or created
+  const canEditProject = user.role === 'admin' ||
+    (user.role === 'project_lead' && (project.projectLeadId === user.id || project.createdBy?.id === user.id));
   const canAssignUsers = user.role === 'admin' || user.role === 'project_lead';
   const canUploadDocuments = user.role === 'admin' || user.role === 'project_lead';
   const canDeleteDocuments = user.role === 'admin' || user.role === 'project_lead';
@@ -317,6 +336,17 @@ export default function ProjectDetails() {
                 <Badge className={`${getStatusColor(project.status)} px-4 py-2 text-sm font-semibold shadow-sm`} data-testid="badge-project-status">
                   {project.status.replace('_', ' ').toUpperCase()}
                 </Badge>
+                {canEditProject && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowEditDialog(true)}
+                    data-testid="button-edit-project"
+                  >
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                )}
               </div>
             </div>
 
@@ -363,163 +393,195 @@ export default function ProjectDetails() {
             </div>
           </div>
 
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-            {/* Enhanced Team Members */}
-            <Card className="border-0 shadow-xl bg-white/70 backdrop-blur-sm">
-              <CardHeader className="bg-gradient-to-r from-green-500/10 to-emerald-500/10 border-b border-gray-100 flex flex-row items-center justify-between">
-                <CardTitle className="flex items-center space-x-3">
-                  <div className="h-8 w-8 bg-gradient-to-br from-green-500 to-emerald-600 rounded-lg flex items-center justify-center">
-                    <Users className="h-4 w-4 text-white" />
-                  </div>
-                  <div>
-                    <span className="text-gray-900 font-semibold">Team Members</span>
-                    {user.role === 'project_lead' && (
-                      <p className="text-xs text-gray-500 mt-1">Assign developers to your project</p>
+          <Tabs defaultValue="overview">
+            <TabsList className="mb-6">
+              <TabsTrigger value="overview" data-testid="tab-project-overview">
+                <LayoutGrid className="h-4 w-4 mr-2" />
+                Overview
+              </TabsTrigger>
+              <TabsTrigger value="activity" data-testid="tab-project-activity">
+                <Activity className="h-4 w-4 mr-2" />
+                Activity
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="overview">
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* Enhanced Team Members */}
+                <Card className="border-0 shadow-xl bg-white/70 backdrop-blur-sm">
+                  <CardHeader className="bg-gradient-to-r from-green-500/10 to-emerald-500/10 border-b border-gray-100 flex flex-row items-center justify-between">
+                    <CardTitle className="flex items-center space-x-3">
+                      <div className="h-8 w-8 bg-gradient-to-br from-green-500 to-emerald-600 rounded-lg flex items-center justify-center">
+                        <Users className="h-4 w-4 text-white" />
+                      </div>
+                      <div>
+                        <span className="text-gray-900 font-semibold">Team Members</span>
+                        {user.role === 'project_lead' && (
+                          <p className="text-xs text-gray-500 mt-1">Assign developers to your project</p>
+                        )}
+                      </div>
+                    </CardTitle>
+                    {canAssignUsers && availableUsers.length > 0 && (
+                      <div className="flex items-center space-x-2">
+                        <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+                          <SelectTrigger className="w-64">
+                            <SelectValue placeholder="Select user" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {availableUsers.map((user) => (
+                              <SelectItem key={user.id} value={user.id}>
+                                <div className="flex items-center justify-between w-full">
+                                  <span>
+                                    {user.firstName && user.lastName 
+                                      ? `${user.firstName} ${user.lastName}`
+                                      : user.email
+                                    }
+                                  </span>
+                                  <Badge variant="secondary" className="ml-2 text-xs">
+                                    {user.role === 'project_lead' ? 'Lead' : 'Developer'}
+                                  </Badge>
+                                </div>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          size="sm"
+                          onClick={() => selectedUserId && assignUserMutation.mutate(selectedUserId)}
+                          disabled={!selectedUserId || assignUserMutation.isPending}
+                          data-testid="button-assign-user"
+                        >
+                          <UserPlus className="h-4 w-4 mr-1" />
+                          Assign
+                        </Button>
+                      </div>
                     )}
-                  </div>
-                </CardTitle>
-                {canAssignUsers && availableUsers.length > 0 && (
-                  <div className="flex items-center space-x-2">
-                    <Select value={selectedUserId} onValueChange={setSelectedUserId}>
-                      <SelectTrigger className="w-64">
-                        <SelectValue placeholder="Select user" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {availableUsers.map((user) => (
-                          <SelectItem key={user.id} value={user.id}>
-                            <div className="flex items-center justify-between w-full">
-                              <span>
-                                {user.firstName && user.lastName 
-                                  ? `${user.firstName} ${user.lastName}`
-                                  : user.email
-                                }
-                              </span>
-                              <Badge variant="secondary" className="ml-2 text-xs">
-                                {user.role === 'project_lead' ? 'Lead' : 'Developer'}
-                              </Badge>
-                            </div>
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    <Button
-                      size="sm"
-                      onClick={() => selectedUserId && assignUserMutation.mutate(selectedUserId)}
-                      disabled={!selectedUserId || assignUserMutation.isPending}
-                      data-testid="button-assign-user"
-                    >
-                      <UserPlus className="h-4 w-4 mr-1" />
-                      Assign
-                    </Button>
-                  </div>
-                )}
-              </CardHeader>
-              <CardContent className="p-6">
-                {project.assignments.length > 0 ? (
-                  <div className="space-y-4">
-                    {project.assignments
-                      .sort((a, b) => {
-                        // Sort project leads first, then developers
-                        if (a.user.role === 'project_lead' && b.user.role !== 'project_lead') return -1;
-                        if (a.user.role !== 'project_lead' && b.user.role === 'project_lead') return 1;
-                        return 0;
-                      })
-                      .map((assignment) => (
-                      <div
-                        key={assignment.id}
-                        className="flex items-center justify-between p-4 bg-gradient-to-r from-white to-gray-50/50 rounded-xl border border-gray-100 shadow-sm hover:shadow-md transition-all duration-200"
-                        data-testid={`assignment-${assignment.user.id}`}
-                      >
-                        <div className="flex items-center space-x-4">
-                          <div className="relative">
-                            <Avatar className="h-12 w-12 ring-2 ring-white shadow-sm">
-                              <AvatarImage 
-                                src={assignment.user.profileImageUrl || undefined}
-                                alt={assignment.user.firstName || assignment.user.email || 'User'}
-                              />
-                              <AvatarFallback className="bg-gradient-to-br from-indigo-500 to-purple-600 text-white font-semibold">
-                                {(assignment.user.firstName?.[0] || assignment.user.email?.[0] || 'U').toUpperCase()}
-                              </AvatarFallback>
-                            </Avatar>
-                            <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-green-500 rounded-full border-2 border-white"></div>
-                          </div>
-                          <div className="flex-1">
-                            <div className="flex items-center space-x-3 mb-1">
-                              <p className="font-semibold text-gray-900" data-testid={`text-user-name-${assignment.user.id}`}>
-                                {assignment.user.firstName && assignment.user.lastName
-                                  ? `${assignment.user.firstName} ${assignment.user.lastName}`
-                                  : assignment.user.email?.split('@')[0] || 'User'
-                                }
-                              </p>
-                              <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${
-                                assignment.user.role === 'project_lead' 
-                                  ? 'bg-blue-100 text-blue-800 border-blue-200' 
-                                  : 'bg-green-100 text-green-800 border-green-200'
-                              }`}>
-                                <div className={`w-1.5 h-1.5 rounded-full mr-1.5 ${
-                                  assignment.user.role === 'project_lead' ? 'bg-blue-500' : 'bg-green-500'
-                                }`}></div>
-                                {assignment.user.role === 'project_lead' ? 'PROJECT LEAD' : 'DEVELOPER'}
+                  </CardHeader>
+                  <CardContent className="p-6">
+                    {project.assignments.length > 0 ? (
+                      <div className="space-y-4">
+                        {project.assignments
+                          .sort((a, b) => {
+                            // Sort project leads first, then developers
+                            if (a.user.role === 'project_lead' && b.user.role !== 'project_lead') return -1;
+                            if (a.user.role !== 'project_lead' && b.user.role === 'project_lead') return 1;
+                            return 0;
+                          })
+                          .map((assignment) => (
+                          <div
+                            key={assignment.id}
+                            className="flex items-center justify-between p-4 bg-gradient-to-r from-white to-gray-50/50 rounded-xl border border-gray-100 shadow-sm hover:shadow-md transition-all duration-200"
+                            data-testid={`assignment-${assignment.user.id}`}
+                          >
+                            <div className="flex items-center space-x-4">
+                              <div className="relative">
+                                <Avatar className="h-12 w-12 ring-2 ring-white shadow-sm">
+                                  <AvatarImage 
+                                    src={assignment.user.profileImageUrl || undefined}
+                                    alt={assignment.user.firstName || assignment.user.email || 'User'}
+                                  />
+                                  <AvatarFallback className="bg-gradient-to-br from-indigo-500 to-purple-600 text-white font-semibold">
+                                    {(assignment.user.firstName?.[0] || assignment.user.email?.[0] || 'U').toUpperCase()}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-green-500 rounded-full border-2 border-white"></div>
+                              </div>
+                              <div className="flex-1">
+                                <div className="flex items-center space-x-3 mb-1">
+                                  <p className="font-semibold text-gray-900" data-testid={`text-user-name-${assignment.user.id}`}>
+                                    {assignment.user.firstName && assignment.user.lastName
+                                      ? `${assignment.user.firstName} ${assignment.user.lastName}`
+                                      : assignment.user.email?.split('@')[0] || 'User'
+                                    }
+                                  </p>
+                                  <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${
+                                    assignment.user.role === 'project_lead' 
+                                      ? 'bg-blue-100 text-blue-800 border-blue-200' 
+                                      : 'bg-green-100 text-green-800 border-green-200'
+                                  }`}>
+                                    <div className={`w-1.5 h-1.5 rounded-full mr-1.5 ${
+                                      assignment.user.role === 'project_lead' ? 'bg-blue-500' : 'bg-green-500'
+                                    }`}></div>
+                                    {assignment.user.role === 'project_lead' ? 'PROJECT LEAD' : 'DEVELOPER'}
+                                  </div>
+                                </div>
+                                <p className="text-sm text-gray-600" data-testid={`text-user-email-${assignment.user.id}`}>
+                                  {assignment.user.email}
+                                </p>
                               </div>
                             </div>
-                            <p className="text-sm text-gray-600" data-testid={`text-user-email-${assignment.user.id}`}>
-                              {assignment.user.email}
-                            </p>
+                            {canAssignUsers && assignment.user.id !== user.id && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => removeUserMutation.mutate(assignment.user.id)}
+                                disabled={removeUserMutation.isPending}
+                                className="text-red-500 hover:text-red-600 hover:bg-red-50 rounded-full h-9 w-9 p-0 transition-all duration-200"
+                                data-testid={`button-remove-user-${assignment.user.id}`}
+                              >
+                                <UserMinus className="h-4 w-4" />
+                              </Button>
+                            )}
                           </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="text-center py-12">
+                        <div className="h-16 w-16 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center mx-auto mb-4">
+                          <Users className="h-8 w-8 text-gray-400" />
                         </div>
-                        {canAssignUsers && assignment.user.id !== user.id && (
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => removeUserMutation.mutate(assignment.user.id)}
-                            disabled={removeUserMutation.isPending}
-                            className="text-red-500 hover:text-red-600 hover:bg-red-50 rounded-full h-9 w-9 p-0 transition-all duration-200"
-                            data-testid={`button-remove-user-${assignment.user.id}`}
-                          >
-                            <UserMinus className="h-4 w-4" />
-                          </Button>
-                        )}
+                        <p className="text-gray-500 font-medium">No team members assigned</p>
+                        <p className="text-sm text-gray-400 mt-1">Assign team members to get started</p>
                       </div>
-                    ))}
-                  </div>
-                ) : (
-                  <div className="text-center py-12">
-                    <div className="h-16 w-16 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center mx-auto mb-4">
-                      <Users className="h-8 w-8 text-gray-400" />
-                    </div>
-                    <p className="text-gray-500 font-medium">No team members assigned</p>
-                    <p className="text-sm text-gray-400 mt-1">Assign team members to get started</p>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+                    )}
+                  </CardContent>
+                </Card>
 
-            {/* Enhanced Project Documents */}
-            <Card className="border-0 shadow-xl bg-white/70 backdrop-blur-sm">
-              <CardHeader className="bg-gradient-to-r from-purple-500/10 to-violet-500/10 border-b border-gray-100 flex flex-row items-center justify-between">
-                <CardTitle className="flex items-center space-x-3">
-                  <div className="h-8 w-8 bg-gradient-to-br from-purple-500 to-violet-600 rounded-lg flex items-center justify-center">
-                    <FileText className="h-4 w-4 text-white" />
-                  </div>
-                  <span className="text-gray-900 font-semibold">Documents</span>
-                </CardTitle>
-                {canUploadDocuments && (
-                  <Button
-                    size="sm"
-                    onClick={() => setShowUploadDialog(true)}
-                    className="bg-gradient-to-r from-purple-500 to-violet-600 hover:from-purple-600 hover:to-violet-700 text-white rounded-lg shadow-lg hover:shadow-xl transition-all duration-200"
-                    data-testid="button-upload-document"
-                  >
-                    <Upload className="h-4 w-4 mr-2" />
-                    Upload Document
-                  </Button>
-                )}
-              </CardHeader>
-              <CardContent className="p-6">
-                <DocumentList projectId={project.id} documents={project.documents} />
-              </CardContent>
-            </Card>
-          </div>
+                {/* Enhanced Project Documents */}
+                <Card className="border-0 shadow-xl bg-white/70 backdrop-blur-sm">
+                  <CardHeader className="bg-gradient-to-r from-purple-500/10 to-violet-500/10 border-b border-gray-100 flex flex-row items-center justify-between">
+                    <CardTitle className="flex items-center space-x-3">
+                      <div className="h-8 w-8 bg-gradient-to-br from-purple-500 to-violet-600 rounded-lg flex items-center justify-center">
+                        <FileText className="h-4 w-4 text-white" />
+                      </div>
+                      <span className="text-gray-900 font-semibold">Documents</span>
+                    </CardTitle>
+                    {canUploadDocuments && (
+                      <Button
+                        size="sm"
+                        onClick={() => setShowUploadDialog(true)}
+                        className="bg-gradient-to-r from-purple-500 to-violet-600 hover:from-purple-600 hover:to-violet-700 text-white rounded-lg shadow-lg hover:shadow-xl transition-all duration-200"
+                        data-testid="button-upload-document"
+                      >
+                        <Upload className="h-4 w-4 mr-2" />
+                        Upload Document
+                      </Button>
+                    )}
+                  </CardHeader>
+                  <CardContent className="p-6">
+                    <DocumentList projectId={project.id} documents={project.documents} />
+                  </CardContent>
+                </Card>
+              </div>
+            </TabsContent>
+
+            {/* Project timeline - who changed what, and why */}
+            <TabsContent value="activity">
+              <Card className="border-0 shadow-xl bg-white/70 backdrop-blur-sm">
+                <CardHeader className="bg-gradient-to-r from-indigo-500/10 to-purple-500/10 border-b border-gray-100">
+                  <CardTitle className="flex items-center space-x-3">
+                    <div className="h-8 w-8 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-lg flex items-center justify-center">
+                      <Activity className="h-4 w-4 text-white" />
+                    </div>
+                    <span className="text-gray-900 font-semibold">Activity</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="p-6">
+                  <ProjectActivity projectId={project.id} members={project.assignments.map(a => a.user)} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
         </div>
       </div>
 
@@ -530,6 +592,14 @@ export default function ProjectDetails() {
           onOpenChange={setShowUploadDialog}
         />
       )}
+
+      {canEditProject && (
+        <EditProjectDialog
+          project={project}
+          open={showEditDialog}
+          onOpenChange={setShowEditDialog}
+        />
+      )}
     </div>
   );
 }
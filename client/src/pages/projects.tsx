@@ -1,24 +1,49 @@
 import { useEffect, useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Sidebar } from "@/components/layout/sidebar";
 import { CreateProjectDialog } from "@/components/project/create-project-dialog";
+import { ListPagination } from "@/components/layout/list-pagination";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Link } from "wouter";
-import { Plus, Gamepad2, Users, Calendar, FileText, X, Menu, CheckCircle, Pause, Play } from "lucide-react";
-import type { ProjectWithDetails } from "@shared/schema";
+import { Plus, Gamepad2, Users, Calendar, FileText, X, Menu, CheckCircle, Pause, Play, Search } from "lucide-react";
+import { MAX_PAGE_SIZE } from "@shared/schema";
+import type { Page, ProjectWithDetails, UserWithStats } from "@shared/schema";
+
+const PAGE_SIZE = 12;
+
+// Sort options as "<field>:<order>"
+const sortOptions = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'name:asc', label: 'Name (A-Z)' },
+  { value: 'name:desc', label: 'Name (Z-A)' },
+  { value: 'deadline:asc', label: 'Deadline (soonest)' },
+  { value: 'deadline:desc', label: 'Deadline (latest)' },
+  { value: 'status:asc', label: 'Status' },
+];
 
 export default function Projects() {
   const { user, isLoading } = useAuth();
   const { toast } = useToast();
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState("all");
+  const [leadId, setLeadId] = useState("all");
+  const [deadlineFrom, setDeadlineFrom] = useState("");
+  const [deadlineTo, setDeadlineTo] = useState("");
+  const [sortBy, setSortBy] = useState(sortOptions[0].value);
+  const [page, setPage] = useState(1);
+  const q = useDebouncedValue(search.trim());
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -35,11 +60,37 @@ export default function Projects() {
     }
   }, [user, isLoading, toast]);
 
-  const { data: projects, isLoading: projectsLoading, error } = useQuery<ProjectWithDetails[]>({
-    queryKey: ["/api/projects"],
+  const [sort, order] = sortBy.split(':');
+  const { data: projectPage, isLoading: projectsLoading, error } = useQuery<Page<ProjectWithDetails>>({
+    queryKey: ["/api/projects", {
+      page,
+      pageSize: PAGE_SIZE,
+      sort,
+      order,
+      q,
+      status: status === 'all' ? undefined : status,
+      leadId: leadId === 'all' ? undefined : leadId,
+      // Date inputs are whole days in local time; both bounds are inclusive
+      deadlineFrom: deadlineFrom ? new Date(`${deadlineFrom}T00:00:00`).toISOString() : undefined,
+      deadlineTo: deadlineTo ? new Date(`${deadlineTo}T23:59:59.999`).toISOString() : undefined,
+    }],
+    retry: false,
+    placeholderData: keepPreviousData,
+  });
+  const projects = projectPage?.items;
+
+  // Only admins and project leads can list users
+  const { data: leads } = useQuery<Page<UserWithStats>>({
+    queryKey: ["/api/users", { role: 'project_lead', sort: 'email', pageSize: MAX_PAGE_SIZE }],
     retry: false,
+    enabled: user?.role === 'admin' || user?.role === 'project_lead',
   });
 
+  // Any change to the filters starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [q, status, leadId, deadlineFrom, deadlineTo, sortBy]);
+
   const deleteProjectMutation = useMutation({
     mutationFn: async (projectId: string) => {
       await apiRequest('DELETE', `/api/projects/${projectId}`);
@@ -48,7 +99,7 @@ export default function Projects() {
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       toast({
         title: "Success",
-        description: "Project deleted successfully",
+        description: "Project moved to the trash",
       });
     },
     onError: (error) => {
@@ -72,8 +123,8 @@ export default function Projects() {
   });
 
   const updateProjectStatusMutation = useMutation({
-    mutationFn: async ({ projectId, status }: { projectId: string; status: string }) => {
-      await apiRequest('PATCH', `/api/projects/${projectId}`, { status });
+    mutationFn: async ({ projectId, version, status }: { projectId: string; version: number; status: string }) => {
+      await apiRequest('PATCH', `/api/projects/${projectId}`, { status }, { 'If-Match': `"${version}"` });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
@@ -95,6 +146,16 @@ export default function Projects() {
         }, 500);
         return;
       }
+      // Someone else changed the project since the list was loaded
+      if (error.message.startsWith('412')) {
+        queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+        toast({
+          title: "Project was changed",
+          description: "Someone else updated this project. The list has been refreshed - try again.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to update project status",
@@ -131,6 +192,7 @@ export default function Projects() {
 
   const canCreateProjects = user.role === 'admin';
   const canDeleteProjects = user.role === 'admin';
+  const hasFilters = !!q || status !== 'all' || leadId !== 'all' || !!deadlineFrom || !!deadlineTo;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50 to-indigo-100">
@@ -177,6 +239,76 @@ export default function Projects() {
             </div>
           </div>
 
+          {/* Filters */}
+          <Card className="mb-6 rounded-2xl bg-white/90 backdrop-blur-sm border-0 shadow-lg">
+            <CardContent className="p-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-3">
+              <div className="relative lg:col-span-2">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search projects..."
+                  className="pl-9"
+                  data-testid="input-search-projects"
+                />
+              </div>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger data-testid="select-filter-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="on_hold">On hold</SelectItem>
+                  <SelectItem value="completed">Completed</SelectItem>
+                </SelectContent>
+              </Select>
+              {leads ? (
+                <Select value={leadId} onValueChange={setLeadId}>
+                  <SelectTrigger data-testid="select-filter-lead">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All leads</SelectItem>
+                    {leads.items.map(lead => (
+                      <SelectItem key={lead.id} value={lead.id}>
+                        {lead.firstName && lead.lastName ? `${lead.firstName} ${lead.lastName}` : lead.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : <div className="hidden lg:block" />}
+              <Select value={sortBy} onValueChange={setSortBy}>
+                <SelectTrigger data-testid="select-sort-projects">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sortOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center space-x-2 md:col-span-2 lg:col-span-6">
+                <span className="text-sm text-gray-500 font-medium whitespace-nowrap">Deadline between</span>
+                <Input
+                  type="date"
+                  value={deadlineFrom}
+                  onChange={(e) => setDeadlineFrom(e.target.value)}
+                  className="max-w-[180px]"
+                  data-testid="input-deadline-from"
+                />
+                <span className="text-sm text-gray-500">and</span>
+                <Input
+                  type="date"
+                  value={deadlineTo}
+                  onChange={(e) => setDeadlineTo(e.target.value)}
+                  className="max-w-[180px]"
+                  data-testid="input-deadline-to"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Project Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {projectsLoading ? (
@@ -272,6 +404,7 @@ export default function Projects() {
                             value={project.status}
                             onValueChange={(status) => updateProjectStatusMutation.mutate({ 
                               projectId: project.id, 
+                              version: project.version,
                               status 
                             })}
                             disabled={updateProjectStatusMutation.isPending}
@@ -319,12 +452,14 @@ export default function Projects() {
                 <Gamepad2 className="h-16 w-16 text-gray-400 mx-auto mb-4" />
                 <h3 className="text-lg font-medium text-gray-900 mb-2">No projects found</h3>
                 <p className="text-gray-500 mb-4">
-                  {canCreateProjects 
+                  {hasFilters
+                    ? "No projects match these filters."
+                    : canCreateProjects 
                     ? "Get started by creating your first project."
                     : "No projects have been assigned to you yet."
                   }
                 </p>
-                {canCreateProjects && (
+                {canCreateProjects && !hasFilters && (
                   <Button
                     onClick={() => setShowCreateDialog(true)}
                     data-testid="button-create-first-project"
@@ -335,6 +470,10 @@ export default function Projects() {
               </div>
             )}
           </div>
+
+          {projectPage && projectPage.total > 0 && (
+            <ListPagination page={projectPage} onPageChange={setPage} label="projects" />
+          )}
         </div>
       </div>
 
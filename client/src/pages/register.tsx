@@ -1,21 +1,29 @@
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { PasswordStrengthMeter } from "@/components/user/password-strength-meter";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { registerSchema, type RegisterForm } from "@shared/schema";
-import { Gamepad2 } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { registerSchema, type RegisterForm, type RegisterResult, type RegistrationPolicy } from "@shared/schema";
+import { Clock, Gamepad2, Lock } from "lucide-react";
 
+// Signing up, when the registration policy lets people with the email
+// domains it allows. Accounts wait for an admin's approval, so signing up
+// ends on a page saying so rather than signing in.
 export default function Register() {
-  const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const [pending, setPending] = useState<RegisterResult | null>(null);
+
+  const { data: policy, isLoading } = useQuery<RegistrationPolicy>({
+    queryKey: ["/api/auth/registration"],
+    retry: false,
+  });
+  const domains = policy?.allowedDomains.map(domain => `@${domain}`).join(", ");
 
   const form = useForm<RegisterForm>({
     resolver: zodResolver(registerSchema),
@@ -29,19 +37,16 @@ export default function Register() {
 
   const registerMutation = useMutation({
     mutationFn: async (data: RegisterForm) => {
-      return await apiRequest("POST", "/api/auth/register", data);
+      const res = await apiRequest("POST", "/api/auth/register", data);
+      return await res.json() as RegisterResult;
     },
-    onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Account created successfully! Please log in.",
-      });
-      setLocation("/login");
+    onSuccess: (result) => {
+      setPending(result);
     },
     onError: (error: Error) => {
       toast({
         title: "Registration Failed",
-        description: error.message || "Failed to create account",
+        description: apiErrorMessage(error) || "Failed to create account",
         variant: "destructive",
       });
     },
@@ -69,11 +74,41 @@ export default function Register() {
           </p>
         </div>
 
+        {isLoading ? (
+          <div className="animate-pulse h-96 bg-gray-200 rounded-lg"></div>
+        ) : pending ? (
+          <Card>
+            <CardHeader className="text-center space-y-3">
+              <div className="mx-auto h-12 w-12 bg-amber-100 rounded-full flex items-center justify-center">
+                <Clock className="h-6 w-6 text-amber-600" />
+              </div>
+              <CardTitle data-testid="text-registration-pending">Waiting for approval</CardTitle>
+              <CardDescription>
+                Thanks for signing up. An administrator needs to approve your account before you can sign in.
+                We'll email <span className="font-medium text-gray-900">{pending.email}</span> once they have.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : policy?.mode !== 'domains' ? (
+          <Card>
+            <CardHeader className="text-center space-y-3">
+              <div className="mx-auto h-12 w-12 bg-gray-100 rounded-full flex items-center justify-center">
+                <Lock className="h-6 w-6 text-gray-600" />
+              </div>
+              <CardTitle data-testid="text-registration-closed">Sign-up is closed</CardTitle>
+              <CardDescription>
+                {policy?.mode === 'invite_only'
+                  ? "PixelForge Nexus is invite-only. Ask an administrator to send you an invitation."
+                  : "PixelForge Nexus is not taking new members right now."}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
         <Card>
           <CardHeader className="space-y-1">
             <CardTitle className="text-2xl text-center">Register</CardTitle>
             <CardDescription className="text-center">
-              Fill in your details to create an account
+              Sign up with your {domains} email address. An administrator approves new accounts.
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -151,6 +186,7 @@ export default function Register() {
                         />
                       </FormControl>
                       <FormMessage />
+                      <PasswordStrengthMeter password={field.value} />
                     </FormItem>
                   )}
                 />
@@ -161,12 +197,13 @@ export default function Register() {
                   disabled={registerMutation.isPending}
                   data-testid="button-register"
                 >
-                  {registerMutation.isPending ? "Creating account..." : "Create account"}
+                  {registerMutation.isPending ? "Signing up..." : "Sign up"}
                 </Button>
               </form>
             </Form>
           </CardContent>
         </Card>
+        )}
 
         <div className="text-center">
           <p className="text-sm text-gray-600">
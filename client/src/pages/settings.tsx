@@ -2,27 +2,16 @@ import { useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Sidebar } from "@/components/layout/sidebar";
+import { ActiveSessions } from "@/components/user/active-sessions";
+import { ApiTokens } from "@/components/user/api-tokens";
+import { TwoFactorSettings } from "@/components/user/two-factor-settings";
+import { SecuritySettingsCard } from "@/components/settings/security-settings-card";
+import { ChangePasswordForm } from "@/components/user/change-password-form";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { Settings as SettingsIcon, Shield, User, Menu } from "lucide-react";
 
-const passwordChangeSchema = z.object({
-  currentPassword: z.string().min(1, "Current password is required"),
-  newPassword: z.string().min(6, "New password must be at least 6 characters"),
-  confirmPassword: z.string().min(1, "Please confirm your password"),
-}).refine((data) => data.newPassword === data.confirmPassword, {
-  message: "Passwords don't match",
-  path: ["confirmPassword"],
-});
-
-type PasswordChangeForm = z.infer<typeof passwordChangeSchema>;
-
 export default function Settings() {
   const { user, isLoading } = useAuth();
   const { toast } = useToast();
@@ -42,33 +31,6 @@ export default function Settings() {
     }
   }, [user, isLoading, toast]);
 
-  const {
-    register,
-    handleSubmit,
-    formState: { errors },
-    reset,
-  } = useForm<PasswordChangeForm>({
-    resolver: zodResolver(passwordChangeSchema),
-  });
-
-  const onPasswordSubmit = async (data: PasswordChangeForm) => {
-    try {
-      // Note: This would typically call an API endpoint to change the password
-      // For now, we'll just show a success message
-      toast({
-        title: "Success",
-        description: "Password updated successfully",
-      });
-      reset();
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to update password",
-        variant: "destructive",
-      });
-    }
-  };
-
   const handleLogout = () => {
     window.location.href = "/api/logout";
   };
@@ -189,72 +151,18 @@ export default function Settings() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="p-6">
-                <form onSubmit={handleSubmit(onPasswordSubmit)} className="space-y-6">
-                  <div className="space-y-2">
-                    <Label htmlFor="currentPassword" className="text-sm font-semibold text-gray-700">Current Password</Label>
-                    <Input
-                      id="currentPassword"
-                      type="password"
-                      {...register("currentPassword")}
-                      className="h-12 border-2 border-gray-200 rounded-xl focus:border-orange-400 focus:ring-orange-400/20 transition-all duration-200"
-                      placeholder="Enter your current password"
-                      data-testid="input-current-password"
-                    />
-                    {errors.currentPassword && (
-                      <p className="text-sm text-red-600 flex items-center mt-2">
-                        <span className="w-4 h-4 bg-red-100 rounded-full flex items-center justify-center mr-2">!</span>
-                        {errors.currentPassword.message}
-                      </p>
-                    )}
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="newPassword" className="text-sm font-semibold text-gray-700">New Password</Label>
-                    <Input
-                      id="newPassword"
-                      type="password"
-                      {...register("newPassword")}
-                      className="h-12 border-2 border-gray-200 rounded-xl focus:border-orange-400 focus:ring-orange-400/20 transition-all duration-200"
-                      placeholder="Enter your new password"
-                      data-testid="input-new-password"
-                    />
-                    {errors.newPassword && (
-                      <p className="text-sm text-red-600 flex items-center mt-2">
-                        <span className="w-4 h-4 bg-red-100 rounded-full flex items-center justify-center mr-2">!</span>
-                        {errors.newPassword.message}
-                      </p>
-                    )}
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="confirmPassword" className="text-sm font-semibold text-gray-700">Confirm New Password</Label>
-                    <Input
-                      id="confirmPassword"
-                      type="password"
-                      {...register("confirmPassword")}
-                      className="h-12 border-2 border-gray-200 rounded-xl focus:border-orange-400 focus:ring-orange-400/20 transition-all duration-200"
-                      placeholder="Confirm your new password"
-                      data-testid="input-confirm-password"
-                    />
-                    {errors.confirmPassword && (
-                      <p className="text-sm text-red-600 flex items-center mt-2">
-                        <span className="w-4 h-4 bg-red-100 rounded-full flex items-center justify-center mr-2">!</span>
-                        {errors.confirmPassword.message}
-                      </p>
-                    )}
-                  </div>
-                  
-                  <Button 
-                    type="submit" 
-                    className="w-full h-12 bg-gradient-to-r from-orange-500 to-red-600 hover:from-orange-600 hover:to-red-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200"
-                    data-testid="button-update-password"
-                  >
-                    Update Password
-                  </Button>
-                </form>
+                <ChangePasswordForm />
               </CardContent>
             </Card>
 
+            <TwoFactorSettings />
+
+            <ActiveSessions />
+
+            <ApiTokens />
+
+            {user.role === 'admin' && <SecuritySettingsCard />}
+
             {/* Account Actions */}
             <Card>
               <CardHeader>
@@ -0,0 +1,308 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Sidebar } from "@/components/layout/sidebar";
+import { DeleteUserDialog } from "@/components/user/delete-user-dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Trash2, RotateCcw, Menu } from "lucide-react";
+import { MAX_PAGE_SIZE } from "@shared/schema";
+import type { Page, TrashItem, UserWithStats } from "@shared/schema";
+
+export default function Trash() {
+  const { user, isLoading } = useAuth();
+  const { toast } = useToast();
+  const [userToDelete, setUserToDelete] = useState<TrashItem | null>(null);
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !user) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [user, isLoading, toast]);
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!isLoading && user && user.role !== 'admin') {
+      toast({
+        title: "Access Denied",
+        description: "You don't have permission to access this page.",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/";
+      }, 500);
+      return;
+    }
+  }, [user, isLoading, toast]);
+
+  const { data: items, isLoading: trashLoading } = useQuery<TrashItem[]>({
+    queryKey: ["/api/trash"],
+    retry: false,
+    enabled: user?.role === 'admin',
+  });
+
+  // Candidates for taking over a purged user's projects and records. Sorting by
+  // role lists admins and project leads ahead of developers.
+  const { data: users } = useQuery<Page<UserWithStats>, Error, UserWithStats[]>({
+    queryKey: ["/api/users", { sort: 'role', pageSize: MAX_PAGE_SIZE }],
+    retry: false,
+    select: (data) => data.items,
+    enabled: user?.role === 'admin',
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: TrashItem) => {
+      await apiRequest('POST', `/api/trash/${item.type}/${item.id}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: "Item restored successfully",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to restore item"),
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (item: TrashItem) => {
+      await apiRequest('DELETE', `/api/trash/${item.type}/${item.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({
+        title: "Success",
+        description: "Item permanently deleted",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to delete item"),
+  });
+
+  if (isLoading || !user) {
+    return <div>Loading...</div>;
+  }
+
+  if (user.role !== 'admin') {
+    return null; // Will redirect via useEffect
+  }
+
+  const getTypeColor = (type: string) => {
+    switch (type) {
+      case 'project':
+        return 'bg-blue-100 text-blue-800';
+      case 'document':
+        return 'bg-amber-100 text-amber-800';
+      case 'user':
+        return 'bg-purple-100 text-purple-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const formatDate = (date: Date | string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const formatDeleter = (deletedBy: TrashItem['deletedBy']) => {
+    if (!deletedBy) return 'Unknown';
+    return deletedBy.firstName && deletedBy.lastName
+      ? `${deletedBy.firstName} ${deletedBy.lastName}`
+      : deletedBy.email;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-indigo-50/20">
+      <Sidebar />
+
+      {/* Mobile/Desktop hamburger menu button */}
+      <div className="fixed top-4 left-4 z-50">
+        <Button
+          variant="outline"
+          size="sm"
+          className="bg-white/90 backdrop-blur-sm shadow-lg border-gray-200"
+          onClick={() => {
+            const sidebar = document.getElementById('sidebar');
+            const overlay = document.getElementById('sidebar-overlay');
+            if (sidebar && overlay) {
+              sidebar.classList.remove('-translate-x-full');
+              overlay.classList.remove('hidden');
+            }
+          }}
+        >
+          <Menu className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="lg:pl-64 pl-0">
+        <div className="p-4 lg:p-8 pt-16 lg:pt-8 max-w-7xl mx-auto">
+        <div className="mb-8 space-y-1">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent" data-testid="text-trash-title">
+            Trash
+          </h1>
+          <p className="text-gray-600 font-medium">Restore deleted projects, documents and users, or delete them permanently</p>
+        </div>
+
+        <Card className="border-0 shadow-xl bg-white/80 backdrop-blur-sm rounded-2xl overflow-hidden">
+          <CardHeader className="bg-gradient-to-r from-indigo-500/10 via-purple-500/10 to-pink-500/10 border-b border-gray-100 pb-6">
+            <CardTitle className="flex items-center space-x-3 text-xl">
+              <div className="h-10 w-10 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-xl flex items-center justify-center">
+                <Trash2 className="h-5 w-5 text-white" />
+              </div>
+              <span className="font-bold text-gray-900">Deleted Items</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {trashLoading ? (
+              <div className="space-y-4 p-6">
+                {Array.from({ length: 5 }).map((_, i) => (
+                  <div key={i} className="animate-pulse">
+                    <div className="h-16 bg-gradient-to-r from-gray-200 to-gray-100 rounded-xl"></div>
+                  </div>
+                ))}
+              </div>
+            ) : items && items.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-b-2 border-gray-100 hover:bg-transparent">
+                      <TableHead className="font-semibold text-gray-700 py-4 px-6">Name</TableHead>
+                      <TableHead className="font-semibold text-gray-700 py-4 px-6">Type</TableHead>
+                      <TableHead className="font-semibold text-gray-700 py-4 px-6">Deleted By</TableHead>
+                      <TableHead className="font-semibold text-gray-700 py-4 px-6">Deleted At</TableHead>
+                      <TableHead className="font-semibold text-gray-700 py-4 px-6 text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {items.map(item => (
+                      <TableRow
+                        key={`${item.type}-${item.id}`}
+                        data-testid={`trash-row-${item.type}-${item.id}`}
+                        className="hover:bg-gradient-to-r hover:from-blue-50/50 hover:to-indigo-50/50 transition-all duration-200 border-b border-gray-50"
+                      >
+                        <TableCell className="py-4 px-6 font-semibold text-gray-900" data-testid={`text-trash-name-${item.id}`}>
+                          {item.name}
+                        </TableCell>
+                        <TableCell className="py-4 px-6">
+                          <Badge className={`${getTypeColor(item.type)} border-0 capitalize`}>
+                            {item.type}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="py-4 px-6 text-gray-700">
+                          {formatDeleter(item.deletedBy)}
+                        </TableCell>
+                        <TableCell className="py-4 px-6 text-gray-700">
+                          {formatDate(item.deletedAt)}
+                        </TableCell>
+                        <TableCell className="py-4 px-6 text-right">
+                          <div className="flex justify-end space-x-3">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => restoreMutation.mutate(item)}
+                              disabled={restoreMutation.isPending}
+                              className="text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-full h-10 w-10 p-0"
+                              title="Restore"
+                              data-testid={`button-restore-${item.type}-${item.id}`}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                // Users need a policy for the projects and records they leave behind
+                                if (item.type === 'user') {
+                                  setUserToDelete(item);
+                                } else if (window.confirm(`Permanently delete "${item.name}"? This cannot be undone.`)) {
+                                  purgeMutation.mutate(item);
+                                }
+                              }}
+                              disabled={purgeMutation.isPending}
+                              className="text-red-500 hover:text-red-600 hover:bg-red-50 rounded-full h-10 w-10 p-0"
+                              title="Delete permanently"
+                              data-testid={`button-purge-${item.type}-${item.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <div className="text-center py-16 px-6">
+                <div className="h-20 w-20 bg-gradient-to-br from-gray-100 to-gray-200 rounded-2xl flex items-center justify-center mx-auto mb-6">
+                  <Trash2 className="h-10 w-10 text-gray-400" />
+                </div>
+                <h3 className="text-xl font-bold text-gray-900 mb-3">The trash is empty</h3>
+                <p className="text-gray-500 max-w-md mx-auto">Deleted projects, documents and users show up here until they are restored or permanently deleted.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+        </div>
+      </div>
+
+      {userToDelete && (
+        <DeleteUserDialog
+          user={userToDelete}
+          users={users ?? []}
+          currentUserId={user.id}
+          open={!!userToDelete}
+          onOpenChange={(open) => !open && setUserToDelete(null)}
+        />
+      )}
+    </div>
+  );
+}
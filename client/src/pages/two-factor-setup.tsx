@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AuthenticatorCodeInput } from "@/components/user/authenticator-code-input";
+import { TwoFactorSetup } from "@/components/user/two-factor-setup";
+import { ShieldCheck } from "lucide-react";
+import type { TwoFactorStatus } from "@shared/schema";
+
+// Shown in place of the app to signed-in users whose role requires two-factor
+// authentication, until they have set it up - or, if they already had, until
+// they confirm this session with a code
+export default function TwoFactorSetupPage() {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/two-factor"],
+    retry: false,
+  });
+
+  const done = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/two-factor"] });
+  };
+
+  const verifyMutation = useMutation({
+    mutationFn: async (appCode: string) => {
+      await apiRequest("POST", "/api/auth/two-factor/verify", { code: appCode });
+    },
+    onSuccess: done,
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-100 via-blue-50 to-indigo-100 flex items-center justify-center py-12 px-4">
+      <Card className="max-w-md w-full shadow-2xl border-0 bg-white/90">
+        <CardHeader className="text-center space-y-3">
+          <div className="mx-auto h-12 w-12 bg-indigo-100 rounded-full flex items-center justify-center">
+            <ShieldCheck className="h-6 w-6 text-indigo-600" />
+          </div>
+          <CardTitle data-testid="text-two-factor-required-title">Two-factor authentication required</CardTitle>
+          <p className="text-sm text-gray-600">
+            {status?.enabled
+              ? "Enter the 6-digit code from your authenticator app to continue."
+              : "Your administrator requires two-factor authentication for your role. Set it up to continue."}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!status ? (
+            <div className="animate-pulse h-24 bg-gray-200 rounded-lg"></div>
+          ) : status.enabled ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                verifyMutation.mutate(code);
+              }}
+              className="space-y-4"
+            >
+              <AuthenticatorCodeInput
+                value={code}
+                onChange={setCode}
+                onComplete={(appCode) => verifyMutation.mutate(appCode)}
+                disabled={verifyMutation.isPending}
+                testId="input-two-factor-verify-code"
+              />
+              <Button type="submit" className="w-full" disabled={verifyMutation.isPending || code.length < 6} data-testid="button-verify-two-factor">
+                Continue
+              </Button>
+            </form>
+          ) : (
+            <TwoFactorSetup onComplete={done} />
+          )}
+          <Button
+            variant="ghost"
+            className="w-full text-gray-500"
+            onClick={() => { window.location.href = "/api/logout"; }}
+            data-testid="button-two-factor-logout"
+          >
+            Sign out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,15 +1,21 @@
 import { useEffect, useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
 import { Sidebar } from "@/components/layout/sidebar";
 import { CreateUserDialog } from "@/components/user/create-user-dialog";
+import { PendingInvitations } from "@/components/user/pending-invitations";
+import { PendingRegistrations } from "@/components/user/pending-registrations";
+import { ListPagination } from "@/components/layout/list-pagination";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
@@ -20,13 +26,36 @@ import {
   TableHeader, 
   TableRow 
 } from "@/components/ui/table";
-import { UserPlus, Edit, Trash2, Users as UsersIcon, Menu } from "lucide-react";
-import type { UserWithStats } from "@shared/schema";
+import { UserPlus, Edit, Trash2, LogOut, ShieldOff, LockOpen, Users as UsersIcon, Menu, Search } from "lucide-react";
+import type { AccountLockout, Page, UserWithStats } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+// Sort options as "<field>:<order>"
+const sortOptions = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'email:asc', label: 'Email (A-Z)' },
+  { value: 'email:desc', label: 'Email (Z-A)' },
+  { value: 'role:asc', label: 'Role' },
+];
 
 export default function Users() {
   const { user, isLoading } = useAuth();
   const { toast } = useToast();
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  // The command palette links here with ?q= to look up a person
+  const searchParams = useSearch();
+  const [search, setSearch] = useState(() => new URLSearchParams(searchParams).get('q') ?? "");
+  const [role, setRole] = useState("all");
+  const [sortBy, setSortBy] = useState(sortOptions[0].value);
+  const [page, setPage] = useState(1);
+  const q = useDebouncedValue(search.trim());
+
+  useEffect(() => {
+    const linked = new URLSearchParams(searchParams).get('q');
+    if (linked !== null) setSearch(linked);
+  }, [searchParams]);
   const isMobile = useIsMobile();
 
   // Redirect to home if not authenticated
@@ -59,14 +88,36 @@ export default function Users() {
     }
   }, [user, isLoading, toast]);
 
-  const { data: users, isLoading: usersLoading } = useQuery<UserWithStats[]>({
-    queryKey: ["/api/users"],
+  const [sort, order] = sortBy.split(':');
+  const { data: userPage, isLoading: usersLoading } = useQuery<Page<UserWithStats>>({
+    queryKey: ["/api/users", {
+      page,
+      pageSize: PAGE_SIZE,
+      sort,
+      order,
+      q,
+      role: role === 'all' ? undefined : role,
+    }],
     retry: false,
+    placeholderData: keepPreviousData,
   });
+  const users = userPage?.items;
+
+  // Accounts locked out after too many failed sign-in attempts
+  const { data: lockouts } = useQuery<AccountLockout[]>({
+    queryKey: ["/api/users/lockouts"],
+    retry: false,
+  });
+  const lockedUntil = new Map(lockouts?.map((lockout) => [lockout.userId, lockout.lockedUntil]));
+
+  // Any change to the filters starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [q, role, sortBy]);
 
   const updateRoleMutation = useMutation({
-    mutationFn: async ({ userId, role }: { userId: string; role: string }) => {
-      await apiRequest('PATCH', `/api/users/${userId}/role`, { role });
+    mutationFn: async ({ userId, version, role }: { userId: string; version: number; role: string }) => {
+      await apiRequest('PATCH', `/api/users/${userId}/role`, { role }, { 'If-Match': `"${version}"` });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
@@ -87,6 +138,16 @@ export default function Users() {
         }, 500);
         return;
       }
+      // Someone else changed the user since the list was loaded
+      if (error.message.startsWith('412')) {
+        queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+        toast({
+          title: "User was changed",
+          description: "Someone else updated this user. The list has been refreshed - try again.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to update user role",
@@ -101,9 +162,10 @@ export default function Users() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Success",
-        description: "User deleted successfully",
+        description: "User moved to the trash",
       });
     },
     onError: (error) => {
@@ -126,6 +188,101 @@ export default function Users() {
     },
   });
 
+  // Signs the user out on every device
+  const revokeSessionsMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await apiRequest('DELETE', `/api/users/${userId}/sessions`);
+      return await res.json() as { revoked: number };
+    },
+    onSuccess: ({ revoked }) => {
+      toast({
+        title: "Success",
+        description: revoked === 1 ? "1 session signed out" : `${revoked} sessions signed out`,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to sign out the user's sessions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Lets a locked-out user sign in again without waiting
+  const unlockMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest('DELETE', `/api/users/${userId}/lockout`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/lockouts"] });
+      toast({
+        title: "Success",
+        description: "Account unlocked",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // For users who lost their authenticator app and recovery codes
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest('DELETE', `/api/users/${userId}/two-factor`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Two-factor authentication reset and the user signed out",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
   if (isLoading || !user) {
     return <div>Loading...</div>;
   }
@@ -196,10 +353,14 @@ export default function Users() {
             data-testid="button-create-user"
           >
             <UserPlus className="h-5 w-5" />
-            <span className="font-semibold">Add User</span>
+            <span className="font-semibold">Invite User</span>
           </Button>
         </div>
 
+        <PendingRegistrations />
+
+        <PendingInvitations />
+
         {/* Enhanced Card with Modern Design */}
         <Card className="border-0 shadow-xl bg-white/80 backdrop-blur-sm rounded-2xl overflow-hidden">
           <CardHeader className="bg-gradient-to-r from-indigo-500/10 via-purple-500/10 to-pink-500/10 border-b border-gray-100 pb-6">
@@ -209,6 +370,39 @@ export default function Users() {
               </div>
               <span className="font-bold text-gray-900">Team Members</span>
             </CardTitle>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 pt-4">
+              <div className="relative md:col-span-2">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search by name or email..."
+                  className="pl-9 bg-white"
+                  data-testid="input-search-users"
+                />
+              </div>
+              <Select value={role} onValueChange={setRole}>
+                <SelectTrigger className="bg-white" data-testid="select-filter-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All roles</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                  <SelectItem value="project_lead">Project Lead</SelectItem>
+                  <SelectItem value="developer">Developer</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={sortBy} onValueChange={setSortBy}>
+                <SelectTrigger className="bg-white" data-testid="select-sort-users">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sortOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </CardHeader>
           <CardContent className="p-0">
             {usersLoading ? (
@@ -274,7 +468,7 @@ export default function Users() {
                               <Select
                                 value={userData.role}
                                 onValueChange={(role) => 
-                                  updateRoleMutation.mutate({ userId: userData.id, role })
+                                  updateRoleMutation.mutate({ userId: userData.id, version: userData.version, role })
                                 }
                                 disabled={updateRoleMutation.isPending}
                               >
@@ -300,12 +494,61 @@ export default function Users() {
                             </div>
                           </TableCell>
                           <TableCell className="py-6 px-6">
-                            <Badge className="bg-gradient-to-r from-green-500 to-emerald-500 text-white border-0 px-3 py-1.5 font-semibold shadow-md">
-                              Active
-                            </Badge>
+                            {lockedUntil.has(userData.id) ? (
+                              <Badge
+                                className="bg-gradient-to-r from-amber-500 to-orange-500 text-white border-0 px-3 py-1.5 font-semibold shadow-md"
+                                title={`Too many failed sign-in attempts. Locked until ${new Date(lockedUntil.get(userData.id)!).toLocaleTimeString()}`}
+                                data-testid={`badge-user-locked-${userData.id}`}
+                              >
+                                Locked
+                              </Badge>
+                            ) : (
+                              <Badge className="bg-gradient-to-r from-green-500 to-emerald-500 text-white border-0 px-3 py-1.5 font-semibold shadow-md">
+                                Active
+                              </Badge>
+                            )}
                           </TableCell>
                           <TableCell className="py-6 px-6 text-right">
                             <div className="flex justify-end space-x-3">
+                              {lockedUntil.has(userData.id) && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => unlockMutation.mutate(userData.id)}
+                                  disabled={unlockMutation.isPending}
+                                  title="Unlock account"
+                                  className="text-amber-600 hover:text-amber-700 hover:bg-amber-50 rounded-full h-10 w-10 p-0 transition-all duration-200 shadow-sm hover:shadow-md"
+                                  data-testid={`button-unlock-user-${userData.id}`}
+                                >
+                                  <LockOpen className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {userData.id !== user.id && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => revokeSessionsMutation.mutate(userData.id)}
+                                  disabled={revokeSessionsMutation.isPending}
+                                  title="Sign out everywhere"
+                                  className="text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full h-10 w-10 p-0 transition-all duration-200 shadow-sm hover:shadow-md"
+                                  data-testid={`button-revoke-sessions-${userData.id}`}
+                                >
+                                  <LogOut className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {userData.id !== user.id && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => resetTwoFactorMutation.mutate(userData.id)}
+                                  disabled={resetTwoFactorMutation.isPending}
+                                  title="Reset two-factor authentication"
+                                  className="text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full h-10 w-10 p-0 transition-all duration-200 shadow-sm hover:shadow-md"
+                                  data-testid={`button-reset-two-factor-${userData.id}`}
+                                >
+                                  <ShieldOff className="h-4 w-4" />
+                                </Button>
+                              )}
                               {userData.role !== 'admin' && (
                                 <Button
                                   variant="ghost"
@@ -329,6 +572,14 @@ export default function Users() {
                       ))}
                     </TableBody>
                   </Table>
+                  <div className="px-6 border-t border-gray-100">
+                    <ListPagination page={userPage!} onPageChange={setPage} label="users" />
+                  </div>
+              </div>
+            ) : q || role !== 'all' ? (
+              <div className="text-center py-16 px-6">
+                <h3 className="text-xl font-bold text-gray-900 mb-3">No matching users</h3>
+                <p className="text-gray-500">No team members match these filters.</p>
               </div>
             ) : (
               <div className="text-center py-16 px-6">
@@ -336,14 +587,14 @@ export default function Users() {
                   <UsersIcon className="h-10 w-10 text-gray-400" />
                 </div>
                 <h3 className="text-xl font-bold text-gray-900 mb-3">No team members yet</h3>
-                <p className="text-gray-500 mb-6 max-w-md mx-auto">Get started by adding your first team member to begin collaborating on projects.</p>
+                <p className="text-gray-500 mb-6 max-w-md mx-auto">Get started by inviting your first team member to begin collaborating on projects.</p>
                 <Button
                   onClick={() => setShowCreateDialog(true)}
                   className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg hover:shadow-xl transition-all duration-200 px-6 py-3 rounded-lg"
                   data-testid="button-create-first-user"
                 >
                   <UserPlus className="h-4 w-4 mr-2" />
-                  Add Your First User
+                  Invite Your First User
                 </Button>
               </div>
             )}
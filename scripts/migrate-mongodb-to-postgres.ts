@@ -0,0 +1,383 @@
+// Copy users, projects, assignments, documents and the audit log from MongoDB
+// into the PostgreSQL tables used by STORAGE_BACKEND=postgres.
+//
+//   MONGODB_URI=... DATABASE_URL=... tsx scripts/migrate-mongodb-to-postgres.ts [--dry-run]
+//
+// ObjectIds map to UUIDs deterministically, so re-running the script resumes an
+// interrupted migration: rows that already exist are left alone. Create the
+// tables first with `npm run db:push`.
+//
+// Audit entries refer to users, projects and documents by id, so they get the
+// new ids too. Their hash chain covers those ids, so it is checked and then
+// sealed again; the script prints the old and new chain heads.
+//
+//   --dry-run      read and convert everything, write nothing
+//   --batch-size=N rows per insert (default 500)
+import { createHash } from 'crypto';
+import mongoose from 'mongoose';
+import { eq, inArray } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import { connectToDatabase } from '../server/mongodb';
+import { getDb, closeDb } from '../server/db';
+import { GENESIS_HASH, hashAuditEntry, verifyAuditChain } from '../server/audit-chain';
+import {
+  User as MongoUser,
+  Project as MongoProject,
+  ProjectAssignment as MongoProjectAssignment,
+  Document as MongoDocument,
+  AuditEntry as MongoAuditEntry,
+} from '../shared/mongoose-schema';
+import { users, projects, projectAssignments, documents, auditLog } from '../shared/schema';
+import type { AuditChanges, AuditEntry } from '../shared/schema';
+
+const dryRun = process.argv.includes('--dry-run');
+const batchSizeArg = process.argv.find(arg => arg.startsWith('--batch-size='));
+const batchSize = batchSizeArg ? parseInt(batchSizeArg.split('=')[1], 10) : 500;
+
+// UUID (v5 layout) derived from the ObjectId, stable across runs
+function toUuid(objectId: unknown): string {
+  const hash = createHash('sha1').update(`pixelforge-nexus:${String(objectId)}`).digest();
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = hash.subarray(0, 16).toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// Legacy status values written before the enum was enforced
+function normalizeStatus(status: string | undefined): 'active' | 'completed' | 'on_hold' {
+  if (status === 'completed' || status === 'complete') return 'completed';
+  if (status === 'on_hold' || status === 'hold') return 'on_hold';
+  return 'active';
+}
+
+type Row = { id: string } & Record<string, unknown>;
+
+// An audit entry as MongoDB has it, ids and all
+function toAuditEntry(doc: any): AuditEntry {
+  return {
+    id: String(doc._id),
+    sequence: doc.sequence,
+    actorId: doc.actorId ?? null,
+    actorEmail: doc.actorEmail ?? null,
+    action: doc.action,
+    targetType: doc.targetType,
+    targetId: doc.targetId,
+    targetName: doc.targetName ?? null,
+    projectId: doc.projectId ?? null,
+    changes: doc.changes ?? null,
+    note: doc.note ?? null,
+    ip: doc.ip ?? null,
+    createdAt: doc.createdAt,
+    previousHash: doc.previousHash,
+    hash: doc.hash,
+  };
+}
+
+interface TableReport {
+  table: string;
+  source: number;
+  inserted: number;
+  existing: number;
+  skipped: string[];
+  sourceChecksum: string;
+  targetChecksum: string | null;
+}
+
+// Order-independent digest over the migrated columns of each row
+function checksum(rows: Row[], columns: string[]): string {
+  const hash = createHash('sha256');
+  for (const row of [...rows].sort((a, b) => a.id.localeCompare(b.id))) {
+    hash.update(JSON.stringify(columns.map(column => {
+      const value = row[column];
+      return value instanceof Date ? value.toISOString() : value ?? null;
+    })));
+  }
+  return hash.digest('hex');
+}
+
+async function migrateCollection(options: {
+  table: string;
+  model: mongoose.Model<any>;
+  target: PgTable & { id: any };
+  columns: string[];
+  // Order the documents are read and converted in (default: by _id)
+  sort?: Record<string, 1 | -1>;
+  // Columns that may reference rows later in the same table; they are written
+  // once every row has been inserted
+  deferred?: string[];
+  convert(doc: any): Row | string;
+}): Promise<{ report: TableReport; ids: Set<string> }> {
+  const db = getDb();
+  const report: TableReport = {
+    table: options.table,
+    source: 0,
+    inserted: 0,
+    existing: 0,
+    skipped: [],
+    sourceChecksum: '',
+    targetChecksum: null,
+  };
+  const migratedRows: Row[] = [];
+
+  const deferred = options.deferred ?? [];
+  const withoutDeferred = (row: Row): Row =>
+    ({ ...row, ...Object.fromEntries(deferred.map(column => [column, null])) });
+
+  const flush = async (batch: Row[]) => {
+    if (batch.length === 0 || dryRun) return;
+    const inserted = await db.insert(options.target)
+      .values(batch.map(withoutDeferred))
+      .onConflictDoNothing()
+      .returning({ id: options.target.id });
+    report.inserted += inserted.length;
+    report.existing += batch.length - inserted.length;
+  };
+
+  let batch: Row[] = [];
+  for await (const doc of options.model.find({}).sort(options.sort ?? { _id: 1 }).lean().cursor()) {
+    report.source++;
+    const row = options.convert(doc);
+    if (typeof row === 'string') {
+      report.skipped.push(`${doc._id}: ${row}`);
+      continue;
+    }
+
+    migratedRows.push(row);
+    batch.push(row);
+    if (batch.length >= batchSize) {
+      await flush(batch);
+      batch = [];
+    }
+  }
+  await flush(batch);
+
+  if (!dryRun && deferred.length > 0) {
+    for (const row of migratedRows) {
+      const values = Object.fromEntries(deferred.filter(column => row[column] != null).map(column => [column, row[column]]));
+      if (Object.keys(values).length > 0) {
+        await db.update(options.target).set(values).where(eq(options.target.id, row.id));
+      }
+    }
+  }
+
+  report.sourceChecksum = checksum(migratedRows, options.columns);
+
+  if (!dryRun) {
+    const targetRows: Row[] = [];
+    const ids = migratedRows.map(row => row.id);
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const chunk = await db.select().from(options.target)
+        .where(inArray(options.target.id, ids.slice(i, i + batchSize)));
+      targetRows.push(...(chunk as Row[]));
+    }
+    report.targetChecksum = checksum(targetRows, options.columns);
+  }
+
+  return { report, ids: new Set(migratedRows.map(row => row.id)) };
+}
+
+async function migrate() {
+  await connectToDatabase();
+  console.log(`Connected to MongoDB${dryRun ? ' (dry run - nothing will be written)' : ''}`);
+
+  // Trashed records keep their place in the trash even if whoever deleted them is gone
+  const knownUserIds = new Set((await MongoUser.find({}, { _id: 1 }).lean()).map((u: any) => toUuid(u._id)));
+  const deleter = (doc: any) => {
+    const id = doc.deletedBy ? toUuid(doc.deletedBy) : null;
+    return id && knownUserIds.has(id) ? id : null;
+  };
+
+  const userResult = await migrateCollection({
+    table: 'users',
+    model: MongoUser,
+    target: users,
+    columns: ['id', 'email', 'firstName', 'lastName', 'profileImageUrl', 'passwordHash', 'role', 'version', 'createdAt', 'updatedAt', 'deletedAt', 'deletedBy'],
+    deferred: ['deletedBy'],
+    convert: (doc) => ({
+      id: toUuid(doc._id),
+      email: doc.email,
+      firstName: doc.firstName ?? null,
+      lastName: doc.lastName ?? null,
+      profileImageUrl: doc.profileImageUrl ?? null,
+      passwordHash: doc.passwordHash,
+      role: doc.role || 'developer',
+      version: doc.version ?? 1,
+      createdAt: doc.createdAt ?? null,
+      updatedAt: doc.updatedAt ?? null,
+      deletedAt: doc.deletedAt ?? null,
+      deletedBy: deleter(doc),
+    }),
+  });
+  const userIds = userResult.ids;
+
+  const projectResult = await migrateCollection({
+    table: 'projects',
+    model: MongoProject,
+    target: projects,
+    columns: ['id', 'name', 'description', 'deadline', 'status', 'createdBy', 'projectLeadId', 'version', 'createdAt', 'updatedAt', 'deletedAt', 'deletedBy'],
+    convert: (doc) => {
+      const createdBy = toUuid(doc.createdBy);
+      if (!userIds.has(createdBy)) return `creator ${doc.createdBy} does not exist`;
+      const projectLeadId = doc.projectLeadId ? toUuid(doc.projectLeadId) : null;
+
+      return {
+        id: toUuid(doc._id),
+        name: doc.name,
+        description: doc.description ?? null,
+        deadline: doc.deadline ?? null,
+        status: normalizeStatus(doc.status),
+        createdBy,
+        // A lead who no longer exists is dropped rather than losing the project
+        projectLeadId: projectLeadId && userIds.has(projectLeadId) ? projectLeadId : null,
+        version: doc.version ?? 1,
+        createdAt: doc.createdAt ?? null,
+        updatedAt: doc.updatedAt ?? null,
+        deletedAt: doc.deletedAt ?? null,
+        deletedBy: deleter(doc),
+      };
+    },
+  });
+  const projectIds = projectResult.ids;
+
+  const assignmentResult = await migrateCollection({
+    table: 'project_assignments',
+    model: MongoProjectAssignment,
+    target: projectAssignments,
+    columns: ['id', 'projectId', 'userId', 'assignedBy', 'createdAt'],
+    convert: (doc) => {
+      const row = {
+        id: toUuid(doc._id),
+        projectId: toUuid(doc.projectId),
+        userId: toUuid(doc.userId),
+        assignedBy: toUuid(doc.assignedBy),
+        createdAt: doc.createdAt ?? null,
+      };
+      if (!projectIds.has(row.projectId)) return `project ${doc.projectId} does not exist`;
+      if (!userIds.has(row.userId)) return `user ${doc.userId} does not exist`;
+      if (!userIds.has(row.assignedBy)) return `assigner ${doc.assignedBy} does not exist`;
+      return row;
+    },
+  });
+
+  const documentResult = await migrateCollection({
+    table: 'documents',
+    model: MongoDocument,
+    target: documents,
+    columns: ['id', 'projectId', 'fileName', 'originalName', 'fileSize', 'mimeType', 'uploadedBy', 'storageProvider', 'storageKey', 'storageUrl', 'createdAt', 'deletedAt', 'deletedBy'],
+    convert: (doc) => {
+      const row = {
+        id: toUuid(doc._id),
+        projectId: toUuid(doc.projectId),
+        fileName: doc.fileName,
+        originalName: doc.originalName,
+        fileSize: doc.fileSize,
+        mimeType: doc.mimeType,
+        uploadedBy: toUuid(doc.uploadedBy),
+        // Documents uploaded before storage providers only carry the Cloudinary fields
+        storageProvider: doc.storageProvider || 'cloudinary',
+        storageKey: doc.storageKey || doc.cloudinaryPublicId,
+        storageUrl: doc.storageUrl || doc.cloudinaryUrl || null,
+        createdAt: doc.createdAt ?? null,
+        deletedAt: doc.deletedAt ?? null,
+        deletedBy: deleter(doc),
+      };
+      if (!projectIds.has(row.projectId)) return `project ${doc.projectId} does not exist`;
+      if (!userIds.has(row.uploadedBy)) return `uploader ${doc.uploadedBy} does not exist`;
+      if (!row.storageKey) return 'no storage key';
+      return row;
+    },
+  });
+
+  // Audit entries refer to what they are about by id: the ids of users,
+  // projects, assignments and documents copied above - as actorId, targetId,
+  // projectId or inside `changes` - become their new ids. Ids of anything not
+  // copied stay as they were.
+  const migratedIds = new Set([userIds, projectIds, assignmentResult.ids, documentResult.ids].flatMap(ids => Array.from(ids)));
+  const remapId = (id: string | null): string | null => {
+    if (!id || !/^[0-9a-f]{24}$/.test(id)) return id;
+    const uuid = toUuid(id);
+    return migratedIds.has(uuid) ? uuid : id;
+  };
+  const remapChanges = (changes: AuditChanges | null): AuditChanges | null =>
+    changes && JSON.parse(JSON.stringify(changes), (_key, value) => (typeof value === 'string' ? remapId(value) : value));
+
+  // The hash chain covers those ids, so the entries are sealed again, in
+  // order. A broken chain is not: sealing it again would hide what broke it.
+  const sourceChain = verifyAuditChain((await MongoAuditEntry.find({}).sort({ sequence: 1 }).lean()).map(toAuditEntry));
+  if (!sourceChain.valid) {
+    throw new Error(`The MongoDB audit log's hash chain is broken at entry ${sourceChain.brokenAt}; investigate before migrating it`);
+  }
+  let previousHash = GENESIS_HASH;
+  let sourceHead = GENESIS_HASH;
+
+  // `changes` is left out of the checksum - jsonb reorders its keys - but the
+  // entry hash covers it
+  const auditResult = await migrateCollection({
+    table: 'audit_log',
+    model: MongoAuditEntry,
+    target: auditLog,
+    columns: ['id', 'sequence', 'actorId', 'actorEmail', 'action', 'targetType', 'targetId', 'targetName', 'projectId', 'note', 'ip', 'createdAt', 'previousHash', 'hash'],
+    sort: { sequence: 1 },
+    convert: (doc) => {
+      const source = toAuditEntry(doc);
+      sourceHead = source.hash;
+      const entry = {
+        sequence: source.sequence,
+        createdAt: source.createdAt,
+        actorId: remapId(source.actorId),
+        actorEmail: source.actorEmail,
+        action: source.action,
+        targetType: source.targetType,
+        targetId: remapId(source.targetId)!,
+        targetName: source.targetName,
+        projectId: remapId(source.projectId),
+        changes: remapChanges(source.changes),
+        note: source.note,
+        ip: source.ip,
+        previousHash,
+      };
+      previousHash = hashAuditEntry(entry);
+      return { id: toUuid(doc._id), ...entry, hash: previousHash };
+    },
+  });
+
+  const reports = [userResult, projectResult, assignmentResult, documentResult, auditResult].map(r => r.report);
+
+  console.log('\nMigration report');
+  console.table(reports.map(r => ({
+    table: r.table,
+    source: r.source,
+    inserted: r.inserted,
+    'already present': r.existing,
+    skipped: r.skipped.length,
+    checksum: r.sourceChecksum.slice(0, 12),
+    verified: r.targetChecksum === null ? 'dry run' : r.targetChecksum === r.sourceChecksum ? 'match' : 'MISMATCH',
+  })));
+
+  for (const report of reports) {
+    for (const reason of report.skipped) {
+      console.log(`Skipped ${report.table} ${reason}`);
+    }
+  }
+
+  // Exported copies of the old log match the MongoDB head, not the new one
+  console.log(`\nAudit log sealed again with the new ids: MongoDB chain head ${sourceHead}, PostgreSQL chain head ${previousHash}`);
+
+  return reports.every(r => r.targetChecksum === null || r.targetChecksum === r.sourceChecksum);
+}
+
+migrate()
+  .then(async (verified) => {
+    await mongoose.disconnect();
+    await closeDb();
+    if (!verified) {
+      console.error('Checksums differ - rows already in PostgreSQL do not match MongoDB');
+      process.exit(1);
+    }
+    console.log(dryRun ? 'Dry run complete' : 'Migration complete');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,261 @@
+// A stand-in OpenID Connect identity provider, for trying out single sign-on
+// (server/oidc.ts) without a real one. Anyone can sign in as anyone: the
+// sign-in page asks for the email, name and groups to put in the tokens.
+// Nothing is kept between runs.
+//
+//   npm run oidc:mock
+//
+// then start the app with
+//
+//   OIDC_ISSUER_URL=http://localhost:5055 OIDC_CLIENT_ID=pixelforge \
+//   OIDC_CLIENT_SECRET=pixelforge-secret OIDC_DISPLAY_NAME="Mock SSO" \
+//   OIDC_ADMIN_VALUES=admins OIDC_PROJECT_LEAD_VALUES=leads npm run dev
+//
+//   MOCK_OIDC_PORT           port to listen on (5055)
+//   MOCK_OIDC_CLIENT_ID      the app's client id (pixelforge)
+//   MOCK_OIDC_CLIENT_SECRET  the app's client secret (pixelforge-secret)
+//
+// Skipping the sign-in page, GET /authorize/approve with the authorization
+// request's parameters plus email, name, groups (comma separated) and
+// email_verified=false to leave the email unverified, or none to leave the
+// claim out, signs in straight away.
+// Tests start one with startMockOidcIssuer.
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+const TOKEN_LIFETIME = 60 * 60;
+
+// The issuer's address and the one client it knows
+type MockIssuer = {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+};
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const keyId = randomBytes(8).toString('hex');
+
+type Claims = Record<string, unknown>;
+
+// Codes waiting to be exchanged, and access tokens handed out
+const codes = new Map<string, { redirectUri: string; codeChallenge: string; claims: Claims }>();
+const accessTokens = new Map<string, Claims>();
+
+const base64url = (data: string | Buffer) => Buffer.from(data).toString('base64url');
+
+function signJwt(payload: Claims): string {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: keyId }));
+  const body = base64url(JSON.stringify(payload));
+  return `${header}.${body}.${base64url(sign('sha256', Buffer.from(`${header}.${body}`), privateKey))}`;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+function send(res: ServerResponse, status: number, body: unknown, contentType = 'application/json') {
+  res.writeHead(status, { 'Content-Type': contentType, 'Cache-Control': 'no-store' });
+  res.end(contentType === 'application/json' ? JSON.stringify(body) : String(body));
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return new URLSearchParams(body);
+}
+
+// Client credentials, sent either way openid-client may send them
+function clientCredentials(req: IncomingMessage, form: URLSearchParams): { id: string | null; secret: string | null } {
+  const basic = /^Basic\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  if (basic) {
+    const [id, secret] = Buffer.from(basic[1], 'base64').toString().split(':').map(decodeURIComponent);
+    return { id, secret };
+  }
+  return { id: form.get('client_id'), secret: form.get('client_secret') };
+}
+
+// Checks an authorization request, returning what is wrong with it
+function checkAuthorizationRequest(mock: MockIssuer, params: URLSearchParams): string | null {
+  if (params.get('client_id') !== mock.clientId) return 'Unknown client_id';
+  if (params.get('response_type') !== 'code') return 'response_type must be code';
+  if (!params.get('redirect_uri')) return 'redirect_uri is missing';
+  if (!params.get('scope')?.split(' ').includes('openid')) return 'scope must include openid';
+  if (!params.get('code_challenge') || params.get('code_challenge_method') !== 'S256') return 'PKCE with S256 is required';
+  return null;
+}
+
+function signInPage(params: URLSearchParams): string {
+  const hidden = ['client_id', 'response_type', 'redirect_uri', 'scope', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) ?? '')}">`)
+    .join('');
+  return `<!doctype html>
+<title>Mock identity provider</title>
+<form method="get" action="/authorize/approve" style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto; display: grid; gap: .75rem">
+  <h1>Mock identity provider</h1>
+  ${hidden}
+  <label>Email <input name="email" type="email" required value="${escapeHtml(params.get('login_hint') ?? '')}"></label>
+  <label>Name <input name="name"></label>
+  <label>Groups <input name="groups" placeholder="admins, leads"></label>
+  <input type="hidden" name="email_verified" value="false">
+  <label><input name="email_verified" type="checkbox" value="true" checked> Email verified</label>
+  <button>Sign in</button>
+</form>`;
+}
+
+// Signs in as the person described by the sign-in page's fields and sends the
+// browser back to the app with a code
+function approve(mock: MockIssuer, params: URLSearchParams, res: ServerResponse) {
+  const problem = checkAuthorizationRequest(mock, params);
+  const email = params.get('email')?.trim().toLowerCase();
+  if (problem || !email) return send(res, 400, { error: 'invalid_request', error_description: problem ?? 'email is missing' });
+
+  const claims: Claims = {
+    // The same email always gets the same subject
+    sub: createHash('sha256').update(email).digest('hex').slice(0, 24),
+    email,
+    groups: (params.get('groups') ?? '').split(',').map(g => g.trim()).filter(Boolean),
+  };
+  // The sign-in page sends false, then true if the box is ticked
+  const emailVerified = params.getAll('email_verified').at(-1);
+  if (emailVerified !== 'none') claims.email_verified = emailVerified !== 'false';
+  const name = params.get('name')?.trim();
+  if (name) {
+    const [givenName, ...familyName] = name.split(/\s+/);
+    Object.assign(claims, { name, given_name: givenName, ...(familyName.length && { family_name: familyName.join(' ') }) });
+  }
+  if (params.get('nonce')) claims.nonce = params.get('nonce');
+
+  const code = randomBytes(24).toString('base64url');
+  codes.set(code, { redirectUri: params.get('redirect_uri')!, codeChallenge: params.get('code_challenge')!, claims });
+  setTimeout(() => codes.delete(code), 60 * 1000).unref();
+
+  const redirect = new URL(params.get('redirect_uri')!);
+  redirect.searchParams.set('code', code);
+  if (params.get('state')) redirect.searchParams.set('state', params.get('state')!);
+  redirect.searchParams.set('iss', mock.issuer);
+  res.writeHead(302, { Location: redirect.href });
+  res.end();
+}
+
+async function token(mock: MockIssuer, req: IncomingMessage, res: ServerResponse) {
+  const form = await readForm(req);
+  const client = clientCredentials(req, form);
+  if (client.id !== mock.clientId || client.secret !== mock.clientSecret) {
+    return send(res, 401, { error: 'invalid_client' });
+  }
+  if (form.get('grant_type') !== 'authorization_code') {
+    return send(res, 400, { error: 'unsupported_grant_type' });
+  }
+
+  const code = form.get('code') ?? '';
+  const pending = codes.get(code);
+  codes.delete(code);
+  const verifier = form.get('code_verifier') ?? '';
+  if (
+    !pending ||
+    pending.redirectUri !== form.get('redirect_uri') ||
+    createHash('sha256').update(verifier).digest('base64url') !== pending.codeChallenge
+  ) {
+    return send(res, 400, { error: 'invalid_grant' });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = randomBytes(24).toString('base64url');
+  const { nonce, ...profile } = pending.claims;
+  accessTokens.set(accessToken, profile);
+  setTimeout(() => accessTokens.delete(accessToken), TOKEN_LIFETIME * 1000).unref();
+
+  send(res, 200, {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: TOKEN_LIFETIME,
+    id_token: signJwt({ ...pending.claims, iss: mock.issuer, aud: mock.clientId, iat: now, exp: now + TOKEN_LIFETIME }),
+  });
+}
+
+function userInfo(req: IncomingMessage, res: ServerResponse) {
+  const bearer = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  const claims = bearer && accessTokens.get(bearer[1]);
+  if (!claims) {
+    res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+    return send(res, 401, { error: 'invalid_token' });
+  }
+  send(res, 200, claims);
+}
+
+async function handle(mock: MockIssuer, req: IncomingMessage, res: ServerResponse) {
+  const { issuer } = mock;
+  const url = new URL(req.url ?? '/', issuer);
+  try {
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return send(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        userinfo_endpoint: `${issuer}/userinfo`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        scopes_supported: ['openid', 'email', 'profile', 'groups'],
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+        code_challenge_methods_supported: ['S256'],
+        claims_supported: ['sub', 'email', 'email_verified', 'name', 'given_name', 'family_name', 'groups'],
+      });
+    }
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      return send(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: keyId, use: 'sig', alg: 'RS256' }] });
+    }
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      const problem = checkAuthorizationRequest(mock, url.searchParams);
+      if (problem) return send(res, 400, { error: 'invalid_request', error_description: problem });
+      return send(res, 200, signInPage(url.searchParams), 'text/html; charset=utf-8');
+    }
+    if (req.method === 'GET' && url.pathname === '/authorize/approve') {
+      return approve(mock, url.searchParams, res);
+    }
+    if (req.method === 'POST' && url.pathname === '/token') {
+      return await token(mock, req, res);
+    }
+    if ((req.method === 'GET' || req.method === 'POST') && url.pathname === '/userinfo') {
+      return userInfo(req, res);
+    }
+    send(res, 404, { error: 'not_found' });
+  } catch (error) {
+    console.error('Mock OIDC issuer error:', error);
+    send(res, 500, { error: 'server_error' });
+  }
+}
+
+// Starts an issuer on `port`, 0 for any free one
+export async function startMockOidcIssuer({
+  port = 5055,
+  clientId = 'pixelforge',
+  clientSecret = 'pixelforge-secret',
+}: { port?: number; clientId?: string; clientSecret?: string } = {}): Promise<MockIssuer & { close(): Promise<void> }> {
+  const mock: MockIssuer = { issuer: '', clientId, clientSecret };
+  const server = createServer((req, res) => handle(mock, req, res));
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, resolve);
+  });
+  mock.issuer = `http://localhost:${(server.address() as AddressInfo).port}`;
+  return {
+    ...mock,
+    close: () => new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  };
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  startMockOidcIssuer({
+    port: Number(process.env.MOCK_OIDC_PORT || 5055),
+    clientId: process.env.MOCK_OIDC_CLIENT_ID,
+    clientSecret: process.env.MOCK_OIDC_CLIENT_SECRET,
+  }).then(({ issuer, clientId }) => {
+    console.log(`Mock OIDC issuer at ${issuer} (client ${clientId})`);
+  }).catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
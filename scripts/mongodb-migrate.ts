@@ -0,0 +1,51 @@
+// Apply, roll back and list the MongoDB schema migrations in server/migrations.
+//
+//   MONGODB_URI=... npm run db:migrate -- list
+//   MONGODB_URI=... npm run db:migrate -- up [--to=N]    apply pending migrations (up to version N)
+//   MONGODB_URI=... npm run db:migrate -- down [--to=N]  roll back the last migration (or all after version N)
+import mongoose from 'mongoose';
+import { applyMigrations, getMigrationStatus, rollbackMigrations } from '../server/migrator';
+
+const [command = 'list'] = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+const toArg = process.argv.find(arg => arg.startsWith('--to='));
+const to = toArg ? parseInt(toArg.split('=')[1], 10) : undefined;
+
+function label(migration: { version: number; name: string }): string {
+  return `${String(migration.version).padStart(3, '0')} ${migration.name}`;
+}
+
+async function main() {
+  if (to !== undefined && Number.isNaN(to)) {
+    throw new Error(`Invalid version "${toArg}"`);
+  }
+
+  switch (command) {
+    case 'list':
+      for (const status of await getMigrationStatus()) {
+        const state = status.appliedAt ? `applied ${status.appliedAt.toISOString()}` : 'pending';
+        console.log(`${label(status)}  ${state}`);
+      }
+      break;
+    case 'up': {
+      const applied = await applyMigrations(to);
+      applied.forEach(migration => console.log(`Applied ${label(migration)}`));
+      if (applied.length === 0) console.log('No pending migrations');
+      break;
+    }
+    case 'down': {
+      const rolledBack = await rollbackMigrations(to);
+      rolledBack.forEach(migration => console.log(`Rolled back ${label(migration)}`));
+      if (rolledBack.length === 0) console.log('Nothing to roll back');
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}" (expected list, up or down)`);
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -1,75 +1,53 @@
-import { connectToDatabase } from '../server/mongodb';
-import { User } from '../shared/mongoose-schema';
-import bcrypt from 'bcryptjs';
+// Creates the admin user in MongoDB from ADMIN_EMAIL and ADMIN_PASSWORD, and a
+// sample project lead and developer signing in with SAMPLE_USER_PASSWORD if it
+// is set. Both passwords must meet the password policy.
+//
+//   MONGODB_URI=... ADMIN_PASSWORD=... [SAMPLE_USER_PASSWORD=...] tsx scripts/setup-admin-mongodb.ts
+process.env.STORAGE_BACKEND = 'mongodb';
 
 async function setupAdmin() {
+  // Imported once STORAGE_BACKEND is set, as the storage reads it on import
+  const { setupAdmin: createAdmin } = await import('../server/setup-mongodb-admin');
   try {
-    await connectToDatabase();
-    
-    const adminEmail = process.env.ADMIN_EMAIL || 'admin@gamedev.com';
-    const adminPassword = process.env.ADMIN_PASSWORD || 'admin123';
-    
-    // Check if admin already exists
-    const existingAdmin = await User.findOne({ email: adminEmail });
-    if (existingAdmin) {
-      console.log('Admin user already exists:', adminEmail);
-      return;
-    }
-    
-    // Hash password
-    const passwordHash = await bcrypt.hash(adminPassword, 12);
-    
-    // Create admin user
-    const adminUser = new User({
-      email: adminEmail,
-      firstName: 'System',
-      lastName: 'Administrator',
-      passwordHash,
-      role: 'admin',
-      profileImageUrl: null,
-    });
-    
-    await adminUser.save();
-    console.log('Admin user created successfully:', adminEmail);
-    
+    await createAdmin();
+
     // Create some sample data
     await createSampleData();
-    
+
   } catch (error) {
     console.error('Error setting up admin:', error);
+    process.exitCode = 1;
   } finally {
-    process.exit(0);
+    process.exit();
   }
 }
 
 async function createSampleData() {
+  const samplePassword = process.env.SAMPLE_USER_PASSWORD;
+  if (!samplePassword) {
+    console.log('SAMPLE_USER_PASSWORD is not set - skipping the sample users');
+    return;
+  }
+
+  const { storage } = await import('../server/storage');
+  const { checkNewPassword, hashPassword, rememberPassword } = await import('../server/password-policy');
   try {
-    // Create sample project lead
-    const leadPasswordHash = await bcrypt.hash('lead123', 12);
-    const projectLead = new User({
-      email: 'lead@pixelforge.com',
-      firstName: 'Project',
-      lastName: 'Lead',
-      passwordHash: leadPasswordHash,
-      role: 'project_lead',
-    });
-    await projectLead.save();
-    
-    // Create sample developer
-    const devPasswordHash = await bcrypt.hash('dev123', 12);
-    const developer = new User({
-      email: 'dev@pixelforge.com',
-      firstName: 'Game',
-      lastName: 'Developer',
-      passwordHash: devPasswordHash,
-      role: 'developer',
-    });
-    await developer.save();
-    
+    await checkNewPassword(samplePassword, null);
+    const sampleUsers = [
+      { email: 'lead@pixelforge.com', firstName: 'Project', lastName: 'Lead', role: 'project_lead' as const },
+      { email: 'dev@pixelforge.com', firstName: 'Game', lastName: 'Developer', role: 'developer' as const },
+    ];
+    for (const sample of sampleUsers) {
+      if (await storage.getUserByEmail(sample.email)) continue;
+      const passwordHash = await hashPassword(samplePassword);
+      const user = await storage.createUser({ ...sample, passwordHash });
+      await rememberPassword(user.id, passwordHash);
+    }
+
     console.log('Sample users created successfully');
   } catch (error) {
     console.error('Error creating sample data:', error);
   }
 }
 
-setupAdmin();
\ No newline at end of file
+setupAdmin();
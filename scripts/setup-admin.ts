@@ -1,50 +1,14 @@
-import { db } from "../server/db";
-import { users } from "../shared/schema";
-import bcrypt from "bcryptjs";
-import { eq } from "drizzle-orm";
+// Creates the admin user in PostgreSQL from ADMIN_EMAIL and ADMIN_PASSWORD,
+// which must meet the password policy.
+//
+//   DATABASE_URL=... ADMIN_PASSWORD=... tsx scripts/setup-admin.ts
+process.env.STORAGE_BACKEND = "postgres";
 
 async function setupAdminUser() {
-  try {
-    console.log("Setting up default admin user...");
-
-    // Get admin credentials from environment variables
-    const adminEmail = process.env.ADMIN_EMAIL || "admin@gamedev.com";
-    const adminPassword = process.env.ADMIN_PASSWORD || "admin123";
-
-    // Check if admin user already exists
-    const existingAdmin = await db
-      .select()
-      .from(users)
-      .where(eq(users.email, adminEmail));
-
-    if (existingAdmin.length > 0) {
-      console.log("Admin user already exists!");
-      return;
-    }
-
-    // Create default admin user
-    const hashedPassword = await bcrypt.hash(adminPassword, 10);
-    
-    const [adminUser] = await db
-      .insert(users)
-      .values({
-        email: adminEmail,
-        passwordHash: hashedPassword,
-        firstName: "System",
-        lastName: "Administrator",
-        role: "admin",
-      })
-      .returning();
-
-    console.log("✅ Default admin user created successfully!");
-    console.log("📧 Email:", adminEmail);
-    console.log("🔑 Password:", adminPassword);
-    console.log("⚠️  Please change the password after first login!");
-    
-  } catch (error) {
-    console.error("❌ Error setting up admin user:", error);
-    process.exit(1);
-  }
+  console.log("Setting up default admin user...");
+  // Imported once STORAGE_BACKEND is set, as the storage reads it on import
+  const { setupAdmin } = await import("../server/setup-mongodb-admin");
+  await setupAdmin();
 }
 
 setupAdminUser()
@@ -55,4 +19,4 @@ setupAdminUser()
   .catch((error) => {
     console.error("Setup failed:", error);
     process.exit(1);
-  });
\ No newline at end of file
+  });
@@ -1,43 +1,19 @@
-import { connectToDatabase } from '../server/mongodb';
-import { User } from '../shared/mongoose-schema';
-import bcrypt from 'bcryptjs';
+// Creates the admin user in MongoDB from ADMIN_EMAIL and ADMIN_PASSWORD, which
+// must meet the password policy.
+//
+//   MONGODB_URI=... ADMIN_PASSWORD=... tsx scripts/setup-mongodb-admin.ts
+process.env.STORAGE_BACKEND = 'mongodb';
 
-async function setupAdmin() {
-  try {
-    await connectToDatabase();
-    console.log('Connected to MongoDB');
-
-    const adminEmail = 'admin@gamedev.com';
-    const adminPassword = 'admin123';
-
-    // Check if admin already exists
-    const existingAdmin = await User.findOne({ email: adminEmail });
-    if (existingAdmin) {
-      console.log('Admin user already exists');
-      return;
-    }
-
-    // Create admin user
-    const passwordHash = await bcrypt.hash(adminPassword, 10);
-    const admin = new User({
-      email: adminEmail,
-      firstName: 'Admin',
-      lastName: 'User',
-      passwordHash,
-      role: 'admin'
-    });
-
-    await admin.save();
-    console.log(`Admin user created: ${adminEmail} / ${adminPassword}`);
-  } catch (error) {
-    console.error('Error setting up admin:', error);
-  }
+async function setupMongoAdmin() {
+  // Imported once STORAGE_BACKEND is set, as the storage reads it on import
+  const { setupAdmin } = await import('../server/setup-mongodb-admin');
+  await setupAdmin();
 }
 
-setupAdmin().then(() => {
+setupMongoAdmin().then(() => {
   console.log('MongoDB admin setup complete');
   process.exit(0);
 }).catch((error) => {
   console.error('Failed to setup MongoDB admin:', error);
   process.exit(1);
-});
\ No newline at end of file
+});
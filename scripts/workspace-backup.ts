@@ -0,0 +1,75 @@
+// Back up the whole workspace to an archive, or rebuild a fresh instance from
+// one (see server/backup.ts). Uses the same STORAGE_BACKEND, database and
+// FILE_STORE settings as the server.
+//
+//   npm run backup -- create <file> [--with-password-hashes] [--with-files]
+//   npm run backup -- restore <file> [--validate-only] [--password=...]
+//
+//   --with-password-hashes  keep users' password hashes, so they can sign in
+//                           with their passwords after a restore
+//   --with-files            include the documents' files, not just where they are stored
+//   --validate-only         check the archive and the target workspace, write nothing
+//   --password=...          password for users restored without a password hash,
+//                           which must meet the password policy
+import { createReadStream, createWriteStream } from 'fs';
+import mongoose from 'mongoose';
+import { closeDb } from '../server/db';
+import { createBackup, openBackup, recordBackup, restoreBackup, writeBackup, BackupRestoreError } from '../server/backup';
+
+const [command, file] = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+const passwordArg = process.argv.find(arg => arg.startsWith('--password='));
+
+async function main() {
+  if (!file) {
+    throw new Error('Usage: workspace-backup.ts create|restore <file> [options]');
+  }
+
+  switch (command) {
+    case 'create': {
+      const options = {
+        includePasswordHashes: process.argv.includes('--with-password-hashes'),
+        includeFiles: process.argv.includes('--with-files'),
+      };
+      const archive = await createBackup(options);
+      const files = await writeBackup(archive, createWriteStream(file), options);
+      await recordBackup(null, options);
+      console.log(`Backed up ${archive.users.length} users, ${archive.projects.length} projects, ` +
+        `${archive.assignments.length} assignments and ${archive.documents.length} documents ` +
+        `(${files} files) to ${file}`);
+      break;
+    }
+    case 'restore': {
+      const validateOnly = process.argv.includes('--validate-only');
+      const backup = await openBackup(createReadStream(file));
+      const report = await restoreBackup(backup, {
+        validateOnly,
+        password: passwordArg?.slice('--password='.length),
+      });
+      console.log(`${validateOnly ? 'Would restore' : 'Restored'} ${report.users} users, ${report.projects} projects, ` +
+        `${report.assignments} assignments and ${report.documents} documents (${report.files} files) ` +
+        `from the backup of ${backup.archive.createdAt.toISOString()}`);
+      if (report.usersWithoutPasswordHash > 0 && !passwordArg) {
+        console.log(`${report.usersWithoutPasswordHash} users have no password hash in the archive and cannot sign in ` +
+          'until they are given a password - restore with --password=... to set one');
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}" (expected create or restore)`);
+  }
+}
+
+main()
+  .catch(error => {
+    if (error instanceof BackupRestoreError) {
+      console.error('Backup cannot be restored:');
+      error.problems.forEach(problem => console.error(`  - ${problem}`));
+    } else {
+      console.error('Backup failed:', error);
+    }
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await mongoose.disconnect();
+    await closeDb();
+  });
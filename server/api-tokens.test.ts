@@ -0,0 +1,127 @@
+// Personal API tokens: looking them up by the token, expiry, and what their
+// scope lets them do
+import { describe, it, before, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request } from 'express';
+import type { ApiToken } from '../shared/schema';
+import type { IStorage } from './storage';
+
+process.env.STORAGE_BACKEND = 'memory';
+
+let storage: IStorage;
+let memoryStorage: typeof import('./memory-storage').memoryStorage;
+let apiTokens: typeof import('./api-tokens');
+
+before(async () => {
+  ({ storage } = await import('./storage'));
+  ({ memoryStorage } = await import('./memory-storage'));
+  apiTokens = await import('./api-tokens');
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('API tokens', () => {
+  beforeEach(async () => {
+    await memoryStorage.reset();
+    mock.timers.enable({ apis: ['Date'], now: new Date('2026-03-01T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  const createUser = () =>
+    storage.createUser({ email: 'dev@example.com', passwordHash: 'hash', role: 'developer' });
+
+  const token = (overrides: Partial<ApiToken> = {}): ApiToken => ({
+    id: 'token-1',
+    userId: 'user-1',
+    name: 'CI',
+    tokenHash: 'hash',
+    prefix: 'pfn_abcd',
+    access: 'read',
+    projectIds: ['project-1', 'project-2'],
+    expiresAt: new Date(Date.now() + DAY),
+    lastUsedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  describe('apiTokenAllows', () => {
+    it('lets read tokens read their projects only', () => {
+      const read = token();
+      assert.equal(apiTokens.apiTokenAllows(read, 'project-1', 'read'), true);
+      assert.equal(apiTokens.apiTokenAllows(read, 'project-2', 'read'), true);
+      assert.equal(apiTokens.apiTokenAllows(read, 'project-1', 'write'), false);
+      assert.equal(apiTokens.apiTokenAllows(read, 'project-3', 'read'), false);
+      assert.equal(apiTokens.apiTokenAllows(read, undefined, 'read'), false);
+    });
+
+    it('lets write tokens read and write their projects only', () => {
+      const write = token({ access: 'write' });
+      assert.equal(apiTokens.apiTokenAllows(write, 'project-1', 'read'), true);
+      assert.equal(apiTokens.apiTokenAllows(write, 'project-1', 'write'), true);
+      assert.equal(apiTokens.apiTokenAllows(write, 'project-3', 'write'), false);
+    });
+  });
+
+  describe('findApiToken', () => {
+    it('finds a token by the token itself, which is stored only as a hash', async () => {
+      const user = await createUser();
+      const created = await apiTokens.createApiToken(user, { name: 'CI', access: 'write', projectIds: ['p1'], expiresInDays: 30 });
+      assert.match(created.token, /^pfn_[A-Za-z0-9_-]{43}$/);
+      assert.equal(created.prefix, created.token.slice(0, 8));
+      assert.equal('tokenHash' in created, false);
+
+      const found = await apiTokens.findApiToken(created.token);
+      assert.equal(found?.id, created.id);
+      assert.equal(found?.userId, user.id);
+      assert.notEqual(found?.tokenHash, created.token);
+    });
+
+    it('finds nothing for unknown, mistyped or foreign tokens', async () => {
+      const user = await createUser();
+      const created = await apiTokens.createApiToken(user, { name: 'CI', access: 'read', projectIds: ['p1'], expiresInDays: 30 });
+      assert.equal(await apiTokens.findApiToken(created.token.slice(0, -1)), null);
+      assert.equal(await apiTokens.findApiToken(`${created.token}x`), null);
+      assert.equal(await apiTokens.findApiToken(created.token.slice(4)), null);
+      assert.equal(await apiTokens.findApiToken(''), null);
+    });
+
+    it('stops finding a token once it expires', async () => {
+      const user = await createUser();
+      const created = await apiTokens.createApiToken(user, { name: 'CI', access: 'read', projectIds: ['p1'], expiresInDays: 7 });
+      mock.timers.tick(7 * DAY - 1);
+      assert.ok(await apiTokens.findApiToken(created.token));
+      mock.timers.tick(1);
+      assert.equal(await apiTokens.findApiToken(created.token), null);
+    });
+
+    it('notes when a token was used, at most once a minute', async () => {
+      const user = await createUser();
+      const created = await apiTokens.createApiToken(user, { name: 'CI', access: 'read', projectIds: ['p1'], expiresInDays: 30 });
+      const lastUsed = async () => (await storage.listApiTokens(user.id))[0].lastUsedAt?.getTime();
+      assert.equal(await lastUsed(), undefined);
+
+      const firstUse = Date.now();
+      await apiTokens.findApiToken(created.token);
+      assert.equal(await lastUsed(), firstUse);
+      mock.timers.tick(30 * 1000);
+      await apiTokens.findApiToken(created.token);
+      assert.equal(await lastUsed(), firstUse);
+      mock.timers.tick(30 * 1000);
+      await apiTokens.findApiToken(created.token);
+      assert.equal(await lastUsed(), Date.now());
+    });
+  });
+
+  it('reads bearer tokens from the Authorization header', () => {
+    const request = (authorization?: string) =>
+      ({ get: (name: string) => (name === 'Authorization' ? authorization : undefined) }) as unknown as Request;
+    assert.equal(apiTokens.readBearerToken(request('Bearer pfn_abc')), 'pfn_abc');
+    assert.equal(apiTokens.readBearerToken(request('bearer pfn_abc ')), 'pfn_abc');
+    assert.equal(apiTokens.readBearerToken(request('Basic dXNlcjpwYXNz')), null);
+    assert.equal(apiTokens.readBearerToken(request('Bearer two words')), null);
+    assert.equal(apiTokens.readBearerToken(request()), null);
+  });
+});
@@ -0,0 +1,72 @@
+// Personal API tokens, for scripts and CI jobs. Users create them in Settings
+// and scripts send them as "Authorization: Bearer <token>". Each is scoped to
+// read or write on a few projects and expires; only its SHA-256 hash is
+// stored, so the token itself is shown once, when it is created. Requests made
+// with a token act as its owner, with the owner's role. Only the project
+// routes that opt in (isAuthenticatedWithApiToken in auth.ts) accept them.
+import { createHash, randomBytes } from 'crypto';
+import type { Request } from 'express';
+import { storage } from './storage';
+import type { User } from './storage';
+import type { ApiToken, ApiTokenAccess, ApiTokenSummary, CreatedApiToken } from '../shared/schema';
+
+// Marks the tokens as this app's, so secret scanners can spot leaked ones
+const TOKEN_PREFIX = 'pfn_';
+// Characters of the token kept in the clear, to tell tokens apart
+const SHOWN_LENGTH = TOKEN_PREFIX.length + 4;
+// lastUsedAt is written at most this often per token
+const TOUCH_INTERVAL = 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function toApiTokenSummary({ tokenHash, userId, ...summary }: ApiToken): ApiTokenSummary {
+  return summary;
+}
+
+// Creates a token for `user`, returning it in full this one time
+export async function createApiToken(
+  user: User,
+  { name, access, projectIds, expiresInDays }: { name: string; access: ApiTokenAccess; projectIds: string[]; expiresInDays: number },
+): Promise<CreatedApiToken> {
+  const token = TOKEN_PREFIX + randomBytes(32).toString('base64url');
+  const created = await storage.createApiToken({
+    userId: user.id,
+    name,
+    tokenHash: hashApiToken(token),
+    prefix: token.slice(0, SHOWN_LENGTH),
+    access,
+    projectIds,
+    expiresAt: new Date(Date.now() + expiresInDays * DAY),
+  });
+  return { ...toApiTokenSummary(created), token };
+}
+
+// The token in the request's Authorization header, if it has a bearer one
+export function readBearerToken(req: Request): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.get('Authorization') ?? '');
+  return match ? match[1] : null;
+}
+
+// The unexpired token `token` is, noting that it was used. Null if there is
+// no such token.
+export async function findApiToken(token: string): Promise<ApiToken | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+  const found = await storage.getApiTokenByHash(hashApiToken(token));
+  const now = new Date();
+  if (!found || found.expiresAt <= now) return null;
+
+  if (!found.lastUsedAt || now.getTime() - found.lastUsedAt.getTime() >= TOUCH_INTERVAL) {
+    await storage.touchApiToken(found.id, now);
+    found.lastUsedAt = now;
+  }
+  return found;
+}
+
+// Whether `token` gives `access` to the project; write access includes read
+export function apiTokenAllows(token: ApiToken, projectId: string | undefined, access: ApiTokenAccess): boolean {
+  if (!projectId || !token.projectIds.includes(projectId)) return false;
+  return access === 'read' || token.access === 'write';
+}
@@ -0,0 +1,80 @@
+// Hash chain over the audit log. Every entry carries a sequence number and the
+// SHA-256 of its contents together with the previous entry's hash, so changing,
+// removing or reordering an entry breaks the chain from that entry on. The
+// storage backends seal entries as they append them; nothing updates or deletes
+// an entry afterwards.
+import { createHash } from 'crypto';
+import type { InsertAuditEntry } from './storage';
+import type { AuditChainStatus, AuditChanges, AuditEntry } from '../shared/schema';
+
+// Previous hash of the first entry
+export const GENESIS_HASH = '0'.repeat(64);
+
+export type SealedAuditEntry = Omit<AuditEntry, 'id'>;
+
+// JSON with object keys sorted, so the hash does not depend on how a backend
+// orders the keys it stores (PostgreSQL jsonb does not keep them in order)
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function hashAuditEntry(entry: Omit<SealedAuditEntry, 'hash'>): string {
+  return createHash('sha256').update(canonicalJson([
+    entry.sequence,
+    entry.createdAt.toISOString(),
+    entry.actorId,
+    entry.actorEmail,
+    entry.action,
+    entry.targetType,
+    entry.targetId,
+    entry.targetName,
+    entry.projectId,
+    entry.changes,
+    entry.note,
+    entry.ip,
+    entry.previousHash,
+  ])).digest('hex');
+}
+
+// Chains `entry` onto `previous`, the newest entry in the log (null when empty)
+export function sealAuditEntry(
+  entry: InsertAuditEntry,
+  previous: Pick<AuditEntry, 'sequence' | 'hash'> | null,
+  now = new Date(),
+): SealedAuditEntry {
+  const unsealed = {
+    ...entry,
+    // Stored as JSON by every backend, so dates and the like are hashed the way
+    // they read back
+    changes: entry.changes ? JSON.parse(JSON.stringify(entry.changes)) as AuditChanges : null,
+    sequence: previous ? previous.sequence + 1 : 1,
+    createdAt: now,
+    previousHash: previous?.hash ?? GENESIS_HASH,
+  };
+  return { ...unsealed, hash: hashAuditEntry(unsealed) };
+}
+
+// Checks the whole log, oldest entry first. Dropping the newest entries leaves
+// a valid chain, so compare the entry count with an exported copy as well.
+export function verifyAuditChain(entries: AuditEntry[]): AuditChainStatus {
+  let previous: Pick<AuditEntry, 'sequence' | 'hash'> | null = null;
+  for (const entry of entries) {
+    const follows = previous
+      ? entry.sequence === previous.sequence + 1 && entry.previousHash === previous.hash
+      : entry.sequence === 1 && entry.previousHash === GENESIS_HASH;
+    if (!follows || hashAuditEntry(entry) !== entry.hash) {
+      return { valid: false, entries: entries.length, brokenAt: entry.sequence };
+    }
+    previous = entry;
+  }
+  return { valid: true, entries: entries.length, brokenAt: null };
+}
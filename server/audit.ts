@@ -0,0 +1,90 @@
+// Audit trail of who did what. Routes record each change they make - and each
+// document download - with recordAudit, in the same unit of work as the change
+// where there is one, so a change is never committed without its entry.
+import { storage } from './storage';
+import type { AuthRequest } from './auth';
+import type { User } from './storage';
+import type { AuditAction, AuditChanges, AuditEntry, AuditTargetType } from '../shared/schema';
+
+export type AuditEvent = {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  // Project name, user email or file name, readable after the target is gone
+  targetName?: string | null;
+  // Project the target belongs to. Defaults to the target itself for projects.
+  projectId?: string | null;
+  changes?: AuditChanges | null;
+  note?: string | null;
+  // Who did it, when not the signed-in user - e.g. someone resetting their
+  // forgotten password
+  actor?: User | null;
+};
+
+// Records `event` as done by the signed-in user making `req`, or by
+// `event.actor`. Entries without a request (scheduled jobs) or a signed-in
+// user have no actor.
+export async function recordAudit(req: AuthRequest | null, event: AuditEvent): Promise<void> {
+  const actor = event.actor ?? req?.user;
+  await storage.appendAuditEntry({
+    actorId: actor?.id ?? null,
+    actorEmail: actor?.email ?? null,
+    action: event.action,
+    targetType: event.targetType,
+    targetId: event.targetId,
+    targetName: event.targetName ?? null,
+    projectId: event.projectId ?? (event.targetType === 'project' ? event.targetId : null),
+    changes: event.changes ?? null,
+    note: event.note ?? null,
+    ip: req?.ip ?? null,
+  });
+}
+
+// Before and after values of those `fields` that differ. A record that does
+// not exist yet, or any more, has null in every field.
+export function diffFields<T extends object>(
+  before: T | null,
+  after: T | null,
+  fields: (keyof T & string)[],
+): AuditChanges | null {
+  const changes: AuditChanges = {};
+  for (const field of fields) {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { before: from, after: to };
+    }
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+const csvColumns: (keyof AuditEntry)[] = [
+  'sequence',
+  'createdAt',
+  'actorId',
+  'actorEmail',
+  'action',
+  'targetType',
+  'targetId',
+  'targetName',
+  'projectId',
+  'changes',
+  'note',
+  'ip',
+  'previousHash',
+  'hash',
+];
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // File names and the like could otherwise run as spreadsheet formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// The JSON export keeps values exactly as hashed; the CSV one is for reading
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const rows = entries.map(entry => csvColumns.map(column => csvValue(entry[column])).join(','));
+  return [csvColumns.join(','), ...rows].join('\r\n') + '\r\n';
+}
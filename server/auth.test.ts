@@ -0,0 +1,91 @@
+// Sign-in and session routes, through the API on the in-memory backend
+import { describe, it, before, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SessionData } from 'express-session';
+import { startTestServer } from './test-server';
+import type { TestClient, TestServer } from './test-server';
+import type { ActiveSession } from '../shared/schema';
+
+const PASSWORD = 'Correct-Horse-Battery-9';
+
+describe('auth routes', () => {
+  let app: TestServer;
+
+  before(async () => {
+    app = await startTestServer();
+  });
+
+  beforeEach(async () => {
+    await app.reset();
+  });
+
+  after(async () => {
+    await app?.close();
+  });
+
+  const signedIn = async (email: string): Promise<TestClient> => {
+    const browser = app.client();
+    await browser.login(email, PASSWORD);
+    return browser;
+  };
+
+  describe('sessions', () => {
+    it('signs out for good when the current session is revoked', async () => {
+      await app.createUser('dev@example.com', 'developer', PASSWORD);
+      const browser = await signedIn('dev@example.com');
+      const cookie = browser.cookie;
+
+      const sessions: ActiveSession[] = (await browser.request('GET', '/api/auth/sessions')).body;
+      const current = sessions.find(s => s.current)!;
+      assert.equal((await browser.request('DELETE', `/api/auth/sessions/${current.id}`)).status, 204);
+
+      // Even sent again, the old cookie no longer signs anyone in
+      browser.cookie = cookie;
+      assert.equal((await browser.request('GET', '/api/auth/user')).status, 401);
+      assert.equal((await browser.request('GET', '/api/auth/user')).status, 401);
+    });
+
+    it('revokes another session without signing out the current one', async () => {
+      await app.createUser('dev@example.com', 'developer', PASSWORD);
+      const laptop = await signedIn('dev@example.com');
+      const phone = await signedIn('dev@example.com');
+
+      const sessions: ActiveSession[] = (await laptop.request('GET', '/api/auth/sessions')).body;
+      assert.equal(sessions.length, 2);
+      const other = sessions.find(s => !s.current)!;
+      assert.equal((await laptop.request('DELETE', `/api/auth/sessions/${other.id}`)).status, 204);
+
+      assert.equal((await phone.request('GET', '/api/auth/user')).status, 401);
+      assert.equal((await laptop.request('GET', '/api/auth/user')).status, 200);
+    });
+
+    it('keeps sessions revoked by an admin revoked', async () => {
+      await app.createUser('admin@example.com', 'admin', PASSWORD);
+      const dev = await app.createUser('dev@example.com', 'developer', PASSWORD);
+      const admin = await signedIn('admin@example.com');
+      const browser = await signedIn('dev@example.com');
+
+      const res = await admin.request('DELETE', `/api/users/${dev.id}/sessions`);
+      assert.deepEqual(res.body, { revoked: 1 });
+      assert.equal((await browser.request('GET', '/api/auth/user')).status, 401);
+      assert.deepEqual(await app.storage.listUserSessions(dev.id), []);
+    });
+
+    it('does not save again a session deleted while a request was using it', async () => {
+      const { StorageSessionStore } = await import('./session-store');
+      const dev = await app.createUser('dev@example.com', 'developer', PASSWORD);
+      const browser = await signedIn('dev@example.com');
+      const [{ sid, sess }] = await app.storage.listUserSessions(dev.id);
+
+      // A request read the session, then it was revoked, then the request
+      // finished and saved its changes
+      await app.storage.deleteUserSessions(dev.id);
+      const store = new StorageSessionStore();
+      await new Promise<void>((resolve, reject) =>
+        store.set(sid, { ...(sess as SessionData), lastSeenAt: Date.now() }, (err) => (err ? reject(err) : resolve())));
+
+      assert.equal(await app.storage.getUserSession(sid), null);
+      assert.equal((await browser.request('GET', '/api/auth/user')).status, 401);
+    });
+  });
+});
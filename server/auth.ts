@@ -1,9 +1,35 @@
 import bcrypt from "bcryptjs";
 import session from "express-session";
 import type { Express, Request, Response, NextFunction } from "express";
-import MemoryStore from "memorystore";
+import { fromZodError } from "zod-validation-error";
 import { storage } from "./storage";
 import type { User } from "./storage";
+import { runUnitOfWork } from "./unit-of-work";
+import { recordAudit, diffFields } from "./audit";
+import { StorageSessionStore, SESSION_TTL, noteSessionActivity, publicSessionId, sessionSecret, toActiveSession } from "./session-store";
+import { isTwoFactorRequired } from "./security-settings";
+import { redeemPasswordResetToken, sendPasswordReset } from "./password-reset";
+import { findInvitation, redeemInvitation } from "./invitations";
+import { getRegistrationPolicy, invitationRefusal, signUpRefusal } from "./registrations";
+import { LOCKOUT_DURATION, releaseLoginAttempt, reserveLoginAttempt } from "./login-throttle";
+import { PasswordPolicyError, checkNewPassword, getPasswordPolicy, hashPassword, isPasswordExpired, rememberPassword } from "./password-policy";
+import { apiTokenAllows, createApiToken, findApiToken, readBearerToken, toApiTokenSummary } from "./api-tokens";
+import { OIDC_CALLBACK_PATH, OidcSignInError, finishOidcLogin, getOidcProvider, getOidcSettings, signInOidcUser, startOidcLogin } from "./oidc";
+import { appUrl, sendLockoutAlertEmail } from "./email";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  getEnabledTwoFactor,
+  getTwoFactorStatus,
+  hashRecoveryCode,
+  readSecondFactor,
+  totpQrCode,
+  totpUri,
+  verifySecondFactor,
+  verifyTotp,
+} from "./two-factor";
+import { acceptInvitationSchema, createApiTokenSchema, forgotPasswordSchema, registerSchema, resetPasswordSchema } from "../shared/schema";
+import type { ApiTokenAccess, InvitationDetails, RegisterResult } from "../shared/schema";
 
 export interface AuthRequest extends Request {
   user?: User;
@@ -25,26 +51,82 @@ declare global {
 }
 
 export function getSession() {
-  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
-  const MemoryStoreSession = MemoryStore(session);
-  const sessionStore = new MemoryStoreSession({
-    checkPeriod: sessionTtl, // prune expired entries every 24h
-  });
-  
   return session({
-    secret: process.env.SESSION_SECRET || 'your-secret-key-change-in-production',
-    store: sessionStore,
+    secret: sessionSecret(),
+    store: new StorageSessionStore(),
     resave: false,
     saveUninitialized: false,
     cookie: {
       httpOnly: true,
       secure: false, // Set to true in production with HTTPS
-      maxAge: sessionTtl,
+      maxAge: SESSION_TTL,
       sameSite: 'lax', // Allow cookies for same-site requests
     },
   });
 }
 
+// Signs `user` in on a fresh session id, so a session planted before signing
+// in is worthless. Single sign-on sessions last until `singleSignOnUntil`.
+async function startSession(req: Request, user: User, twoFactorVerified: boolean, singleSignOnUntil: number | null = null): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    req.session.regenerate((err) => (err ? reject(err) : resolve()));
+  });
+
+  // Store user in session
+  req.session.userId = user.id;
+  req.session.twoFactorVerified = twoFactorVerified;
+  // Single sign-on users have no password here to expire
+  req.session.passwordChangeRequired = singleSignOnUntil === null && (await isPasswordExpired(user));
+  req.session.singleSignOnUntil = singleSignOnUntil;
+  noteSessionActivity(req);
+
+  // Save session explicitly and wait for it
+  await new Promise<void>((resolve, reject) => {
+    req.session.save((err) => {
+      if (err) {
+        console.error('Session save error:', err);
+        reject(err);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+// For responses carrying secrets - two-factor secrets, recovery codes, API
+// tokens: the request log (index.ts) leaves their bodies out
+function withheldFromLog(res: Response): Response {
+  res.locals.withholdBodyFromLog = true;
+  return res;
+}
+
+// Records a failed sign-in as `email` for review - it was counted when the
+// attempt was reserved. If counting it locked the account out (`lockedUntil`),
+// that is recorded too and the owner gets an email.
+async function loginFailed(req: Request, email: string, user: User | undefined, note: string, lockedUntil: Date | null): Promise<void> {
+  await recordAudit(req as AuthRequest, {
+    action: 'user.login_failure',
+    targetType: 'user',
+    targetId: user?.id ?? email,
+    targetName: user?.email ?? email,
+    note,
+  });
+
+  if (!lockedUntil || !user) return;
+  await recordAudit(req as AuthRequest, {
+    action: 'user.lockout',
+    targetType: 'user',
+    targetId: user.id,
+    targetName: user.email,
+    note: `Locked until ${lockedUntil.toISOString()}`,
+  });
+  try {
+    await sendLockoutAlertEmail(user.email, user.firstName, req.ip ?? null, LOCKOUT_DURATION / (60 * 1000));
+  } catch (error) {
+    console.error('Lockout alert error:', error);
+  }
+}
+
 export async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
   app.use(getSession());
@@ -54,33 +136,66 @@ export async function setupAuth(app: Express) {
     try {
       const { email, password } = req.body;
       
-      if (!email || !password) {
+      if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
         return res.status(400).json({ message: 'Email and password are required' });
       }
 
+      // Too many recent failures for this account or address. Otherwise the
+      // attempt counts as failed until it succeeds.
+      const attempt = await reserveLoginAttempt(email, req.ip ?? null);
+      if (attempt.block) {
+        const seconds = Math.ceil(attempt.block.retryAfter / 1000);
+        const wait = attempt.block.lockedOut ? Math.ceil(seconds / 60) : seconds;
+        const unit = attempt.block.lockedOut ? 'minute' : 'second';
+        res.set('Retry-After', String(seconds));
+        return res.status(429).json({
+          message: `Too many failed sign-in attempts. Try again in ${wait} ${unit}${wait === 1 ? '' : 's'}.`,
+          retryAfter: seconds,
+        });
+      }
+
       const user = await storage.getUserByEmail(email);
       if (!user) {
+        // Someone who signed up is told their account is waiting for approval,
+        // once they show it is theirs
+        const registration = await storage.getRegistrationByEmail(email);
+        if (registration && (await bcrypt.compare(password, registration.passwordHash))) {
+          await releaseLoginAttempt(email, req.ip ?? null);
+          return res.status(403).json({ message: 'Your account is waiting for an administrator to approve it', pendingApproval: true });
+        }
+        await loginFailed(req, email, undefined, 'Unknown email', attempt.accountLockedUntil);
         return res.status(401).json({ message: 'Invalid credentials' });
       }
 
       const isValidPassword = await bcrypt.compare(password, user.passwordHash);
       if (!isValidPassword) {
+        await loginFailed(req, email, user, 'Wrong password', attempt.accountLockedUntil);
         return res.status(401).json({ message: 'Invalid credentials' });
       }
 
-      // Store user in session
-      (req.session as any).userId = user.id;
-      
-      // Save session explicitly and wait for it
-      await new Promise<void>((resolve, reject) => {
-        req.session.save((err) => {
-          if (err) {
-            console.error('Session save error:', err);
-            reject(err);
-          } else {
-            resolve();
-          }
-        });
+      // With two-factor authentication on, the client asks for a code and
+      // sends the credentials again along with it
+      const twoFactor = await getEnabledTwoFactor(user.id);
+      if (twoFactor) {
+        const factor = readSecondFactor(req.body);
+        if (!factor.code && !factor.recoveryCode) {
+          await releaseLoginAttempt(email, req.ip ?? null);
+          return res.json({ twoFactorRequired: true });
+        }
+        if (!(await verifySecondFactor(twoFactor, factor))) {
+          await loginFailed(req, email, user, 'Wrong authentication code', attempt.accountLockedUntil);
+          return res.status(401).json({ message: 'Invalid authentication code', twoFactorRequired: true });
+        }
+      }
+
+      await startSession(req, user, !!twoFactor);
+      await releaseLoginAttempt(email, req.ip ?? null);
+      await recordAudit(req as AuthRequest, {
+        action: 'user.login',
+        targetType: 'user',
+        targetId: user.id,
+        targetName: user.email,
+        actor: user,
       });
       
       // Return user without password
@@ -92,38 +207,219 @@ export async function setupAuth(app: Express) {
     }
   });
 
-  // Register route (admin only - for creating users)
+  // Signing up, when the registration policy allows it - see
+  // registrations.ts. The account waits for an admin to approve it, and the
+  // admin chooses its role.
   app.post('/api/auth/register', async (req: Request, res: Response) => {
     try {
-      const { email, password, firstName, lastName, role = 'developer' } = req.body;
-      
-      if (!email || !password || !firstName || !lastName) {
-        return res.status(400).json({ message: 'All fields are required' });
+      const body = registerSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: fromZodError(body.error).message });
+      }
+      const { email, password, firstName, lastName } = body.data;
+
+      const refusal = signUpRefusal(await getRegistrationPolicy(), email);
+      if (refusal) {
+        return res.status(403).json({ message: refusal });
       }
 
       // Check if user already exists
-      const existingUser = await storage.getUserByEmail(email);
-      if (existingUser) {
+      if (await storage.getUserByEmail(email)) {
         return res.status(400).json({ message: 'User already exists' });
       }
+      if (await storage.getInvitationByEmail(email)) {
+        return res.status(409).json({ message: 'This email has been invited. Use the link in the invitation email to join.' });
+      }
+      if (await storage.getRegistrationByEmail(email)) {
+        return res.status(409).json({ message: 'A sign-up for this email is already waiting for approval' });
+      }
 
-      // Hash password
-      const passwordHash = await bcrypt.hash(password, 12);
+      await checkNewPassword(password, null);
+      const passwordHash = await hashPassword(password);
 
-      // Create user
-      const user = await storage.createUser({
-        email,
-        passwordHash,
-        firstName,
-        lastName,
-        role,
+      const registration = await runUnitOfWork(async () => {
+        const registration = await storage.createRegistration({ email, firstName, lastName, passwordHash });
+        await recordAudit(req as AuthRequest, {
+          action: 'registration.create',
+          targetType: 'registration',
+          targetId: registration.id,
+          targetName: registration.email,
+          changes: diffFields(null, registration, ['email', 'firstName', 'lastName']),
+        });
+        return registration;
       });
 
-      // Return user without password
+      const result: RegisterResult = { status: 'pending', email: registration.email };
+      res.status(202).json(result);
+    } catch (error: any) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message?.includes('duplicate') || error.message?.includes('unique')) {
+        return res.status(409).json({ message: 'A sign-up for this email is already waiting for approval' });
+      }
+      console.error('Registration error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Who can join, for the sign-up page
+  app.get('/api/auth/registration', async (req: Request, res: Response) => {
+    try {
+      res.json(await getRegistrationPolicy());
+    } catch (error) {
+      console.error('Registration policy error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Password reset, step one: email a reset link. The answer is the same
+  // whether or not anyone has that email, and goes out before looking, so
+  // neither it nor how long it takes gives away who has an account.
+  app.post('/api/auth/forgot', async (req: Request, res: Response) => {
+    const body = forgotPasswordSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ message: fromZodError(body.error).message });
+    }
+
+    res.json({ message: 'If an account uses that email, a link to reset its password is on its way' });
+
+    try {
+      // Single sign-on users have no password here to reset
+      const user = await storage.getUserByEmail(body.data.email);
+      if (user && !(await storage.getUserIdentity(user.id))) await sendPasswordReset(user);
+    } catch (error) {
+      console.error('Password reset request error:', error);
+    }
+  });
+
+  // Password reset, step two: a new password along with the emailed token.
+  // Every session of the account is signed out, in case someone else is in it.
+  app.post('/api/auth/reset', async (req: Request, res: Response) => {
+    try {
+      const body = resetPasswordSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: fromZodError(body.error).message });
+      }
+
+      const user = await runUnitOfWork(async () => {
+        const user = await redeemPasswordResetToken(body.data.token);
+        // Links sent before the user was linked to single sign-on are dead
+        if (!user || (await storage.getUserIdentity(user.id))) return null;
+        // A refused password undoes the unit of work, so the link still works
+        await checkNewPassword(body.data.password, user);
+        const passwordHash = await hashPassword(body.data.password);
+        await storage.updateUser(user.id, { passwordHash });
+        await rememberPassword(user.id, passwordHash);
+        await storage.deleteUserSessions(user.id);
+        await recordAudit(req as AuthRequest, {
+          action: 'user.password_reset',
+          targetType: 'user',
+          targetId: user.id,
+          targetName: user.email,
+          actor: user,
+        });
+        return user;
+      });
+      if (!user) {
+        return res.status(400).json({ message: 'This reset link is invalid or has expired' });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Password reset error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // The password policy's rules, for the forms to check passwords against
+  // as they are typed. Public, since people choose passwords before signing in.
+  app.get('/api/auth/password-policy', async (req: Request, res: Response) => {
+    try {
+      res.json(await getPasswordPolicy());
+    } catch (error) {
+      console.error('Password policy error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Invitation details for the invitee, before they accept
+  app.get('/api/auth/invitation', async (req: Request, res: Response) => {
+    try {
+      const invitation = typeof req.query.token === 'string' ? await findInvitation(req.query.token) : null;
+      if (!invitation) {
+        return res.status(404).json({ message: 'This invitation is invalid or has expired' });
+      }
+      const refusal = invitationRefusal(await getRegistrationPolicy());
+      if (refusal) {
+        return res.status(403).json({ message: refusal });
+      }
+
+      const { email, firstName, lastName, role, expiresAt } = invitation;
+      const details: InvitationDetails = { email, firstName, lastName, role, expiresAt };
+      res.json(details);
+    } catch (error) {
+      console.error('Invitation lookup error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Accepting an invitation creates the account, with the role the admin
+  // chose, and signs the new user in
+  app.post('/api/auth/invitation', async (req: Request, res: Response) => {
+    try {
+      const body = acceptInvitationSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: fromZodError(body.error).message });
+      }
+      const refusal = invitationRefusal(await getRegistrationPolicy());
+      if (refusal) {
+        return res.status(403).json({ message: refusal });
+      }
+
+      await checkNewPassword(body.data.password, null);
+      const passwordHash = await hashPassword(body.data.password);
+      const user = await runUnitOfWork(async () => {
+        const invitation = await redeemInvitation(body.data.token);
+        if (!invitation) return null;
+
+        const user = await storage.createUser({
+          email: invitation.email,
+          passwordHash,
+          firstName: body.data.firstName,
+          lastName: body.data.lastName,
+          role: invitation.role,
+        });
+        await rememberPassword(user.id, passwordHash);
+        await recordAudit(req as AuthRequest, {
+          action: 'invitation.accept',
+          targetType: 'user',
+          targetId: user.id,
+          targetName: user.email,
+          changes: diffFields(null, user, ['email', 'firstName', 'lastName', 'role']),
+          actor: user,
+        });
+        return user;
+      });
+      if (!user) {
+        return res.status(404).json({ message: 'This invitation is invalid or has expired' });
+      }
+
+      await startSession(req, user, false);
+
       const { passwordHash: _, ...userWithoutPassword } = user;
       res.status(201).json(userWithoutPassword);
-    } catch (error) {
-      console.error('Registration error:', error);
+    } catch (error: any) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Invitation acceptance error:', error);
+      if (error.message?.includes('duplicate') || error.message?.includes('unique')) {
+        return res.status(409).json({ message: 'An account with this email already exists' });
+      }
       res.status(500).json({ message: 'Internal server error' });
     }
   });
@@ -159,10 +455,81 @@ export async function setupAuth(app: Express) {
   app.post('/api/auth/logout', logoutHandler);
   app.get('/api/logout', logoutHandler);
 
+  // Single sign-on through an identity provider, if one is set up - see
+  // oidc.ts. The sign-in page asks whether to offer it.
+  app.get('/api/auth/oidc', (req: Request, res: Response) => {
+    try {
+      res.json(getOidcProvider());
+    } catch (error) {
+      console.error('Single sign-on settings error:', error);
+      res.status(500).json({ message: 'Single sign-on is not set up correctly' });
+    }
+  });
+
+  // Problems signing in through the provider are shown on the sign-in page
+  const singleSignOnFailed = (res: Response, message: string) =>
+    res.redirect(`/login?sso_error=${encodeURIComponent(message)}`);
+
+  // Sends the browser to the identity provider to sign in
+  app.get('/api/auth/oidc/login', async (req: Request, res: Response) => {
+    try {
+      const settings = getOidcSettings();
+      if (!settings) {
+        return res.status(404).json({ message: 'Single sign-on is not set up' });
+      }
+
+      const { url, pending } = await startOidcLogin(settings);
+      req.session.oidcLogin = pending;
+      await new Promise<void>((resolve, reject) => {
+        req.session.save((err) => (err ? reject(err) : resolve()));
+      });
+      res.redirect(url.href);
+    } catch (error) {
+      console.error('Single sign-on start error:', error);
+      singleSignOnFailed(res, 'Single sign-on is unavailable right now. Please try again later.');
+    }
+  });
+
+  // The identity provider sends the browser back here. Signs the user in,
+  // setting up or linking their account the first time.
+  app.get(OIDC_CALLBACK_PATH, async (req: Request, res: Response) => {
+    const pending = req.session.oidcLogin;
+    delete req.session.oidcLogin;
+    try {
+      const settings = getOidcSettings();
+      if (!settings) {
+        return res.status(404).json({ message: 'Single sign-on is not set up' });
+      }
+      if (!pending) {
+        throw new OidcSignInError('Your sign-in could not be completed. Please try again.');
+      }
+
+      const profile = await finishOidcLogin(settings, new URL(req.originalUrl, appUrl()), pending);
+      const user = await signInOidcUser(req as AuthRequest, settings, profile);
+      // The provider takes care of second factors
+      await startSession(req, user, true, Date.now() + settings.sessionDuration);
+      await recordAudit(req as AuthRequest, {
+        action: 'user.login',
+        targetType: 'user',
+        targetId: user.id,
+        targetName: user.email,
+        note: `Through ${settings.name}`,
+        actor: user,
+      });
+      res.redirect('/');
+    } catch (error) {
+      if (error instanceof OidcSignInError) {
+        return singleSignOnFailed(res, error.message);
+      }
+      console.error('Single sign-on error:', error);
+      singleSignOnFailed(res, 'Signing in with single sign-on failed. Please try again.');
+    }
+  });
+
   // Get current user route
   app.get('/api/auth/user', async (req: Request, res: Response) => {
     try {
-      const userId = (req.session as any)?.userId;
+      const userId = sessionUserId(req);
       
       if (!userId) {
         return res.status(401).json({ message: 'Not authenticated' });
@@ -172,21 +539,371 @@ export async function setupAuth(app: Express) {
       if (!user) {
         return res.status(401).json({ message: 'User not found' });
       }
+      noteSessionActivity(req);
 
-      // Return user without password
+      // Return user without password. Users who still have to set up
+      // two-factor authentication, or change an expired password, get
+      // nothing else done until they have.
       const { passwordHash, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      res.json({
+        ...userWithoutPassword,
+        twoFactorSetupRequired: !req.session.twoFactorVerified && (await isTwoFactorRequired(user.role)),
+        passwordChangeRequired: await isPasswordChangeRequired(req, user),
+      });
     } catch (error) {
       console.error('Get user error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
+
+  // Two-factor authentication. Users who must set it up before doing anything
+  // else can still reach these routes.
+  app.get('/api/auth/two-factor', (req, res, next) => {
+    isAuthenticatedForTwoFactorSetup(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      res.json(await getTwoFactorStatus(req.user!));
+    } catch (error) {
+      console.error('Get two-factor status error:', error);
+      res.status(500).json({ message: 'Failed to fetch two-factor status' });
+    }
+  });
+
+  // Starts setting up: a new secret to add to an authenticator app, which is
+  // only used once a code from the app confirms it
+  app.post('/api/auth/two-factor/setup', (req, res, next) => {
+    isAuthenticatedForTwoFactorSetup(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      const user = req.user!;
+      if (await getEnabledTwoFactor(user.id)) {
+        return res.status(409).json({ message: 'Two-factor authentication is already on' });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.saveUserTwoFactor({ userId: user.id, secret, enabledAt: null, recoveryCodeHashes: [], lastUsedStep: null });
+      const otpauthUrl = totpUri(secret, user.email);
+      withheldFromLog(res).json({ secret, otpauthUrl, qrCode: await totpQrCode(otpauthUrl) });
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      res.status(500).json({ message: 'Failed to start two-factor setup' });
+    }
+  });
+
+  // Finishes setting up with a code from the app. The recovery codes are
+  // returned this once.
+  app.post('/api/auth/two-factor/enable', (req, res, next) => {
+    isAuthenticatedForTwoFactorSetup(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      const user = req.user!;
+      const { code } = readSecondFactor(req.body);
+      const pending = await storage.getUserTwoFactor(user.id);
+      if (!pending || pending.enabledAt) {
+        return res.status(400).json({ message: 'Start setting up two-factor authentication first' });
+      }
+
+      const step = code ? verifyTotp(pending.secret, code, null) : null;
+      if (step === null) {
+        return res.status(400).json({ message: 'Invalid authentication code' });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await runUnitOfWork(async () => {
+        await storage.saveUserTwoFactor({
+          userId: user.id,
+          secret: pending.secret,
+          enabledAt: new Date(),
+          recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+          lastUsedStep: step,
+        });
+        await recordAudit(req, { action: 'user.two_factor_enable', targetType: 'user', targetId: user.id, targetName: user.email });
+      });
+      req.session.twoFactorVerified = true;
+      withheldFromLog(res).json({ recoveryCodes });
+    } catch (error) {
+      console.error('Two-factor enable error:', error);
+      res.status(500).json({ message: 'Failed to turn on two-factor authentication' });
+    }
+  });
+
+  // Confirms a session signed in before the user's role required two-factor
+  // authentication, for users who had already set it up
+  app.post('/api/auth/two-factor/verify', (req, res, next) => {
+    isAuthenticatedForTwoFactorSetup(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      const twoFactor = await getEnabledTwoFactor(req.user!.id);
+      if (!twoFactor) {
+        return res.status(400).json({ message: 'Two-factor authentication is not on' });
+      }
+      if (!(await verifySecondFactor(twoFactor, readSecondFactor(req.body)))) {
+        return res.status(401).json({ message: 'Invalid authentication code' });
+      }
+
+      req.session.twoFactorVerified = true;
+      res.status(204).send();
+    } catch (error) {
+      console.error('Two-factor verify error:', error);
+      res.status(500).json({ message: 'Failed to verify authentication code' });
+    }
+  });
+
+  // New recovery codes in place of the old ones, for a code from the app
+  app.post('/api/auth/two-factor/recovery-codes', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      const user = req.user!;
+      const twoFactor = await getEnabledTwoFactor(user.id);
+      if (!twoFactor) {
+        return res.status(400).json({ message: 'Two-factor authentication is not on' });
+      }
+      const { code } = readSecondFactor(req.body);
+      if (!code || !(await verifySecondFactor(twoFactor, { code }))) {
+        return res.status(401).json({ message: 'Invalid authentication code' });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await runUnitOfWork(async () => {
+        const current = (await storage.getUserTwoFactor(user.id))!;
+        await storage.saveUserTwoFactor({
+          userId: user.id,
+          secret: current.secret,
+          enabledAt: current.enabledAt,
+          recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+          lastUsedStep: current.lastUsedStep,
+        });
+        await recordAudit(req, { action: 'user.recovery_codes_regenerate', targetType: 'user', targetId: user.id, targetName: user.email });
+      });
+      withheldFromLog(res).json({ recoveryCodes });
+    } catch (error) {
+      console.error('Recovery codes error:', error);
+      res.status(500).json({ message: 'Failed to create recovery codes' });
+    }
+  });
+
+  // Turns two-factor authentication off, for a code from the app or a
+  // recovery code - unless the user's role requires it
+  app.post('/api/auth/two-factor/disable', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      const user = req.user!;
+      if (await isTwoFactorRequired(user.role)) {
+        return res.status(403).json({ message: 'Your role requires two-factor authentication' });
+      }
+      const twoFactor = await getEnabledTwoFactor(user.id);
+      if (!twoFactor) {
+        return res.status(400).json({ message: 'Two-factor authentication is not on' });
+      }
+      if (!(await verifySecondFactor(twoFactor, readSecondFactor(req.body)))) {
+        return res.status(401).json({ message: 'Invalid authentication code' });
+      }
+
+      await runUnitOfWork(async () => {
+        await storage.deleteUserTwoFactor(user.id);
+        await recordAudit(req, { action: 'user.two_factor_disable', targetType: 'user', targetId: user.id, targetName: user.email });
+      });
+      req.session.twoFactorVerified = false;
+      res.status(204).send();
+    } catch (error) {
+      console.error('Two-factor disable error:', error);
+      res.status(500).json({ message: 'Failed to turn off two-factor authentication' });
+    }
+  });
+
+  // The signed-in user's sessions, most recently used first
+  app.get('/api/auth/sessions', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      const sessions = await storage.listUserSessions(req.user!.id);
+      res.json(sessions.map(s => toActiveSession(s, req.sessionID)));
+    } catch (error) {
+      console.error('List sessions error:', error);
+      res.status(500).json({ message: 'Failed to fetch sessions' });
+    }
+  });
+
+  // Sign out all of the user's other sessions
+  app.delete('/api/auth/sessions', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      const sessions = await storage.listUserSessions(req.user!.id);
+      const others = sessions.filter(s => s.sid !== req.sessionID);
+      for (const s of others) {
+        await storage.deleteUserSession(s.sid);
+      }
+      res.json({ revoked: others.length });
+    } catch (error) {
+      console.error('Revoke sessions error:', error);
+      res.status(500).json({ message: 'Failed to revoke sessions' });
+    }
+  });
+
+  // Sign out one of the user's sessions - revoking the current one signs out
+  app.delete('/api/auth/sessions/:id', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      const sessions = await storage.listUserSessions(req.user!.id);
+      const target = sessions.find(s => publicSessionId(s.sid) === req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+
+      if (target.sid === req.sessionID) {
+        // Destroyed rather than deleted, so the request doesn't save it again
+        await new Promise<void>((resolve, reject) => {
+          req.session.destroy((err) => (err ? reject(err) : resolve()));
+        });
+        res.clearCookie('connect.sid', { path: '/' });
+      } else {
+        await storage.deleteUserSession(target.sid);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({ message: 'Failed to revoke session' });
+    }
+  });
+
+  // The signed-in user's API tokens, newest first
+  app.get('/api/auth/tokens', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      const tokens = await storage.listApiTokens(req.user!.id);
+      res.json(tokens.map(toApiTokenSummary));
+    } catch (error) {
+      console.error('List API tokens error:', error);
+      res.status(500).json({ message: 'Failed to fetch API tokens' });
+    }
+  });
+
+  // Creates an API token for projects the user can see. The response is the
+  // only time the token itself is shown.
+  app.post('/api/auth/tokens', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      const parsed = createApiTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      const user = req.user!;
+      const projectIds = Array.from(new Set(parsed.data.projectIds));
+
+      for (const projectId of projectIds) {
+        const project = await storage.getProjectById(projectId);
+        if (!project) {
+          return res.status(400).json({ message: 'Project not found' });
+        }
+        const isAssigned = project.assignments.some(assignment => assignment.userId === user.id);
+        if ((user.role === 'developer' && !isAssigned) ||
+            (user.role === 'project_lead' && project.projectLeadId !== user.id && !isAssigned)) {
+          return res.status(403).json({ message: `You don't have access to ${project.name}` });
+        }
+      }
+
+      const token = await runUnitOfWork(async () => {
+        const token = await createApiToken(user, { ...parsed.data, projectIds });
+        await recordAudit(req, {
+          action: 'api_token.create',
+          targetType: 'api_token',
+          targetId: token.id,
+          targetName: token.name,
+          changes: diffFields(null, token, ['name', 'access', 'projectIds', 'expiresAt']),
+        });
+        return token;
+      });
+      withheldFromLog(res).status(201).json(token);
+    } catch (error) {
+      console.error('Create API token error:', error);
+      res.status(500).json({ message: 'Failed to create API token' });
+    }
+  });
+
+  // Revokes one of the user's API tokens
+  app.delete('/api/auth/tokens/:id', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      const user = req.user!;
+      const token = (await storage.listApiTokens(user.id)).find(t => t.id === req.params.id);
+      if (!token) {
+        return res.status(404).json({ message: 'API token not found' });
+      }
+
+      await runUnitOfWork(async () => {
+        await storage.deleteApiToken(user.id, token.id);
+        await recordAudit(req, { action: 'api_token.revoke', targetType: 'api_token', targetId: token.id, targetName: token.name });
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error('Revoke API token error:', error);
+      res.status(500).json({ message: 'Failed to revoke API token' });
+    }
+  });
+}
+
+// The id of the user signed in on the session. Single sign-on sessions have
+// to go back to the identity provider after a while, in case the user has
+// been removed there.
+function sessionUserId(req: Request): string | null {
+  const { userId, singleSignOnUntil } = req.session;
+  if (!userId) return null;
+  if (singleSignOnUntil && singleSignOnUntil <= Date.now()) return null;
+  return userId;
+}
+
+// Whether the session signed in with an expired password that is still to be
+// changed. Changing it from another session counts.
+async function isPasswordChangeRequired(req: Request, user: User): Promise<boolean> {
+  if (!req.session.passwordChangeRequired) return false;
+  if (await isPasswordExpired(user)) return true;
+  req.session.passwordChangeRequired = false;
+  return false;
 }
 
-// Authentication middleware
-export const isAuthenticated = async (req: AuthRequest, res: Response, next: NextFunction) => {
+// What users are made to do before anything else: set up the two-factor
+// authentication their role requires, then change an expired password
+type RequiredStep = 'two-factor-setup' | 'password-change';
+
+// Authentication middleware. Refuses API tokens.
+export const isAuthenticated = (req: AuthRequest, res: Response, next: NextFunction) =>
+  authenticate(req, res, next, null);
+
+// For the project routes (/api/projects/:id...) scripts can call: also accepts
+// an API token with `access` to the project, acting as the token's owner
+export const isAuthenticatedWithApiToken = (access: ApiTokenAccess) =>
+  (req: AuthRequest, res: Response, next: NextFunction) => authenticate(req, res, next, null, access);
+
+// For the two-factor setup routes, which users who have yet to set up the
+// two-factor authentication their role requires can still use
+const isAuthenticatedForTwoFactorSetup = (req: AuthRequest, res: Response, next: NextFunction) =>
+  authenticate(req, res, next, 'two-factor-setup');
+
+// For changing one's password, which users with an expired one can still do
+export const isAuthenticatedForPasswordChange = (req: AuthRequest, res: Response, next: NextFunction) =>
+  authenticate(req, res, next, 'password-change');
+
+async function authenticate(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+  allowedStep: RequiredStep | null,
+  tokenAccess: ApiTokenAccess | null = null,
+) {
   try {
-    const userId = (req.session as any)?.userId;
+    const bearerToken = readBearerToken(req as Request);
+    if (bearerToken !== null) {
+      return await authenticateApiToken(req, res, next, bearerToken, tokenAccess);
+    }
+
+    const userId = sessionUserId(req as Request);
     
     if (!userId) {
       return res.status(401).json({ message: 'Not authenticated' });
@@ -198,9 +915,45 @@ export const isAuthenticated = async (req: AuthRequest, res: Response, next: Nex
     }
 
     req.user = user;
+    noteSessionActivity(req as Request);
+
+    // Checked on every request, so requiring it applies to signed-in users too
+    if (allowedStep !== 'two-factor-setup' && !req.session.twoFactorVerified && (await isTwoFactorRequired(user.role))) {
+      return res.status(403).json({ message: 'Set up two-factor authentication to continue', twoFactorSetupRequired: true });
+    }
+    if (allowedStep === null && (await isPasswordChangeRequired(req as Request, user))) {
+      return res.status(403).json({ message: 'Your password has expired. Change it to continue', passwordChangeRequired: true });
+    }
     next();
   } catch (error) {
     console.error('Authentication error:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
-};
\ No newline at end of file
+}
+
+// Signs the request in as the owner of `bearerToken`, if the token gives
+// `access` to the project the route is for. Tokens stand in for the whole
+// sign-in, so neither two-factor authentication nor password expiry apply.
+async function authenticateApiToken(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+  bearerToken: string,
+  access: ApiTokenAccess | null,
+) {
+  const token = await findApiToken(bearerToken);
+  if (!token) {
+    return res.status(401).json({ message: 'Invalid or expired API token' });
+  }
+  if (!access || !apiTokenAllows(token, req.params.id, access)) {
+    return res.status(403).json({ message: 'This API token does not allow this request' });
+  }
+
+  const user = await storage.getUserById(token.userId);
+  if (!user) {
+    return res.status(401).json({ message: 'User not found' });
+  }
+
+  req.user = user;
+  next();
+}
@@ -0,0 +1,144 @@
+// Backup archives: written and read back as streams on the in-memory backend
+// and file store, including archives in the older single-object format
+import { describe, it, before, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough, Readable } from 'stream';
+import { gunzipSync, gzipSync } from 'zlib';
+import type { IStorage } from './storage';
+
+process.env.STORAGE_BACKEND = 'memory';
+process.env.FILE_STORE = 'memory';
+
+let storage: IStorage;
+let memoryStorage: typeof import('./memory-storage').memoryStorage;
+let memoryFileStore: typeof import('./memory-file-store').memoryFileStore;
+let backup: typeof import('./backup');
+
+before(async () => {
+  ({ storage } = await import('./storage'));
+  ({ memoryStorage } = await import('./memory-storage'));
+  ({ memoryFileStore } = await import('./memory-file-store'));
+  backup = await import('./backup');
+});
+
+describe('backups', () => {
+  beforeEach(async () => {
+    await memoryStorage.reset();
+    memoryFileStore.reset();
+  });
+
+  // Files bigger than a line of the archive, empty, and small
+  const contents: Record<string, Buffer> = {
+    'big.bin': Buffer.from(Array.from({ length: 200 * 1024 }, (_, i) => i % 251)),
+    'empty.txt': Buffer.alloc(0),
+    'notes.txt': Buffer.from('some notes'),
+  };
+
+  const setUp = async () => {
+    const admin = await storage.createUser({ email: 'admin@example.com', passwordHash: 'hash', role: 'admin' });
+    const project = await storage.createProject({ name: 'Game', createdBy: admin.id });
+    for (const [name, file] of Object.entries(contents)) {
+      const stored = await memoryFileStore.uploadFile(file, { folder: 'documents', filename: name, mimeType: 'application/octet-stream' });
+      await storage.createDocument({
+        projectId: project.id,
+        fileName: stored.key,
+        originalName: name,
+        fileSize: file.length,
+        mimeType: 'application/octet-stream',
+        uploadedBy: admin.id,
+        storageProvider: 'memory',
+        storageKey: stored.key,
+        storageUrl: null,
+      });
+    }
+  };
+
+  // Writes a backup of the workspace, returning the archive's bytes
+  const takeBackup = async (options = { includePasswordHashes: true, includeFiles: true }) => {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', chunk => chunks.push(chunk));
+    const files = await backup.writeBackup(await backup.createBackup(options), output, options);
+    return { archive: Buffer.concat(chunks), files };
+  };
+
+  // The restored documents' files by name
+  const restoredFiles = async () => {
+    const { documents } = await storage.exportWorkspace();
+    return Object.fromEntries(documents.map(d => [d.originalName, memoryFileStore.getFile(d.storageKey)]));
+  };
+
+  it('restores the records and files it backed up', async () => {
+    await setUp();
+    const { archive, files } = await takeBackup();
+    assert.equal(files, 3);
+
+    await memoryStorage.reset();
+    memoryFileStore.reset();
+    const opened = await backup.openBackup(Readable.from(archive));
+    const report = await backup.restoreBackup(opened);
+    assert.equal(report.users, 1);
+    assert.equal(report.documents, 3);
+    assert.equal(report.files, 3);
+    assert.deepEqual(await restoredFiles(), contents);
+  });
+
+  it('writes a file a line at a time', async () => {
+    await setUp();
+    const lines = gunzipSync((await takeBackup()).archive).toString('utf8').trim().split('\n');
+    assert.equal(JSON.parse(lines[0]).version, backup.BACKUP_VERSION);
+    assert.ok(lines.length > 4);
+    assert.ok(lines.every(line => line.length < 100 * 1024));
+  });
+
+  it('counts the files without writing anything when only validating', async () => {
+    await setUp();
+    const { archive } = await takeBackup();
+    await memoryStorage.reset();
+    memoryFileStore.reset();
+
+    const report = await backup.restoreBackup(await backup.openBackup(Readable.from(archive)), { validateOnly: true });
+    assert.equal(report.files, 3);
+    assert.deepEqual(memoryFileStore.getKeys(), []);
+    assert.deepEqual((await storage.exportWorkspace()).users, []);
+  });
+
+  it('restores nothing from an archive cut short', async () => {
+    await setUp();
+    const { archive } = await takeBackup();
+    await memoryStorage.reset();
+    memoryFileStore.reset();
+
+    const opened = await backup.openBackup(Readable.from(archive.subarray(0, archive.length - 100)));
+    await assert.rejects(backup.restoreBackup(opened), backup.BackupRestoreError);
+    assert.deepEqual(memoryFileStore.getKeys(), []);
+    assert.deepEqual((await storage.exportWorkspace()).users, []);
+  });
+
+  it('restores version 1 archives, with the files inside', async () => {
+    await setUp();
+    const lines = gunzipSync((await takeBackup()).archive).toString('utf8').trim().split('\n');
+    const records = JSON.parse(lines[0]);
+    const files: Record<string, string> = {};
+    for (const { file, data } of lines.slice(1).map(line => JSON.parse(line))) {
+      files[file] = (files[file] ?? '') + Buffer.from(data, 'base64').toString('latin1');
+    }
+    const legacy = gzipSync(JSON.stringify({
+      ...records,
+      version: 1,
+      files: Object.fromEntries(Object.entries(files).map(([id, data]) => [id, Buffer.from(data, 'latin1').toString('base64')])),
+    }));
+    await memoryStorage.reset();
+    memoryFileStore.reset();
+
+    const report = await backup.restoreBackup(await backup.openBackup(Readable.from(legacy)));
+    assert.equal(report.files, 3);
+    assert.deepEqual(await restoredFiles(), contents);
+  });
+
+  it('refuses a file that is not a backup, and archives from a newer release', async () => {
+    await assert.rejects(backup.openBackup(Readable.from(Buffer.from('not a backup'))), /not a backup archive/);
+    const newer = gzipSync(JSON.stringify({ format: backup.BACKUP_FORMAT, version: backup.BACKUP_VERSION + 1 }));
+    await assert.rejects(backup.openBackup(Readable.from(newer)), /reads up to version/);
+  });
+});
@@ -0,0 +1,483 @@
+// Workspace backups. An archive is gzipped JSON lines: the first holds every
+// user, project, assignment and document record - trashed ones included - and
+// the documents' files, when asked for, follow it a base64 chunk per line.
+// Archives are written and read as streams, so files pass through a chunk at a
+// time rather than being held in memory. Restoring rebuilds an empty instance
+// from an archive under new ids. The audit log is not part of a backup: it
+// stays with the instance it describes.
+//
+// Archives carry a format version. Restores read every version up to the
+// current one, and refuse newer archives rather than guess at them. Version 1
+// archives were a single JSON object with the files inside it.
+import { randomBytes } from 'crypto';
+import { once } from 'events';
+import { createGunzip, createGzip } from 'zlib';
+import { Readable, pipeline } from 'stream';
+import type { Writable } from 'stream';
+import { finished, pipeline as pipelineAsync } from 'stream/promises';
+import type { ReadableStream } from 'stream/web';
+import { StringDecoder } from 'string_decoder';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { storage } from './storage';
+import type { Document } from './storage';
+import { fileStore, getFileStore } from './file-store';
+import type { StoredFile } from './file-store';
+import { runUnitOfWork } from './unit-of-work';
+import { recordAudit } from './audit';
+import { PasswordPolicyError, checkNewPassword, hashPassword } from './password-policy';
+import type { AuthRequest } from './auth';
+import { projectStatusEnum, userRoleEnum } from '../shared/schema';
+
+export const BACKUP_FORMAT = 'pixelforge-nexus-backup';
+export const BACKUP_VERSION = 2;
+
+// Of a file's contents per line, before base64 encoding
+const FILE_CHUNK_SIZE = 48 * 1024;
+
+const id = z.string().min(1);
+const timestamp = z.coerce.date().nullable();
+const trashFields = { deletedAt: timestamp, deletedBy: id.nullable() };
+
+const backupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().min(1).max(BACKUP_VERSION),
+  createdAt: z.coerce.date(),
+  users: z.array(z.object({
+    id,
+    email: z.string().min(1),
+    firstName: z.string().nullable(),
+    lastName: z.string().nullable(),
+    profileImageUrl: z.string().nullable(),
+    // Null unless the backup was taken with password hashes
+    passwordHash: z.string().nullable(),
+    role: z.enum(userRoleEnum.enumValues),
+    version: z.number().int().min(1),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...trashFields,
+  })),
+  projects: z.array(z.object({
+    id,
+    name: z.string().min(1),
+    description: z.string().nullable(),
+    deadline: timestamp,
+    status: z.enum(projectStatusEnum.enumValues),
+    createdBy: id,
+    projectLeadId: id.nullable(),
+    version: z.number().int().min(1),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...trashFields,
+  })),
+  assignments: z.array(z.object({
+    id,
+    projectId: id,
+    userId: id,
+    assignedBy: id,
+    createdAt: timestamp,
+  })),
+  documents: z.array(z.object({
+    id,
+    projectId: id,
+    fileName: z.string(),
+    originalName: z.string(),
+    fileSize: z.number().int().min(0),
+    mimeType: z.string(),
+    uploadedBy: id,
+    storageProvider: z.string(),
+    storageKey: z.string(),
+    storageUrl: z.string().nullable(),
+    createdAt: timestamp,
+    ...trashFields,
+  })),
+  // Version 1: file contents by document id, base64 encoded. Later versions
+  // have the files follow the records.
+  files: z.record(z.string()).optional(),
+});
+
+// A line of a document's file, following the records. Documents without a
+// file keep pointing at the file store that held them.
+const fileChunkSchema = z.object({
+  file: id,
+  data: z.string(),
+});
+
+// The records of an archive
+export type BackupArchive = Omit<z.infer<typeof backupArchiveSchema>, 'files'>;
+
+// A document's file in an archive being read
+export interface BackupFile {
+  documentId: string;
+  contents: Readable;
+}
+
+// An archive being read: its records, then its files one at a time. Each
+// file's contents must be read to the end before the next is asked for.
+export interface OpenedBackup {
+  archive: BackupArchive;
+  files: AsyncIterable<BackupFile>;
+}
+
+export interface BackupOptions {
+  includePasswordHashes?: boolean;
+  includeFiles?: boolean;
+}
+
+export interface RestoreOptions {
+  // Check the archive and the target workspace, write nothing
+  validateOnly?: boolean;
+  // Password for users restored without a password hash. Without one they
+  // cannot sign in until they are given a password.
+  password?: string;
+}
+
+export interface RestoreReport {
+  users: number;
+  projects: number;
+  assignments: number;
+  documents: number;
+  // Documents whose file was uploaded from the archive
+  files: number;
+  usersWithoutPasswordHash: number;
+}
+
+// The archive cannot be restored; `problems` says why
+export class BackupRestoreError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Backup cannot be restored: ${problems.join('; ')}`);
+    this.name = 'BackupRestoreError';
+  }
+}
+
+async function openDocumentFile(document: Document): Promise<Readable> {
+  const download = await getFileStore(document.storageProvider).getDownload(
+    { key: document.storageKey, url: document.storageUrl },
+    { fileName: document.originalName, mimeType: document.mimeType },
+  );
+  if ('stream' in download) return download.stream;
+
+  const response = await fetch(download.redirectUrl);
+  if (!response.ok || !response.body) throw new Error(`File store responded ${response.status}`);
+  return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+}
+
+// The records to back up. Their files, if asked for, are read as the archive
+// is written.
+export async function createBackup(options: BackupOptions = {}): Promise<BackupArchive> {
+  const data = await storage.exportWorkspace();
+  const userIds = new Set(data.users.map(u => u.id));
+  const projectIds = new Set(data.projects.map(p => p.id));
+
+  // Parsing drops fields only one backend has, like MongoDB's _id and __v
+  return backupArchiveSchema.omit({ files: true }).parse({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date(),
+    users: data.users.map(u => ({ ...u, passwordHash: options.includePasswordHashes ? u.passwordHash : null })),
+    projects: data.projects,
+    // Leaving out assignments of users deleted before deletes cascaded
+    assignments: data.assignments.filter(a => userIds.has(a.userId) && projectIds.has(a.projectId)),
+    documents: data.documents,
+  });
+}
+
+// Writes `archive` to `output`, gzipped, followed by its documents' files if
+// asked for. Returns how many files it holds: a file that can't be read is
+// left out, and its document still points at wherever the file was.
+export async function writeBackup(archive: BackupArchive, output: Writable, options: BackupOptions = {}): Promise<number> {
+  const gzip = createGzip();
+  const written = pipelineAsync(gzip, output);
+  const writeLine = async (line: object) => {
+    if (!gzip.write(`${JSON.stringify(line)}\n`)) await once(gzip, 'drain');
+  };
+
+  let files = 0;
+  try {
+    await writeLine(archive);
+    for (const document of options.includeFiles ? archive.documents : []) {
+      let contents: Readable;
+      try {
+        contents = await openDocumentFile(document);
+      } catch (error) {
+        console.error(`Error reading file of document ${document.id} for backup:`, error);
+        continue;
+      }
+
+      // An empty file still gets a line, so that it is restored
+      let size = 0;
+      for await (const chunk of contents) {
+        const buffer = Buffer.from(chunk);
+        for (let start = 0; start < buffer.length; start += FILE_CHUNK_SIZE) {
+          await writeLine({ file: document.id, data: buffer.subarray(start, start + FILE_CHUNK_SIZE).toString('base64') });
+        }
+        size += buffer.length;
+      }
+      if (size === 0) await writeLine({ file: document.id, data: '' });
+      files++;
+    }
+    gzip.end();
+  } catch (error) {
+    gzip.destroy(error as Error);
+  }
+  await written;
+  return files;
+}
+
+// `input`, gunzipped if it is gzipped - plain JSON lines are read too, for
+// archives unpacked to be looked at
+async function decompress(input: Readable): Promise<Readable> {
+  const chunks = input[Symbol.asyncIterator]();
+  const first = await chunks.next();
+  const head: Buffer = first.done ? Buffer.alloc(0) : Buffer.from(first.value);
+  const whole = Readable.from((async function* () {
+    yield head;
+    for (let chunk = await chunks.next(); !chunk.done; chunk = await chunks.next()) yield Buffer.from(chunk.value);
+  })(), { objectMode: false });
+
+  if (head[0] !== 0x1f || head[1] !== 0x8b) return whole;
+  return pipeline(whole, createGunzip(), () => {});
+}
+
+// The lines of `input`, as it arrives
+async function* readLines(input: Readable): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let partial = '';
+  for await (const chunk of input) {
+    const lines = (partial + decoder.write(chunk)).split('\n');
+    partial = lines.pop()!;
+    yield* lines;
+  }
+  partial += decoder.end();
+  if (partial) yield partial;
+}
+
+function damaged(): BackupRestoreError {
+  return new BackupRestoreError(['The archive is damaged or cut short']);
+}
+
+// The next line of a file in the archive, or null at its end
+async function readFileChunk(lines: AsyncIterator<string>): Promise<z.infer<typeof fileChunkSchema> | null> {
+  let line: IteratorResult<string>;
+  do {
+    try {
+      line = await lines.next();
+    } catch {
+      throw damaged();
+    }
+    if (line.done) return null;
+  } while (!line.value);
+
+  let chunk;
+  try {
+    chunk = fileChunkSchema.safeParse(JSON.parse(line.value));
+  } catch {
+    throw damaged();
+  }
+  if (!chunk.success) throw damaged();
+  return chunk.data;
+}
+
+// The files following the records, each one's chunks read as its contents are
+async function* readFiles(lines: AsyncIterator<string>): AsyncGenerator<BackupFile> {
+  const state = { next: await readFileChunk(lines) };
+  while (state.next) {
+    const first = state.next;
+    state.next = null;
+    const chunks = async function* () {
+      for (let chunk: typeof first | null = first; chunk; chunk = await readFileChunk(lines)) {
+        if (chunk.file !== first.file) {
+          state.next = chunk;
+          return;
+        }
+        yield Buffer.from(chunk.data, 'base64');
+      }
+    };
+    const contents = Readable.from(chunks(), { objectMode: false });
+    yield { documentId: first.file, contents };
+    // Whatever of the file was left unread is skipped
+    for await (const _ of contents) { /* skipped */ }
+  }
+}
+
+// Version 1 archives' files, from inside the archive
+async function* readLegacyFiles(files: Record<string, string>): AsyncGenerator<BackupFile> {
+  for (const [documentId, data] of Object.entries(files)) {
+    yield { documentId, contents: Readable.from([Buffer.from(data, 'base64')]) };
+  }
+}
+
+// Starts reading an archive written by writeBackup: its records are read
+// now, and its files as they are asked for
+export async function openBackup(input: Readable): Promise<OpenedBackup> {
+  const lines = readLines(await decompress(input));
+  let json: any;
+  try {
+    const first = await lines.next();
+    json = first.done ? null : JSON.parse(first.value);
+  } catch {
+    json = null;
+  }
+
+  if (json?.format !== BACKUP_FORMAT) {
+    throw new BackupRestoreError(['The file is not a backup archive']);
+  }
+  if (typeof json.version === 'number' && json.version > BACKUP_VERSION) {
+    throw new BackupRestoreError([
+      `The archive is format version ${json.version}; this release reads up to version ${BACKUP_VERSION}`,
+    ]);
+  }
+  const parsed = backupArchiveSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new BackupRestoreError([fromZodError(parsed.error).message]);
+  }
+  const { files, ...archive } = parsed.data;
+  return { archive, files: files ? readLegacyFiles(files) : readFiles(lines) };
+}
+
+// Everything that would stop `archive` from being restored into this workspace
+export async function validateBackup(archive: BackupArchive): Promise<string[]> {
+  const problems: string[] = [];
+
+  const current = await storage.exportWorkspace();
+  if (current.users.length > 0 || current.projects.length > 0) {
+    problems.push(`The workspace is not empty (${current.users.length} users, ${current.projects.length} projects) - restore into a fresh instance`);
+  }
+
+  const records = [...archive.users, ...archive.projects, ...archive.assignments, ...archive.documents];
+  const ids = new Set<string>();
+  for (const record of records) {
+    if (ids.has(record.id)) problems.push(`Record id ${record.id} is used more than once`);
+    ids.add(record.id);
+  }
+
+  const emails = new Set<string>();
+  for (const user of archive.users) {
+    if (emails.has(user.email)) problems.push(`Email ${user.email} belongs to more than one user`);
+    emails.add(user.email);
+  }
+
+  const userIds = new Set(archive.users.map(u => u.id));
+  const projectIds = new Set(archive.projects.map(p => p.id));
+  const checkReference = (field: string, value: string | null, targets: Set<string>) => {
+    if (value !== null && !targets.has(value)) problems.push(`${field} refers to missing record ${value}`);
+  };
+  for (const u of archive.users) {
+    checkReference(`User ${u.id} deletedBy`, u.deletedBy, userIds);
+  }
+  for (const p of archive.projects) {
+    checkReference(`Project ${p.id} createdBy`, p.createdBy, userIds);
+    checkReference(`Project ${p.id} projectLeadId`, p.projectLeadId, userIds);
+    checkReference(`Project ${p.id} deletedBy`, p.deletedBy, userIds);
+  }
+  for (const a of archive.assignments) {
+    checkReference(`Assignment ${a.id} projectId`, a.projectId, projectIds);
+    checkReference(`Assignment ${a.id} userId`, a.userId, userIds);
+    checkReference(`Assignment ${a.id} assignedBy`, a.assignedBy, userIds);
+  }
+  for (const d of archive.documents) {
+    checkReference(`Document ${d.id} projectId`, d.projectId, projectIds);
+    checkReference(`Document ${d.id} uploadedBy`, d.uploadedBy, userIds);
+    checkReference(`Document ${d.id} deletedBy`, d.deletedBy, userIds);
+  }
+
+  return problems;
+}
+
+// Rebuilds the workspace from `backup`, all or nothing: if any step fails the
+// records are rolled back and the uploaded files deleted again. Each file is
+// streamed from the archive into the file store.
+export async function restoreBackup(backup: OpenedBackup, options: RestoreOptions = {}): Promise<RestoreReport> {
+  const { archive } = backup;
+  const problems = await validateBackup(archive);
+  // The given password is held to the policy like any other new password
+  if (options.password !== undefined) {
+    try {
+      await checkNewPassword(options.password, null);
+    } catch (error) {
+      if (!(error instanceof PasswordPolicyError)) throw error;
+      problems.push(`The password for users without a password hash: ${error.message}`);
+    }
+  }
+  if (problems.length > 0) throw new BackupRestoreError(problems);
+
+  const withoutHash = archive.users.filter(u => !u.passwordHash);
+  const report: RestoreReport = {
+    users: archive.users.length,
+    projects: archive.projects.length,
+    assignments: archive.assignments.length,
+    documents: archive.documents.length,
+    files: 0,
+    usersWithoutPasswordHash: withoutHash.length,
+  };
+
+  // Each file has to be for a document in the archive, and the only one
+  const documents = new Map(archive.documents.map(d => [d.id, d]));
+  const fileFor = (documentId: string) => {
+    const document = documents.get(documentId);
+    if (!document) throw new BackupRestoreError([`File for missing document ${documentId}`]);
+    documents.delete(documentId);
+    report.files++;
+    return document;
+  };
+
+  if (options.validateOnly) {
+    for await (const file of backup.files) {
+      fileFor(file.documentId);
+      await finished(file.contents.resume());
+    }
+    return report;
+  }
+
+  // Users without a hash get the given password, or one nobody knows
+  const fallbackHash = withoutHash.length > 0
+    ? await hashPassword(options.password ?? randomBytes(32).toString('hex'))
+    : null;
+
+  await runUnitOfWork(async (unit) => {
+    const storedFiles = new Map<string, StoredFile>();
+    for await (const { documentId, contents } of backup.files) {
+      const document = fileFor(documentId);
+      storedFiles.set(documentId, await unit.uploadFile(fileStore, contents, {
+        folder: 'pixelforge-nexus/documents',
+        filename: `${Date.now()}_${document.id}_${document.originalName}`,
+        mimeType: document.mimeType,
+      }));
+    }
+
+    await storage.importWorkspace({
+      users: archive.users.map(u => ({ ...u, passwordHash: u.passwordHash ?? fallbackHash! })),
+      projects: archive.projects,
+      assignments: archive.assignments,
+      documents: archive.documents.map(document => {
+        const storedFile = storedFiles.get(document.id);
+        return storedFile ? {
+          ...document,
+          fileName: storedFile.key,
+          storageProvider: fileStore.name,
+          storageKey: storedFile.key,
+          storageUrl: storedFile.url,
+        } : document;
+      }),
+    });
+    await recordAudit(null, {
+      action: 'workspace.restore',
+      targetType: 'workspace',
+      targetId: BACKUP_FORMAT,
+      targetName: `Backup of ${archive.createdAt.toISOString()}`,
+    });
+  });
+
+  return report;
+}
+
+// Audits a backup taken by `req`'s user - archives can hold every password hash
+export async function recordBackup(req: AuthRequest | null, options: BackupOptions): Promise<void> {
+  const contents = [options.includePasswordHashes && 'password hashes', options.includeFiles && 'files'].filter(Boolean);
+  await recordAudit(req, {
+    action: 'workspace.backup',
+    targetType: 'workspace',
+    targetId: BACKUP_FORMAT,
+    note: contents.length > 0 ? `Including ${contents.join(' and ')}` : null,
+  });
+}
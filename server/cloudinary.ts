@@ -1,15 +1,32 @@
 import { v2 as cloudinary } from 'cloudinary';
+import type { Readable } from 'stream';
+import type {
+  FileStorageProvider,
+  StoredFile,
+  UploadOptions,
+  DownloadOptions,
+  FileDownload,
+} from './file-store';
 
 const CLOUDINARY_URL = process.env.CLOUDINARY_URL;
+// Cloudinary's own limit on most plans
+const MAX_UPLOAD_MB = parseFloat(process.env.CLOUDINARY_MAX_UPLOAD_MB || '10');
 
-if (!CLOUDINARY_URL) {
-  throw new Error('Please define the CLOUDINARY_URL environment variable');
-}
+let configured = false;
+
+// Configure Cloudinary on first use so the server can boot without it
+function ensureConfigured() {
+  if (configured) return;
 
-// Configure Cloudinary
-cloudinary.config({
-  cloudinary_url: CLOUDINARY_URL
-});
+  if (!CLOUDINARY_URL) {
+    throw new Error('Please define the CLOUDINARY_URL environment variable');
+  }
+
+  cloudinary.config({
+    cloudinary_url: CLOUDINARY_URL
+  });
+  configured = true;
+}
 
 export interface CloudinaryUploadResult {
   public_id: string;
@@ -20,11 +37,12 @@ export interface CloudinaryUploadResult {
 }
 
 export const cloudinaryService = {
-  async uploadFile(fileBuffer: Buffer, options: {
+  async uploadFile(file: Buffer | Readable, options: {
     folder?: string;
     filename?: string;
     resource_type?: 'image' | 'video' | 'raw' | 'auto';
   }): Promise<CloudinaryUploadResult> {
+    ensureConfigured();
     return new Promise((resolve, reject) => {
       const uploadOptions: any = {
         folder: options.folder || 'pixelforge-nexus',
@@ -37,7 +55,7 @@ export const cloudinaryService = {
         uploadOptions.public_id = options.filename;
       }
 
-      cloudinary.uploader.upload_stream(
+      const uploadStream = cloudinary.uploader.upload_stream(
         uploadOptions,
         (error, result) => {
           if (error) {
@@ -54,11 +72,17 @@ export const cloudinaryService = {
             reject(new Error('Upload failed - no result'));
           }
         }
-      ).end(fileBuffer);
+      );
+      if (Buffer.isBuffer(file)) {
+        uploadStream.end(file);
+      } else {
+        file.on('error', reject).pipe(uploadStream);
+      }
     });
   },
 
   async deleteFile(publicId: string): Promise<void> {
+    ensureConfigured();
     try {
       await cloudinary.uploader.destroy(publicId);
     } catch (error) {
@@ -68,6 +92,7 @@ export const cloudinaryService = {
   },
 
   getFileUrl(publicId: string): string {
+    ensureConfigured();
     return cloudinary.url(publicId, {
       secure: true,
       sign_url: true,
@@ -75,4 +100,41 @@ export const cloudinaryService = {
   }
 };
 
+// Document storage provider backed by Cloudinary - downloads redirect to the CDN URL
+export const cloudinaryFileStore: FileStorageProvider = {
+  name: 'cloudinary',
+  maxUploadSize: MAX_UPLOAD_MB * 1024 * 1024,
+
+  async uploadFile(file: Buffer | Readable, options: UploadOptions): Promise<StoredFile> {
+    const result = await cloudinaryService.uploadFile(file, {
+      folder: options.folder,
+      filename: options.filename,
+    });
+
+    return {
+      key: result.public_id,
+      url: result.secure_url,
+      size: result.bytes,
+    };
+  },
+
+  async deleteFile(key: string): Promise<void> {
+    await cloudinaryService.deleteFile(key);
+  },
+
+  async copyFile(source: Pick<StoredFile, 'key' | 'url'>, destinationKey: string): Promise<StoredFile> {
+    ensureConfigured();
+    // Cloudinary fetches the source asset by URL on its side
+    const result = await cloudinary.uploader.upload(source.url ?? cloudinaryService.getFileUrl(source.key), {
+      public_id: destinationKey,
+      resource_type: 'auto',
+    });
+    return { key: result.public_id, url: result.secure_url, size: result.bytes };
+  },
+
+  async getDownload(file: Pick<StoredFile, 'key' | 'url'>, _options: DownloadOptions): Promise<FileDownload> {
+    return { redirectUrl: file.url ?? cloudinaryService.getFileUrl(file.key) };
+  },
+};
+
 export default cloudinary;
\ No newline at end of file
@@ -0,0 +1,33 @@
+// Passwords that turn up most often in leaked password lists, which attackers
+// try first. Kept here rather than fetched, so checking a password never sends
+// it anywhere. All lowercase; see isCommonPassword.
+const commonPasswords = new Set([
+  '000000', '0000000', '00000000', '102030', '111111', '1111111', '11111111', '112233', '121212', '123123',
+  '123321', '1234', '12345', '123456', '1234567', '12345678', '123456789', '1234567890', '123654', '123abc',
+  '123qwe', '131313', '147258', '147258369', '159357', '159753', '1q2w3e', '1q2w3e4r', '1q2w3e4r5t', '1qaz2wsx',
+  '222222', '232323', '252525', '333333', '454545', '555555', '654321', '666666', '6969', '696969',
+  '7777777', '777777', '789456', '789456123', '87654321', '888888', '88888888', '987654', '987654321', '999999',
+  'a123456', 'aa123456', 'aaaaaa', 'abc123', 'abcd1234', 'abcdef', 'abcdefg', 'access', 'admin', 'administrator',
+  'alexander', 'amanda', 'andrea', 'andrew', 'angel', 'anthony', 'apple', 'ashley', 'asdf', 'asdfasdf',
+  'asdfgh', 'asdfghjk', 'asdfghjkl', 'austin', 'azerty', 'babygirl', 'bailey', 'banana', 'baseball', 'basketball',
+  'batman', 'biteme', 'blink182', 'buster', 'butterfly', 'changeme', 'charlie', 'cheese', 'chelsea', 'chocolate',
+  'computer', 'cookie', 'corvette', 'daniel', 'default', 'dragon', 'dubsmash', 'eminem', 'letmein', 'flower',
+  'football', 'freedom', 'friends', 'gamer', 'ginger', 'guest', 'hannah', 'hello', 'hello123',
+  'hockey', 'hottie', 'hunter', 'hunter2', 'iloveyou', 'internet', 'jasmine', 'jennifer', 'jessica', 'jordan',
+  'jordan23', 'joshua', 'justin', 'killer', 'letmein1', 'liverpool', 'login', 'lovely', 'loveme', 'maggie',
+  'master', 'matrix', 'matthew', 'merlin', 'michael', 'michelle', 'monkey', 'mustang', 'mypass', 'nicole',
+  'ninja', 'nothing', 'passw0rd', 'password', 'password1', 'password12', 'password123', 'pepper', 'petsmart', 'picture1',
+  'pokemon', 'princess', 'purple', 'qazwsx', 'qwe123', 'qweasd', 'qweasdzxc', 'qwerty', 'qwerty1',
+  'qwerty123', 'qwertyuiop', 'rainbow', 'ranger', 'robert', 'samsung', 'secret', 'senha', 'shadow', 'soccer',
+  'starwars', 'summer', 'sunshine', 'superman', 'taylor', 'test', 'test123', 'thomas', 'tigger', 'trustno1',
+  'welcome', 'whatever', 'william', 'winter', 'yankees', 'zaq12wsx', 'zxcvbn', 'zxcvbnm', 'pixelforge', 'gamedev',
+]);
+
+// Whether `password` is one of the common passwords, ignoring case and the
+// digits and symbols people tack on the end to get past rules ("Password1!")
+export function isCommonPassword(password: string): boolean {
+  const lower = password.toLowerCase();
+  if (commonPasswords.has(lower)) return true;
+  const stem = lower.replace(/[^a-z]+$/, '');
+  return stem.length > 0 && stem !== lower && commonPasswords.has(stem);
+}
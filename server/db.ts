@@ -0,0 +1,29 @@
+import pg from 'pg';
+import { drizzle, type NodePgDatabase } from 'drizzle-orm/node-postgres';
+import * as schema from '../shared/schema';
+
+const DATABASE_URL = process.env.DATABASE_URL;
+
+export type Database = NodePgDatabase<typeof schema>;
+
+let cached: { pool: pg.Pool; db: Database } | null = null;
+
+export function getDb(): Database {
+  if (!DATABASE_URL) {
+    throw new Error('Please define the DATABASE_URL environment variable');
+  }
+
+  if (!cached) {
+    const pool = new pg.Pool({ connectionString: DATABASE_URL });
+    cached = { pool, db: drizzle(pool, { schema }) };
+  }
+
+  return cached.db;
+}
+
+export async function closeDb() {
+  if (cached) {
+    await cached.pool.end();
+    cached = null;
+  }
+}
@@ -0,0 +1,88 @@
+// Rules for records that reference a user or project being deleted. Every
+// storage backend applies them the same way.
+//
+// Deleting a project always cascades to its assignments and documents; the
+// backend returns the removed documents so the caller can delete their files.
+//
+// Deleting a user always removes the user's own assignments. Other references
+// follow the UserDeletePolicy:
+//   projectLead  - projects the user leads: hand them to `reassignTo`, clear
+//                  the lead, or refuse the delete
+//   ownedRecords - projects the user created, assignments they made and
+//                  documents they uploaded. These columns are required, so they
+//                  are handed to `reassignTo` or the delete is refused
+import type { User } from './storage';
+
+export type LeadDeletePolicy = 'reassign' | 'nullify' | 'restrict';
+export type OwnedRecordsDeletePolicy = 'reassign' | 'restrict';
+
+export interface UserDeletePolicy {
+  projectLead: LeadDeletePolicy;
+  ownedRecords: OwnedRecordsDeletePolicy;
+  // User who takes over reassigned records
+  reassignTo?: string;
+}
+
+export const defaultUserDeletePolicy: UserDeletePolicy = {
+  projectLead: 'nullify',
+  ownedRecords: 'restrict',
+};
+
+export interface UserReferences {
+  ledProjects: number;
+  createdProjects: number;
+  assignmentsMade: number;
+  uploadedDocuments: number;
+}
+
+// Thrown when a policy refuses a delete, before anything has been changed
+export class DeleteRestrictedError extends Error {
+  constructor(message: string, readonly references?: UserReferences) {
+    super(message);
+    this.name = 'DeleteRestrictedError';
+  }
+}
+
+// Throws DeleteRestrictedError unless `policy` can be applied to the user's
+// references. `reassignee` is the user named by policy.reassignTo, if any.
+export function checkUserDeletePolicy(
+  userId: string,
+  policy: UserDeletePolicy,
+  references: UserReferences,
+  reassignee: User | null,
+): void {
+  const ownedRecords = references.createdProjects + references.assignmentsMade + references.uploadedDocuments;
+
+  if (policy.projectLead === 'restrict' && references.ledProjects > 0) {
+    throw new DeleteRestrictedError(
+      `User leads ${references.ledProjects} project(s); reassign or clear the lead first`,
+      references,
+    );
+  }
+  if (policy.ownedRecords === 'restrict' && ownedRecords > 0) {
+    throw new DeleteRestrictedError(
+      'User created projects, assignments or documents that must be reassigned first',
+      references,
+    );
+  }
+
+  const needsReassignee = (policy.projectLead === 'reassign' && references.ledProjects > 0)
+    || (policy.ownedRecords === 'reassign' && ownedRecords > 0);
+  if (!needsReassignee) return;
+
+  if (!reassignee) {
+    throw new DeleteRestrictedError('The user to reassign records to was not found', references);
+  }
+  if (reassignee.id === userId) {
+    throw new DeleteRestrictedError('Records cannot be reassigned to the user being deleted', references);
+  }
+  if (reassignee.role === 'developer') {
+    throw new DeleteRestrictedError('Records can only be reassigned to an admin or project lead', references);
+  }
+}
+
+export function isUserDeletePolicy(value: any): value is UserDeletePolicy {
+  return ['reassign', 'nullify', 'restrict'].includes(value?.projectLead)
+    && ['reassign', 'restrict'].includes(value?.ownedRecords)
+    && (value.reassignTo === undefined || typeof value.reassignTo === 'string');
+}
@@ -0,0 +1,95 @@
+// Uploading documents to a project, through the API on the in-memory backend
+// and file store
+import { describe, it, before, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer } from './test-server';
+import type { TestServer } from './test-server';
+
+const PASSWORD = 'Correct-Horse-Battery-9';
+// Read when the memory file store is imported
+process.env.MEMORY_MAX_UPLOAD_MB = '1';
+
+describe('document uploads', () => {
+  let app: TestServer;
+  let memoryFileStore: typeof import('./memory-file-store').memoryFileStore;
+
+  before(async () => {
+    app = await startTestServer();
+    ({ memoryFileStore } = await import('./memory-file-store'));
+  });
+
+  beforeEach(async () => {
+    await app.reset();
+    memoryFileStore.reset();
+  });
+
+  after(async () => {
+    await app?.close();
+  });
+
+  const files = (...names: string[]) => {
+    const form = new FormData();
+    for (const name of names) form.append('files', new Blob([`contents of ${name}`], { type: 'text/plain' }), name);
+    return form;
+  };
+
+  // A project led by lead@, created by admin@, with other@ leading nothing
+  const setUp = async () => {
+    const admin = await app.createUser('admin@example.com', 'admin', PASSWORD);
+    const lead = await app.createUser('lead@example.com', 'project_lead', PASSWORD);
+    await app.createUser('other@example.com', 'project_lead', PASSWORD);
+    const project = await app.storage.createProject({ name: 'Game', createdBy: admin.id, projectLeadId: lead.id });
+    return { project };
+  };
+
+  const signedIn = async (email: string) => {
+    const client = app.client();
+    await client.login(email, PASSWORD);
+    return client;
+  };
+
+  it("stores the project lead's files", async () => {
+    const { project } = await setUp();
+    const lead = await signedIn('lead@example.com');
+    const res = await lead.request('POST', `/api/projects/${project.id}/documents`, files('design.txt', 'notes.txt'));
+    assert.equal(res.status, 201);
+    assert.deepEqual(res.body.map((d: { originalName: string }) => d.originalName), ['design.txt', 'notes.txt']);
+    assert.equal((await app.storage.getProjectDocuments(project.id)).length, 2);
+    assert.equal(memoryFileStore.getFile(res.body[0].storageKey)?.toString(), 'contents of design.txt');
+    assert.equal(res.body[0].fileSize, 'contents of design.txt'.length);
+  });
+
+  it("refuses files over the file store's limit, keeping none of the request's files", async () => {
+    const { project } = await setUp();
+    const lead = await signedIn('lead@example.com');
+    assert.deepEqual((await lead.request('GET', '/api/documents/upload-limit')).body, { maxFileSize: 1024 * 1024 });
+
+    const form = files('design.txt');
+    form.append('files', new Blob([new Uint8Array(1024 * 1024 + 1)], { type: 'text/plain' }), 'large.txt');
+    const res = await lead.request('POST', `/api/projects/${project.id}/documents`, form);
+    assert.equal(res.status, 413);
+    assert.deepEqual(await app.storage.getProjectDocuments(project.id), []);
+    assert.deepEqual(memoryFileStore.getKeys(), []);
+  });
+
+  it('refuses uploads to projects the caller does not lead or belong to', async () => {
+    const { project } = await setUp();
+    const other = await signedIn('other@example.com');
+    const res = await other.request('POST', `/api/projects/${project.id}/documents`, files('design.txt'));
+    assert.equal(res.status, 403);
+    assert.deepEqual(await app.storage.getProjectDocuments(project.id), []);
+
+    // Until they are assigned to it
+    const admin = (await app.storage.getUserByEmail('admin@example.com'))!;
+    const otherUser = (await app.storage.getUserByEmail('other@example.com'))!;
+    await app.storage.assignUserToProject({ projectId: project.id, userId: otherUser.id, assignedBy: admin.id });
+    assert.equal((await other.request('POST', `/api/projects/${project.id}/documents`, files('design.txt'))).status, 201);
+  });
+
+  it('refuses uploads to projects that do not exist', async () => {
+    await setUp();
+    const admin = await signedIn('admin@example.com');
+    const res = await admin.request('POST', '/api/projects/no-such-project/documents', files('design.txt'));
+    assert.equal(res.status, 404);
+  });
+});
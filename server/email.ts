@@ -9,30 +9,126 @@ const transporter = nodemailer.createTransport({
   }
 });
 
-export async function sendWelcomeEmail(email: string, password: string, firstName: string) {
+// Address of the app for links in emails: APP_URL, or the Replit deployment.
+// Never taken from the request, whose Host header anyone can set.
+export function appUrl(path = '/'): string {
+  const base = process.env.APP_URL
+    || (process.env.REPL_SLUG ? `https://${process.env.REPL_SLUG}.replit.app` : 'http://localhost:5000');
+  return new URL(path, base).toString();
+}
+
+export async function sendInvitationEmail(email: string, firstName: string | null, inviterName: string, inviteUrl: string, expiresInDays: number) {
   const mailOptions = {
     from: process.env.EMAIL_USER || 'akshadapastambh37@gmail.com',
     to: email,
-    subject: 'Welcome to PixelForge Nexus',
+    subject: `${inviterName} invited you to PixelForge Nexus`,
     html: `
       <h2>Welcome to PixelForge Nexus!</h2>
+      <p>Hello ${firstName || email},</p>
+      <p>${inviterName} has invited you to join the team on PixelForge Nexus. Accept the invitation to choose your password and set up your account:</p>
+      <p><a href="${inviteUrl}">Accept invitation</a></p>
+      <p>The invitation expires in ${expiresInDays} days.</p>
+      <p>Best regards,<br>PixelForge Nexus Team</p>
+    `
+  };
+
+  try {
+    await transporter.sendMail(mailOptions);
+    console.log(`Invitation email sent to ${email}`);
+  } catch (error) {
+    console.error('Error sending invitation email:', error);
+    throw error;
+  }
+}
+
+export async function sendPasswordResetEmail(email: string, firstName: string | null, resetUrl: string, expiresInMinutes: number) {
+  const mailOptions = {
+    from: process.env.EMAIL_USER || 'akshadapastambh37@gmail.com',
+    to: email,
+    subject: 'Reset your PixelForge Nexus password',
+    html: `
+      <h2>Reset your password</h2>
+      <p>Hello ${firstName || email},</p>
+      <p>Someone asked to reset the password of your PixelForge Nexus account. If it was you, choose a new password here:</p>
+      <p><a href="${resetUrl}">Reset my password</a></p>
+      <p>The link works once and expires in ${expiresInMinutes} minutes. If you didn't ask for it, you can ignore this email - your password stays the same.</p>
+      <p>Best regards,<br>PixelForge Nexus Team</p>
+    `
+  };
+
+  try {
+    await transporter.sendMail(mailOptions);
+    console.log(`Password reset email sent to ${email}`);
+  } catch (error) {
+    console.error('Error sending password reset email:', error);
+    throw error;
+  }
+}
+
+// Tells an account's owner it was locked out after repeated failed sign-ins
+export async function sendLockoutAlertEmail(email: string, firstName: string | null, ip: string | null, lockedForMinutes: number) {
+  const mailOptions = {
+    from: process.env.EMAIL_USER || 'akshadapastambh37@gmail.com',
+    to: email,
+    subject: 'Your PixelForge Nexus account was locked',
+    html: `
+      <h2>Too many failed sign-in attempts</h2>
+      <p>Hello ${firstName || email},</p>
+      <p>Someone${ip ? ` at ${ip}` : ''} tried to sign in to your PixelForge Nexus account with the wrong password several times, so we've locked it for ${lockedForMinutes} minutes.</p>
+      <p>If it was you, wait and try again, or ask an administrator to unlock your account. If it wasn't, <a href="${appUrl('/login')}">reset your password</a> once the lock ends.</p>
+      <p>Best regards,<br>PixelForge Nexus Team</p>
+    `
+  };
+
+  try {
+    await transporter.sendMail(mailOptions);
+    console.log(`Lockout alert email sent to ${email}`);
+  } catch (error) {
+    console.error('Error sending lockout alert email:', error);
+    throw error;
+  }
+}
+
+export async function sendRegistrationApprovedEmail(email: string, firstName: string) {
+  const mailOptions = {
+    from: process.env.EMAIL_USER || 'akshadapastambh37@gmail.com',
+    to: email,
+    subject: 'Your PixelForge Nexus account is ready',
+    html: `
+      <h2>Welcome to PixelForge Nexus</h2>
+      <p>Hello ${firstName},</p>
+      <p>An administrator has approved your account. You can now <a href="${appUrl('/login')}">sign in</a> with the email and password you signed up with, or through single sign-on if that is how you signed up.</p>
+      <p>Best regards,<br>PixelForge Nexus Team</p>
+    `
+  };
+
+  try {
+    await transporter.sendMail(mailOptions);
+    console.log(`Registration approved email sent to ${email}`);
+  } catch (error) {
+    console.error('Error sending registration approved email:', error);
+    throw error;
+  }
+}
+
+export async function sendRegistrationRejectedEmail(email: string, firstName: string) {
+  const mailOptions = {
+    from: process.env.EMAIL_USER || 'akshadapastambh37@gmail.com',
+    to: email,
+    subject: 'Your PixelForge Nexus sign-up',
+    html: `
+      <h2>Your sign-up was not approved</h2>
       <p>Hello ${firstName},</p>
-      <p>Your account has been created successfully. Here are your login credentials:</p>
-      <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
-        <p><strong>Email:</strong> ${email}</p>
-        <p><strong>Temporary Password:</strong> ${password}</p>
-      </div>
-      <p>Please log in and change your password as soon as possible.</p>
-      <p>You can access the system at: <a href="${process.env.REPL_SLUG ? `https://${process.env.REPL_SLUG}.replit.app` : 'your-domain.com'}">PixelForge Nexus</a></p>
+      <p>An administrator has declined your request for a PixelForge Nexus account. If you think this is a mistake, ask your team for an invitation.</p>
       <p>Best regards,<br>PixelForge Nexus Team</p>
     `
   };
 
   try {
     await transporter.sendMail(mailOptions);
-    console.log(`Welcome email sent to ${email}`);
+    console.log(`Registration rejected email sent to ${email}`);
   } catch (error) {
-    console.error('Error sending welcome email:', error);
+    console.error('Error sending registration rejected email:', error);
     throw error;
   }
 }
@@ -0,0 +1,82 @@
+// Document file storage providers. New uploads go to the provider selected by
+// the FILE_STORE environment variable; each document records the provider that
+// holds it, so files stay reachable after a deployment switches providers.
+//   cloudinary (default) - Cloudinary CDN, downloads redirect to the asset URL
+//   s3                   - any S3-compatible object store (AWS, MinIO), downloads
+//                          redirect to a short-lived presigned URL
+//   local                - files on local disk under UPLOADS_DIR, streamed by the app
+//   memory               - in-process, for offline development and tests
+// Each provider has its own upload size limit, set in megabytes with
+// CLOUDINARY_MAX_UPLOAD_MB, S3_MAX_UPLOAD_MB, LOCAL_MAX_UPLOAD_MB or
+// MEMORY_MAX_UPLOAD_MB.
+import type { Readable } from 'stream';
+import { cloudinaryFileStore } from './cloudinary';
+import { s3FileStore } from './s3-file-store';
+import { localFileStore } from './local-file-store';
+import { memoryFileStore } from './memory-file-store';
+
+export type FileStoreBackend = 'cloudinary' | 's3' | 'local' | 'memory';
+
+export interface StoredFile {
+  key: string;
+  // Public URL for providers that serve files themselves (Cloudinary), else null
+  url: string | null;
+  size: number;
+}
+
+export interface UploadOptions {
+  folder: string;
+  filename: string;
+  mimeType: string;
+}
+
+export interface DownloadOptions {
+  fileName: string;
+  mimeType: string;
+}
+
+// Either a URL to redirect the client to, or a stream the app serves itself
+export type FileDownload = { redirectUrl: string } | { stream: Readable };
+
+export interface FileStorageProvider {
+  readonly name: FileStoreBackend;
+  // Largest file accepted for upload, in bytes
+  readonly maxUploadSize: number;
+  // Stores a whole file, or one streamed in as it arrives
+  uploadFile(file: Buffer | Readable, options: UploadOptions): Promise<StoredFile>;
+  deleteFile(key: string): Promise<void>;
+  // Duplicate a stored file under a new key without passing it through the app
+  copyFile(source: Pick<StoredFile, 'key' | 'url'>, destinationKey: string): Promise<StoredFile>;
+  // Rejects with an ENOENT-coded error when the file does not exist
+  getDownload(file: Pick<StoredFile, 'key' | 'url'>, options: DownloadOptions): Promise<FileDownload>;
+}
+
+const providers: Record<FileStoreBackend, FileStorageProvider> = {
+  cloudinary: cloudinaryFileStore,
+  s3: s3FileStore,
+  local: localFileStore,
+  memory: memoryFileStore,
+};
+
+function isFileStoreBackend(name: string): name is FileStoreBackend {
+  return name in providers;
+}
+
+function resolveFileStore(): FileStoreBackend {
+  const backend = (process.env.FILE_STORE || 'cloudinary').toLowerCase();
+  if (isFileStoreBackend(backend)) return backend;
+  throw new Error(`Unknown FILE_STORE "${process.env.FILE_STORE}" (expected cloudinary, s3, local or memory)`);
+}
+
+export const fileStoreBackend = resolveFileStore();
+
+// Provider for new uploads
+export const fileStore = providers[fileStoreBackend];
+
+// Provider holding an existing document's file
+export function getFileStore(name: string): FileStorageProvider {
+  if (!isFileStoreBackend(name)) {
+    throw new Error(`Unknown file storage provider "${name}"`);
+  }
+  return providers[name];
+}
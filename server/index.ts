@@ -1,6 +1,13 @@
 import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storageBackend } from "./storage";
+import { setupAdmin } from "./setup-mongodb-admin";
+import { scheduleTrashPurge } from "./trash";
+import { scheduleSessionPurge } from "./session-store";
+import { scheduleLoginThrottlePurge } from "./login-throttle";
+import { getPendingMigrations } from "./migrator";
+import { checkReplicaSet } from "./mongodb";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -22,7 +29,8 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      // Unless it carries secrets - see withheldFromLog in auth.ts
+      if (capturedJsonResponse && !res.locals.withholdBodyFromLog) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -38,7 +46,34 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // The in-memory backend starts empty, so seed the admin (ADMIN_EMAIL and
+  // ADMIN_PASSWORD) to log in with
+  if (storageBackend === 'memory') {
+    await setupAdmin().catch((error) => {
+      console.error("Failed to create admin user:", error instanceof Error ? error.message : error);
+    });
+  }
+
+  if (storageBackend === 'mongodb') {
+    try {
+      await checkReplicaSet();
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+    getPendingMigrations()
+      .then(pending => {
+        if (pending.length > 0) {
+          log(`${pending.length} pending MongoDB migration(s) - run \`npm run db:migrate -- up\``);
+        }
+      })
+      .catch(error => console.error('Error checking MongoDB migrations:', error));
+  }
+
   const server = await registerRoutes(app);
+  scheduleTrashPurge();
+  scheduleSessionPurge();
+  scheduleLoginThrottlePurge();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,120 @@
+// Invite links: only the link last emailed for an invitation, unaltered,
+// unexpired and unused, finds it
+import { describe, it, before, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import nodemailer from 'nodemailer';
+import type { IStorage } from './storage';
+
+process.env.STORAGE_BACKEND = 'memory';
+
+// Invitation emails are kept to read the links from, rather than sent
+const sent: { html: string }[] = [];
+(nodemailer as { createTransport: unknown }).createTransport = () => ({
+  sendMail: async (message: { html: string }) => {
+    sent.push(message);
+  },
+});
+
+let storage: IStorage;
+let memoryStorage: typeof import('./memory-storage').memoryStorage;
+let invitations: typeof import('./invitations');
+
+before(async () => {
+  ({ storage } = await import('./storage'));
+  ({ memoryStorage } = await import('./memory-storage'));
+  invitations = await import('./invitations');
+});
+
+describe('invitations', () => {
+  beforeEach(async () => {
+    await memoryStorage.reset();
+    sent.length = 0;
+    mock.timers.enable({ apis: ['Date'], now: new Date('2026-03-01T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  // Invites `email`, returning the invitation and its link's token
+  const invite = async (email = 'new@example.com') => {
+    const admin = (await storage.getUserByEmail('admin@example.com'))
+      ?? await storage.createUser({ email: 'admin@example.com', passwordHash: 'hash', role: 'admin' });
+    const { token, tokenHash } = invitations.newInvitationToken();
+    const invitation = await storage.createInvitation({
+      email,
+      firstName: null,
+      lastName: null,
+      role: 'developer',
+      invitedBy: admin.id,
+      expiresAt: invitations.invitationExpiry(),
+      tokenHash,
+    });
+    return { invitation, token: await emailedToken(invitation, token) };
+  };
+
+  // Emails the invitation's link, returning its token
+  const emailedToken = async (invitation: Parameters<typeof invitations.sendInvitation>[0], token: string) => {
+    const admin = (await storage.getUserByEmail('admin@example.com'))!;
+    await invitations.sendInvitation(invitation, token, admin);
+    const link = /href="([^"]+)"/.exec(sent.at(-1)!.html)![1];
+    return new URL(link).searchParams.get('token')!;
+  };
+
+  it('finds the invitation from the emailed link', async () => {
+    const { invitation, token } = await invite();
+    assert.equal((await invitations.findInvitation(token))?.id, invitation.id);
+  });
+
+  it('finds nothing from a link whose token was changed', async () => {
+    const { invitation, token } = await invite();
+
+    const flipped = token[0] === 'A' ? `B${token.slice(1)}` : `A${token.slice(1)}`;
+    for (const tampered of [flipped, token.slice(0, -1), `${token}x`, '', invitation.id, invitation.tokenHash!]) {
+      assert.equal(await invitations.findInvitation(tampered), null, tampered);
+    }
+  });
+
+  it('redeems the link once, and finds nothing after', async () => {
+    const { invitation, token } = await invite();
+    const [first, second] = await Promise.all([
+      invitations.redeemInvitation(token),
+      invitations.redeemInvitation(token),
+    ]);
+    assert.equal(first?.id ?? second?.id, invitation.id);
+    assert.ok(!first || !second);
+    assert.equal(await invitations.findInvitation(token), null);
+  });
+
+  it('redeems nothing from an expired link', async () => {
+    const { token } = await invite();
+    mock.timers.tick(invitations.INVITATION_TTL);
+    assert.equal(await invitations.redeemInvitation(token), null);
+  });
+
+  it('stops finding the invitation when it expires', async () => {
+    const { token } = await invite();
+    mock.timers.tick(invitations.INVITATION_TTL - 1);
+    assert.ok(await invitations.findInvitation(token));
+    mock.timers.tick(1);
+    assert.equal(await invitations.findInvitation(token), null);
+  });
+
+  it('replaces the link when the invitation is resent', async () => {
+    const { invitation, token } = await invite();
+    mock.timers.tick(60 * 1000);
+    const { token: resentToken, tokenHash } = invitations.newInvitationToken();
+    const renewed = (await storage.renewInvitation(invitation.id, invitations.invitationExpiry(), tokenHash))!;
+    const newToken = await emailedToken(renewed, resentToken);
+
+    assert.notEqual(newToken, token);
+    assert.equal(await invitations.findInvitation(token), null);
+    assert.equal((await invitations.findInvitation(newToken))?.id, invitation.id);
+  });
+
+  it('finds nothing once the invitation is revoked', async () => {
+    const { invitation, token } = await invite();
+    await storage.deleteInvitation(invitation.id);
+    assert.equal(await invitations.findInvitation(token), null);
+  });
+});
@@ -0,0 +1,56 @@
+// Invitations to join the workspace. An admin invites an email address with a
+// role; the invitee follows the emailed link to choose their own name and
+// password, which creates their account. The link carries a random token of
+// which only the SHA-256 hash is stored, so it can't be made up and a leaked
+// database holds no working links. It stops working when the invitation
+// expires or is accepted, and is replaced when the invitation is resent.
+// Revoking an invitation deletes it.
+import { createHash, randomBytes } from 'crypto';
+import { storage } from './storage';
+import type { User } from './storage';
+import { appUrl, sendInvitationEmail } from './email';
+import type { Invitation, PendingInvitation } from '../shared/schema';
+
+export const INVITATION_TTL = 7 * 24 * 60 * 60 * 1000;
+
+export function invitationExpiry(): Date {
+  return new Date(Date.now() + INVITATION_TTL);
+}
+
+function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// A token for a new link, and the hash to store with the invitation
+export function newInvitationToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashInvitationToken(token) };
+}
+
+// Emails the invitee a link carrying `token`, the invitation's current one
+export async function sendInvitation(invitation: Invitation, token: string, inviter: User): Promise<void> {
+  await sendInvitationEmail(
+    invitation.email,
+    invitation.firstName,
+    [inviter.firstName, inviter.lastName].filter(Boolean).join(' ') || inviter.email,
+    appUrl(`/invite?token=${token}`),
+    INVITATION_TTL / (24 * 60 * 60 * 1000),
+  );
+}
+
+// The invitation an invite link's token is for. Null if the token was made
+// up or replaced by a resend, or the invitation has expired or is gone.
+export async function findInvitation(token: string): Promise<Invitation | null> {
+  const invitation = await storage.getInvitationByTokenHash(hashInvitationToken(token));
+  return invitation && invitation.expiresAt > new Date() ? invitation : null;
+}
+
+// Like findInvitation, but using the invitation up, so that of two requests
+// accepting it at once only one gets it
+export async function redeemInvitation(token: string): Promise<Invitation | null> {
+  return await storage.consumeInvitation(hashInvitationToken(token));
+}
+
+export function toPendingInvitation({ tokenHash, ...invitation }: Invitation): PendingInvitation {
+  return invitation;
+}
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+import type {
+  FileStorageProvider,
+  StoredFile,
+  UploadOptions,
+  DownloadOptions,
+  FileDownload,
+} from './file-store';
+
+// Files live on local disk and are only reachable through the authenticated
+// download route - nothing is sent to a third party
+const UPLOADS_DIR = path.resolve(process.env.UPLOADS_DIR || 'uploads');
+const MAX_UPLOAD_MB = parseFloat(process.env.LOCAL_MAX_UPLOAD_MB || '100');
+
+function sanitizeSegment(segment: string): string {
+  return segment.replace(/[^\w.-]+/g, '_').replace(/^\.+/, '_');
+}
+
+// Map a storage key to a path, refusing anything that escapes UPLOADS_DIR
+function resolveKey(key: string): string {
+  const filePath = path.resolve(UPLOADS_DIR, key);
+  if (!filePath.startsWith(UPLOADS_DIR + path.sep)) {
+    throw Object.assign(new Error(`Invalid file key: ${key}`), { code: 'ENOENT' });
+  }
+  return filePath;
+}
+
+export const localFileStore: FileStorageProvider = {
+  name: 'local',
+  maxUploadSize: MAX_UPLOAD_MB * 1024 * 1024,
+
+  async uploadFile(file: Buffer | Readable, options: UploadOptions): Promise<StoredFile> {
+    const key = [...options.folder.split('/'), options.filename]
+      .filter(Boolean)
+      .map(sanitizeSegment)
+      .join('/');
+    const filePath = resolveKey(key);
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    if (Buffer.isBuffer(file)) {
+      await fs.promises.writeFile(filePath, file, { flag: 'wx' });
+      return { key, url: null, size: file.length };
+    }
+
+    try {
+      await pipeline(file, fs.createWriteStream(filePath, { flags: 'wx' }));
+    } catch (error: any) {
+      // Leave no partly written file behind, but never one that was already there
+      if (error.code !== 'EEXIST') await fs.promises.rm(filePath, { force: true });
+      throw error;
+    }
+    const { size } = await fs.promises.stat(filePath);
+    return { key, url: null, size };
+  },
+
+  async deleteFile(key: string): Promise<void> {
+    try {
+      await fs.promises.unlink(resolveKey(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  },
+
+  async copyFile(source: Pick<StoredFile, 'key' | 'url'>, destinationKey: string): Promise<StoredFile> {
+    const destinationPath = resolveKey(destinationKey);
+    await fs.promises.mkdir(path.dirname(destinationPath), { recursive: true });
+    await fs.promises.copyFile(resolveKey(source.key), destinationPath, fs.constants.COPYFILE_EXCL);
+
+    const { size } = await fs.promises.stat(destinationPath);
+    return { key: destinationKey, url: null, size };
+  },
+
+  async getDownload(file: Pick<StoredFile, 'key' | 'url'>, _options: DownloadOptions): Promise<FileDownload> {
+    const filePath = resolveKey(file.key);
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return { stream: fs.createReadStream(filePath) };
+  },
+};
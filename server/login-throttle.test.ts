@@ -0,0 +1,136 @@
+// Sign-in throttling: free failures, growing waits, lockout and unlocking,
+// attempts made at once, with the clock under the tests' control
+import { describe, it, before, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.STORAGE_BACKEND = 'memory';
+
+let memoryStorage: typeof import('./memory-storage').memoryStorage;
+let throttle: typeof import('./login-throttle');
+
+before(async () => {
+  ({ memoryStorage } = await import('./memory-storage'));
+  throttle = await import('./login-throttle');
+});
+
+const EMAIL = 'dev@example.com';
+const IP = '203.0.113.7';
+const MINUTE = 60 * 1000;
+
+describe('login throttle', () => {
+  beforeEach(async () => {
+    await memoryStorage.reset();
+    mock.timers.enable({ apis: ['Date'], now: new Date('2026-03-01T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  // Fails to sign in `times` times, waiting whenever asked to, returning when
+  // the last failure locked the account until, if it did
+  const fail = async (times: number, email = EMAIL, ip: string | null = IP) => {
+    let lockedUntil: Date | null = null;
+    for (let i = 0; i < times; i++) {
+      let attempt = await throttle.reserveLoginAttempt(email, ip);
+      if (attempt.block && !attempt.block.lockedOut) {
+        mock.timers.tick(attempt.block.retryAfter);
+        attempt = await throttle.reserveLoginAttempt(email, ip);
+      }
+      assert.equal(attempt.block, null);
+      lockedUntil = attempt.block ? null : attempt.accountLockedUntil;
+    }
+    return lockedUntil;
+  };
+
+  it('lets the first two failures go, then makes each attempt wait twice as long', async () => {
+    await fail(2);
+    assert.equal(await throttle.checkLoginThrottle(EMAIL, IP), null);
+
+    await fail(1);
+    assert.deepEqual(await throttle.checkLoginThrottle(EMAIL, IP), { retryAfter: 1000, lockedOut: false });
+    mock.timers.tick(1000);
+    assert.equal(await throttle.checkLoginThrottle(EMAIL, IP), null);
+
+    await fail(1);
+    assert.deepEqual(await throttle.checkLoginThrottle(EMAIL, IP), { retryAfter: 2000, lockedOut: false });
+  });
+
+  it('locks the account out at the fifth failure, and tells whoever records it', async () => {
+    assert.equal(await fail(4), null);
+    const lockedUntil = await fail(1);
+    assert.equal(lockedUntil?.getTime(), Date.now() + throttle.LOCKOUT_DURATION);
+
+    assert.deepEqual(await throttle.checkLoginThrottle(EMAIL, IP), { retryAfter: throttle.LOCKOUT_DURATION, lockedOut: true });
+    // From anywhere
+    assert.equal((await throttle.checkLoginThrottle(EMAIL, '198.51.100.1'))?.lockedOut, true);
+    assert.deepEqual(await throttle.listLockedAccounts(), [{ email: EMAIL, lockedUntil }]);
+
+    // Trying again while locked is refused, and doesn't lock it again
+    assert.deepEqual(await throttle.reserveLoginAttempt(EMAIL, IP), { block: { retryAfter: throttle.LOCKOUT_DURATION, lockedOut: true } });
+    assert.deepEqual(await throttle.listLockedAccounts(), [{ email: EMAIL, lockedUntil }]);
+
+    mock.timers.tick(throttle.LOCKOUT_DURATION);
+    assert.equal(await throttle.checkLoginThrottle(EMAIL, IP), null);
+    assert.deepEqual(await throttle.listLockedAccounts(), []);
+  });
+
+  it('unlocks an account when its failures are cleared', async () => {
+    await fail(5);
+    assert.equal((await throttle.checkLoginThrottle(EMAIL, IP))?.lockedOut, true);
+
+    await throttle.clearAccountThrottle(EMAIL);
+    assert.equal(await throttle.checkLoginThrottle(EMAIL, IP), null);
+    assert.deepEqual(await throttle.listLockedAccounts(), []);
+    // Counting starts over
+    await fail(2);
+    assert.equal(await throttle.checkLoginThrottle(EMAIL, IP), null);
+  });
+
+  it('lets only as many attempts made at once go ahead as the limit allows', async () => {
+    const attempts = await Promise.all(Array.from({ length: 20 }, () => throttle.reserveLoginAttempt(EMAIL, IP)));
+    assert.equal(attempts.filter(attempt => !attempt.block).length, 5);
+    assert.ok(attempts.every(attempt => !attempt.block || attempt.block.lockedOut));
+    assert.equal(attempts.filter(attempt => !attempt.block && attempt.accountLockedUntil).length, 1);
+    // The ones refused weren't counted
+    assert.equal((await memoryStorage.getLoginThrottle(`ip:${IP}`))?.failures, 5);
+  });
+
+  it('gives back an attempt that succeeds', async () => {
+    await fail(2);
+    const attempt = await throttle.reserveLoginAttempt(EMAIL, IP);
+    assert.equal(attempt.block, null);
+    await throttle.releaseLoginAttempt(EMAIL, IP);
+
+    assert.equal(await throttle.checkLoginThrottle(EMAIL, IP), null);
+    assert.equal(await memoryStorage.getLoginThrottle(`account:${EMAIL}`), null);
+    // The address keeps the two failures from before
+    assert.equal((await memoryStorage.getLoginThrottle(`ip:${IP}`))?.failures, 2);
+  });
+
+  it('forgets failures after a quiet spell', async () => {
+    await fail(4);
+    mock.timers.tick(16 * MINUTE);
+    assert.equal(await throttle.checkLoginThrottle(EMAIL, IP), null);
+    await fail(2);
+    assert.equal(await throttle.checkLoginThrottle(EMAIL, IP), null);
+  });
+
+  it('throttles an address trying many accounts', async () => {
+    for (let i = 0; i < 10; i++) await fail(1, `user${i}@example.com`);
+    assert.equal(await throttle.checkLoginThrottle('someone@example.com', IP), null);
+
+    await fail(1, 'user10@example.com');
+    assert.deepEqual(await throttle.checkLoginThrottle('someone@example.com', IP), { retryAfter: 1000, lockedOut: false });
+    // Not from elsewhere
+    assert.equal(await throttle.checkLoginThrottle('someone@example.com', '198.51.100.1'), null);
+
+    for (let i = 11; i < 50; i++) {
+      mock.timers.tick(30 * 1000);
+      await fail(1, `user${i}@example.com`);
+    }
+    assert.equal((await throttle.checkLoginThrottle('someone@example.com', IP))?.lockedOut, true);
+    // Addresses aren't listed as locked accounts
+    assert.deepEqual(await throttle.listLockedAccounts(), []);
+  });
+});
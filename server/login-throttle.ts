@@ -0,0 +1,161 @@
+// Brute-force protection for signing in. Failed attempts are counted per
+// account (by the email tried, whether or not anyone has it) and per IP
+// address. Past a few free failures each further attempt has to wait, twice
+// as long each time, and at the limit the account or address is locked out
+// for a while. An attempt is counted as failed before its password is
+// checked, and given back if it succeeds, so guesses sent all at once can't
+// get more tries than the limit. Counts start over after a quiet spell or a
+// successful sign-in; admins can unlock an account early from the Users page.
+import { storage } from './storage';
+import type { LoginThrottle } from '../shared/schema';
+
+type Policy = {
+  // Failures allowed before attempts have to wait
+  freeFailures: number;
+  // Failures that lock the key out
+  maxFailures: number;
+};
+
+// An address is allowed more, since people share them behind NAT
+const accountPolicy: Policy = { freeFailures: 2, maxFailures: 5 };
+const ipPolicy: Policy = { freeFailures: 10, maxFailures: 50 };
+
+const MAX_DELAY = 30 * 1000;
+export const LOCKOUT_DURATION = 15 * 60 * 1000;
+// Quiet time after which the failures are forgotten
+const RESET_AFTER = 15 * 60 * 1000;
+const PURGE_INTERVAL = 60 * 60 * 1000;
+
+const ACCOUNT_PREFIX = 'account:';
+
+function accountKey(email: string): string {
+  // Exact, as emails are matched exactly when signing in
+  return `${ACCOUNT_PREFIX}${email}`;
+}
+
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+function keysFor(email: string, ip: string | null): [string, Policy][] {
+  const keys: [string, Policy][] = [[accountKey(email), accountPolicy]];
+  if (ip) keys.push([ipKey(ip), ipPolicy]);
+  return keys;
+}
+
+// When `throttle` next allows an attempt, or null if it does now
+function blockedUntil(throttle: LoginThrottle, policy: Policy, now: Date): Date | null {
+  if (throttle.lockedUntil && throttle.lockedUntil > now) return throttle.lockedUntil;
+  if (throttle.lastFailureAt.getTime() < now.getTime() - RESET_AFTER) return null;
+
+  const delayed = throttle.failures - policy.freeFailures;
+  if (delayed <= 0) return null;
+  const delay = Math.min(1000 * 2 ** (delayed - 1), MAX_DELAY);
+  const next = new Date(throttle.lastFailureAt.getTime() + delay);
+  return next > now ? next : null;
+}
+
+export type LoginBlock = {
+  // Milliseconds until the next attempt is allowed
+  retryAfter: number;
+  // Locked out, rather than just asked to slow down
+  lockedOut: boolean;
+};
+
+// Whether signing in as `email` from `ip` has to wait
+export async function checkLoginThrottle(email: string, ip: string | null): Promise<LoginBlock | null> {
+  const now = new Date();
+  let block: LoginBlock | null = null;
+
+  for (const [key, policy] of keysFor(email, ip)) {
+    const throttle = await storage.getLoginThrottle(key);
+    const until = throttle && blockedUntil(throttle, policy, now);
+    if (!until) continue;
+
+    const retryAfter = until.getTime() - now.getTime();
+    if (!block || retryAfter > block.retryAfter) {
+      block = { retryAfter, lockedOut: !!throttle.lockedUntil && throttle.lockedUntil > now };
+    }
+  }
+  return block;
+}
+
+// An attempt to sign in: blocked, or counted as failed until it succeeds
+export type LoginAttempt =
+  | { block: LoginBlock }
+  // When the account is locked until, if counting this attempt locked it,
+  // so its owner can be told should it fail
+  | { block: null; accountLockedUntil: Date | null };
+
+// Counts an attempt to sign in as `email` from `ip` as failed, before the
+// password is checked, locking either out at its limit. The count goes up
+// and is compared with the limit in one step per key, so of attempts made at
+// once only those within the limit go ahead; the rest are blocked, and like
+// attempts blocked by waiting or a lockout they are not counted. Give the
+// attempt back with releaseLoginAttempt if it succeeds.
+export async function reserveLoginAttempt(email: string, ip: string | null): Promise<LoginAttempt> {
+  const block = await checkLoginThrottle(email, ip);
+  if (block) return { block };
+
+  const now = new Date();
+  const resetBefore = new Date(now.getTime() - RESET_AFTER);
+  const counted: [LoginThrottle, Policy][] = [];
+  for (const [key, policy] of keysFor(email, ip)) {
+    counted.push([await storage.recordLoginFailure(key, now, resetBefore), policy]);
+  }
+
+  // Past the limit while locked, or while whoever reached it is locking it
+  const overLimit = counted.find(([throttle, policy]) =>
+    throttle.failures > policy.maxFailures && (!throttle.lockedUntil || throttle.lockedUntil > now));
+  if (overLimit) {
+    for (const [throttle] of counted) await storage.releaseLoginFailure(throttle.key);
+    const lockedUntil = overLimit[0].lockedUntil?.getTime() ?? now.getTime() + LOCKOUT_DURATION;
+    return { block: { retryAfter: lockedUntil - now.getTime(), lockedOut: true } };
+  }
+
+  let accountLockedUntil: Date | null = null;
+  for (const [throttle, policy] of counted) {
+    if (throttle.failures < policy.maxFailures) continue;
+    if (throttle.lockedUntil && throttle.lockedUntil > now) continue;
+
+    const lockedUntil = new Date(now.getTime() + LOCKOUT_DURATION);
+    await storage.lockLoginThrottle(throttle.key, lockedUntil);
+    if (policy === accountPolicy) accountLockedUntil = lockedUntil;
+  }
+  return { block: null, accountLockedUntil };
+}
+
+// Gives back an attempt reserved by reserveLoginAttempt that succeeded: the
+// account's failures are forgotten, and the address's count goes back down
+export async function releaseLoginAttempt(email: string, ip: string | null): Promise<void> {
+  await clearAccountThrottle(email);
+  if (ip) await storage.releaseLoginFailure(ipKey(ip));
+}
+
+// Forgets the failed attempts on an account - after signing in, or when an
+// admin unlocks it. Those from its addresses stay counted.
+export async function clearAccountThrottle(email: string): Promise<void> {
+  await storage.clearLoginThrottle(accountKey(email));
+}
+
+// Emails of the accounts locked out now, with when each lock ends. These may
+// include emails nobody has.
+export async function listLockedAccounts(): Promise<{ email: string; lockedUntil: Date }[]> {
+  const throttles = await storage.listLockedLoginThrottles(new Date());
+  return throttles
+    .filter(throttle => throttle.key.startsWith(ACCOUNT_PREFIX))
+    .map(throttle => ({ email: throttle.key.slice(ACCOUNT_PREFIX.length), lockedUntil: throttle.lockedUntil! }));
+}
+
+export function scheduleLoginThrottlePurge(): void {
+  const run = async () => {
+    try {
+      await storage.purgeLoginThrottles(new Date(Date.now() - Math.max(RESET_AFTER, LOCKOUT_DURATION)));
+    } catch (error) {
+      console.error('Error purging login throttles:', error);
+    }
+  };
+
+  void run();
+  setInterval(run, PURGE_INTERVAL).unref();
+}
@@ -0,0 +1,71 @@
+import { Readable } from 'stream';
+import type {
+  FileStorageProvider,
+  StoredFile,
+  UploadOptions,
+  DownloadOptions,
+  FileDownload,
+} from './file-store';
+
+// Keeps uploaded buffers in process memory, for offline development and
+// route-level tests
+const files = new Map<string, Buffer>();
+const MAX_UPLOAD_MB = parseFloat(process.env.MEMORY_MAX_UPLOAD_MB || '10');
+
+function getOrThrow(key: string): Buffer {
+  const file = files.get(key);
+  if (!file) {
+    throw Object.assign(new Error(`File not found: ${key}`), { code: 'ENOENT' });
+  }
+  return file;
+}
+
+export const memoryFileStore: FileStorageProvider & {
+  getFile(key: string): Buffer | null;
+  getKeys(): string[];
+  reset(): void;
+} = {
+  name: 'memory',
+  maxUploadSize: MAX_UPLOAD_MB * 1024 * 1024,
+
+  async uploadFile(file: Buffer | Readable, options: UploadOptions): Promise<StoredFile> {
+    const key = `${options.folder}/${options.filename}`;
+    const chunks: Buffer[] = [];
+    if (Buffer.isBuffer(file)) {
+      chunks.push(file);
+    } else {
+      for await (const chunk of file) chunks.push(chunk);
+    }
+    const contents = Buffer.concat(chunks);
+    files.set(key, contents);
+
+    return { key, url: null, size: contents.length };
+  },
+
+  async deleteFile(key: string): Promise<void> {
+    files.delete(key);
+  },
+
+  async copyFile(source: Pick<StoredFile, 'key' | 'url'>, destinationKey: string): Promise<StoredFile> {
+    const file = getOrThrow(source.key);
+    files.set(destinationKey, Buffer.from(file));
+    return { key: destinationKey, url: null, size: file.length };
+  },
+
+  async getDownload(file: Pick<StoredFile, 'key' | 'url'>, _options: DownloadOptions): Promise<FileDownload> {
+    return { stream: Readable.from(getOrThrow(file.key)) };
+  },
+
+  // Test helpers
+  getFile(key: string): Buffer | null {
+    return files.get(key) ?? null;
+  },
+
+  getKeys(): string[] {
+    return Array.from(files.keys());
+  },
+
+  reset() {
+    files.clear();
+  },
+};
@@ -0,0 +1,1070 @@
+import { randomUUID } from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import type {
+  IStorage,
+  User,
+  CreateUser,
+  UpsertUser,
+  Project,
+  InsertProject,
+  ProjectAssignment,
+  InsertProjectAssignment,
+  Document,
+  InsertDocument,
+  InsertAuditEntry,
+  SearchScope,
+  WorkspaceData,
+} from './storage';
+import { defaultUserDeletePolicy, checkUserDeletePolicy } from './delete-policy';
+import { VersionConflictError } from './versioning';
+import { sealAuditEntry } from './audit-chain';
+import { remapWorkspace } from './workspace';
+import type { UserDeletePolicy } from './delete-policy';
+import { projectStatusEnum, userRoleEnum } from '../shared/schema';
+import type {
+  ProjectWithDetails,
+  UserSummary,
+  UserWithStats,
+  DashboardStats,
+  TrashItem,
+  TrashItemType,
+  Page,
+  ProjectListQuery,
+  ProjectSortField,
+  UserListQuery,
+  UserSortField,
+  SortOrder,
+  SearchQuery,
+  SearchResults,
+  AuditEntry,
+  AuditAction,
+  AuditLogQuery,
+  AuditLogFilter,
+  UserSession,
+  UserTwoFactor,
+  PasswordResetToken,
+  Invitation,
+  InsertInvitation,
+  Registration,
+  InsertRegistration,
+  LoginThrottle,
+  PasswordHistoryEntry,
+  ApiToken,
+  InsertApiToken,
+  UserIdentity,
+  InsertUserIdentity,
+} from '../shared/schema';
+
+// In-process storage for local development and route-level tests.
+// Data lives only as long as the process does.
+const users = new Map<string, User>();
+const projects = new Map<string, Project>();
+const assignments = new Map<string, ProjectAssignment>();
+const documents = new Map<string, Document>();
+// Oldest first
+const auditEntries: AuditEntry[] = [];
+// By session id. Not rolled back with transactions - sessions are saved
+// outside them.
+const sessions = new Map<string, UserSession>();
+// By user id
+const twoFactors = new Map<string, UserTwoFactor>();
+const settings = new Map<string, { value: unknown; updatedAt: Date; updatedBy: string | null }>();
+// By token hash
+const resetTokens = new Map<string, PasswordResetToken>();
+const invitations = new Map<string, Invitation>();
+const registrations = new Map<string, Registration>();
+const passwordHistory = new Map<string, PasswordHistoryEntry>();
+const apiTokens = new Map<string, ApiToken>();
+// By user id
+const identities = new Map<string, UserIdentity>();
+// By key. Like sessions, not rolled back with transactions.
+const loginThrottles = new Map<string, LoginThrottle>();
+
+// Trashed records stay in the maps, hidden from everything but the trash methods
+type Trashable = { id: string; deletedAt: Date | null; deletedBy: string | null };
+
+function trashable(type: TrashItemType): Map<string, Trashable> {
+  return type === 'project' ? projects : type === 'document' ? documents : users;
+}
+
+function copyRecords<T extends object>(records: Map<string, T>): Map<string, T> {
+  return new Map(Array.from(records, ([id, record]) => [id, { ...record }]));
+}
+
+function replaceRecords<T>(records: Map<string, T>, saved: Map<string, T>): void {
+  records.clear();
+  saved.forEach((record, id) => records.set(id, record));
+}
+
+// Set while transaction() runs its work. One transaction runs at a time, and
+// storage calls from outside it wait for it to end, so putting back what it
+// started from can't undo anyone else's writes.
+const inTransaction = new AsyncLocalStorage<boolean>();
+let transactionEnded: Promise<void> | null = null;
+
+async function outsideTransaction(): Promise<void> {
+  while (transactionEnded && !inTransaction.getStore()) await transactionEnded;
+}
+
+// Runs `work`, putting back copies of every record taken when it started if
+// it fails
+async function runUndoable<T>(work: () => Promise<T>): Promise<T> {
+  const saved = {
+    users: copyRecords(users),
+    projects: copyRecords(projects),
+    assignments: copyRecords(assignments),
+    documents: copyRecords(documents),
+    twoFactors: copyRecords(twoFactors),
+    settings: copyRecords(settings),
+    resetTokens: copyRecords(resetTokens),
+    invitations: copyRecords(invitations),
+    registrations: copyRecords(registrations),
+    passwordHistory: copyRecords(passwordHistory),
+    apiTokens: copyRecords(apiTokens),
+    identities: copyRecords(identities),
+    auditEntries: auditEntries.length,
+  };
+  try {
+    return await work();
+  } catch (error) {
+    replaceRecords(users, saved.users);
+    replaceRecords(projects, saved.projects);
+    replaceRecords(assignments, saved.assignments);
+    replaceRecords(documents, saved.documents);
+    replaceRecords(twoFactors, saved.twoFactors);
+    replaceRecords(settings, saved.settings);
+    replaceRecords(resetTokens, saved.resetTokens);
+    replaceRecords(invitations, saved.invitations);
+    replaceRecords(registrations, saved.registrations);
+    replaceRecords(passwordHistory, saved.passwordHistory);
+    replaceRecords(apiTokens, saved.apiTokens);
+    replaceRecords(identities, saved.identities);
+    auditEntries.length = saved.auditEntries;
+    throw error;
+  }
+}
+
+const liveUsers = () => Array.from(users.values()).filter(u => !u.deletedAt);
+const liveProjects = () => Array.from(projects.values()).filter(p => !p.deletedAt);
+
+// A document is hidden while it or its project is in the trash
+function isLiveDocument(document: Document): boolean {
+  return !document.deletedAt && !projects.get(document.projectId)?.deletedAt;
+}
+
+function deleteResetTokensOf(userId: string): void {
+  resetTokens.forEach((token, tokenHash) => {
+    if (token.userId === userId) resetTokens.delete(tokenHash);
+  });
+}
+
+// Newest first - entries are added in the order they are set
+function passwordHistoryOf(userId: string): PasswordHistoryEntry[] {
+  return Array.from(passwordHistory.values())
+    .filter(entry => entry.userId === userId)
+    .reverse();
+}
+
+function trashItem(type: TrashItemType, record: Trashable, name: string, projectId: string | null): TrashItem {
+  return {
+    type,
+    id: record.id,
+    name,
+    projectId,
+    deletedAt: record.deletedAt!,
+    deletedBy: userSummary(record.deletedBy),
+  };
+}
+
+function userSummary(id: string | null): UserSummary | null {
+  const user = id ? users.get(id) : undefined;
+  return user ? {
+    id: user.id,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    email: user.email,
+  } : null;
+}
+
+function withProjectDetails(project: Project): ProjectWithDetails {
+  const projectAssignments = Array.from(assignments.values())
+    .filter(a => a.projectId === project.id && users.has(a.userId) && !users.get(a.userId)!.deletedAt);
+  const projectDocuments = Array.from(documents.values())
+    .filter(d => d.projectId === project.id && !d.deletedAt);
+
+  return {
+    ...project,
+    createdBy: userSummary(project.createdBy),
+    projectLead: userSummary(project.projectLeadId),
+    assignments: projectAssignments.map(a => {
+      const user = users.get(a.userId)!;
+      return {
+        ...a,
+        user: {
+          id: user.id,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          email: user.email,
+          profileImageUrl: user.profileImageUrl,
+        },
+      };
+    }),
+    documents: projectDocuments,
+    _count: {
+      assignments: projectAssignments.length,
+      documents: projectDocuments.length,
+    },
+  };
+}
+
+function matchesText(q: string | undefined, ...values: (string | null)[]): boolean {
+  if (!q) return true;
+  const needle = q.toLowerCase();
+  return values.some(value => value?.toLowerCase().includes(needle));
+}
+
+// Every term appears in at least one of the values
+function matchesTerms(terms: string[], ...values: (string | null)[]): boolean {
+  return terms.every(term => matchesText(term, ...values));
+}
+
+type SortKey = string | number | null;
+
+// Sorts the way the database backends do: missing values last, ties by id.
+// Enums sort in declaration order.
+function compareBy<T extends { id: string }>(key: (record: T) => SortKey, order: SortOrder) {
+  const direction = order === 'asc' ? 1 : -1;
+  return (a: T, b: T) => {
+    const x = key(a);
+    const y = key(b);
+    if (x !== y) {
+      if (x === null) return 1;
+      if (y === null) return -1;
+      return direction * (typeof x === 'string' ? x.localeCompare(y as string) : x - (y as number));
+    }
+    return direction * a.id.localeCompare(b.id);
+  };
+}
+
+const projectSortKeys: Record<ProjectSortField, (project: Project) => SortKey> = {
+  createdAt: p => p.createdAt?.getTime() ?? null,
+  name: p => p.name,
+  deadline: p => p.deadline?.getTime() ?? null,
+  status: p => projectStatusEnum.enumValues.indexOf(p.status),
+};
+
+const userSortKeys: Record<UserSortField, (user: User) => SortKey> = {
+  createdAt: u => u.createdAt?.getTime() ?? null,
+  email: u => u.email,
+  role: u => userRoleEnum.enumValues.indexOf(u.role),
+};
+
+function matchesAuditFilter(entry: AuditEntry, filter: AuditLogFilter): boolean {
+  return (!filter.actorId || entry.actorId === filter.actorId) &&
+    (!filter.action || entry.action === filter.action) &&
+    (!filter.targetType || entry.targetType === filter.targetType) &&
+    (!filter.targetId || entry.targetId === filter.targetId) &&
+    (!filter.projectId || entry.projectId === filter.projectId) &&
+    (!filter.actions || filter.actions.includes(entry.action as AuditAction)) &&
+    (!filter.from || entry.createdAt >= filter.from) &&
+    (!filter.to || entry.createdAt <= filter.to);
+}
+
+function paginate<T>(records: T[], query: { page: number; pageSize: number }): Page<T> {
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    items: records.slice(start, start + query.pageSize),
+    total: records.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+}
+
+export const memoryStorage: IStorage & { reset(): Promise<void> } = {
+  // User methods
+  async createUser(userData: CreateUser): Promise<User> {
+    if (Array.from(users.values()).some(u => u.email === userData.email)) {
+      throw new Error(`duplicate key error: email ${userData.email} is not unique`);
+    }
+
+    const now = new Date();
+    const user: User = {
+      id: randomUUID(),
+      email: userData.email,
+      firstName: userData.firstName ?? null,
+      lastName: userData.lastName ?? null,
+      profileImageUrl: userData.profileImageUrl ?? null,
+      passwordHash: userData.passwordHash,
+      role: userData.role || 'developer',
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null,
+      deletedBy: null,
+    };
+    users.set(user.id, user);
+    return { ...user };
+  },
+
+  async getUserById(id: string): Promise<User | null> {
+    const user = users.get(id);
+    return user && !user.deletedAt ? { ...user } : null;
+  },
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    const user = liveUsers().find(u => u.email === email);
+    return user ? { ...user } : null;
+  },
+
+  async listUsers(query: UserListQuery): Promise<Page<UserWithStats>> {
+    const allProjects = liveProjects();
+    const allAssignments = Array.from(assignments.values())
+      .filter(a => allProjects.some(p => p.id === a.projectId));
+
+    const matching = liveUsers()
+      .filter(u => (!query.role || u.role === query.role) && matchesText(query.q, u.firstName, u.lastName, u.email))
+      .sort(compareBy(userSortKeys[query.sort], query.order));
+    const page = paginate(matching, query);
+
+    const items = page.items.map(user => {
+      let projectCount = 0;
+
+      if (user.role === 'admin') {
+        projectCount = allProjects.length; // Admin can see all projects
+      } else if (user.role === 'project_lead') {
+        // Count projects where this user is the lead (createdBy)
+        projectCount = allProjects.filter(p => p.createdBy === user.id).length;
+      } else {
+        // Count assignments for developers
+        projectCount = allAssignments.filter(a => a.userId === user.id).length;
+      }
+
+      return {
+        ...user,
+        _count: {
+          projectAssignments: projectCount,
+        },
+      };
+    });
+    return { ...page, items };
+  },
+
+  async updateUser(id: string, updates: Partial<UpsertUser>, expectedVersion?: number): Promise<void> {
+    const user = users.get(id);
+    if (user) {
+      if (expectedVersion !== undefined && user.version !== expectedVersion) {
+        throw new VersionConflictError(user.version);
+      }
+      users.set(id, { ...user, ...updates, id, version: user.version + 1, updatedAt: new Date() });
+    }
+  },
+
+  async deleteUser(id: string, policy: UserDeletePolicy = defaultUserDeletePolicy): Promise<void> {
+    if (!users.has(id)) return;
+
+    const allProjects = Array.from(projects.values());
+    const allAssignments = Array.from(assignments.values());
+    const allDocuments = Array.from(documents.values());
+    const references = {
+      ledProjects: allProjects.filter(p => p.projectLeadId === id).length,
+      createdProjects: allProjects.filter(p => p.createdBy === id).length,
+      assignmentsMade: allAssignments.filter(a => a.assignedBy === id).length,
+      uploadedDocuments: allDocuments.filter(d => d.uploadedBy === id).length,
+    };
+    const reassignee = policy.reassignTo ? await memoryStorage.getUserById(policy.reassignTo) : null;
+    checkUserDeletePolicy(id, policy, references, reassignee);
+
+    const reassignTo = policy.reassignTo!;
+    for (const project of allProjects) {
+      if (project.projectLeadId === id) {
+        project.projectLeadId = policy.projectLead === 'reassign' ? reassignTo : null;
+      }
+      if (project.createdBy === id) project.createdBy = reassignTo;
+    }
+    for (const assignment of allAssignments) {
+      if (assignment.userId === id) {
+        assignments.delete(assignment.id);
+      } else if (assignment.assignedBy === id) {
+        assignment.assignedBy = reassignTo;
+      }
+    }
+    for (const document of allDocuments) {
+      if (document.uploadedBy === id) document.uploadedBy = reassignTo;
+    }
+    for (const record of [...allProjects, ...allDocuments, ...Array.from(users.values())]) {
+      if (record.deletedBy === id) record.deletedBy = null;
+    }
+
+    for (const session of Array.from(sessions.values())) {
+      if (session.userId === id) sessions.delete(session.sid);
+    }
+    twoFactors.delete(id);
+    deleteResetTokensOf(id);
+    for (const entry of passwordHistoryOf(id)) {
+      passwordHistory.delete(entry.id);
+    }
+    apiTokens.forEach(token => {
+      if (token.userId === id) apiTokens.delete(token.id);
+    });
+    identities.delete(id);
+    invitations.forEach(invitation => {
+      if (invitation.invitedBy === id) invitation.invitedBy = null;
+    });
+    settings.forEach(setting => {
+      if (setting.updatedBy === id) setting.updatedBy = null;
+    });
+    users.delete(id);
+  },
+
+  // Project methods
+  async createProject(projectData: InsertProject): Promise<Project> {
+    const now = new Date();
+    const project: Project = {
+      id: randomUUID(),
+      name: projectData.name,
+      description: projectData.description ?? null,
+      deadline: projectData.deadline ?? null,
+      status: projectData.status || 'active',
+      createdBy: projectData.createdBy,
+      projectLeadId: projectData.projectLeadId ?? null,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null,
+      deletedBy: null,
+    };
+    projects.set(project.id, project);
+    return { ...project };
+  },
+
+  async listProjects(query: ProjectListQuery, memberId?: string): Promise<Page<ProjectWithDetails>> {
+    const memberProjectIds = memberId ? new Set(
+      Array.from(assignments.values()).filter(a => a.userId === memberId).map(a => a.projectId)
+    ) : null;
+
+    const matching = liveProjects()
+      .filter(p =>
+        (!memberProjectIds || memberProjectIds.has(p.id)) &&
+        (!query.status || p.status === query.status) &&
+        (!query.leadId || p.projectLeadId === query.leadId) &&
+        (!query.deadlineFrom || (!!p.deadline && p.deadline >= query.deadlineFrom)) &&
+        (!query.deadlineTo || (!!p.deadline && p.deadline <= query.deadlineTo)) &&
+        matchesText(query.q, p.name, p.description)
+      )
+      .sort(compareBy(projectSortKeys[query.sort], query.order));
+    const page = paginate(matching, query);
+
+    return { ...page, items: page.items.map(withProjectDetails) };
+  },
+
+  async getProjectById(id: string): Promise<ProjectWithDetails | null> {
+    const project = projects.get(id);
+    return project && !project.deletedAt ? withProjectDetails(project) : null;
+  },
+
+  async updateProject(id: string, updates: Partial<InsertProject>, expectedVersion?: number): Promise<void> {
+    const project = projects.get(id);
+    if (project) {
+      if (expectedVersion !== undefined && project.version !== expectedVersion) {
+        throw new VersionConflictError(project.version);
+      }
+      projects.set(id, { ...project, ...updates, id, version: project.version + 1, updatedAt: new Date() });
+    }
+  },
+
+  async deleteProject(id: string): Promise<Document[]> {
+    if (!projects.has(id)) return [];
+
+    const removed: Document[] = [];
+    for (const assignment of Array.from(assignments.values())) {
+      if (assignment.projectId === id) assignments.delete(assignment.id);
+    }
+    for (const document of Array.from(documents.values())) {
+      if (document.projectId === id) {
+        documents.delete(document.id);
+        removed.push({ ...document });
+      }
+    }
+
+    projects.delete(id);
+    return removed;
+  },
+
+  // Project assignment methods
+  async assignUserToProject(assignmentData: InsertProjectAssignment): Promise<ProjectAssignment> {
+    const existing = Array.from(assignments.values()).find(a =>
+      a.projectId === assignmentData.projectId && a.userId === assignmentData.userId
+    );
+    if (existing) {
+      throw new Error('User is already assigned to this project');
+    }
+
+    const assignment: ProjectAssignment = {
+      id: randomUUID(),
+      projectId: assignmentData.projectId,
+      userId: assignmentData.userId,
+      assignedBy: assignmentData.assignedBy,
+      createdAt: new Date(),
+    };
+    assignments.set(assignment.id, assignment);
+    return { ...assignment };
+  },
+
+  async removeUserFromProject(projectId: string, userId: string): Promise<void> {
+    const assignment = Array.from(assignments.values()).find(a =>
+      a.projectId === projectId && a.userId === userId
+    );
+    if (assignment) {
+      assignments.delete(assignment.id);
+    }
+  },
+
+  // Document methods
+  async createDocument(documentData: InsertDocument): Promise<Document> {
+    const document: Document = {
+      id: randomUUID(),
+      projectId: documentData.projectId,
+      fileName: documentData.fileName,
+      originalName: documentData.originalName,
+      fileSize: documentData.fileSize,
+      mimeType: documentData.mimeType,
+      uploadedBy: documentData.uploadedBy,
+      storageProvider: documentData.storageProvider,
+      storageKey: documentData.storageKey,
+      storageUrl: documentData.storageUrl ?? null,
+      createdAt: new Date(),
+      deletedAt: null,
+      deletedBy: null,
+    };
+    documents.set(document.id, document);
+    return { ...document };
+  },
+
+  async getProjectDocuments(projectId: string): Promise<Document[]> {
+    return Array.from(documents.values())
+      .filter(d => d.projectId === projectId && isLiveDocument(d))
+      .map(d => ({ ...d }));
+  },
+
+  async deleteDocument(id: string): Promise<Document | null> {
+    const document = documents.get(id);
+    documents.delete(id);
+    return document ? { ...document } : null;
+  },
+
+  async getDocumentById(id: string): Promise<Document | null> {
+    const document = documents.get(id);
+    return document && isLiveDocument(document) ? { ...document } : null;
+  },
+
+  // Trash methods
+  async moveToTrash(type: TrashItemType, id: string, deletedBy: string): Promise<void> {
+    const record = trashable(type).get(id);
+    if (record && !record.deletedAt) {
+      record.deletedAt = new Date();
+      record.deletedBy = deletedBy;
+    }
+  },
+
+  async restoreFromTrash(type: TrashItemType, id: string): Promise<void> {
+    const record = trashable(type).get(id);
+    if (record) {
+      record.deletedAt = null;
+      record.deletedBy = null;
+    }
+  },
+
+  async getTrash(): Promise<TrashItem[]> {
+    const items = [
+      ...Array.from(projects.values()).filter(p => p.deletedAt)
+        .map(p => trashItem('project', p, p.name, null)),
+      ...Array.from(documents.values()).filter(d => d.deletedAt)
+        .map(d => trashItem('document', d, d.originalName, d.projectId)),
+      ...Array.from(users.values()).filter(u => u.deletedAt)
+        .map(u => trashItem('user', u, u.email, null)),
+    ];
+    return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  },
+
+  // Search method
+  async search(query: SearchQuery, scope: SearchScope): Promise<SearchResults> {
+    const { visibleTo } = scope;
+    const visibleProjects = liveProjects().filter(p => !visibleTo ||
+      (visibleTo.includeLed && p.projectLeadId === visibleTo.userId) ||
+      Array.from(assignments.values()).some(a => a.projectId === p.id && a.userId === visibleTo.userId)
+    );
+    const projectNames = new Map(visibleProjects.map(p => [p.id, p.name]));
+
+    const matchingProjects = visibleProjects
+      .filter(p => matchesTerms(query.terms, p.name, p.description))
+      .sort(compareBy(p => p.name, 'asc'))
+      .slice(0, query.limit);
+    const matchingDocuments = Array.from(documents.values())
+      .filter(d => !d.deletedAt && projectNames.has(d.projectId) && matchesTerms(query.terms, d.originalName))
+      .sort(compareBy(d => d.originalName, 'asc'))
+      .slice(0, query.limit);
+    const matchingUsers = scope.includeUsers ? liveUsers()
+      .filter(u => matchesTerms(query.terms, u.firstName, u.lastName, u.email))
+      .sort(compareBy(u => u.email, 'asc'))
+      .slice(0, query.limit) : [];
+
+    return {
+      projects: matchingProjects.map(p => ({
+        id: p.id,
+        name: p.name,
+        description: p.description,
+        status: p.status,
+      })),
+      documents: matchingDocuments.map(d => ({
+        id: d.id,
+        projectId: d.projectId,
+        originalName: d.originalName,
+        mimeType: d.mimeType,
+        projectName: projectNames.get(d.projectId)!,
+      })),
+      users: matchingUsers.map(u => ({
+        ...userSummary(u.id)!,
+        role: u.role,
+      })),
+    };
+  },
+
+  // Audit log methods
+  async appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    const sealed: AuditEntry = {
+      id: randomUUID(),
+      ...sealAuditEntry(entry, auditEntries[auditEntries.length - 1] ?? null),
+    };
+    auditEntries.push(sealed);
+    return { ...sealed };
+  },
+
+  async listAuditEntries(query: AuditLogQuery & AuditLogFilter): Promise<Page<AuditEntry>> {
+    const matching = auditEntries.filter(e => matchesAuditFilter(e, query)).reverse();
+    const page = paginate(matching, query);
+    return { ...page, items: page.items.map(e => ({ ...e })) };
+  },
+
+  async getAuditEntries(filter: AuditLogFilter): Promise<AuditEntry[]> {
+    return auditEntries.filter(e => matchesAuditFilter(e, filter)).map(e => ({ ...e }));
+  },
+
+  // Session methods
+  async getUserSession(sid: string): Promise<UserSession | null> {
+    const session = sessions.get(sid);
+    return session && session.expire > new Date() ? { ...session } : null;
+  },
+
+  async saveUserSession(session: Omit<UserSession, 'createdAt'>): Promise<void> {
+    const createdAt = sessions.get(session.sid)?.createdAt ?? new Date();
+    sessions.set(session.sid, { ...session, createdAt });
+  },
+
+  async updateUserSession(session: Omit<UserSession, 'createdAt'>): Promise<boolean> {
+    const existing = sessions.get(session.sid);
+    if (!existing) return false;
+    sessions.set(session.sid, { ...session, createdAt: existing.createdAt });
+    return true;
+  },
+
+  async deleteUserSession(sid: string): Promise<void> {
+    sessions.delete(sid);
+  },
+
+  async listUserSessions(userId: string): Promise<UserSession[]> {
+    const now = new Date();
+    return Array.from(sessions.values())
+      .filter(s => s.userId === userId && s.expire > now)
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+      .map(s => ({ ...s }));
+  },
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    for (const session of Array.from(sessions.values())) {
+      if (session.userId === userId) sessions.delete(session.sid);
+    }
+  },
+
+  async purgeExpiredSessions(now = new Date()): Promise<number> {
+    let purged = 0;
+    for (const session of Array.from(sessions.values())) {
+      if (session.expire <= now) {
+        sessions.delete(session.sid);
+        purged++;
+      }
+    }
+    return purged;
+  },
+
+  // Two-factor methods
+  async getUserTwoFactor(userId: string): Promise<UserTwoFactor | null> {
+    const twoFactor = twoFactors.get(userId);
+    return twoFactor ? { ...twoFactor, recoveryCodeHashes: [...twoFactor.recoveryCodeHashes] } : null;
+  },
+
+  async saveUserTwoFactor(twoFactorData: Omit<UserTwoFactor, 'createdAt' | 'updatedAt'>): Promise<UserTwoFactor> {
+    const now = new Date();
+    const twoFactor: UserTwoFactor = {
+      ...twoFactorData,
+      recoveryCodeHashes: [...twoFactorData.recoveryCodeHashes],
+      createdAt: twoFactors.get(twoFactorData.userId)?.createdAt ?? now,
+      updatedAt: now,
+    };
+    twoFactors.set(twoFactor.userId, twoFactor);
+    return { ...twoFactor };
+  },
+
+  async deleteUserTwoFactor(userId: string): Promise<void> {
+    twoFactors.delete(userId);
+  },
+
+  async useTotpStep(userId: string, step: number): Promise<boolean> {
+    const twoFactor = twoFactors.get(userId);
+    if (!twoFactor || (twoFactor.lastUsedStep !== null && twoFactor.lastUsedStep >= step)) return false;
+    twoFactor.lastUsedStep = step;
+    twoFactor.updatedAt = new Date();
+    return true;
+  },
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const twoFactor = twoFactors.get(userId);
+    if (!twoFactor?.recoveryCodeHashes.includes(codeHash)) return false;
+    twoFactor.recoveryCodeHashes = twoFactor.recoveryCodeHashes.filter(h => h !== codeHash);
+    twoFactor.updatedAt = new Date();
+    return true;
+  },
+
+  // Password reset methods
+  async savePasswordResetToken(token: Omit<PasswordResetToken, 'createdAt'>): Promise<void> {
+    deleteResetTokensOf(token.userId);
+    resetTokens.set(token.tokenHash, { ...token, createdAt: new Date() });
+  },
+
+  async consumePasswordResetToken(tokenHash: string, now = new Date()): Promise<string | null> {
+    const token = resetTokens.get(tokenHash);
+    if (!token) return null;
+    resetTokens.delete(tokenHash);
+    return token.expiresAt > now ? token.userId : null;
+  },
+
+  // Invitation methods
+  async createInvitation(invitationData: InsertInvitation): Promise<Invitation> {
+    if (Array.from(invitations.values()).some(i => i.email === invitationData.email)) {
+      throw new Error(`duplicate key error: invitation email ${invitationData.email} is not unique`);
+    }
+    const now = new Date();
+    const invitation: Invitation = {
+      id: randomUUID(),
+      email: invitationData.email,
+      firstName: invitationData.firstName ?? null,
+      lastName: invitationData.lastName ?? null,
+      role: invitationData.role ?? 'developer',
+      invitedBy: invitationData.invitedBy ?? null,
+      tokenHash: invitationData.tokenHash,
+      sentAt: now,
+      expiresAt: invitationData.expiresAt,
+      createdAt: now,
+    };
+    invitations.set(invitation.id, invitation);
+    return { ...invitation };
+  },
+
+  async getInvitation(id: string): Promise<Invitation | null> {
+    const invitation = invitations.get(id);
+    return invitation ? { ...invitation } : null;
+  },
+
+  async getInvitationByEmail(email: string): Promise<Invitation | null> {
+    const invitation = Array.from(invitations.values()).find(i => i.email === email);
+    return invitation ? { ...invitation } : null;
+  },
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | null> {
+    const invitation = Array.from(invitations.values()).find(i => i.tokenHash === tokenHash);
+    return invitation ? { ...invitation } : null;
+  },
+
+  async listInvitations(): Promise<Invitation[]> {
+    return Array.from(invitations.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(i => ({ ...i }));
+  },
+
+  async renewInvitation(id: string, expiresAt: Date, tokenHash: string): Promise<Invitation | null> {
+    const invitation = invitations.get(id);
+    if (!invitation) return null;
+    invitation.sentAt = new Date();
+    invitation.expiresAt = expiresAt;
+    invitation.tokenHash = tokenHash;
+    return { ...invitation };
+  },
+
+  async consumeInvitation(tokenHash: string, now = new Date()): Promise<Invitation | null> {
+    const invitation = Array.from(invitations.values()).find(i => i.tokenHash === tokenHash);
+    if (!invitation || invitation.expiresAt <= now) return null;
+    invitations.delete(invitation.id);
+    return { ...invitation };
+  },
+
+  async deleteInvitation(id: string): Promise<boolean> {
+    return invitations.delete(id);
+  },
+
+  // Registration methods
+  async createRegistration(registrationData: InsertRegistration): Promise<Registration> {
+    if (Array.from(registrations.values()).some(r => r.email === registrationData.email)) {
+      throw new Error(`duplicate key error: registration email ${registrationData.email} is not unique`);
+    }
+    const registration: Registration = {
+      id: randomUUID(),
+      ...registrationData,
+      createdAt: new Date(),
+    };
+    registrations.set(registration.id, registration);
+    return { ...registration };
+  },
+
+  async getRegistration(id: string): Promise<Registration | null> {
+    const registration = registrations.get(id);
+    return registration ? { ...registration } : null;
+  },
+
+  async getRegistrationByEmail(email: string): Promise<Registration | null> {
+    const registration = Array.from(registrations.values()).find(r => r.email === email);
+    return registration ? { ...registration } : null;
+  },
+
+  async listRegistrations(): Promise<Registration[]> {
+    return Array.from(registrations.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(r => ({ ...r }));
+  },
+
+  async deleteRegistration(id: string): Promise<boolean> {
+    return registrations.delete(id);
+  },
+
+  // Password history methods
+  async addPasswordHistory(userId: string, passwordHash: string, keep: number): Promise<void> {
+    const entry: PasswordHistoryEntry = { id: randomUUID(), userId, passwordHash, createdAt: new Date() };
+    passwordHistory.set(entry.id, entry);
+    for (const old of passwordHistoryOf(userId).slice(keep)) {
+      passwordHistory.delete(old.id);
+    }
+  },
+
+  async listPasswordHistory(userId: string, limit: number): Promise<PasswordHistoryEntry[]> {
+    return passwordHistoryOf(userId).slice(0, limit).map(entry => ({ ...entry }));
+  },
+
+  // Login throttle methods
+  async getLoginThrottle(key: string): Promise<LoginThrottle | null> {
+    const throttle = loginThrottles.get(key);
+    return throttle ? { ...throttle } : null;
+  },
+
+  async recordLoginFailure(key: string, now: Date, resetBefore: Date): Promise<LoginThrottle> {
+    const current = loginThrottles.get(key);
+    const throttle: LoginThrottle = current && current.lastFailureAt >= resetBefore
+      ? { ...current, failures: current.failures + 1, lastFailureAt: now }
+      : { key, failures: 1, lastFailureAt: now, lockedUntil: null };
+    loginThrottles.set(key, throttle);
+    return { ...throttle };
+  },
+
+  async releaseLoginFailure(key: string): Promise<void> {
+    const throttle = loginThrottles.get(key);
+    if (throttle && throttle.failures > 0) throttle.failures--;
+  },
+
+  async lockLoginThrottle(key: string, lockedUntil: Date): Promise<void> {
+    const throttle = loginThrottles.get(key);
+    if (throttle) throttle.lockedUntil = lockedUntil;
+  },
+
+  async clearLoginThrottle(key: string): Promise<void> {
+    loginThrottles.delete(key);
+  },
+
+  async listLockedLoginThrottles(now: Date): Promise<LoginThrottle[]> {
+    return Array.from(loginThrottles.values())
+      .filter(t => t.lockedUntil && t.lockedUntil > now)
+      .map(t => ({ ...t }));
+  },
+
+  async purgeLoginThrottles(before: Date): Promise<number> {
+    let purged = 0;
+    for (const throttle of Array.from(loginThrottles.values())) {
+      if (throttle.lastFailureAt < before && (!throttle.lockedUntil || throttle.lockedUntil < before)) {
+        loginThrottles.delete(throttle.key);
+        purged++;
+      }
+    }
+    return purged;
+  },
+
+  // Single sign-on identity methods
+  async getUserIdentity(userId: string): Promise<UserIdentity | null> {
+    const identity = identities.get(userId);
+    return identity ? { ...identity } : null;
+  },
+
+  async findUserIdentity(issuer: string, subject: string): Promise<UserIdentity | null> {
+    const identity = Array.from(identities.values()).find(i => i.issuer === issuer && i.subject === subject);
+    return identity ? { ...identity } : null;
+  },
+
+  async createUserIdentity(identityData: InsertUserIdentity): Promise<UserIdentity> {
+    if (identities.has(identityData.userId) ||
+        Array.from(identities.values()).some(i => i.issuer === identityData.issuer && i.subject === identityData.subject)) {
+      throw new Error('duplicate key error: user identity is not unique');
+    }
+    const identity: UserIdentity = { ...identityData, createdAt: new Date() };
+    identities.set(identity.userId, identity);
+    return { ...identity };
+  },
+
+  // API token methods
+  async createApiToken(tokenData: InsertApiToken): Promise<ApiToken> {
+    if (Array.from(apiTokens.values()).some(t => t.tokenHash === tokenData.tokenHash)) {
+      throw new Error('duplicate key error: API token hash is not unique');
+    }
+    const token: ApiToken = {
+      ...tokenData,
+      id: randomUUID(),
+      projectIds: [...tokenData.projectIds],
+      lastUsedAt: null,
+      createdAt: new Date(),
+    };
+    apiTokens.set(token.id, token);
+    return { ...token };
+  },
+
+  // Newest first - tokens are added in the order they are created
+  async listApiTokens(userId: string): Promise<ApiToken[]> {
+    return Array.from(apiTokens.values())
+      .filter(t => t.userId === userId)
+      .reverse()
+      .map(t => ({ ...t }));
+  },
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+    const token = Array.from(apiTokens.values()).find(t => t.tokenHash === tokenHash);
+    return token ? { ...token } : null;
+  },
+
+  async touchApiToken(id: string, lastUsedAt: Date): Promise<void> {
+    const token = apiTokens.get(id);
+    if (token) token.lastUsedAt = lastUsedAt;
+  },
+
+  async deleteApiToken(userId: string, id: string): Promise<boolean> {
+    if (apiTokens.get(id)?.userId !== userId) return false;
+    return apiTokens.delete(id);
+  },
+
+  async deleteUserApiTokens(userId: string): Promise<void> {
+    for (const token of Array.from(apiTokens.values())) {
+      if (token.userId === userId) apiTokens.delete(token.id);
+    }
+  },
+
+  // Settings methods
+  async getSetting(key: string): Promise<unknown> {
+    const setting = settings.get(key);
+    return setting ? structuredClone(setting.value) : null;
+  },
+
+  async saveSetting(key: string, value: unknown, updatedBy: string | null): Promise<void> {
+    settings.set(key, { value: structuredClone(value), updatedAt: new Date(), updatedBy });
+  },
+
+  // Workspace methods
+  async exportWorkspace(): Promise<WorkspaceData> {
+    return {
+      users: Array.from(users.values(), u => ({ ...u })),
+      projects: Array.from(projects.values(), p => ({ ...p })),
+      assignments: Array.from(assignments.values(), a => ({ ...a })),
+      documents: Array.from(documents.values(), d => ({ ...d })),
+    };
+  },
+
+  async importWorkspace(data: WorkspaceData): Promise<void> {
+    const imported = remapWorkspace(data, randomUUID);
+    imported.users.forEach(u => users.set(u.id, u));
+    imported.projects.forEach(p => projects.set(p.id, p));
+    imported.assignments.forEach(a => assignments.set(a.id, a));
+    imported.documents.forEach(d => documents.set(d.id, d));
+  },
+
+  // Transaction method. A failed transaction puts back copies of every record
+  // taken when it started. One started inside another is undone on its own,
+  // like a savepoint.
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (inTransaction.getStore()) return await runUndoable(work);
+
+    // Checked again on waking, without awaiting in between, as another
+    // transaction waiting too may have started first
+    while (transactionEnded) await transactionEnded;
+    let end!: () => void;
+    transactionEnded = new Promise(resolve => { end = resolve; });
+    try {
+      return await inTransaction.run(true, () => runUndoable(work));
+    } finally {
+      transactionEnded = null;
+      end();
+    }
+  },
+
+  // Dashboard stats method
+  async getDashboardStats(): Promise<DashboardStats> {
+    const allProjects = liveProjects();
+    const allUsers = liveUsers();
+    const now = new Date();
+    const weekFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+    return {
+      totalProjects: allProjects.length,
+      activeProjects: allProjects.filter(p => p.status === 'active').length,
+      completedProjects: allProjects.filter(p => p.status === 'completed').length,
+      onHoldProjects: allProjects.filter(p => p.status === 'on_hold').length,
+      teamMembers: allUsers.filter(u => u.role !== 'admin').length,
+      totalUsers: allUsers.length,
+      totalDocuments: Array.from(documents.values()).filter(isLiveDocument).length,
+      dueThisWeek: allProjects.filter(p =>
+        p.status !== 'completed' && p.deadline && p.deadline >= now && p.deadline <= weekFromNow
+      ).length,
+    };
+  },
+
+  // Drop every record - used between tests
+  async reset(): Promise<void> {
+    users.clear();
+    projects.clear();
+    assignments.clear();
+    documents.clear();
+    auditEntries.length = 0;
+    sessions.clear();
+    twoFactors.clear();
+    settings.clear();
+    resetTokens.clear();
+    invitations.clear();
+    registrations.clear();
+    passwordHistory.clear();
+    apiTokens.clear();
+    identities.clear();
+    loginThrottles.clear();
+  },
+};
+
+// Every call but transaction() waits for a running transaction to end, unless
+// it is made inside it
+for (const name of Object.keys(memoryStorage)) {
+  if (name === 'transaction') continue;
+  const methods = memoryStorage as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>;
+  const method = methods[name];
+  methods[name] = async (...args) => {
+    await outsideTransaction();
+    return await method(...args);
+  };
+}
@@ -25,3 +25,33 @@ export const requireRole = (roles: string[]) => {
 export const requireAdmin = requireRole(['admin']);
 export const requireProjectLead = requireRole(['admin', 'project_lead']);
 export const requireDeveloper = requireRole(['admin', 'project_lead', 'developer']);
+
+// Lets admins through to any project in req.params.id, and everyone else to the
+// projects they lead, created or are assigned to. For checks that must happen
+// before the request body is read, such as uploads.
+export const requireProjectMember = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    const project = await storage.getProjectById(req.params.id);
+    if (!project) {
+      return res.status(404).json({ message: 'Project not found' });
+    }
+
+    const userId = req.user.id;
+    const isMember = req.user.role === 'admin'
+      || project.projectLeadId === userId
+      || project.createdBy?.id === userId
+      || project.assignments.some(assignment => assignment.userId === userId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    next();
+  } catch (error) {
+    console.error('Project access check error:', error);
+    res.status(500).json({ message: 'Error checking permissions' });
+  }
+};
@@ -0,0 +1,19 @@
+import { Request, Response, NextFunction } from 'express';
+import { parseIfMatch } from '../versioning';
+
+// Versioned updates must say which version they are based on. The version from
+// the If-Match header is left in res.locals.expectedVersion.
+export const requireIfMatch = (req: Request, res: Response, next: NextFunction) => {
+  const header = req.get('If-Match');
+  if (!header) {
+    return res.status(428).json({ message: 'If-Match header with the ETag of the record being updated is required' });
+  }
+
+  const version = parseIfMatch(header);
+  if (version === null) {
+    return res.status(400).json({ message: 'Invalid If-Match header' });
+  }
+
+  res.locals.expectedVersion = version;
+  next();
+};
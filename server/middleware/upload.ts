@@ -1,7 +1,9 @@
 import multer from 'multer';
+import type { Request } from 'express';
+import type { FileStorageProvider, StoredFile, UploadOptions } from '../file-store';
 
-// Use memory storage for Cloudinary uploads
-const storage = multer.memoryStorage();
+// An uploaded file as the route sees it: already in the file store
+export type StoredUpload = Express.Multer.File & { stored: StoredFile };
 
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   // Allow common document types
@@ -18,6 +20,10 @@ const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCa
     'image/png',
     'image/gif',
     'image/svg+xml',
+    // Raw game assets - stored as-is by the s3 and local file stores
+    'application/zip',
+    'application/x-zip-compressed',
+    'image/vnd.adobe.photoshop',
   ];
 
   if (allowedTypes.includes(file.mimetype)) {
@@ -27,10 +33,29 @@ const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCa
   }
 };
 
-export const upload = multer({
-  storage: storage,
-  fileFilter: fileFilter,
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
-  },
-});
+// Parses multipart uploads, streaming each file into `store` as it arrives
+// rather than holding it in memory, up to the store's maxUploadSize. A file
+// over the limit is cut off there and, like the request's other files, deleted
+// again when multer refuses the request.
+export function uploadTo(
+  store: FileStorageProvider,
+  options: (req: Request, file: Express.Multer.File) => UploadOptions,
+) {
+  const storage: multer.StorageEngine = {
+    _handleFile(req, file, cb) {
+      store.uploadFile(file.stream, options(req, file))
+        .then(stored => cb(null, { stored, size: stored.size } as Partial<StoredUpload>), cb);
+    },
+    _removeFile(_req, file, cb) {
+      store.deleteFile((file as StoredUpload).stored.key).then(() => cb(null), cb);
+    },
+  };
+
+  return multer({
+    storage: storage,
+    fileFilter: fileFilter,
+    limits: {
+      fileSize: store.maxUploadSize,
+    },
+  });
+}
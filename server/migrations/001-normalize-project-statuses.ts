@@ -0,0 +1,44 @@
+// Projects written before the status enum was enforced carry legacy values
+// (in_progress, complete, hold) or no status at all. Map them onto the enum,
+// keeping the original value in legacyStatus so the step can be undone.
+import type { Migration } from '../migrator';
+
+const STATUSES = ['active', 'completed', 'on_hold'];
+
+export const normalizeProjectStatuses: Migration = {
+  version: 1,
+  name: 'normalize-project-statuses',
+
+  async up(db) {
+    await db.collection('projects').updateMany(
+      { status: { $nin: STATUSES } },
+      [{
+        $set: {
+          legacyStatus: { $ifNull: ['$status', null] },
+          status: {
+            $switch: {
+              branches: [
+                { case: { $eq: ['$status', 'complete'] }, then: 'completed' },
+                { case: { $eq: ['$status', 'hold'] }, then: 'on_hold' },
+              ],
+              default: 'active',
+            },
+          },
+        },
+      }],
+    );
+  },
+
+  async down(db) {
+    const projects = db.collection('projects');
+    // Projects that had no status
+    await projects.updateMany(
+      { legacyStatus: { $type: 'null' } },
+      { $unset: { status: '', legacyStatus: '' } },
+    );
+    await projects.updateMany(
+      { legacyStatus: { $exists: true } },
+      [{ $set: { status: '$legacyStatus' } }, { $unset: 'legacyStatus' }],
+    );
+  },
+};
@@ -0,0 +1,78 @@
+// Backfills fields older records lack: a role for users, timestamps (taken from
+// the ObjectId) and, for documents uploaded before storage providers, the
+// generic storage fields copied from the legacy Cloudinary ones. Each record
+// lists the fields it was given in backfilledFields, which down removes again.
+import type { Migration, MigrationDb } from '../migrator';
+
+interface Backfill {
+  collection: string;
+  field: string;
+  value: unknown;
+  // Further conditions a record must meet to be backfilled
+  where?: Record<string, unknown>;
+}
+
+const timestamps = (collection: string): Backfill[] => [
+  { collection, field: 'createdAt', value: { $toDate: '$_id' } },
+  { collection, field: 'updatedAt', value: '$createdAt' },
+];
+
+// In order - updatedAt is copied from the backfilled createdAt
+const backfills: Backfill[] = [
+  { collection: 'users', field: 'role', value: 'developer' },
+  ...timestamps('users'),
+  ...timestamps('projects'),
+  ...timestamps('projectassignments'),
+  { collection: 'documents', field: 'storageProvider', value: 'cloudinary' },
+  {
+    collection: 'documents',
+    field: 'storageKey',
+    value: '$cloudinaryPublicId',
+    where: { cloudinaryPublicId: { $exists: true } },
+  },
+  {
+    collection: 'documents',
+    field: 'storageUrl',
+    value: '$cloudinaryUrl',
+    where: { cloudinaryUrl: { $exists: true } },
+  },
+  ...timestamps('documents'),
+];
+
+async function removeBackfill(db: MigrationDb, { collection, field }: Backfill): Promise<void> {
+  await db.collection<{ backfilledFields?: string[] }>(collection).updateMany(
+    { backfilledFields: field },
+    { $unset: { [field]: '' }, $pull: { backfilledFields: field } },
+  );
+}
+
+export const backfillMissingFields: Migration = {
+  version: 2,
+  name: 'backfill-missing-fields',
+
+  async up(db) {
+    for (const { collection, field, value, where } of backfills) {
+      await db.collection(collection).updateMany(
+        { ...where, [field]: { $exists: false } },
+        [{
+          $set: {
+            [field]: value,
+            backfilledFields: { $concatArrays: [{ $ifNull: ['$backfilledFields', []] }, [field]] },
+          },
+        }],
+      );
+    }
+  },
+
+  async down(db) {
+    for (const backfill of [...backfills].reverse()) {
+      await removeBackfill(db, backfill);
+    }
+    for (const collection of Array.from(new Set(backfills.map(b => b.collection)))) {
+      await db.collection(collection).updateMany(
+        { backfilledFields: { $size: 0 } },
+        { $unset: { backfilledFields: '' } },
+      );
+    }
+  },
+};
@@ -0,0 +1,39 @@
+// Users and projects carry a version for optimistic concurrency. Records from
+// before it start at version 1, the schema default for new ones. Like the
+// fields of migration 2, the version is listed in the record's
+// backfilledFields, so down removes it only from the records given one here.
+import type { Migration } from '../migrator';
+
+const collections = ['users', 'projects'];
+
+export const addRecordVersions: Migration = {
+  version: 3,
+  name: 'add-record-versions',
+
+  async up(db) {
+    for (const collection of collections) {
+      await db.collection(collection).updateMany(
+        { version: { $exists: false } },
+        [{
+          $set: {
+            version: 1,
+            backfilledFields: { $concatArrays: [{ $ifNull: ['$backfilledFields', []] }, ['version']] },
+          },
+        }],
+      );
+    }
+  },
+
+  async down(db) {
+    for (const collection of collections) {
+      await db.collection<{ backfilledFields?: string[] }>(collection).updateMany(
+        { backfilledFields: 'version' },
+        { $unset: { version: '' }, $pull: { backfilledFields: 'version' } },
+      );
+      await db.collection(collection).updateMany(
+        { backfilledFields: { $size: 0 } },
+        { $unset: { backfilledFields: '' } },
+      );
+    }
+  },
+};
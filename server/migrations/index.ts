@@ -0,0 +1,12 @@
+// Every migration, in version order. Add new ones at the end with the next
+// version number; never renumber or edit one that has been released.
+import type { Migration } from '../migrator';
+import { normalizeProjectStatuses } from './001-normalize-project-statuses';
+import { backfillMissingFields } from './002-backfill-missing-fields';
+import { addRecordVersions } from './003-add-record-versions';
+
+export const migrations: Migration[] = [
+  normalizeProjectStatuses,
+  backfillMissingFields,
+  addRecordVersions,
+];
@@ -0,0 +1,97 @@
+// Versioned migrations for the MongoDB data model. Each migration has a unique
+// version number and up/down steps; the versions applied to a database are
+// recorded in its `migrations` collection. Run them with scripts/mongodb-migrate.ts.
+//
+// Migrations work on the raw collections rather than the mongoose models, so
+// they keep working after the models move on. They are not run in a
+// transaction: an up step must be safe to run again if it fails halfway.
+import mongoose from 'mongoose';
+import { connectToDatabase } from './mongodb';
+import { migrations } from './migrations';
+
+export type MigrationDb = mongoose.mongo.Db;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: MigrationDb): Promise<void>;
+  down(db: MigrationDb): Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: Date | null;
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: Date;
+}
+
+async function migrationsCollection() {
+  await connectToDatabase();
+  const collection = mongoose.connection.db!.collection<AppliedMigration>('migrations');
+  await collection.createIndex({ version: 1 }, { unique: true });
+  return collection;
+}
+
+function byVersion(a: { version: number }, b: { version: number }): number {
+  return a.version - b.version;
+}
+
+// Every known migration with when it was applied, oldest version first.
+// Applied versions this code does not know about are an error - the database
+// was migrated by a newer release.
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const applied = await (await migrationsCollection()).find().toArray();
+  const unknown = applied.filter(a => !migrations.some(m => m.version === a.version));
+  if (unknown.length > 0) {
+    throw new Error(`Database has migrations this release does not know about: ${unknown.map(a => a.version).join(', ')}`);
+  }
+
+  return [...migrations].sort(byVersion).map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: applied.find(a => a.version === migration.version)?.appliedAt ?? null,
+  }));
+}
+
+export async function getPendingMigrations(): Promise<MigrationStatus[]> {
+  return (await getMigrationStatus()).filter(status => !status.appliedAt);
+}
+
+// Applies pending migrations up to and including `targetVersion` (default: all)
+export async function applyMigrations(targetVersion = Infinity): Promise<Migration[]> {
+  const collection = await migrationsCollection();
+  const pending = (await getPendingMigrations()).filter(status => status.version <= targetVersion);
+
+  const applied: Migration[] = [];
+  for (const status of pending) {
+    const migration = migrations.find(m => m.version === status.version)!;
+    await migration.up(mongoose.connection.db!);
+    await collection.insertOne({ version: migration.version, name: migration.name, appliedAt: new Date() });
+    applied.push(migration);
+  }
+  return applied;
+}
+
+// Rolls back applied migrations newer than `targetVersion`, newest first. By
+// default only the most recently applied one is rolled back.
+export async function rollbackMigrations(targetVersion?: number): Promise<Migration[]> {
+  const collection = await migrationsCollection();
+  const applied = (await getMigrationStatus()).filter(status => status.appliedAt).reverse();
+  const toRollBack = targetVersion === undefined
+    ? applied.slice(0, 1)
+    : applied.filter(status => status.version > targetVersion);
+
+  const rolledBack: Migration[] = [];
+  for (const status of toRollBack) {
+    const migration = migrations.find(m => m.version === status.version)!;
+    await migration.down(mongoose.connection.db!);
+    await collection.deleteOne({ version: migration.version });
+    rolledBack.push(migration);
+  }
+  return rolledBack;
+}
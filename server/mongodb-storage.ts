@@ -1,31 +1,101 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { isValidObjectId, Types } from 'mongoose';
+import type { Model, PipelineStage } from 'mongoose';
 import { connectToDatabase } from './mongodb';
-import { User, Project, ProjectAssignment, Document } from '../shared/mongoose-schema';
-import type { IUser, IProject, IProjectAssignment, IDocument } from '../shared/mongoose-schema';
+import { VersionConflictError } from './versioning';
+import { sealAuditEntry } from './audit-chain';
+import { remapWorkspace } from './workspace';
+import { User, Project, ProjectAssignment, Document, AuditEntry, Session, UserTwoFactor, Setting, PasswordResetToken, Invitation, Registration, PasswordHistory, LoginThrottle, ApiToken, UserIdentity } from '../shared/mongoose-schema';
+import type { IUser, IProject, IProjectAssignment, IDocument, IAuditEntry, ISession, IUserTwoFactor, IPasswordResetToken, IInvitation, IRegistration, IPasswordHistoryEntry, ILoginThrottle, IApiToken, IUserIdentity } from '../shared/mongoose-schema';
+import { projectStatusEnum, userRoleEnum } from '../shared/schema';
+import type {
+  ProjectWithDetails,
+  UserSummary,
+  UserWithStats,
+  DashboardStats,
+  TrashItem,
+  TrashItemType,
+  Page,
+  ProjectListQuery,
+  ProjectSortField,
+  UserListQuery,
+  UserSortField,
+  SortOrder,
+  SearchQuery,
+  SearchResults,
+  AuditLogQuery,
+  AuditLogFilter,
+  InsertInvitation,
+  InsertRegistration,
+  InsertApiToken,
+  InsertUserIdentity,
+} from '../shared/schema';
+import type {
+  IStorage,
+  CreateUser,
+  UpsertUser,
+  InsertProject,
+  InsertProjectAssignment,
+  InsertDocument,
+  InsertAuditEntry,
+  SearchScope,
+  WorkspaceData,
+} from './storage';
+import { defaultUserDeletePolicy, checkUserDeletePolicy } from './delete-policy';
+import type { UserDeletePolicy } from './delete-policy';
+
+const trashModels = {
+  project: Project,
+  document: Document,
+  user: User,
+};
+
+// Trash fields shared by users, projects and documents
+function trashFields(doc: any) {
+  return {
+    deletedAt: doc.deletedAt ?? null,
+    deletedBy: doc.deletedBy ? doc.deletedBy.toString() : null,
+  };
+}
+
+// The document's fields, less those migrations keep on records to undo
+// themselves (see server/migrations), which are no part of the data model
+function modelFields(doc: any) {
+  const { legacyStatus, backfilledFields, ...fields } = doc.toObject();
+  return fields;
+}
 
 // Convert MongoDB document to plain object with proper id field
 function convertUser(doc: any): IUser {
   return {
-    ...doc.toObject(),
+    ...modelFields(doc),
     id: doc._id.toString(),
+    firstName: doc.firstName ?? null,
+    lastName: doc.lastName ?? null,
+    profileImageUrl: doc.profileImageUrl ?? null,
     createdAt: doc.createdAt || null,
     updatedAt: doc.updatedAt || null,
+    ...trashFields(doc),
   };
 }
 
 function convertProject(doc: any): IProject {
   return {
-    ...doc.toObject(),
+    ...modelFields(doc),
     id: doc._id.toString(),
+    description: doc.description ?? null,
+    deadline: doc.deadline ?? null,
     createdBy: doc.createdBy.toString(),
     projectLeadId: doc.projectLeadId ? doc.projectLeadId.toString() : null,
     createdAt: doc.createdAt || null,
     updatedAt: doc.updatedAt || null,
+    ...trashFields(doc),
   };
 }
 
 function convertProjectAssignment(doc: any): IProjectAssignment {
   return {
-    ...doc.toObject(),
+    ...modelFields(doc),
     id: doc._id.toString(),
     projectId: doc.projectId.toString(),
     userId: doc.userId.toString(),
@@ -37,20 +107,316 @@ function convertProjectAssignment(doc: any): IProjectAssignment {
 
 function convertDocument(doc: any): IDocument {
   return {
-    ...doc.toObject(),
+    ...modelFields(doc),
     id: doc._id.toString(),
     projectId: doc.projectId.toString(),
     uploadedBy: doc.uploadedBy.toString(),
-    cloudinaryUrl: doc.cloudinaryUrl,
-    cloudinaryPublicId: doc.cloudinaryPublicId,
+    // Documents uploaded before storage providers only carry the Cloudinary fields
+    storageProvider: doc.storageProvider || 'cloudinary',
+    storageKey: doc.storageKey || doc.cloudinaryPublicId,
+    storageUrl: doc.storageUrl || doc.cloudinaryUrl || null,
     createdAt: doc.createdAt || null,
     updatedAt: doc.updatedAt || null,
+    ...trashFields(doc),
+  };
+}
+
+function convertAuditEntry(doc: any): IAuditEntry {
+  return {
+    id: doc._id.toString(),
+    sequence: doc.sequence,
+    actorId: doc.actorId ?? null,
+    actorEmail: doc.actorEmail ?? null,
+    action: doc.action,
+    targetType: doc.targetType,
+    targetId: doc.targetId,
+    targetName: doc.targetName ?? null,
+    projectId: doc.projectId ?? null,
+    changes: doc.changes ?? null,
+    note: doc.note ?? null,
+    ip: doc.ip ?? null,
+    createdAt: doc.createdAt,
+    previousHash: doc.previousHash,
+    hash: doc.hash,
+  };
+}
+
+function convertSession(doc: any): ISession {
+  return {
+    sid: doc._id,
+    sess: doc.sess,
+    expire: doc.expire,
+    userId: doc.userId ? doc.userId.toString() : null,
+    userAgent: doc.userAgent ?? null,
+    ip: doc.ip ?? null,
+    createdAt: doc.createdAt,
+    lastSeenAt: doc.lastSeenAt,
+  };
+}
+
+function convertUserTwoFactor(doc: any): IUserTwoFactor {
+  return {
+    userId: doc._id.toString(),
+    secret: doc.secret,
+    enabledAt: doc.enabledAt ?? null,
+    recoveryCodeHashes: [...doc.recoveryCodeHashes],
+    lastUsedStep: doc.lastUsedStep ?? null,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+function convertInvitation(doc: any): IInvitation {
+  return {
+    id: doc._id.toString(),
+    email: doc.email,
+    firstName: doc.firstName ?? null,
+    lastName: doc.lastName ?? null,
+    role: doc.role,
+    invitedBy: doc.invitedBy?.toString() ?? null,
+    tokenHash: doc.tokenHash ?? null,
+    sentAt: doc.sentAt,
+    expiresAt: doc.expiresAt,
+    createdAt: doc.createdAt,
+  };
+}
+
+function convertRegistration(doc: any): IRegistration {
+  return {
+    id: doc._id.toString(),
+    email: doc.email,
+    firstName: doc.firstName,
+    lastName: doc.lastName,
+    passwordHash: doc.passwordHash,
+    createdAt: doc.createdAt,
+  };
+}
+
+function convertPasswordHistoryEntry(doc: any): IPasswordHistoryEntry {
+  return {
+    id: doc._id.toString(),
+    userId: doc.userId.toString(),
+    passwordHash: doc.passwordHash,
+    createdAt: doc.createdAt,
   };
 }
 
-export const mongoStorage = {
+function convertUserIdentity(doc: any): IUserIdentity {
+  return {
+    userId: doc._id.toString(),
+    issuer: doc.issuer,
+    subject: doc.subject,
+    createdAt: doc.createdAt,
+  };
+}
+
+function convertApiToken(doc: any): IApiToken {
+  return {
+    id: doc._id.toString(),
+    userId: doc.userId.toString(),
+    name: doc.name,
+    tokenHash: doc.tokenHash,
+    prefix: doc.prefix,
+    access: doc.access,
+    projectIds: doc.projectIds.map((id: any) => id.toString()),
+    expiresAt: doc.expiresAt,
+    lastUsedAt: doc.lastUsedAt ?? null,
+    createdAt: doc.createdAt,
+  };
+}
+
+function convertLoginThrottle(doc: any): ILoginThrottle {
+  return {
+    key: doc._id,
+    failures: doc.failures,
+    lastFailureAt: doc.lastFailureAt,
+    lockedUntil: doc.lockedUntil ?? null,
+  };
+}
+
+// Assignment members, leaving out users in the trash
+const assignedUser = {
+  path: 'userId',
+  select: 'id firstName lastName email profileImageUrl',
+  match: { deletedAt: null },
+};
+
+const createdByRef = { path: 'createdBy', select: 'id firstName lastName email' };
+const projectLeadRef = { path: 'projectLeadId', select: 'id firstName lastName email' };
+
+function userSummary(user: any): UserSummary | null {
+  return user ? {
+    id: user._id.toString(),
+    firstName: user.firstName,
+    lastName: user.lastName,
+    email: user.email,
+  } : null;
+}
+
+// Attach assignments and documents to projects with createdBy and
+// projectLeadId populated
+async function withProjectDetails(projects: any[]): Promise<ProjectWithDetails[]> {
+  const projectIds = projects.map(p => p._id);
+  // Skip assignments of trashed users, and any left behind by users deleted
+  // before deletes cascaded
+  const allAssignments = (await ProjectAssignment.find({ projectId: { $in: projectIds } }).populate(assignedUser))
+    .filter(a => a.userId);
+  const allDocuments = await Document.find({ projectId: { $in: projectIds }, deletedAt: null });
+
+  return projects.map(project => {
+    const assignments = allAssignments.filter(a => a.projectId.toString() === project._id.toString());
+    const documents = allDocuments.filter(d => d.projectId.toString() === project._id.toString());
+
+    return {
+      ...convertProject(project),
+      createdBy: userSummary(project.createdBy),
+      projectLead: userSummary(project.projectLeadId),
+      assignments: assignments.map(a => ({
+        ...convertProjectAssignment(a),
+        user: {
+          ...userSummary(a.userId)!,
+          profileImageUrl: a.userId.profileImageUrl,
+        },
+      })),
+      documents: documents.map(d => convertDocument(d)),
+      _count: {
+        assignments: assignments.length,
+        documents: documents.length,
+      },
+    };
+  });
+}
+
+// Case-insensitive pattern matching `q` anywhere in the value
+function containing(q: string): RegExp {
+  return new RegExp(q.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+}
+
+// Set while transaction() runs its work
+const inTransaction = new AsyncLocalStorage<boolean>();
+
+// Every term appears in at least one of the fields
+function matchingTerms(terms: string[], fields: string[]) {
+  return { $and: terms.map(term => ({ $or: fields.map(field => ({ [field]: containing(term) })) })) };
+}
+
+// Sorts on `field` with ties broken by _id. Optional fields sort last in
+// either direction and enums in declaration order, like the other backends.
+function sortStages(
+  field: string,
+  order: SortOrder,
+  options: { optional?: boolean; enumValues?: readonly string[] } = {},
+): PipelineStage[] {
+  const direction = order === 'asc' ? 1 : -1;
+  if (!options.optional && !options.enumValues) {
+    return [{ $sort: { [field]: direction, _id: direction } }];
+  }
+  return [
+    {
+      $addFields: {
+        _missing: { $cond: [{ $ifNull: [`$${field}`, false] }, 0, 1] },
+        _sortKey: options.enumValues ? { $indexOfArray: [options.enumValues, `$${field}`] } : `$${field}`,
+      },
+    },
+    { $sort: { _missing: 1, _sortKey: direction, _id: direction } },
+  ];
+}
+
+const projectSortStages: Record<ProjectSortField, (order: SortOrder) => PipelineStage[]> = {
+  createdAt: order => sortStages('createdAt', order),
+  name: order => sortStages('name', order),
+  deadline: order => sortStages('deadline', order, { optional: true }),
+  status: order => sortStages('status', order, { enumValues: projectStatusEnum.enumValues }),
+};
+
+const userSortStages: Record<UserSortField, (order: SortOrder) => PipelineStage[]> = {
+  createdAt: order => sortStages('createdAt', order),
+  email: order => sortStages('email', order),
+  role: order => sortStages('role', order, { enumValues: userRoleEnum.enumValues }),
+};
+
+function auditFilter(filter: AuditLogFilter): Record<string, any> {
+  const match: Record<string, any> = {};
+  if (filter.actorId) match.actorId = filter.actorId;
+  if (filter.action) match.action = filter.action;
+  if (filter.targetType) match.targetType = filter.targetType;
+  if (filter.targetId) match.targetId = filter.targetId;
+  if (filter.projectId) match.projectId = filter.projectId;
+  if (filter.actions) match.action = { $in: filter.actions };
+  if (filter.from || filter.to) {
+    match.createdAt = {
+      ...(filter.from && { $gte: filter.from }),
+      ...(filter.to && { $lte: filter.to }),
+    };
+  }
+  return match;
+}
+
+// Appends that lose the race for the next sequence number this many times give up
+const AUDIT_APPEND_ATTEMPTS = 5;
+
+function emptyPage<T>(query: { page: number; pageSize: number }): Page<T> {
+  return { items: [], total: 0, page: query.page, pageSize: query.pageSize };
+}
+
+// Fetches one page of matching documents and the total match count in a
+// single aggregation, hydrating the page back into model documents
+async function aggregatePage(
+  model: Model<any>,
+  match: Record<string, any>,
+  sort: PipelineStage[],
+  query: { page: number; pageSize: number },
+): Promise<{ docs: any[]; total: number }> {
+  const [result] = await model.aggregate([
+    { $match: match },
+    ...sort,
+    {
+      $facet: {
+        docs: [
+          { $skip: (query.page - 1) * query.pageSize },
+          { $limit: query.pageSize },
+          { $unset: ['_missing', '_sortKey'] },
+        ],
+        total: [{ $count: 'count' }],
+      },
+    },
+  ]);
+  return {
+    docs: result.docs.map((doc: any) => model.hydrate(doc)),
+    total: result.total[0]?.count ?? 0,
+  };
+}
+
+// Applies `updates` and bumps the version, refusing with VersionConflictError
+// if `expectedVersion` is given and no longer current. Documents from before
+// versioning have no version field, which reads as version 1: $inc would only
+// take that to 1, so they are set to version 2 instead.
+async function updateVersioned(
+  model: Model<any>,
+  id: string,
+  updates: Record<string, any>,
+  expectedVersion?: number,
+): Promise<void> {
+  let result = await model.updateOne(
+    { _id: id, version: expectedVersion ?? { $exists: true } },
+    { $set: updates, $inc: { version: 1 } },
+  );
+  if (result.matchedCount === 0 && (expectedVersion === undefined || expectedVersion === 1)) {
+    result = await model.updateOne(
+      { _id: id, version: { $exists: false } },
+      { $set: { ...updates, version: 2 } },
+    );
+  }
+
+  if (result.matchedCount === 0 && expectedVersion !== undefined) {
+    const current = await model.findById(id);
+    if (current) throw new VersionConflictError(current.version);
+  }
+}
+
+export const mongoStorage: IStorage = {
   // User methods
-  async createUser(userData: any): Promise<IUser> {
+  async createUser(userData: CreateUser): Promise<IUser> {
     await connectToDatabase();
     const user = new User(userData);
     const savedUser = await user.save();
@@ -58,38 +424,56 @@ export const mongoStorage = {
   },
 
   async getUserById(id: string): Promise<IUser | null> {
+    if (!isValidObjectId(id)) return null;
     await connectToDatabase();
-    const user = await User.findById(id);
+    const user = await User.findOne({ _id: id, deletedAt: null });
     return user ? convertUser(user) : null;
   },
 
   async getUserByEmail(email: string): Promise<IUser | null> {
     await connectToDatabase();
-    const user = await User.findOne({ email });
+    const user = await User.findOne({ email, deletedAt: null });
     return user ? convertUser(user) : null;
   },
 
-  async getAllUsers(): Promise<any[]> {
+  async listUsers(query: UserListQuery): Promise<Page<UserWithStats>> {
     await connectToDatabase();
-    const users = await User.find({});
-    const projects = await Project.find({});
-    const assignments = await ProjectAssignment.find({});
-    
-    return users.map(user => {
+    const match: Record<string, any> = { deletedAt: null };
+    if (query.role) match.role = query.role;
+    if (query.q) {
+      const pattern = containing(query.q);
+      match.$or = [{ firstName: pattern }, { lastName: pattern }, { email: pattern }];
+    }
+
+    const { docs: users, total } = await aggregatePage(User, match, userSortStages[query.sort](query.order), query);
+
+    // Project counts for this page's users only
+    const userIds = users.map(u => u._id);
+    const totalProjects = await Project.countDocuments({ deletedAt: null });
+    const createdCounts = await Project.aggregate([
+      { $match: { deletedAt: null, createdBy: { $in: userIds } } },
+      { $group: { _id: '$createdBy', total: { $sum: 1 } } },
+    ]);
+    const assignmentCounts = await ProjectAssignment.aggregate([
+      { $match: { userId: { $in: userIds } } },
+      { $lookup: { from: Project.collection.name, localField: 'projectId', foreignField: '_id', as: 'project' } },
+      { $match: { project: { $elemMatch: { deletedAt: null } } } },
+      { $group: { _id: '$userId', total: { $sum: 1 } } },
+    ]);
+    const countFor = (counts: { _id: Types.ObjectId; total: number }[], user: any) =>
+      counts.find(c => c._id.equals(user._id))?.total ?? 0;
+
+    const items = users.map(user => {
       let projectCount = 0;
       
       if (user.role === 'admin') {
-        projectCount = projects.length; // Admin can see all projects
+        projectCount = totalProjects; // Admin can see all projects
       } else if (user.role === 'project_lead') {
         // Count projects where this user is the lead (createdBy)
-        projectCount = projects.filter(project => 
-          project.createdBy.toString() === user._id.toString()
-        ).length;
+        projectCount = countFor(createdCounts, user);
       } else {
         // Count assignments for developers
-        projectCount = assignments.filter(assignment => 
-          assignment.userId.toString() === user._id.toString()
-        ).length;
+        projectCount = countFor(assignmentCounts, user);
       }
       
       return {
@@ -99,129 +483,130 @@ export const mongoStorage = {
         },
       };
     });
+    return { items, total, page: query.page, pageSize: query.pageSize };
   },
 
-  async updateUser(id: string, updates: any): Promise<void> {
+  async updateUser(id: string, updates: Partial<UpsertUser>, expectedVersion?: number): Promise<void> {
     await connectToDatabase();
-    await User.findByIdAndUpdate(id, updates);
+    await updateVersioned(User, id, updates, expectedVersion);
   },
 
-  async deleteUser(id: string): Promise<void> {
+  async deleteUser(id: string, policy: UserDeletePolicy = defaultUserDeletePolicy): Promise<void> {
+    if (!isValidObjectId(id)) return;
     await connectToDatabase();
+
+    const references = {
+      ledProjects: await Project.countDocuments({ projectLeadId: id }),
+      createdProjects: await Project.countDocuments({ createdBy: id }),
+      assignmentsMade: await ProjectAssignment.countDocuments({ assignedBy: id }),
+      uploadedDocuments: await Document.countDocuments({ uploadedBy: id }),
+    };
+    const reassignee = policy.reassignTo ? await mongoStorage.getUserById(policy.reassignTo) : null;
+    checkUserDeletePolicy(id, policy, references, reassignee);
+
+    if (policy.projectLead === 'reassign' && references.ledProjects > 0) {
+      await Project.updateMany({ projectLeadId: id }, { projectLeadId: policy.reassignTo });
+    } else if (policy.projectLead === 'nullify') {
+      await Project.updateMany({ projectLeadId: id }, { $unset: { projectLeadId: 1 } });
+    }
+
+    if (policy.ownedRecords === 'reassign') {
+      await Project.updateMany({ createdBy: id }, { createdBy: policy.reassignTo });
+      await ProjectAssignment.updateMany({ assignedBy: id }, { assignedBy: policy.reassignTo });
+      await Document.updateMany({ uploadedBy: id }, { uploadedBy: policy.reassignTo });
+    }
+
+    for (const model of Object.values(trashModels)) {
+      await model.updateMany({ deletedBy: id }, { $unset: { deletedBy: 1 } });
+    }
+
+    await ProjectAssignment.deleteMany({ userId: id });
+    await Session.deleteMany({ userId: id });
+    await UserTwoFactor.deleteOne({ _id: id });
+    await PasswordResetToken.deleteMany({ userId: id });
+    await PasswordHistory.deleteMany({ userId: id });
+    await ApiToken.deleteMany({ userId: id });
+    await UserIdentity.deleteOne({ _id: id });
+    await Invitation.updateMany({ invitedBy: id }, { $unset: { invitedBy: 1 } });
+    await Setting.updateMany({ updatedBy: id }, { $unset: { updatedBy: 1 } });
     await User.findByIdAndDelete(id);
   },
 
   // Project methods
-  async createProject(projectData: any): Promise<IProject> {
+  async createProject(projectData: InsertProject): Promise<IProject> {
     await connectToDatabase();
     const project = new Project(projectData);
     const savedProject = await project.save();
     return convertProject(savedProject);
   },
 
-  async getAllProjects(): Promise<any[]> {
+  async listProjects(query: ProjectListQuery, memberId?: string): Promise<Page<ProjectWithDetails>> {
     await connectToDatabase();
-    const projects = await Project.find({})
-      .populate('createdBy', 'id firstName lastName email')
-      .populate('projectLeadId', 'id firstName lastName email')
-      .sort({ createdAt: -1 });
-
-    const allAssignments = await ProjectAssignment.find({}).populate('userId', 'id firstName lastName email profileImageUrl');
-    const allDocuments = await Document.find({});
-
-    return projects.map(project => {
-      const assignments = allAssignments.filter(a => a.projectId.toString() === project._id.toString());
-      const documents = allDocuments.filter(d => d.projectId.toString() === project._id.toString());
-      
-      return {
-        ...convertProject(project),
-        createdBy: project.createdBy ? {
-          id: project.createdBy._id.toString(),
-          firstName: project.createdBy.firstName,
-          lastName: project.createdBy.lastName,
-          email: project.createdBy.email,
-        } : null,
-        projectLead: project.projectLeadId ? {
-          id: project.projectLeadId._id.toString(),
-          firstName: project.projectLeadId.firstName,
-          lastName: project.projectLeadId.lastName,
-          email: project.projectLeadId.email,
-        } : null,
-        assignments: assignments.map(a => ({
-          ...convertProjectAssignment(a),
-          user: {
-            id: a.userId._id.toString(),
-            firstName: a.userId.firstName,
-            lastName: a.userId.lastName,
-            email: a.userId.email,
-            profileImageUrl: a.userId.profileImageUrl,
-          },
-        })),
-        documents: documents.map(d => convertDocument(d)),
-        _count: {
-          assignments: assignments.length,
-          documents: documents.length,
-        },
+    const match: Record<string, any> = { deletedAt: null };
+    if (memberId) {
+      match._id = { $in: await ProjectAssignment.distinct('projectId', { userId: memberId }) };
+    }
+    if (query.status) match.status = query.status;
+    if (query.leadId) {
+      // Aggregation filters are not cast to ObjectIds like find() filters are
+      if (!isValidObjectId(query.leadId)) return emptyPage(query);
+      match.projectLeadId = new Types.ObjectId(query.leadId);
+    }
+    if (query.deadlineFrom || query.deadlineTo) {
+      match.deadline = {
+        ...(query.deadlineFrom && { $gte: query.deadlineFrom }),
+        ...(query.deadlineTo && { $lte: query.deadlineTo }),
       };
-    });
+    }
+    if (query.q) {
+      const pattern = containing(query.q);
+      match.$or = [{ name: pattern }, { description: pattern }];
+    }
+
+    const { docs, total } = await aggregatePage(Project, match, projectSortStages[query.sort](query.order), query);
+    await Project.populate(docs, [createdByRef, projectLeadRef]);
+    return { items: await withProjectDetails(docs), total, page: query.page, pageSize: query.pageSize };
   },
 
-  async getProjectById(id: string): Promise<any | null> {
+  async getProjectById(id: string): Promise<ProjectWithDetails | null> {
+    if (!isValidObjectId(id)) return null;
     await connectToDatabase();
-    const project = await Project.findById(id)
-      .populate('createdBy', 'id firstName lastName email')
-      .populate('projectLeadId', 'id firstName lastName email');
+    const project = await Project.findOne({ _id: id, deletedAt: null })
+      .populate(createdByRef)
+      .populate(projectLeadRef);
 
     if (!project) return null;
-
-    const assignments = await ProjectAssignment.find({ projectId: id }).populate('userId', 'id firstName lastName email profileImageUrl');
-    const documents = await Document.find({ projectId: id });
-
-    return {
-      ...convertProject(project),
-      createdBy: project.createdBy ? {
-        id: project.createdBy._id.toString(),
-        firstName: project.createdBy.firstName,
-        lastName: project.createdBy.lastName,
-        email: project.createdBy.email,
-      } : null,
-      projectLead: project.projectLeadId ? {
-        id: project.projectLeadId._id.toString(),
-        firstName: project.projectLeadId.firstName,
-        lastName: project.projectLeadId.lastName,
-        email: project.projectLeadId.email,
-      } : null,
-      assignments: assignments.map(a => ({
-        ...convertProjectAssignment(a),
-        user: {
-          id: a.userId._id.toString(),
-          firstName: a.userId.firstName,
-          lastName: a.userId.lastName,
-          email: a.userId.email,
-          profileImageUrl: a.userId.profileImageUrl,
-        },
-      })),
-      documents: documents.map(d => convertDocument(d)),
-      _count: {
-        assignments: assignments.length,
-        documents: documents.length,
-      },
-    };
+    const [details] = await withProjectDetails([project]);
+    return details;
   },
 
-  async updateProject(id: string, updates: any): Promise<void> {
+  async updateProject(id: string, updates: Partial<InsertProject>, expectedVersion?: number): Promise<void> {
     await connectToDatabase();
-    await Project.findByIdAndUpdate(id, updates);
+    await updateVersioned(Project, id, updates, expectedVersion);
   },
 
-  async deleteProject(id: string): Promise<void> {
+  async deleteProject(id: string): Promise<IDocument[]> {
+    if (!isValidObjectId(id)) return [];
     await connectToDatabase();
+    const documents = await Document.find({ projectId: id });
+
+    await ProjectAssignment.deleteMany({ projectId: id });
+    await Document.deleteMany({ projectId: id });
     await Project.findByIdAndDelete(id);
+    return documents.map(d => convertDocument(d));
   },
 
   // Project assignment methods
-  async assignUserToProject(assignmentData: any): Promise<IProjectAssignment> {
+  async assignUserToProject(assignmentData: InsertProjectAssignment): Promise<IProjectAssignment> {
     await connectToDatabase();
+    const existing = await ProjectAssignment.exists({
+      projectId: assignmentData.projectId,
+      userId: assignmentData.userId,
+    });
+    if (existing) {
+      throw new Error('User is already assigned to this project');
+    }
+
     const assignment = new ProjectAssignment(assignmentData);
     const savedAssignment = await assignment.save();
     return convertProjectAssignment(savedAssignment);
@@ -232,57 +617,8 @@ export const mongoStorage = {
     await ProjectAssignment.findOneAndDelete({ projectId, userId });
   },
 
-  async getUserProjects(userId: string): Promise<any[]> {
-    await connectToDatabase();
-    const assignments = await ProjectAssignment.find({ userId });
-    const projectIds = assignments.map(a => a.projectId);
-    
-    const projects = await Project.find({ _id: { $in: projectIds } })
-      .populate('createdBy', 'id firstName lastName email')
-      .populate('projectLeadId', 'id firstName lastName email');
-
-    const allAssignments = await ProjectAssignment.find({ projectId: { $in: projectIds } }).populate('userId', 'id firstName lastName email profileImageUrl');
-    const allDocuments = await Document.find({ projectId: { $in: projectIds } });
-
-    return projects.map(project => {
-      const projectAssignments = allAssignments.filter(a => a.projectId.toString() === project._id.toString());
-      const documents = allDocuments.filter(d => d.projectId.toString() === project._id.toString());
-      
-      return {
-        ...convertProject(project),
-        createdBy: project.createdBy ? {
-          id: project.createdBy._id.toString(),
-          firstName: project.createdBy.firstName,
-          lastName: project.createdBy.lastName,
-          email: project.createdBy.email,
-        } : null,
-        projectLead: project.projectLeadId ? {
-          id: project.projectLeadId._id.toString(),
-          firstName: project.projectLeadId.firstName,
-          lastName: project.projectLeadId.lastName,
-          email: project.projectLeadId.email,
-        } : null,
-        assignments: projectAssignments.map(a => ({
-          ...convertProjectAssignment(a),
-          user: {
-            id: a.userId._id.toString(),
-            firstName: a.userId.firstName,
-            lastName: a.userId.lastName,
-            email: a.userId.email,
-            profileImageUrl: a.userId.profileImageUrl,
-          },
-        })),
-        documents: documents.map(d => convertDocument(d)),
-        _count: {
-          assignments: projectAssignments.length,
-          documents: documents.length,
-        },
-      };
-    });
-  },
-
   // Document methods
-  async createDocument(documentData: any): Promise<IDocument> {
+  async createDocument(documentData: InsertDocument): Promise<IDocument> {
     await connectToDatabase();
     const document = new Document(documentData);
     const savedDocument = await document.save();
@@ -290,36 +626,557 @@ export const mongoStorage = {
   },
 
   async getProjectDocuments(projectId: string): Promise<IDocument[]> {
+    if (!isValidObjectId(projectId)) return [];
     await connectToDatabase();
-    const documents = await Document.find({ projectId });
+    // Documents are hidden while their project is in the trash
+    if (!await Project.exists({ _id: projectId, deletedAt: null })) return [];
+    const documents = await Document.find({ projectId, deletedAt: null });
     return documents.map(d => convertDocument(d));
   },
 
-  async deleteDocument(id: string): Promise<void> {
+  async deleteDocument(id: string): Promise<IDocument | null> {
+    if (!isValidObjectId(id)) return null;
     await connectToDatabase();
-    await Document.findByIdAndDelete(id);
+    const document = await Document.findByIdAndDelete(id);
+    return document ? convertDocument(document) : null;
   },
 
   async getDocumentById(id: string): Promise<IDocument | null> {
+    if (!isValidObjectId(id)) return null;
     await connectToDatabase();
-    const document = await Document.findById(id);
-    return document ? convertDocument(document) : null;
+    const document = await Document.findOne({ _id: id, deletedAt: null });
+    if (!document || !await Project.exists({ _id: document.projectId, deletedAt: null })) return null;
+    return convertDocument(document);
+  },
+
+  // Trash methods
+  async moveToTrash(type: TrashItemType, id: string, deletedBy: string): Promise<void> {
+    if (!isValidObjectId(id)) return;
+    await connectToDatabase();
+    await trashModels[type].updateOne({ _id: id, deletedAt: null }, { deletedAt: new Date(), deletedBy });
+  },
+
+  async restoreFromTrash(type: TrashItemType, id: string): Promise<void> {
+    if (!isValidObjectId(id)) return;
+    await connectToDatabase();
+    await trashModels[type].updateOne({ _id: id }, { $unset: { deletedAt: 1, deletedBy: 1 } });
+  },
+
+  async getTrash(): Promise<TrashItem[]> {
+    await connectToDatabase();
+    const trashed = { deletedAt: { $ne: null } };
+    const deleter = { path: 'deletedBy', select: 'firstName lastName email' };
+    const projects = await Project.find(trashed).populate(deleter);
+    const documents = await Document.find(trashed).populate(deleter);
+    const users = await User.find(trashed).populate(deleter);
+
+    const trashItem = (type: TrashItemType, doc: any, name: string, projectId: string | null): TrashItem => ({
+      type,
+      id: doc._id.toString(),
+      name,
+      projectId,
+      deletedAt: doc.deletedAt,
+      deletedBy: doc.deletedBy ? {
+        id: doc.deletedBy._id.toString(),
+        firstName: doc.deletedBy.firstName ?? null,
+        lastName: doc.deletedBy.lastName ?? null,
+        email: doc.deletedBy.email,
+      } satisfies UserSummary : null,
+    });
+
+    return [
+      ...projects.map(p => trashItem('project', p, p.name, null)),
+      ...documents.map(d => trashItem('document', d, d.originalName, d.projectId.toString())),
+      ...users.map(u => trashItem('user', u, u.email, null)),
+    ].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  },
+
+  // Search method
+  async search(query: SearchQuery, scope: SearchScope): Promise<SearchResults> {
+    await connectToDatabase();
+    const { visibleTo } = scope;
+    const visible: Record<string, any> = { deletedAt: null };
+    if (visibleTo) {
+      const assigned = await ProjectAssignment.distinct('projectId', { userId: visibleTo.userId });
+      visible.$or = [
+        { _id: { $in: assigned } },
+        ...(visibleTo.includeLed ? [{ projectLeadId: visibleTo.userId }] : []),
+      ];
+    }
+
+    const projects = await Project.find({ ...visible, ...matchingTerms(query.terms, ['name', 'description']) })
+      .sort({ name: 1, _id: 1 })
+      .limit(query.limit);
+
+    // Aggregation filters are not cast like find() filters, so narrow documents
+    // down by the ids of the visible projects
+    const visibleIds = visibleTo ? await Project.distinct('_id', visible) : null;
+    const documents = await Document.aggregate([
+      {
+        $match: {
+          deletedAt: null,
+          ...matchingTerms(query.terms, ['originalName']),
+          ...(visibleIds && { projectId: { $in: visibleIds } }),
+        },
+      },
+      { $lookup: { from: Project.collection.name, localField: 'projectId', foreignField: '_id', as: 'project' } },
+      { $unwind: '$project' },
+      { $match: { 'project.deletedAt': null } },
+      { $sort: { originalName: 1, _id: 1 } },
+      { $limit: query.limit },
+    ]);
+
+    const users = scope.includeUsers
+      ? await User.find({ deletedAt: null, ...matchingTerms(query.terms, ['firstName', 'lastName', 'email']) })
+        .sort({ email: 1, _id: 1 })
+        .limit(query.limit)
+      : [];
+
+    return {
+      projects: projects.map(p => ({
+        id: p._id.toString(),
+        name: p.name,
+        description: p.description ?? null,
+        status: p.status,
+      })),
+      documents: documents.map(d => ({
+        id: d._id.toString(),
+        projectId: d.projectId.toString(),
+        originalName: d.originalName,
+        mimeType: d.mimeType,
+        projectName: d.project.name,
+      })),
+      users: users.map(u => ({
+        ...userSummary(u)!,
+        role: u.role,
+      })),
+    };
+  },
+
+  // Audit log methods
+  async appendAuditEntry(entry: InsertAuditEntry): Promise<IAuditEntry> {
+    await connectToDatabase();
+    // The unique sequence index stops two appends chaining onto the same entry:
+    // the one that loses tries again on top of the new newest entry. Inside a
+    // transaction the duplicate key aborts the transaction instead.
+    for (let attempt = 1; ; attempt++) {
+      const previous = await AuditEntry.findOne().sort({ sequence: -1 });
+      try {
+        const saved = await new AuditEntry(sealAuditEntry(entry, previous)).save();
+        return convertAuditEntry(saved);
+      } catch (error: any) {
+        if (error.code !== 11000 || inTransaction.getStore() || attempt >= AUDIT_APPEND_ATTEMPTS) throw error;
+      }
+    }
+  },
+
+  async listAuditEntries(query: AuditLogQuery & AuditLogFilter): Promise<Page<IAuditEntry>> {
+    await connectToDatabase();
+    const match = auditFilter(query);
+    const total = await AuditEntry.countDocuments(match);
+    const entries = await AuditEntry.find(match)
+      .sort({ sequence: -1 })
+      .skip((query.page - 1) * query.pageSize)
+      .limit(query.pageSize);
+    return { items: entries.map(convertAuditEntry), total, page: query.page, pageSize: query.pageSize };
+  },
+
+  async getAuditEntries(filter: AuditLogFilter): Promise<IAuditEntry[]> {
+    await connectToDatabase();
+    const entries = await AuditEntry.find(auditFilter(filter)).sort({ sequence: 1 });
+    return entries.map(convertAuditEntry);
+  },
+
+  // Session methods. The TTL index removes expired sessions within a minute or
+  // so; until then they are filtered out like on the other backends.
+  async getUserSession(sid: string): Promise<ISession | null> {
+    await connectToDatabase();
+    const session = await Session.findOne({ _id: sid, expire: { $gt: new Date() } });
+    return session ? convertSession(session) : null;
+  },
+
+  async saveUserSession(session: Omit<ISession, 'createdAt'>): Promise<void> {
+    await connectToDatabase();
+    const { sid, ...fields } = session;
+    await Session.updateOne(
+      { _id: sid },
+      { $set: fields, $setOnInsert: { createdAt: new Date() } },
+      { upsert: true },
+    );
+  },
+
+  async updateUserSession(session: Omit<ISession, 'createdAt'>): Promise<boolean> {
+    await connectToDatabase();
+    const { sid, ...fields } = session;
+    const result = await Session.updateOne({ _id: sid }, { $set: fields });
+    return result.matchedCount > 0;
+  },
+
+  async deleteUserSession(sid: string): Promise<void> {
+    await connectToDatabase();
+    await Session.deleteOne({ _id: sid });
+  },
+
+  async listUserSessions(userId: string): Promise<ISession[]> {
+    if (!isValidObjectId(userId)) return [];
+    await connectToDatabase();
+    const sessions = await Session.find({ userId, expire: { $gt: new Date() } }).sort({ lastSeenAt: -1 });
+    return sessions.map(convertSession);
+  },
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    if (!isValidObjectId(userId)) return;
+    await connectToDatabase();
+    await Session.deleteMany({ userId });
+  },
+
+  async purgeExpiredSessions(now = new Date()): Promise<number> {
+    await connectToDatabase();
+    const { deletedCount } = await Session.deleteMany({ expire: { $lte: now } });
+    return deletedCount;
+  },
+
+  // Two-factor methods
+  async getUserTwoFactor(userId: string): Promise<IUserTwoFactor | null> {
+    if (!isValidObjectId(userId)) return null;
+    await connectToDatabase();
+    const twoFactor = await UserTwoFactor.findById(userId);
+    return twoFactor ? convertUserTwoFactor(twoFactor) : null;
+  },
+
+  async saveUserTwoFactor(twoFactorData: Omit<IUserTwoFactor, 'createdAt' | 'updatedAt'>): Promise<IUserTwoFactor> {
+    await connectToDatabase();
+    const { userId, ...fields } = twoFactorData;
+    const twoFactor = await UserTwoFactor.findOneAndUpdate(
+      { _id: userId },
+      { $set: fields },
+      { upsert: true, new: true },
+    );
+    return convertUserTwoFactor(twoFactor);
+  },
+
+  async deleteUserTwoFactor(userId: string): Promise<void> {
+    if (!isValidObjectId(userId)) return;
+    await connectToDatabase();
+    await UserTwoFactor.deleteOne({ _id: userId });
+  },
+
+  async useTotpStep(userId: string, step: number): Promise<boolean> {
+    if (!isValidObjectId(userId)) return false;
+    await connectToDatabase();
+    const { modifiedCount } = await UserTwoFactor.updateOne(
+      { _id: userId, $or: [{ lastUsedStep: null }, { lastUsedStep: { $lt: step } }] },
+      { $set: { lastUsedStep: step } },
+    );
+    return modifiedCount > 0;
+  },
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    if (!isValidObjectId(userId)) return false;
+    await connectToDatabase();
+    const { modifiedCount } = await UserTwoFactor.updateOne(
+      { _id: userId, recoveryCodeHashes: codeHash },
+      { $pull: { recoveryCodeHashes: codeHash } },
+    );
+    return modifiedCount > 0;
+  },
+
+  // Password reset methods. The TTL index also removes expired tokens.
+  async savePasswordResetToken(token: Omit<IPasswordResetToken, 'createdAt'>): Promise<void> {
+    await connectToDatabase();
+    await PasswordResetToken.deleteMany({ userId: token.userId });
+    await PasswordResetToken.create({ _id: token.tokenHash, userId: token.userId, expiresAt: token.expiresAt });
+  },
+
+  async consumePasswordResetToken(tokenHash: string, now = new Date()): Promise<string | null> {
+    await connectToDatabase();
+    const token = await PasswordResetToken.findOneAndDelete({ _id: tokenHash });
+    return token && token.expiresAt > now ? token.userId.toString() : null;
+  },
+
+  // Invitation methods
+  async createInvitation(invitationData: InsertInvitation): Promise<IInvitation> {
+    await connectToDatabase();
+    const invitation = await Invitation.create({ ...invitationData, sentAt: new Date() });
+    return convertInvitation(invitation);
+  },
+
+  async getInvitation(id: string): Promise<IInvitation | null> {
+    if (!isValidObjectId(id)) return null;
+    await connectToDatabase();
+    const invitation = await Invitation.findById(id);
+    return invitation ? convertInvitation(invitation) : null;
+  },
+
+  async getInvitationByEmail(email: string): Promise<IInvitation | null> {
+    await connectToDatabase();
+    const invitation = await Invitation.findOne({ email });
+    return invitation ? convertInvitation(invitation) : null;
+  },
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<IInvitation | null> {
+    await connectToDatabase();
+    const invitation = await Invitation.findOne({ tokenHash });
+    return invitation ? convertInvitation(invitation) : null;
+  },
+
+  async listInvitations(): Promise<IInvitation[]> {
+    await connectToDatabase();
+    const invitations = await Invitation.find().sort({ createdAt: -1, _id: 1 });
+    return invitations.map(convertInvitation);
+  },
+
+  async renewInvitation(id: string, expiresAt: Date, tokenHash: string): Promise<IInvitation | null> {
+    if (!isValidObjectId(id)) return null;
+    await connectToDatabase();
+    const invitation = await Invitation.findByIdAndUpdate(id, { $set: { sentAt: new Date(), expiresAt, tokenHash } }, { new: true });
+    return invitation ? convertInvitation(invitation) : null;
+  },
+
+  async consumeInvitation(tokenHash: string, now = new Date()): Promise<IInvitation | null> {
+    await connectToDatabase();
+    const invitation = await Invitation.findOneAndDelete({ tokenHash, expiresAt: { $gt: now } });
+    return invitation ? convertInvitation(invitation) : null;
+  },
+
+  async deleteInvitation(id: string): Promise<boolean> {
+    if (!isValidObjectId(id)) return false;
+    await connectToDatabase();
+    const { deletedCount } = await Invitation.deleteOne({ _id: id });
+    return deletedCount > 0;
+  },
+
+  // Registration methods
+  async createRegistration(registrationData: InsertRegistration): Promise<IRegistration> {
+    await connectToDatabase();
+    const registration = await Registration.create(registrationData);
+    return convertRegistration(registration);
+  },
+
+  async getRegistration(id: string): Promise<IRegistration | null> {
+    if (!isValidObjectId(id)) return null;
+    await connectToDatabase();
+    const registration = await Registration.findById(id);
+    return registration ? convertRegistration(registration) : null;
+  },
+
+  async getRegistrationByEmail(email: string): Promise<IRegistration | null> {
+    await connectToDatabase();
+    const registration = await Registration.findOne({ email });
+    return registration ? convertRegistration(registration) : null;
+  },
+
+  async listRegistrations(): Promise<IRegistration[]> {
+    await connectToDatabase();
+    const registrations = await Registration.find().sort({ createdAt: 1, _id: 1 });
+    return registrations.map(convertRegistration);
+  },
+
+  async deleteRegistration(id: string): Promise<boolean> {
+    if (!isValidObjectId(id)) return false;
+    await connectToDatabase();
+    const { deletedCount } = await Registration.deleteOne({ _id: id });
+    return deletedCount > 0;
+  },
+
+  // Password history methods
+  async addPasswordHistory(userId: string, passwordHash: string, keep: number): Promise<void> {
+    await connectToDatabase();
+    await PasswordHistory.create({ userId, passwordHash });
+    const kept = await PasswordHistory.find({ userId }).sort({ createdAt: -1, _id: -1 }).limit(keep).select('_id');
+    await PasswordHistory.deleteMany({ userId, _id: { $nin: kept.map(entry => entry._id) } });
+  },
+
+  async listPasswordHistory(userId: string, limit: number): Promise<IPasswordHistoryEntry[]> {
+    if (!isValidObjectId(userId)) return [];
+    await connectToDatabase();
+    const entries = await PasswordHistory.find({ userId }).sort({ createdAt: -1, _id: -1 }).limit(limit);
+    return entries.map(convertPasswordHistoryEntry);
+  },
+
+  // Login throttle methods
+  async getLoginThrottle(key: string): Promise<ILoginThrottle | null> {
+    await connectToDatabase();
+    const throttle = await LoginThrottle.findById(key);
+    return throttle ? convertLoginThrottle(throttle) : null;
+  },
+
+  async recordLoginFailure(key: string, now: Date, resetBefore: Date): Promise<ILoginThrottle> {
+    await connectToDatabase();
+    // A pipeline update, so counting on or starting over is decided atomically
+    const stale = { $not: [{ $gte: ['$lastFailureAt', resetBefore] }] };
+    const throttle = await LoginThrottle.findOneAndUpdate(
+      { _id: key },
+      [{
+        $set: {
+          failures: { $cond: [stale, 1, { $add: ['$failures', 1] }] },
+          lockedUntil: { $cond: [stale, null, '$lockedUntil'] },
+          lastFailureAt: now,
+        },
+      }],
+      { upsert: true, new: true },
+    );
+    return convertLoginThrottle(throttle);
+  },
+
+  async releaseLoginFailure(key: string): Promise<void> {
+    await connectToDatabase();
+    await LoginThrottle.updateOne({ _id: key, failures: { $gt: 0 } }, { $inc: { failures: -1 } });
+  },
+
+  async lockLoginThrottle(key: string, lockedUntil: Date): Promise<void> {
+    await connectToDatabase();
+    await LoginThrottle.updateOne({ _id: key }, { $set: { lockedUntil } });
+  },
+
+  async clearLoginThrottle(key: string): Promise<void> {
+    await connectToDatabase();
+    await LoginThrottle.deleteOne({ _id: key });
+  },
+
+  async listLockedLoginThrottles(now: Date): Promise<ILoginThrottle[]> {
+    await connectToDatabase();
+    const throttles = await LoginThrottle.find({ lockedUntil: { $gt: now } });
+    return throttles.map(convertLoginThrottle);
+  },
+
+  async purgeLoginThrottles(before: Date): Promise<number> {
+    await connectToDatabase();
+    const { deletedCount } = await LoginThrottle.deleteMany({
+      lastFailureAt: { $lt: before },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lt: before } }],
+    });
+    return deletedCount;
+  },
+
+  // Single sign-on identity methods
+  async getUserIdentity(userId: string): Promise<IUserIdentity | null> {
+    if (!isValidObjectId(userId)) return null;
+    await connectToDatabase();
+    const identity = await UserIdentity.findById(userId);
+    return identity ? convertUserIdentity(identity) : null;
+  },
+
+  async findUserIdentity(issuer: string, subject: string): Promise<IUserIdentity | null> {
+    await connectToDatabase();
+    const identity = await UserIdentity.findOne({ issuer, subject });
+    return identity ? convertUserIdentity(identity) : null;
+  },
+
+  async createUserIdentity(identityData: InsertUserIdentity): Promise<IUserIdentity> {
+    await connectToDatabase();
+    const { userId, ...fields } = identityData;
+    const identity = await UserIdentity.create({ _id: userId, ...fields });
+    return convertUserIdentity(identity);
+  },
+
+  // API token methods
+  async createApiToken(tokenData: InsertApiToken): Promise<IApiToken> {
+    await connectToDatabase();
+    const token = await ApiToken.create(tokenData);
+    return convertApiToken(token);
+  },
+
+  async listApiTokens(userId: string): Promise<IApiToken[]> {
+    if (!isValidObjectId(userId)) return [];
+    await connectToDatabase();
+    const tokens = await ApiToken.find({ userId }).sort({ createdAt: -1, _id: -1 });
+    return tokens.map(convertApiToken);
+  },
+
+  async getApiTokenByHash(tokenHash: string): Promise<IApiToken | null> {
+    await connectToDatabase();
+    const token = await ApiToken.findOne({ tokenHash });
+    return token ? convertApiToken(token) : null;
+  },
+
+  async touchApiToken(id: string, lastUsedAt: Date): Promise<void> {
+    if (!isValidObjectId(id)) return;
+    await connectToDatabase();
+    await ApiToken.updateOne({ _id: id }, { $set: { lastUsedAt } });
+  },
+
+  async deleteApiToken(userId: string, id: string): Promise<boolean> {
+    if (!isValidObjectId(id) || !isValidObjectId(userId)) return false;
+    await connectToDatabase();
+    const { deletedCount } = await ApiToken.deleteOne({ _id: id, userId });
+    return deletedCount > 0;
+  },
+
+  async deleteUserApiTokens(userId: string): Promise<void> {
+    if (!isValidObjectId(userId)) return;
+    await connectToDatabase();
+    await ApiToken.deleteMany({ userId });
+  },
+
+  // Settings methods
+  async getSetting(key: string): Promise<unknown> {
+    await connectToDatabase();
+    const setting = await Setting.findById(key);
+    return setting ? setting.value : null;
+  },
+
+  async saveSetting(key: string, value: unknown, updatedBy: string | null): Promise<void> {
+    await connectToDatabase();
+    await Setting.updateOne(
+      { _id: key },
+      { $set: { value, updatedBy } },
+      { upsert: true },
+    );
+  },
+
+  // Workspace methods
+  async exportWorkspace(): Promise<WorkspaceData> {
+    await connectToDatabase();
+    return {
+      users: (await User.find()).map(convertUser),
+      projects: (await Project.find()).map(convertProject),
+      assignments: (await ProjectAssignment.find()).map(convertProjectAssignment),
+      documents: (await Document.find()).map(convertDocument),
+    };
+  },
+
+  async importWorkspace(data: WorkspaceData): Promise<void> {
+    await connectToDatabase();
+    const imported = remapWorkspace(data, () => new Types.ObjectId().toHexString());
+    await mongoStorage.transaction(async () => {
+      // Saved without timestamps so createdAt and updatedAt keep their values
+      for (const [model, records] of [
+        [User, imported.users],
+        [Project, imported.projects],
+        [ProjectAssignment, imported.assignments],
+        [Document, imported.documents],
+      ] as const) {
+        for (const { id, ...record } of records) {
+          await new (model as Model<any>)({ ...record, _id: id }).save({ timestamps: false });
+        }
+      }
+    });
+  },
+
+  // Transaction method. MongoDB has no nested transactions, so a transaction
+  // started inside another one joins it. Transactions need a replica set.
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (inTransaction.getStore()) return await work();
+
+    const { connection } = await connectToDatabase();
+    return await connection.transaction(() => inTransaction.run(true, work));
   },
 
   // Dashboard stats method
-  async getDashboardStats(): Promise<any> {
+  async getDashboardStats(): Promise<DashboardStats> {
     await connectToDatabase();
-    const users = await User.find({});
-    const projects = await Project.find({});
-    const documents = await Document.find({});
+    const users = await User.find({ deletedAt: null });
+    const projects = await Project.find({ deletedAt: null });
+    const documents = await Document.find({ projectId: { $in: projects.map(p => p._id) }, deletedAt: null });
     
-    // Fix project status counts - check for actual values in database
+    // Legacy status values are normalized by migration 001, but are still
+    // counted here for databases that have not been migrated yet
+    const isCompleted = (p: (typeof projects)[number]) => p.status === 'completed' || p.status === 'complete';
     const activeProjects = projects.filter(p => 
       p.status === 'active' || p.status === 'in_progress' || !p.status
     ).length;
-    const completedProjects = projects.filter(p => 
-      p.status === 'completed' || p.status === 'complete'
-    ).length;
+    const completedProjects = projects.filter(isCompleted).length;
     const onHoldProjects = projects.filter(p => 
       p.status === 'on_hold' || p.status === 'hold'
     ).length;
@@ -329,6 +1186,12 @@ export const mongoStorage = {
     const totalUsers = users.length;
     const totalDocuments = documents.length;
 
+    const now = new Date();
+    const weekFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+    const dueThisWeek = projects.filter(p =>
+      !isCompleted(p) && p.deadline && p.deadline >= now && p.deadline <= weekFromNow
+    ).length;
+
     return {
       totalProjects: projects.length,
       activeProjects,
@@ -337,6 +1200,7 @@ export const mongoStorage = {
       teamMembers,
       totalUsers,
       totalDocuments,
+      dueThisWeek,
     };
   },
 };
\ No newline at end of file
@@ -2,9 +2,9 @@ import mongoose from 'mongoose';
 
 const MONGODB_URI = process.env.MONGODB_URI;
 
-if (!MONGODB_URI) {
-  throw new Error('Please define the MONGODB_URI environment variable')
-}
+// Queries made inside connection.transaction() pick up its session without
+// passing it to each call (see mongoStorage.transaction)
+mongoose.set('transactionAsyncLocalStorage', true);
 
 let cached = (global as any).mongoose
 
@@ -17,6 +17,10 @@ export async function connectToDatabase() {
     return cached.conn
   }
 
+  if (!MONGODB_URI) {
+    throw new Error('Please define the MONGODB_URI environment variable')
+  }
+
   if (!cached.promise) {
     const opts = {
       bufferCommands: false,
@@ -30,4 +34,15 @@ export async function connectToDatabase() {
   return cached.conn
 }
 
+// Throws unless the server is part of a replica set (or is a mongos in front
+// of a sharded cluster), which transactions need. A standalone server would
+// only fail at the first unit of work.
+export async function checkReplicaSet(): Promise<void> {
+  const { connection } = await connectToDatabase();
+  const hello = await connection.db.admin().command({ hello: 1 });
+  if (!hello.setName && hello.msg !== 'isdbgrid') {
+    throw new Error('MONGODB_URI must point to a replica set, as transactions need one. Run mongod with --replSet (a single-member set will do), or use an Atlas cluster');
+  }
+}
+
 export default mongoose;
\ No newline at end of file
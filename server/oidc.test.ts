@@ -0,0 +1,270 @@
+// Single sign-on routes, end to end against the mock identity provider in
+// scripts/mock-oidc-issuer.ts: the browser's round trip through the provider
+// is played by following the redirects by hand.
+import { describe, it, before, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startMockOidcIssuer } from '../scripts/mock-oidc-issuer';
+import { startTestServer } from './test-server';
+import type { TestClient, TestResponse, TestServer } from './test-server';
+import type { RegistrationPolicy } from '../shared/schema';
+
+type ProviderAccount = {
+  email: string;
+  name?: string;
+  groups?: string[];
+  // 'none' leaves the claim out
+  emailVerified?: boolean | 'none';
+};
+
+describe('single sign-on routes', () => {
+  let mock: Awaited<ReturnType<typeof startMockOidcIssuer>>;
+  let app: TestServer;
+  let setRegistrationPolicy: (policy: RegistrationPolicy) => Promise<void>;
+
+  before(async () => {
+    mock = await startMockOidcIssuer({ port: 0 });
+    Object.assign(process.env, {
+      OIDC_ISSUER_URL: mock.issuer,
+      OIDC_CLIENT_ID: mock.clientId,
+      OIDC_CLIENT_SECRET: mock.clientSecret,
+      OIDC_DISPLAY_NAME: 'Mock SSO',
+      OIDC_ADMIN_VALUES: 'admins',
+      OIDC_PROJECT_LEAD_VALUES: 'leads',
+    });
+    app = await startTestServer();
+    // The provider sends the browser back to APP_URL
+    process.env.APP_URL = app.base;
+
+    const { getSecuritySettings, saveSecuritySettings } = await import('./security-settings');
+    setRegistrationPolicy = async (registration) =>
+      saveSecuritySettings({ ...(await getSecuritySettings()), registration }, null);
+  });
+
+  beforeEach(async () => {
+    await app.reset();
+    await setRegistrationPolicy({ mode: 'invite_only', allowedDomains: [] });
+    delete process.env.OIDC_NEWCOMERS;
+    delete process.env.OIDC_ALLOWED_DOMAINS;
+  });
+
+  after(async () => {
+    await app?.close();
+    await mock?.close();
+  });
+
+  // Starts signing in, returning the authorization request sent to the provider
+  async function startLogin(browser: TestClient): Promise<URL> {
+    const res = await browser.request('GET', '/api/auth/oidc/login');
+    assert.equal(res.status, 302);
+    return new URL(res.headers.get('location')!);
+  }
+
+  // Signs in at the provider as `account`, returning where it sends the
+  // browser back to
+  async function approveAtProvider(authorization: URL, account: ProviderAccount): Promise<URL> {
+    const approve = new URL(authorization);
+    approve.pathname = '/authorize/approve';
+    approve.searchParams.set('email', account.email);
+    if (account.name) approve.searchParams.set('name', account.name);
+    approve.searchParams.set('groups', (account.groups ?? []).join(','));
+    approve.searchParams.set('email_verified', String(account.emailVerified ?? true));
+
+    const res = await fetch(approve, { redirect: 'manual' });
+    assert.equal(res.status, 302);
+    return new URL(res.headers.get('location')!);
+  }
+
+  async function signIn(browser: TestClient, account: ProviderAccount): Promise<TestResponse> {
+    const callback = await approveAtProvider(await startLogin(browser), account);
+    return await browser.request('GET', callback.pathname + callback.search);
+  }
+
+  // The problem shown on the sign-in page, or null if signing in worked
+  function signInError(res: TestResponse): string | null {
+    assert.equal(res.status, 302);
+    const location = new URL(res.headers.get('location')!, app.base);
+    if (location.pathname === '/') return null;
+    assert.equal(location.pathname, '/login');
+    return location.searchParams.get('sso_error');
+  }
+
+  const currentUser = async (browser: TestClient) => (await browser.request('GET', '/api/auth/user')).body;
+
+  it('offers single sign-on on the sign-in page', async () => {
+    const res = await app.client().request('GET', '/api/auth/oidc');
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { enabled: true, name: 'Mock SSO' });
+  });
+
+  it('sends the browser to the provider with state, nonce and PKCE', async () => {
+    const authorization = await startLogin(app.client());
+    assert.equal(authorization.origin, mock.issuer);
+    assert.equal(authorization.pathname, '/authorize');
+    const params = authorization.searchParams;
+    assert.equal(params.get('client_id'), mock.clientId);
+    assert.equal(params.get('redirect_uri'), `${app.base}/api/auth/oidc/callback`);
+    assert.equal(params.get('code_challenge_method'), 'S256');
+    assert.ok(params.get('state'));
+    assert.ok(params.get('nonce'));
+    assert.ok(params.get('scope')!.split(' ').includes('openid'));
+  });
+
+  it('links the account with a verified email and signs in through the provider from then on', async () => {
+    const user = await app.createUser('dev@example.com', 'developer', 'Correct-Horse-Battery-9');
+    const browser = app.client();
+
+    assert.equal(signInError(await signIn(browser, { email: 'dev@example.com' })), null);
+    assert.equal((await currentUser(browser)).id, user.id);
+
+    const identity = await app.storage.getUserIdentity(user.id);
+    assert.equal(identity?.issuer, mock.issuer);
+    const links = await app.storage.getAuditEntries({ action: 'user.sso_link' });
+    assert.deepEqual(links.map(entry => entry.targetId), [user.id]);
+
+    // The password no longer works
+    const login = await app.client().request('POST', '/api/auth/login', { email: 'dev@example.com', password: 'Correct-Horse-Battery-9' });
+    assert.equal(login.status, 401);
+
+    // Signing in again finds the account through the link
+    const again = app.client();
+    assert.equal(signInError(await signIn(again, { email: 'dev@example.com' })), null);
+    assert.equal((await currentUser(again)).id, user.id);
+  });
+
+  it('refuses to link an account unless the provider says the email is verified', async () => {
+    const user = await app.createUser('dev@example.com', 'developer', 'Correct-Horse-Battery-9');
+
+    for (const emailVerified of [false, 'none'] as const) {
+      const browser = app.client();
+      const error = signInError(await signIn(browser, { email: 'dev@example.com', emailVerified }));
+      assert.match(error!, /verify your email/i);
+      assert.equal((await browser.request('GET', '/api/auth/user')).status, 401);
+    }
+    assert.equal(await app.storage.getUserIdentity(user.id), null);
+  });
+
+  it('gives linked accounts the role their groups map to, at every sign-in', async () => {
+    const user = await app.createUser('lead@example.com', 'developer', 'Correct-Horse-Battery-9');
+
+    const browser = app.client();
+    assert.equal(signInError(await signIn(browser, { email: 'lead@example.com', groups: ['leads'] })), null);
+    assert.equal((await currentUser(browser)).role, 'project_lead');
+
+    const later = app.client();
+    assert.equal(signInError(await signIn(later, { email: 'lead@example.com', groups: ['staff', 'admins'] })), null);
+    assert.equal((await currentUser(later)).role, 'admin');
+
+    const changes = await app.storage.getAuditEntries({ action: 'user.role_change' });
+    assert.deepEqual(changes.map(entry => [entry.targetId, entry.note]), [[user.id, 'Role from Mock SSO']]);
+  });
+
+  it('rejects an answer whose state does not match the sign-in started', async () => {
+    await app.createUser('dev@example.com', 'developer', 'Correct-Horse-Battery-9');
+    const browser = app.client();
+    const callback = await approveAtProvider(await startLogin(browser), { email: 'dev@example.com' });
+    callback.searchParams.set('state', 'forged');
+
+    const error = signInError(await browser.request('GET', callback.pathname + callback.search));
+    assert.match(error!, /failed/);
+    assert.equal((await browser.request('GET', '/api/auth/user')).status, 401);
+  });
+
+  it('rejects an ID token whose nonce does not match the sign-in started', async () => {
+    await app.createUser('dev@example.com', 'developer', 'Correct-Horse-Battery-9');
+    const browser = app.client();
+    const authorization = await startLogin(browser);
+    authorization.searchParams.set('nonce', 'replayed');
+    const callback = await approveAtProvider(authorization, { email: 'dev@example.com' });
+
+    const error = signInError(await browser.request('GET', callback.pathname + callback.search));
+    assert.match(error!, /failed/);
+    assert.equal((await browser.request('GET', '/api/auth/user')).status, 401);
+  });
+
+  it('rejects an answer for a sign-in this browser never started', async () => {
+    const callback = await approveAtProvider(await startLogin(app.client()), { email: 'dev@example.com' });
+    const error = signInError(await app.client().request('GET', callback.pathname + callback.search));
+    assert.match(error!, /could not be completed/);
+  });
+
+  it('gives newcomers an account straight away, whatever the registration policy', async () => {
+    await app.storage.createInvitation({
+      email: 'new@example.com',
+      firstName: null,
+      lastName: null,
+      role: 'admin',
+      invitedBy: null,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      tokenHash: 'token',
+    });
+    const browser = app.client();
+
+    assert.equal(signInError(await signIn(browser, { email: 'new@example.com', name: 'New Person', groups: ['leads'] })), null);
+    const user = await currentUser(browser);
+    assert.equal(user.email, 'new@example.com');
+    assert.equal(user.firstName, 'New');
+    assert.equal(user.role, 'project_lead');
+    assert.equal((await app.storage.getUserIdentity(user.id))?.issuer, mock.issuer);
+    // The invitation they no longer need is gone
+    assert.equal(await app.storage.getInvitationByEmail('new@example.com'), null);
+    const registered = await app.storage.getAuditEntries({ action: 'user.register' });
+    assert.deepEqual(registered.map(entry => [entry.targetId, entry.note]), [[user.id, 'Signed up through Mock SSO']]);
+  });
+
+  it('turns away newcomers whose email is not at an allowed domain', async () => {
+    process.env.OIDC_ALLOWED_DOMAINS = 'Studio.test';
+    const error = signInError(await signIn(app.client(), { email: 'new@example.com' }));
+    assert.match(error!, /@studio\.test/);
+    assert.equal(await app.storage.getUserByEmail('new@example.com'), null);
+
+    const browser = app.client();
+    assert.equal(signInError(await signIn(browser, { email: 'new@studio.test' })), null);
+    assert.equal((await currentUser(browser)).email, 'new@studio.test');
+  });
+
+  it('with OIDC_NEWCOMERS=register, turns away newcomers unless the registration policy lets them sign up', async () => {
+    process.env.OIDC_NEWCOMERS = 'register';
+    for (const policy of [
+      { mode: 'off', allowedDomains: [] },
+      { mode: 'invite_only', allowedDomains: [] },
+      { mode: 'domains', allowedDomains: ['studio.test'] },
+    ] as const) {
+      await setRegistrationPolicy({ ...policy, allowedDomains: [...policy.allowedDomains] });
+      const error = signInError(await signIn(app.client(), { email: 'new@example.com' }));
+      assert.ok(error, policy.mode);
+      assert.doesNotMatch(error!, /waiting/);
+    }
+    assert.equal(await app.storage.getUserByEmail('new@example.com'), null);
+    assert.deepEqual(await app.storage.listRegistrations(), []);
+  });
+
+  it('with OIDC_NEWCOMERS=register, holds newcomers from allowed domains for approval, then links them', async () => {
+    process.env.OIDC_NEWCOMERS = 'register';
+    await setRegistrationPolicy({ mode: 'domains', allowedDomains: ['example.com'] });
+    const browser = app.client();
+
+    const error = signInError(await signIn(browser, { email: 'new@example.com', name: 'New Person' }));
+    assert.match(error!, /waiting for an administrator/);
+    assert.equal(await app.storage.getUserByEmail('new@example.com'), null);
+    const [registration] = await app.storage.listRegistrations();
+    assert.equal(registration.email, 'new@example.com');
+    assert.equal(registration.firstName, 'New');
+
+    // Still waiting, without signing up twice
+    assert.match(signInError(await signIn(browser, { email: 'new@example.com' }))!, /waiting/);
+    assert.equal((await app.storage.listRegistrations()).length, 1);
+
+    await app.createUser('admin@example.com', 'admin', 'Correct-Horse-Battery-9');
+    const admin = app.client();
+    await admin.login('admin@example.com', 'Correct-Horse-Battery-9');
+    const approved = await admin.request('POST', `/api/registrations/${registration.id}/approve`, { role: 'developer' });
+    assert.equal(approved.status, 201);
+    assert.deepEqual(app.sentEmails.map(email => email.to), ['new@example.com']);
+
+    assert.equal(signInError(await signIn(browser, { email: 'new@example.com', groups: ['leads'] })), null);
+    const user = await currentUser(browser);
+    assert.equal(user.email, 'new@example.com');
+    assert.equal(user.role, 'project_lead');
+    assert.ok(await app.storage.getUserIdentity(user.id));
+  });
+});
@@ -0,0 +1,351 @@
+// Single sign-on through an OpenID Connect identity provider, alongside
+// password sign-in - see the /api/auth/oidc routes in auth.ts. Turned on by
+// OIDC_ISSUER_URL, OIDC_CLIENT_ID and OIDC_CLIENT_SECRET; the provider must
+// allow APP_URL + /api/auth/oidc/callback as a redirect URI.
+//
+// People signing in for the first time are linked to the account with their
+// email, or else get an account - if their email's domain is allowed - unless
+// the operator has them sign up under the registration policy and wait for
+// approval instead (registrations.ts). Linked accounts sign in through the provider only, their roles can follow a claim
+// such as "groups", and their sessions go back to the provider every few
+// hours, so people removed there soon lose access here too.
+import { randomBytes } from 'crypto';
+import * as client from 'openid-client';
+import { storage } from './storage';
+import type { User } from './storage';
+import { runUnitOfWork } from './unit-of-work';
+import { recordAudit, diffFields } from './audit';
+import { hashPassword } from './password-policy';
+import { getRegistrationPolicy, signUpRefusal } from './registrations';
+import { appUrl } from './email';
+import type { AuthRequest } from './auth';
+import type { OidcProvider } from '../shared/schema';
+
+type Role = User['role'];
+
+export const OIDC_CALLBACK_PATH = '/api/auth/oidc/callback';
+// How long a sign-in started at the provider can take to come back
+const LOGIN_TIMEOUT = 10 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+// Highest first: someone whose claim matches several roles gets the highest
+const roles: Role[] = ['admin', 'project_lead', 'developer'];
+
+type OidcSettings = {
+  issuer: URL;
+  clientId: string;
+  clientSecret: string;
+  // Shown on the sign-in button
+  name: string;
+  // Claim holding the values roles are mapped from, a string or a list
+  roleClaim: string;
+  roleValues: Record<Role, string[]>;
+  // For people whose claim matches no role; null turns them away
+  defaultRole: Role | null;
+  // Email domains newcomers can have; empty lets in anyone the provider does
+  allowedDomains: string[];
+  // Whether newcomers sign up under the registration policy and wait for an
+  // admin's approval, rather than getting an account straight away
+  newcomersRegister: boolean;
+  sessionDuration: number;
+};
+
+// A sign-in the provider has yet to send back, kept in the session
+export type PendingOidcLogin = {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  startedAt: number;
+};
+
+// What the provider says about the person signing in
+type OidcProfile = {
+  issuer: string;
+  subject: string;
+  email: string;
+  emailVerified: boolean | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: Role | null;
+};
+
+// A sign-in the provider completed that can't go ahead here, with a reason
+// to show the person
+export class OidcSignInError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcSignInError';
+  }
+}
+
+const listSetting = (value: string | undefined) =>
+  (value ?? '').split(',').map(v => v.trim()).filter(Boolean);
+
+// The single sign-on settings, or null if it is not set up
+export function getOidcSettings(): OidcSettings | null {
+  const { OIDC_ISSUER_URL, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET } = process.env;
+  if (!OIDC_ISSUER_URL || !OIDC_CLIENT_ID || !OIDC_CLIENT_SECRET) return null;
+
+  const issuer = new URL(OIDC_ISSUER_URL);
+  // Plain HTTP is for trying it out against a local mock issuer
+  if (issuer.protocol !== 'https:' && process.env.NODE_ENV === 'production') {
+    throw new Error('OIDC_ISSUER_URL must use https');
+  }
+
+  const defaultRole = process.env.OIDC_DEFAULT_ROLE || 'developer';
+  if (defaultRole !== 'none' && !roles.includes(defaultRole as Role)) {
+    throw new Error(`OIDC_DEFAULT_ROLE must be one of ${roles.join(', ')} or none`);
+  }
+  const sessionHours = Number(process.env.OIDC_SESSION_HOURS || 12);
+  if (!(sessionHours > 0)) {
+    throw new Error('OIDC_SESSION_HOURS must be a positive number');
+  }
+  const newcomers = process.env.OIDC_NEWCOMERS || 'create';
+  if (newcomers !== 'create' && newcomers !== 'register') {
+    throw new Error('OIDC_NEWCOMERS must be create or register');
+  }
+
+  return {
+    issuer,
+    clientId: OIDC_CLIENT_ID,
+    clientSecret: OIDC_CLIENT_SECRET,
+    name: process.env.OIDC_DISPLAY_NAME || 'single sign-on',
+    roleClaim: process.env.OIDC_ROLE_CLAIM || 'groups',
+    roleValues: {
+      admin: listSetting(process.env.OIDC_ADMIN_VALUES),
+      project_lead: listSetting(process.env.OIDC_PROJECT_LEAD_VALUES),
+      developer: listSetting(process.env.OIDC_DEVELOPER_VALUES),
+    },
+    defaultRole: defaultRole === 'none' ? null : defaultRole as Role,
+    allowedDomains: listSetting(process.env.OIDC_ALLOWED_DOMAINS).map(d => d.toLowerCase()),
+    newcomersRegister: newcomers === 'register',
+    sessionDuration: sessionHours * HOUR,
+  };
+}
+
+// GET /api/auth/oidc - whether the sign-in page should offer single sign-on
+export function getOidcProvider(): OidcProvider {
+  const settings = getOidcSettings();
+  return settings ? { enabled: true, name: settings.name } : { enabled: false, name: null };
+}
+
+// Whether roles follow the provider's claims, rather than being set here
+function mapsRoles(settings: OidcSettings): boolean {
+  return roles.some(role => settings.roleValues[role].length > 0);
+}
+
+function roleFromClaims(settings: OidcSettings, claims: Record<string, unknown>): Role | null {
+  const claim = claims[settings.roleClaim];
+  const values = (Array.isArray(claim) ? claim : [claim]).filter((v): v is string => typeof v === 'string');
+  return roles.find(role => settings.roleValues[role].some(v => values.includes(v))) ?? settings.defaultRole;
+}
+
+// The provider's metadata, fetched once per issuer and client
+let discovered: { key: string; configuration: Promise<client.Configuration> } | null = null;
+
+function oidcConfiguration(settings: OidcSettings): Promise<client.Configuration> {
+  const key = `${settings.issuer.href} ${settings.clientId} ${settings.clientSecret}`;
+  if (discovered?.key !== key) {
+    const configuration = client.discovery(
+      settings.issuer,
+      settings.clientId,
+      settings.clientSecret,
+      undefined,
+      settings.issuer.protocol === 'http:' ? { execute: [client.allowInsecureRequests] } : undefined,
+    );
+    // Try again next time if the provider could not be reached
+    configuration.catch(() => {
+      if (discovered?.configuration === configuration) discovered = null;
+    });
+    discovered = { key, configuration };
+  }
+  return discovered.configuration;
+}
+
+// Where to send the browser to sign in at the provider, and what to keep
+// in the session to check the answer with
+export async function startOidcLogin(settings: OidcSettings): Promise<{ url: URL; pending: PendingOidcLogin }> {
+  const configuration = await oidcConfiguration(settings);
+  const pending: PendingOidcLogin = {
+    state: client.randomState(),
+    nonce: client.randomNonce(),
+    codeVerifier: client.randomPKCECodeVerifier(),
+    startedAt: Date.now(),
+  };
+  const scopes = ['openid', 'email', 'profile', ...listSetting(process.env.OIDC_SCOPES)];
+  const url = client.buildAuthorizationUrl(configuration, {
+    redirect_uri: appUrl(OIDC_CALLBACK_PATH),
+    scope: Array.from(new Set(scopes)).join(' '),
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: await client.calculatePKCECodeChallenge(pending.codeVerifier),
+    code_challenge_method: 'S256',
+  });
+  return { url, pending };
+}
+
+// Checks the provider's answer - the URL it sent the browser back to - and
+// returns who signed in
+export async function finishOidcLogin(settings: OidcSettings, callbackUrl: URL, pending: PendingOidcLogin): Promise<OidcProfile> {
+  if (Date.now() - pending.startedAt > LOGIN_TIMEOUT) {
+    throw new OidcSignInError('Signing in took too long. Please try again.');
+  }
+
+  const configuration = await oidcConfiguration(settings);
+  const tokens = await client.authorizationCodeGrant(configuration, callbackUrl, {
+    pkceCodeVerifier: pending.codeVerifier,
+    expectedState: pending.state,
+    expectedNonce: pending.nonce,
+    idTokenExpected: true,
+  });
+  let claims: Record<string, unknown> = { ...tokens.claims()! };
+
+  // Providers that leave profile details or groups out of the ID token have
+  // them at the userinfo endpoint
+  if (!claims.email || (mapsRoles(settings) && claims[settings.roleClaim] === undefined)) {
+    const userInfo = await client.fetchUserInfo(configuration, tokens.access_token, claims.sub as string);
+    claims = { ...userInfo, ...claims };
+  }
+
+  if (typeof claims.email !== 'string' || !claims.email) {
+    throw new OidcSignInError(`Your ${settings.name} account has no email address.`);
+  }
+
+  const name = typeof claims.name === 'string' ? claims.name.trim().split(/\s+/) : [];
+  return {
+    issuer: configuration.serverMetadata().issuer,
+    subject: claims.sub as string,
+    email: claims.email,
+    emailVerified: typeof claims.email_verified === 'boolean' ? claims.email_verified : null,
+    firstName: typeof claims.given_name === 'string' ? claims.given_name : name[0] ?? null,
+    lastName: typeof claims.family_name === 'string' ? claims.family_name : name.slice(1).join(' ') || null,
+    role: roleFromClaims(settings, claims),
+  };
+}
+
+// The user who signed in at the provider: the one linked to their account
+// there, else the one with their email, who is linked now, else a new user if
+// their email's domain is allowed. Roles following claims are brought up to
+// date. With OIDC_NEWCOMERS=register, newcomers instead sign up as through the
+// sign-up page, if the registration policy lets them, and are turned away
+// until an admin approves them; they are linked the next time they sign in.
+export async function signInOidcUser(req: AuthRequest, settings: OidcSettings, profile: OidcProfile): Promise<User> {
+  if (!profile.role) {
+    throw new OidcSignInError(`Your ${settings.name} account doesn't give you access to PixelForge Nexus.`);
+  }
+  const role = profile.role;
+
+  const identity = await storage.findUserIdentity(profile.issuer, profile.subject);
+  if (identity) {
+    const user = await storage.getUserById(identity.userId);
+    if (!user) {
+      throw new OidcSignInError('Your account has been removed.');
+    }
+    if (!mapsRoles(settings) || user.role === role) return user;
+
+    return await runUnitOfWork(async () => {
+      await storage.updateUser(user.id, { role });
+      await recordAudit(req, {
+        action: 'user.role_change',
+        targetType: 'user',
+        targetId: user.id,
+        targetName: user.email,
+        changes: diffFields(user, { ...user, role }, ['role']),
+        note: `Role from ${settings.name}`,
+        actor: user,
+      });
+      return (await storage.getUserById(user.id))!;
+    });
+  }
+
+  // Only an email the provider vouches for can claim an account; one it
+  // says nothing about is not taken on trust
+  if (profile.emailVerified !== true) {
+    throw new OidcSignInError(`Verify your email address with ${settings.name} first.`);
+  }
+
+  // Linked accounts can't sign in with a password any more, so it is
+  // replaced with one nobody knows
+  const unusablePasswordHash = await hashPassword(randomBytes(32).toString('base64url'));
+  const existing = await storage.getUserByEmail(profile.email);
+  if (existing) {
+    if (await storage.getUserIdentity(existing.id)) {
+      throw new OidcSignInError(`The account for ${profile.email} is linked to a different ${settings.name} account.`);
+    }
+    return await runUnitOfWork(async () => {
+      const updates = { passwordHash: unusablePasswordHash, ...(mapsRoles(settings) && { role }) };
+      await storage.updateUser(existing.id, updates);
+      await storage.createUserIdentity({ userId: existing.id, issuer: profile.issuer, subject: profile.subject });
+      await recordAudit(req, {
+        action: 'user.sso_link',
+        targetType: 'user',
+        targetId: existing.id,
+        targetName: existing.email,
+        changes: diffFields(existing, { ...existing, ...updates }, ['role']),
+        note: `Linked to ${settings.name}`,
+        actor: existing,
+      });
+      return (await storage.getUserById(existing.id))!;
+    });
+  }
+
+  const domain = profile.email.slice(profile.email.lastIndexOf('@') + 1).toLowerCase();
+  if (settings.allowedDomains.length && !settings.allowedDomains.includes(domain)) {
+    throw new OidcSignInError(`Single sign-on is open to ${settings.allowedDomains.map(d => `@${d}`).join(', ')} email addresses only.`);
+  }
+  if (!settings.newcomersRegister) {
+    return await runUnitOfWork(async () => {
+      const user = await storage.createUser({
+        email: profile.email,
+        passwordHash: unusablePasswordHash,
+        firstName: profile.firstName ?? undefined,
+        lastName: profile.lastName ?? undefined,
+        role,
+      });
+      await storage.createUserIdentity({ userId: user.id, issuer: profile.issuer, subject: profile.subject });
+      // They have joined, so an invitation or sign-up waiting for them is
+      // no longer needed
+      const invitation = await storage.getInvitationByEmail(user.email);
+      if (invitation) await storage.deleteInvitation(invitation.id);
+      const registration = await storage.getRegistrationByEmail(user.email);
+      if (registration) await storage.deleteRegistration(registration.id);
+      await recordAudit(req, {
+        action: 'user.register',
+        targetType: 'user',
+        targetId: user.id,
+        targetName: user.email,
+        changes: diffFields(null, user, ['email', 'firstName', 'lastName', 'role']),
+        note: `Signed up through ${settings.name}`,
+        actor: user,
+      });
+      return user;
+    });
+  }
+
+  const refusal = signUpRefusal(await getRegistrationPolicy(), profile.email);
+  if (refusal) {
+    throw new OidcSignInError(refusal);
+  }
+  if (await storage.getInvitationByEmail(profile.email)) {
+    throw new OidcSignInError('This email has been invited. Use the link in the invitation email to join.');
+  }
+  if (!(await storage.getRegistrationByEmail(profile.email))) {
+    await runUnitOfWork(async () => {
+      const registration = await storage.createRegistration({
+        email: profile.email,
+        firstName: profile.firstName ?? '',
+        lastName: profile.lastName ?? '',
+        passwordHash: unusablePasswordHash,
+      });
+      await recordAudit(req, {
+        action: 'registration.create',
+        targetType: 'registration',
+        targetId: registration.id,
+        targetName: registration.email,
+        changes: diffFields(null, registration, ['email', 'firstName', 'lastName']),
+        note: `Signed up through ${settings.name}`,
+      });
+    });
+  }
+  throw new OidcSignInError('Your account is waiting for an administrator to approve it.');
+}
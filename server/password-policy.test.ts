@@ -0,0 +1,150 @@
+// The password policy: its rules, the common password list, reuse of recent
+// passwords and expiry
+import { describe, it, before, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { isCommonPassword } from './common-passwords';
+import { securitySettingsSchema } from '../shared/schema';
+import type { PasswordPolicy } from '../shared/schema';
+import type { IStorage } from './storage';
+
+process.env.STORAGE_BACKEND = 'memory';
+
+let storage: IStorage;
+let memoryStorage: typeof import('./memory-storage').memoryStorage;
+let saveSecuritySettings: typeof import('./security-settings').saveSecuritySettings;
+let passwordPolicy: typeof import('./password-policy');
+
+before(async () => {
+  ({ storage } = await import('./storage'));
+  ({ memoryStorage } = await import('./memory-storage'));
+  ({ saveSecuritySettings } = await import('./security-settings'));
+  passwordPolicy = await import('./password-policy');
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('password policy', () => {
+  beforeEach(async () => {
+    await memoryStorage.reset();
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  const setPolicy = (policy: Partial<PasswordPolicy>) =>
+    saveSecuritySettings(securitySettingsSchema.parse({ passwordPolicy: policy }), null);
+
+  // A user whose password is `password`, remembered as set now
+  const createUser = async (password: string) => {
+    const passwordHash = await passwordPolicy.hashPassword(password);
+    const user = await storage.createUser({ email: 'dev@example.com', passwordHash, role: 'developer' });
+    await passwordPolicy.rememberPassword(user.id, passwordHash);
+    return user;
+  };
+
+  // Sets the user's password as the password routes do
+  const changePassword = async (userId: string, password: string) => {
+    const passwordHash = await passwordPolicy.hashPassword(password);
+    await storage.updateUser(userId, { passwordHash });
+    await passwordPolicy.rememberPassword(userId, passwordHash);
+    return (await storage.getUserById(userId))!;
+  };
+
+  const refusal = async (password: string, user: Awaited<ReturnType<typeof createUser>> | null = null) => {
+    try {
+      await passwordPolicy.checkNewPassword(password, user);
+      return null;
+    } catch (error) {
+      assert.ok(error instanceof passwordPolicy.PasswordPolicyError);
+      return error.message;
+    }
+  };
+
+  it('checks length and character rules', async () => {
+    await setPolicy({ minLength: 10, requireUppercase: true, requireNumber: true, requireSymbol: true });
+    assert.match((await refusal('Short-1'))!, /10 characters/i);
+    assert.match((await refusal('lowercase-only-1'))!, /uppercase/i);
+    assert.equal(await refusal('Plenty-Long-9'), null);
+  });
+
+  it('refuses common passwords, with digits or symbols tacked on, while the policy does', async () => {
+    await setPolicy({});
+    for (const password of ['password123', 'Iloveyou', 'football2024', 'letmein!!']) {
+      assert.ok(isCommonPassword(password), password);
+      assert.match((await refusal(password))!, /too common/, password);
+    }
+    assert.equal(isCommonPassword('Correct-Horse-Battery-9'), false);
+    assert.equal(await refusal('Correct-Horse-Battery-9'), null);
+
+    await setPolicy({ blockCommon: false });
+    assert.equal(await refusal('password123'), null);
+  });
+
+  it("refuses the user's recent passwords, as many as the policy says", async () => {
+    let user = await createUser('First-Password-1');
+    user = await changePassword(user.id, 'Second-Password-2');
+    user = await changePassword(user.id, 'Third-Password-3');
+
+    await setPolicy({ historySize: 0 });
+    assert.equal(await refusal('Third-Password-3', user), null);
+
+    await setPolicy({ historySize: 1 });
+    assert.match((await refusal('Third-Password-3', user))!, /other than your current one/);
+    assert.equal(await refusal('Second-Password-2', user), null);
+
+    await setPolicy({ historySize: 2 });
+    assert.match((await refusal('Second-Password-2', user))!, /other than your last 2/);
+    assert.equal(await refusal('First-Password-1', user), null);
+    // Nobody else's history counts
+    assert.equal(await refusal('Third-Password-3', null), null);
+  });
+
+  it('refuses the current password of users from before the history was kept', async () => {
+    await setPolicy({ historySize: 3 });
+    const user = await storage.createUser({
+      email: 'old@example.com',
+      passwordHash: await passwordPolicy.hashPassword('Legacy-Password-1'),
+      role: 'developer',
+    });
+    assert.match((await refusal('Legacy-Password-1', user))!, /other than your last 3/);
+  });
+
+  it('expires passwords older than the policy allows', async () => {
+    mock.timers.enable({ apis: ['Date'], now: new Date('2026-03-01T12:00:00Z') });
+    await setPolicy({ maxAgeDays: 30 });
+    let user = await createUser('First-Password-1');
+    assert.equal(await passwordPolicy.isPasswordExpired(user), false);
+
+    mock.timers.tick(30 * DAY);
+    assert.equal(await passwordPolicy.isPasswordExpired(user), true);
+    await setPolicy({ maxAgeDays: 0 });
+    assert.equal(await passwordPolicy.isPasswordExpired(user), false);
+
+    await setPolicy({ maxAgeDays: 30 });
+    user = await changePassword(user.id, 'Second-Password-2');
+    assert.equal(await passwordPolicy.isPasswordExpired(user), false);
+  });
+
+  it('creates the admin user only with an ADMIN_PASSWORD that meets the policy', async () => {
+    const { setupAdmin } = await import('./setup-mongodb-admin');
+    process.env.ADMIN_EMAIL = 'admin@example.com';
+    try {
+      delete process.env.ADMIN_PASSWORD;
+      await assert.rejects(setupAdmin(), /ADMIN_PASSWORD is not set/);
+      process.env.ADMIN_PASSWORD = 'admin123';
+      await assert.rejects(setupAdmin(), passwordPolicy.PasswordPolicyError);
+      assert.equal(await storage.getUserByEmail('admin@example.com'), null);
+
+      process.env.ADMIN_PASSWORD = 'Correct-Horse-Battery-9';
+      await setupAdmin();
+      const admin = (await storage.getUserByEmail('admin@example.com'))!;
+      assert.equal(admin.role, 'admin');
+      await setPolicy({ historySize: 1 });
+      assert.match((await refusal('Correct-Horse-Battery-9', admin))!, /other than your/);
+    } finally {
+      delete process.env.ADMIN_EMAIL;
+      delete process.env.ADMIN_PASSWORD;
+    }
+  });
+});
@@ -0,0 +1,79 @@
+// The password policy, which admins set under Security Policy in Settings.
+// Every way of setting a password - signing up, accepting an invitation,
+// resetting a forgotten one or changing it - checks the new password with
+// checkNewPassword and hashes it with hashPassword. Besides the rules in
+// shared/password-policy.ts, the policy can refuse common passwords and the
+// user's recent ones, and make passwords expire: someone signing in with an
+// expired password has to change it before doing anything else.
+import bcrypt from 'bcryptjs';
+import { storage } from './storage';
+import type { User } from './storage';
+import { getSecuritySettings } from './security-settings';
+import { isCommonPassword } from './common-passwords';
+import { passwordRules } from '../shared/password-policy';
+import type { PasswordPolicy } from '../shared/schema';
+
+const BCRYPT_COST = 12;
+// Previous passwords kept per user: the most the policy can ask to check
+const HISTORY_LIMIT = 10;
+const DAY = 24 * 60 * 60 * 1000;
+
+export class PasswordPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PasswordPolicyError';
+  }
+}
+
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  return (await getSecuritySettings()).passwordPolicy;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  return await bcrypt.hash(password, BCRYPT_COST);
+}
+
+// Throws PasswordPolicyError, saying what's wrong, unless `password` meets the
+// policy. `user` is whose password it is to be, unless they are new.
+export async function checkNewPassword(password: string, user: User | null): Promise<void> {
+  const policy = await getPasswordPolicy();
+
+  const unmet = passwordRules(password, policy).filter(rule => !rule.met);
+  if (unmet.length > 0) {
+    throw new PasswordPolicyError(`Password needs ${unmet.map(rule => rule.label.toLowerCase()).join(', ')}`);
+  }
+  if (policy.blockCommon && isCommonPassword(password)) {
+    throw new PasswordPolicyError('This password is too common. Choose one that is harder to guess.');
+  }
+
+  if (user && policy.historySize > 0) {
+    // Users from before the history was kept have just their current one
+    const history = await storage.listPasswordHistory(user.id, policy.historySize);
+    const recent = Array.from(new Set([user.passwordHash, ...history.map(entry => entry.passwordHash)]))
+      .slice(0, policy.historySize);
+    for (const passwordHash of recent) {
+      if (await bcrypt.compare(password, passwordHash)) {
+        throw new PasswordPolicyError(policy.historySize === 1
+          ? 'Choose a password other than your current one'
+          : `Choose a password other than your last ${policy.historySize}`);
+      }
+    }
+  }
+}
+
+// Notes that the user set `passwordHash` as their password just now, for the
+// reuse check and expiry. In the same unit of work as setting it.
+export async function rememberPassword(userId: string, passwordHash: string): Promise<void> {
+  await storage.addPasswordHistory(userId, passwordHash, HISTORY_LIMIT);
+}
+
+// Whether `user` has had their password longer than the policy allows. Those
+// who set it before the history was kept count from when they joined.
+export async function isPasswordExpired(user: User): Promise<boolean> {
+  const { maxAgeDays } = await getPasswordPolicy();
+  if (maxAgeDays === 0) return false;
+
+  const [latest] = await storage.listPasswordHistory(user.id, 1);
+  const changedAt = latest?.createdAt ?? user.createdAt;
+  return !!changedAt && changedAt.getTime() + maxAgeDays * DAY <= Date.now();
+}
@@ -0,0 +1,36 @@
+// Self-service password resets. The emailed link carries a random token; only
+// its SHA-256 hash is stored, so a leaked database holds no working links. A
+// link expires after an hour and works once, and asking again replaces it.
+import { createHash, randomBytes } from 'crypto';
+import { storage } from './storage';
+import type { User } from './storage';
+import { appUrl, sendPasswordResetEmail } from './email';
+
+export const PASSWORD_RESET_TTL = 60 * 60 * 1000;
+
+function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Emails `user` a new reset link
+export async function sendPasswordReset(user: User): Promise<void> {
+  const token = randomBytes(32).toString('base64url');
+  await storage.savePasswordResetToken({
+    tokenHash: hashResetToken(token),
+    userId: user.id,
+    expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL),
+  });
+  await sendPasswordResetEmail(
+    user.email,
+    user.firstName,
+    appUrl(`/reset-password?token=${token}`),
+    PASSWORD_RESET_TTL / 60000,
+  );
+}
+
+// The user a reset token was sent to, using the token up. Null if it is
+// unknown, used or expired, or the user has since been deleted.
+export async function redeemPasswordResetToken(token: string): Promise<User | null> {
+  const userId = await storage.consumePasswordResetToken(hashResetToken(token));
+  return userId ? await storage.getUserById(userId) : null;
+}
@@ -0,0 +1,937 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { and, asc, count, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lt, lte, ne, notInArray, or, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import type { PgColumn, PgInsertValue, PgTable } from 'drizzle-orm/pg-core';
+import { getDb } from './db';
+import type { Database } from './db';
+import { defaultUserDeletePolicy, checkUserDeletePolicy } from './delete-policy';
+import { VersionConflictError } from './versioning';
+import { sealAuditEntry } from './audit-chain';
+import { remapWorkspace } from './workspace';
+import type { UserDeletePolicy } from './delete-policy';
+import { users, projects, projectAssignments, documents, auditLog, sessions, userTwoFactor, settings, passwordResetTokens, invitations, registrations, passwordHistory, loginThrottles, apiTokens, userIdentities } from '../shared/schema';
+import type {
+  ProjectWithDetails,
+  UserSummary,
+  UserWithStats,
+  DashboardStats,
+  TrashItem,
+  TrashItemType,
+  Page,
+  ProjectListQuery,
+  ProjectSortField,
+  UserListQuery,
+  UserSortField,
+  SortOrder,
+  SearchQuery,
+  SearchResults,
+  AuditEntry,
+  AuditLogQuery,
+  AuditLogFilter,
+  UserSession,
+  UserTwoFactor,
+  PasswordResetToken,
+  Invitation,
+  InsertInvitation,
+  Registration,
+  InsertRegistration,
+  LoginThrottle,
+  PasswordHistoryEntry,
+  ApiToken,
+  InsertApiToken,
+  UserIdentity,
+  InsertUserIdentity,
+} from '../shared/schema';
+import type {
+  IStorage,
+  User,
+  CreateUser,
+  UpsertUser,
+  Project,
+  InsertProject,
+  ProjectAssignment,
+  InsertProjectAssignment,
+  Document,
+  InsertDocument,
+  InsertAuditEntry,
+  SearchScope,
+  WorkspaceData,
+} from './storage';
+
+const userSummaryColumns = {
+  id: users.id,
+  firstName: users.firstName,
+  lastName: users.lastName,
+  email: users.email,
+  profileImageUrl: users.profileImageUrl,
+};
+
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+// Transaction opened by transaction(), joined by the storage calls made inside it
+const activeTransaction = new AsyncLocalStorage<Transaction>();
+
+function connection(): Database | Transaction {
+  return activeTransaction.getStore() ?? getDb();
+}
+
+const trashTables = {
+  project: projects,
+  document: documents,
+  user: users,
+};
+
+// Documents are hidden while they or their project are in the trash
+async function selectLiveDocuments(where: SQL): Promise<Document[]> {
+  const rows = await connection()
+    .select({ document: documents })
+    .from(documents)
+    .innerJoin(projects, eq(documents.projectId, projects.id))
+    .where(and(where, isNull(documents.deletedAt), isNull(projects.deletedAt)));
+  return rows.map(r => r.document);
+}
+
+// ILIKE pattern matching `q` anywhere in the value
+function containing(q: string): string {
+  return `%${q.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+// Every term appears in at least one of the columns
+function matchingTerms(terms: string[], columns: PgColumn[]): SQL | undefined {
+  return and(...terms.map(term => or(...columns.map(column => ilike(column, containing(term))))));
+}
+
+// Advisory lock key taken while appending to the audit log
+const AUDIT_LOG_LOCK = 0x61756469;
+
+function auditFilter(filter: AuditLogFilter): SQL | undefined {
+  return and(
+    filter.actorId ? eq(auditLog.actorId, filter.actorId) : undefined,
+    filter.action ? eq(auditLog.action, filter.action) : undefined,
+    filter.targetType ? eq(auditLog.targetType, filter.targetType) : undefined,
+    filter.targetId ? eq(auditLog.targetId, filter.targetId) : undefined,
+    filter.projectId ? eq(auditLog.projectId, filter.projectId) : undefined,
+    filter.actions ? inArray(auditLog.action, [...filter.actions]) : undefined,
+    filter.from ? gte(auditLog.createdAt, filter.from) : undefined,
+    filter.to ? lte(auditLog.createdAt, filter.to) : undefined,
+  );
+}
+
+// Rows per insert when importing a workspace, well under PostgreSQL's limit
+// of 65535 parameters per statement
+const IMPORT_BATCH_SIZE = 500;
+
+async function insertInBatches<T extends PgTable>(table: T, rows: PgInsertValue<T>[]): Promise<void> {
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+    await connection().insert(table).values(rows.slice(i, i + IMPORT_BATCH_SIZE));
+  }
+}
+
+const projectSortColumns: Record<ProjectSortField, PgColumn> = {
+  createdAt: projects.createdAt,
+  name: projects.name,
+  deadline: projects.deadline,
+  status: projects.status,
+};
+
+const userSortColumns: Record<UserSortField, PgColumn> = {
+  createdAt: users.createdAt,
+  email: users.email,
+  role: users.role,
+};
+
+// Missing values sort last in either direction, ties by id. Enums sort in
+// declaration order.
+function sortBy(column: PgColumn, id: PgColumn, order: SortOrder): SQL[] {
+  return [
+    sql`${column} ${sql.raw(order)} nulls last`,
+    order === 'asc' ? asc(id) : desc(id),
+  ];
+}
+
+async function countWhere(
+  tx: Transaction,
+  table: typeof projects | typeof projectAssignments | typeof documents,
+  where: SQL,
+): Promise<number> {
+  const [{ total }] = await tx.select({ total: count() }).from(table).where(where);
+  return total;
+}
+
+// Attach creator, lead, assignments and documents to project rows, matching the
+// shape produced by the MongoDB backend's populate calls
+async function withProjectDetails(rows: Project[]): Promise<ProjectWithDetails[]> {
+  if (rows.length === 0) return [];
+
+  const db = connection();
+  const projectIds = rows.map(p => p.id);
+  const userIds = Array.from(new Set(
+    rows.flatMap(p => p.projectLeadId ? [p.createdBy, p.projectLeadId] : [p.createdBy])
+  ));
+
+  const relatedUsers = await db.select(userSummaryColumns).from(users).where(inArray(users.id, userIds));
+  const allAssignments = await db
+    .select({ assignment: projectAssignments, user: userSummaryColumns })
+    .from(projectAssignments)
+    .innerJoin(users, eq(projectAssignments.userId, users.id))
+    .where(and(inArray(projectAssignments.projectId, projectIds), isNull(users.deletedAt)));
+  const allDocuments = await db
+    .select()
+    .from(documents)
+    .where(and(inArray(documents.projectId, projectIds), isNull(documents.deletedAt)));
+
+  const findUser = (id: string | null): UserSummary | null => {
+    const user = id ? relatedUsers.find(u => u.id === id) : undefined;
+    return user ? {
+      id: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+    } : null;
+  };
+
+  return rows.map(project => {
+    const assignments = allAssignments.filter(a => a.assignment.projectId === project.id);
+    const projectDocuments = allDocuments.filter(d => d.projectId === project.id);
+
+    return {
+      ...project,
+      createdBy: findUser(project.createdBy),
+      projectLead: findUser(project.projectLeadId),
+      assignments: assignments.map(a => ({
+        ...a.assignment,
+        user: a.user,
+      })),
+      documents: projectDocuments,
+      _count: {
+        assignments: assignments.length,
+        documents: projectDocuments.length,
+      },
+    };
+  });
+}
+
+export const postgresStorage: IStorage = {
+  // User methods
+  async createUser(userData: CreateUser): Promise<User> {
+    const [user] = await connection().insert(users).values(userData).returning();
+    return user;
+  },
+
+  async getUserById(id: string): Promise<User | null> {
+    const [user] = await connection().select().from(users).where(and(eq(users.id, id), isNull(users.deletedAt)));
+    return user || null;
+  },
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    const [user] = await connection().select().from(users).where(and(eq(users.email, email), isNull(users.deletedAt)));
+    return user || null;
+  },
+
+  async listUsers(query: UserListQuery): Promise<Page<UserWithStats>> {
+    const db = connection();
+    const where = and(
+      isNull(users.deletedAt),
+      query.role ? eq(users.role, query.role) : undefined,
+      query.q ? or(
+        ilike(users.firstName, containing(query.q)),
+        ilike(users.lastName, containing(query.q)),
+        ilike(users.email, containing(query.q)),
+      ) : undefined,
+    );
+    const [{ total }] = await db.select({ total: count() }).from(users).where(where);
+    const pageUsers = await db
+      .select()
+      .from(users)
+      .where(where)
+      .orderBy(...sortBy(userSortColumns[query.sort], users.id, query.order))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    // Project counts for this page's users only
+    const userIds = pageUsers.map(u => u.id);
+    const [{ totalProjects }] = await db.select({ totalProjects: count() }).from(projects).where(isNull(projects.deletedAt));
+    const createdCounts = await db
+      .select({ userId: projects.createdBy, total: count() })
+      .from(projects)
+      .where(and(isNull(projects.deletedAt), inArray(projects.createdBy, userIds)))
+      .groupBy(projects.createdBy);
+    const assignmentCounts = await db
+      .select({ userId: projectAssignments.userId, total: count() })
+      .from(projectAssignments)
+      .innerJoin(projects, eq(projectAssignments.projectId, projects.id))
+      .where(and(isNull(projects.deletedAt), inArray(projectAssignments.userId, userIds)))
+      .groupBy(projectAssignments.userId);
+
+    const items = pageUsers.map(user => {
+      let projectCount = 0;
+
+      if (user.role === 'admin') {
+        projectCount = totalProjects; // Admin can see all projects
+      } else if (user.role === 'project_lead') {
+        // Count projects where this user is the lead (createdBy)
+        projectCount = createdCounts.find(c => c.userId === user.id)?.total ?? 0;
+      } else {
+        // Count assignments for developers
+        projectCount = assignmentCounts.find(c => c.userId === user.id)?.total ?? 0;
+      }
+
+      return {
+        ...user,
+        _count: {
+          projectAssignments: projectCount,
+        },
+      };
+    });
+    return { items, total, page: query.page, pageSize: query.pageSize };
+  },
+
+  async updateUser(id: string, updates: Partial<UpsertUser>, expectedVersion?: number): Promise<void> {
+    const db = connection();
+    const updated = await db
+      .update(users)
+      .set({ ...updates, version: sql`${users.version} + 1`, updatedAt: new Date() })
+      .where(and(eq(users.id, id), expectedVersion === undefined ? undefined : eq(users.version, expectedVersion)))
+      .returning({ id: users.id });
+
+    if (updated.length === 0 && expectedVersion !== undefined) {
+      const [current] = await db.select({ version: users.version }).from(users).where(eq(users.id, id));
+      if (current) throw new VersionConflictError(current.version);
+    }
+  },
+
+  async deleteUser(id: string, policy: UserDeletePolicy = defaultUserDeletePolicy): Promise<void> {
+    await connection().transaction(async (tx) => {
+      const references = {
+        ledProjects: await countWhere(tx, projects, eq(projects.projectLeadId, id)),
+        createdProjects: await countWhere(tx, projects, eq(projects.createdBy, id)),
+        assignmentsMade: await countWhere(tx, projectAssignments, eq(projectAssignments.assignedBy, id)),
+        uploadedDocuments: await countWhere(tx, documents, eq(documents.uploadedBy, id)),
+      };
+      const [reassignee] = policy.reassignTo
+        ? await tx.select().from(users).where(and(eq(users.id, policy.reassignTo), isNull(users.deletedAt)))
+        : [];
+      checkUserDeletePolicy(id, policy, references, reassignee ?? null);
+
+      if (policy.projectLead !== 'restrict') {
+        const projectLeadId = policy.projectLead === 'reassign' ? policy.reassignTo! : null;
+        await tx.update(projects).set({ projectLeadId }).where(eq(projects.projectLeadId, id));
+      }
+
+      if (policy.ownedRecords === 'reassign') {
+        const reassignTo = policy.reassignTo!;
+        await tx.update(projects).set({ createdBy: reassignTo }).where(eq(projects.createdBy, id));
+        await tx.update(projectAssignments).set({ assignedBy: reassignTo }).where(eq(projectAssignments.assignedBy, id));
+        await tx.update(documents).set({ uploadedBy: reassignTo }).where(eq(documents.uploadedBy, id));
+      }
+
+      // The user's own assignments cascade through the foreign key, and
+      // deletedBy references to them are cleared by it
+      await tx.delete(users).where(eq(users.id, id));
+    });
+  },
+
+  // Project methods
+  async createProject(projectData: InsertProject): Promise<Project> {
+    const [project] = await connection().insert(projects).values(projectData).returning();
+    return project;
+  },
+
+  async listProjects(query: ProjectListQuery, memberId?: string): Promise<Page<ProjectWithDetails>> {
+    const db = connection();
+    const where = and(
+      isNull(projects.deletedAt),
+      memberId ? inArray(
+        projects.id,
+        db.select({ id: projectAssignments.projectId }).from(projectAssignments).where(eq(projectAssignments.userId, memberId)),
+      ) : undefined,
+      query.status ? eq(projects.status, query.status) : undefined,
+      query.leadId ? eq(projects.projectLeadId, query.leadId) : undefined,
+      query.deadlineFrom ? gte(projects.deadline, query.deadlineFrom) : undefined,
+      query.deadlineTo ? lte(projects.deadline, query.deadlineTo) : undefined,
+      query.q ? or(
+        ilike(projects.name, containing(query.q)),
+        ilike(projects.description, containing(query.q)),
+      ) : undefined,
+    );
+    const [{ total }] = await db.select({ total: count() }).from(projects).where(where);
+    const rows = await db
+      .select()
+      .from(projects)
+      .where(where)
+      .orderBy(...sortBy(projectSortColumns[query.sort], projects.id, query.order))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return { items: await withProjectDetails(rows), total, page: query.page, pageSize: query.pageSize };
+  },
+
+  async getProjectById(id: string): Promise<ProjectWithDetails | null> {
+    const rows = await connection().select().from(projects).where(and(eq(projects.id, id), isNull(projects.deletedAt)));
+    const [project] = await withProjectDetails(rows);
+    return project || null;
+  },
+
+  async updateProject(id: string, updates: Partial<InsertProject>, expectedVersion?: number): Promise<void> {
+    const db = connection();
+    const updated = await db
+      .update(projects)
+      .set({ ...updates, version: sql`${projects.version} + 1`, updatedAt: new Date() })
+      .where(and(eq(projects.id, id), expectedVersion === undefined ? undefined : eq(projects.version, expectedVersion)))
+      .returning({ id: projects.id });
+
+    if (updated.length === 0 && expectedVersion !== undefined) {
+      const [current] = await db.select({ version: projects.version }).from(projects).where(eq(projects.id, id));
+      if (current) throw new VersionConflictError(current.version);
+    }
+  },
+
+  async deleteProject(id: string): Promise<Document[]> {
+    return await connection().transaction(async (tx) => {
+      const removed = await tx.select().from(documents).where(eq(documents.projectId, id));
+      // Assignments and documents cascade through their foreign keys
+      await tx.delete(projects).where(eq(projects.id, id));
+      return removed;
+    });
+  },
+
+  // Project assignment methods
+  async assignUserToProject(assignmentData: InsertProjectAssignment): Promise<ProjectAssignment> {
+    const db = connection();
+    const [existing] = await db
+      .select({ id: projectAssignments.id })
+      .from(projectAssignments)
+      .where(and(
+        eq(projectAssignments.projectId, assignmentData.projectId),
+        eq(projectAssignments.userId, assignmentData.userId),
+      ));
+    if (existing) {
+      throw new Error('User is already assigned to this project');
+    }
+
+    const [assignment] = await db.insert(projectAssignments).values(assignmentData).returning();
+    return assignment;
+  },
+
+  async removeUserFromProject(projectId: string, userId: string): Promise<void> {
+    await connection()
+      .delete(projectAssignments)
+      .where(and(eq(projectAssignments.projectId, projectId), eq(projectAssignments.userId, userId)));
+  },
+
+  // Document methods
+  async createDocument(documentData: InsertDocument): Promise<Document> {
+    const [document] = await connection().insert(documents).values(documentData).returning();
+    return document;
+  },
+
+  async getProjectDocuments(projectId: string): Promise<Document[]> {
+    return await selectLiveDocuments(eq(documents.projectId, projectId));
+  },
+
+  async deleteDocument(id: string): Promise<Document | null> {
+    const [document] = await connection().delete(documents).where(eq(documents.id, id)).returning();
+    return document || null;
+  },
+
+  async getDocumentById(id: string): Promise<Document | null> {
+    const [document] = await selectLiveDocuments(eq(documents.id, id));
+    return document || null;
+  },
+
+  // Trash methods
+  async moveToTrash(type: TrashItemType, id: string, deletedBy: string): Promise<void> {
+    const table = trashTables[type];
+    await connection()
+      .update(table)
+      .set({ deletedAt: new Date(), deletedBy })
+      .where(and(eq(table.id, id), isNull(table.deletedAt)));
+  },
+
+  async restoreFromTrash(type: TrashItemType, id: string): Promise<void> {
+    const table = trashTables[type];
+    await connection().update(table).set({ deletedAt: null, deletedBy: null }).where(eq(table.id, id));
+  },
+
+  async getTrash(): Promise<TrashItem[]> {
+    const db = connection();
+    const trashedProjects = await db.select().from(projects).where(isNotNull(projects.deletedAt));
+    const trashedDocuments = await db.select().from(documents).where(isNotNull(documents.deletedAt));
+    const trashedUsers = await db.select().from(users).where(isNotNull(users.deletedAt));
+
+    const deleterIds = Array.from(new Set(
+      [...trashedProjects, ...trashedDocuments, ...trashedUsers].flatMap(r => r.deletedBy ? [r.deletedBy] : [])
+    ));
+    const deleters: UserSummary[] = deleterIds.length > 0
+      ? await db
+        .select({ id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email })
+        .from(users)
+        .where(inArray(users.id, deleterIds))
+      : [];
+    const trashItem = (
+      type: TrashItemType,
+      record: { id: string; deletedAt: Date | null; deletedBy: string | null },
+      name: string,
+      projectId: string | null,
+    ): TrashItem => ({
+      type,
+      id: record.id,
+      name,
+      projectId,
+      deletedAt: record.deletedAt!,
+      deletedBy: deleters.find(u => u.id === record.deletedBy) ?? null,
+    });
+
+    return [
+      ...trashedProjects.map(p => trashItem('project', p, p.name, null)),
+      ...trashedDocuments.map(d => trashItem('document', d, d.originalName, d.projectId)),
+      ...trashedUsers.map(u => trashItem('user', u, u.email, null)),
+    ].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  },
+
+  // Search method
+  async search(query: SearchQuery, scope: SearchScope): Promise<SearchResults> {
+    const db = connection();
+    const { visibleTo } = scope;
+    const visible = and(
+      isNull(projects.deletedAt),
+      visibleTo ? or(
+        inArray(
+          projects.id,
+          db.select({ id: projectAssignments.projectId }).from(projectAssignments).where(eq(projectAssignments.userId, visibleTo.userId)),
+        ),
+        visibleTo.includeLed ? eq(projects.projectLeadId, visibleTo.userId) : undefined,
+      ) : undefined,
+    );
+
+    const matchingProjects = await db
+      .select({ id: projects.id, name: projects.name, description: projects.description, status: projects.status })
+      .from(projects)
+      .where(and(visible, matchingTerms(query.terms, [projects.name, projects.description])))
+      .orderBy(asc(projects.name), asc(projects.id))
+      .limit(query.limit);
+    const matchingDocuments = await db
+      .select({
+        id: documents.id,
+        projectId: documents.projectId,
+        originalName: documents.originalName,
+        mimeType: documents.mimeType,
+        projectName: projects.name,
+      })
+      .from(documents)
+      .innerJoin(projects, eq(documents.projectId, projects.id))
+      .where(and(visible, isNull(documents.deletedAt), matchingTerms(query.terms, [documents.originalName])))
+      .orderBy(asc(documents.originalName), asc(documents.id))
+      .limit(query.limit);
+    const matchingUsers = scope.includeUsers ? await db
+      .select({ id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email, role: users.role })
+      .from(users)
+      .where(and(isNull(users.deletedAt), matchingTerms(query.terms, [users.firstName, users.lastName, users.email])))
+      .orderBy(asc(users.email), asc(users.id))
+      .limit(query.limit) : [];
+
+    return { projects: matchingProjects, documents: matchingDocuments, users: matchingUsers };
+  },
+
+  // Audit log methods
+  async appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    return await connection().transaction(async (tx) => {
+      // Appends wait for each other, so each one chains onto the newest entry.
+      // The lock is held until the outermost transaction ends.
+      await tx.execute(sql`select pg_advisory_xact_lock(${AUDIT_LOG_LOCK})`);
+      const [previous] = await tx
+        .select({ sequence: auditLog.sequence, hash: auditLog.hash })
+        .from(auditLog)
+        .orderBy(desc(auditLog.sequence))
+        .limit(1);
+      const [appended] = await tx.insert(auditLog).values(sealAuditEntry(entry, previous ?? null)).returning();
+      return appended;
+    });
+  },
+
+  async listAuditEntries(query: AuditLogQuery & AuditLogFilter): Promise<Page<AuditEntry>> {
+    const db = connection();
+    const where = auditFilter(query);
+    const [{ total }] = await db.select({ total: count() }).from(auditLog).where(where);
+    const items = await db
+      .select()
+      .from(auditLog)
+      .where(where)
+      .orderBy(desc(auditLog.sequence))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    return { items, total, page: query.page, pageSize: query.pageSize };
+  },
+
+  async getAuditEntries(filter: AuditLogFilter): Promise<AuditEntry[]> {
+    return await connection().select().from(auditLog).where(auditFilter(filter)).orderBy(asc(auditLog.sequence));
+  },
+
+  // Session methods
+  async getUserSession(sid: string): Promise<UserSession | null> {
+    const [session] = await connection().select().from(sessions)
+      .where(and(eq(sessions.sid, sid), gt(sessions.expire, new Date())));
+    return session || null;
+  },
+
+  async saveUserSession(session: Omit<UserSession, 'createdAt'>): Promise<void> {
+    const { sid, ...fields } = session;
+    await connection().insert(sessions).values(session)
+      .onConflictDoUpdate({ target: sessions.sid, set: fields });
+  },
+
+  async updateUserSession(session: Omit<UserSession, 'createdAt'>): Promise<boolean> {
+    const { sid, ...fields } = session;
+    const updated = await connection().update(sessions).set(fields).where(eq(sessions.sid, sid)).returning({ sid: sessions.sid });
+    return updated.length > 0;
+  },
+
+  async deleteUserSession(sid: string): Promise<void> {
+    await connection().delete(sessions).where(eq(sessions.sid, sid));
+  },
+
+  async listUserSessions(userId: string): Promise<UserSession[]> {
+    return await connection().select().from(sessions)
+      .where(and(eq(sessions.userId, userId), gt(sessions.expire, new Date())))
+      .orderBy(desc(sessions.lastSeenAt));
+  },
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    await connection().delete(sessions).where(eq(sessions.userId, userId));
+  },
+
+  async purgeExpiredSessions(now = new Date()): Promise<number> {
+    const purged = await connection().delete(sessions).where(lte(sessions.expire, now)).returning({ sid: sessions.sid });
+    return purged.length;
+  },
+
+  // Two-factor methods
+  async getUserTwoFactor(userId: string): Promise<UserTwoFactor | null> {
+    const [twoFactor] = await connection().select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return twoFactor || null;
+  },
+
+  async saveUserTwoFactor(twoFactorData: Omit<UserTwoFactor, 'createdAt' | 'updatedAt'>): Promise<UserTwoFactor> {
+    const { userId, ...fields } = twoFactorData;
+    const [twoFactor] = await connection().insert(userTwoFactor).values(twoFactorData)
+      .onConflictDoUpdate({ target: userTwoFactor.userId, set: { ...fields, updatedAt: new Date() } })
+      .returning();
+    return twoFactor;
+  },
+
+  async deleteUserTwoFactor(userId: string): Promise<void> {
+    await connection().delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+  },
+
+  async useTotpStep(userId: string, step: number): Promise<boolean> {
+    const used = await connection().update(userTwoFactor)
+      .set({ lastUsedStep: step, updatedAt: new Date() })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step)),
+      ))
+      .returning({ userId: userTwoFactor.userId });
+    return used.length > 0;
+  },
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const used = await connection().update(userTwoFactor)
+      .set({ recoveryCodeHashes: sql`${userTwoFactor.recoveryCodeHashes} - ${codeHash}::text`, updatedAt: new Date() })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        sql`${userTwoFactor.recoveryCodeHashes} @> ${JSON.stringify([codeHash])}::jsonb`,
+      ))
+      .returning({ userId: userTwoFactor.userId });
+    return used.length > 0;
+  },
+
+  // Password reset methods
+  async savePasswordResetToken(token: Omit<PasswordResetToken, 'createdAt'>): Promise<void> {
+    const { userId, ...fields } = token;
+    await connection().insert(passwordResetTokens).values(token)
+      .onConflictDoUpdate({ target: passwordResetTokens.userId, set: { ...fields, createdAt: new Date() } });
+  },
+
+  async consumePasswordResetToken(tokenHash: string, now = new Date()): Promise<string | null> {
+    const [token] = await connection().delete(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash))
+      .returning();
+    return token && token.expiresAt > now ? token.userId : null;
+  },
+
+  // Invitation methods
+  async createInvitation(invitationData: InsertInvitation): Promise<Invitation> {
+    const [invitation] = await connection().insert(invitations).values(invitationData).returning();
+    return invitation;
+  },
+
+  async getInvitation(id: string): Promise<Invitation | null> {
+    const [invitation] = await connection().select().from(invitations).where(eq(invitations.id, id));
+    return invitation || null;
+  },
+
+  async getInvitationByEmail(email: string): Promise<Invitation | null> {
+    const [invitation] = await connection().select().from(invitations).where(eq(invitations.email, email));
+    return invitation || null;
+  },
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | null> {
+    const [invitation] = await connection().select().from(invitations).where(eq(invitations.tokenHash, tokenHash));
+    return invitation || null;
+  },
+
+  async listInvitations(): Promise<Invitation[]> {
+    return await connection().select().from(invitations).orderBy(desc(invitations.createdAt), asc(invitations.id));
+  },
+
+  async renewInvitation(id: string, expiresAt: Date, tokenHash: string): Promise<Invitation | null> {
+    const [invitation] = await connection().update(invitations)
+      .set({ sentAt: new Date(), expiresAt, tokenHash })
+      .where(eq(invitations.id, id))
+      .returning();
+    return invitation || null;
+  },
+
+  async consumeInvitation(tokenHash: string, now = new Date()): Promise<Invitation | null> {
+    const [invitation] = await connection().delete(invitations)
+      .where(and(eq(invitations.tokenHash, tokenHash), gt(invitations.expiresAt, now)))
+      .returning();
+    return invitation || null;
+  },
+
+  async deleteInvitation(id: string): Promise<boolean> {
+    const deleted = await connection().delete(invitations).where(eq(invitations.id, id)).returning({ id: invitations.id });
+    return deleted.length > 0;
+  },
+
+  // Registration methods
+  async createRegistration(registrationData: InsertRegistration): Promise<Registration> {
+    const [registration] = await connection().insert(registrations).values(registrationData).returning();
+    return registration;
+  },
+
+  async getRegistration(id: string): Promise<Registration | null> {
+    const [registration] = await connection().select().from(registrations).where(eq(registrations.id, id));
+    return registration || null;
+  },
+
+  async getRegistrationByEmail(email: string): Promise<Registration | null> {
+    const [registration] = await connection().select().from(registrations).where(eq(registrations.email, email));
+    return registration || null;
+  },
+
+  async listRegistrations(): Promise<Registration[]> {
+    return await connection().select().from(registrations).orderBy(asc(registrations.createdAt), asc(registrations.id));
+  },
+
+  async deleteRegistration(id: string): Promise<boolean> {
+    const deleted = await connection().delete(registrations).where(eq(registrations.id, id)).returning({ id: registrations.id });
+    return deleted.length > 0;
+  },
+
+  // Password history methods
+  async addPasswordHistory(userId: string, passwordHash: string, keep: number): Promise<void> {
+    const db = connection();
+    await db.insert(passwordHistory).values({ userId, passwordHash });
+    const kept = db.select({ id: passwordHistory.id }).from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id))
+      .limit(keep);
+    await db.delete(passwordHistory)
+      .where(and(eq(passwordHistory.userId, userId), notInArray(passwordHistory.id, kept)));
+  },
+
+  async listPasswordHistory(userId: string, limit: number): Promise<PasswordHistoryEntry[]> {
+    return await connection().select().from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id))
+      .limit(limit);
+  },
+
+  // Login throttle methods
+  async getLoginThrottle(key: string): Promise<LoginThrottle | null> {
+    const [throttle] = await connection().select().from(loginThrottles).where(eq(loginThrottles.key, key));
+    return throttle || null;
+  },
+
+  async recordLoginFailure(key: string, now: Date, resetBefore: Date): Promise<LoginThrottle> {
+    const stale = lt(loginThrottles.lastFailureAt, resetBefore);
+    const [throttle] = await connection().insert(loginThrottles)
+      .values({ key, failures: 1, lastFailureAt: now })
+      .onConflictDoUpdate({
+        target: loginThrottles.key,
+        set: {
+          failures: sql`CASE WHEN ${stale} THEN 1 ELSE ${loginThrottles.failures} + 1 END`,
+          lockedUntil: sql`CASE WHEN ${stale} THEN NULL ELSE ${loginThrottles.lockedUntil} END`,
+          lastFailureAt: now,
+        },
+      })
+      .returning();
+    return throttle;
+  },
+
+  async releaseLoginFailure(key: string): Promise<void> {
+    await connection().update(loginThrottles)
+      .set({ failures: sql`${loginThrottles.failures} - 1` })
+      .where(and(eq(loginThrottles.key, key), gt(loginThrottles.failures, 0)));
+  },
+
+  async lockLoginThrottle(key: string, lockedUntil: Date): Promise<void> {
+    await connection().update(loginThrottles).set({ lockedUntil }).where(eq(loginThrottles.key, key));
+  },
+
+  async clearLoginThrottle(key: string): Promise<void> {
+    await connection().delete(loginThrottles).where(eq(loginThrottles.key, key));
+  },
+
+  async listLockedLoginThrottles(now: Date): Promise<LoginThrottle[]> {
+    return await connection().select().from(loginThrottles).where(gt(loginThrottles.lockedUntil, now));
+  },
+
+  async purgeLoginThrottles(before: Date): Promise<number> {
+    const purged = await connection().delete(loginThrottles)
+      .where(and(
+        lt(loginThrottles.lastFailureAt, before),
+        or(isNull(loginThrottles.lockedUntil), lt(loginThrottles.lockedUntil, before)),
+      ))
+      .returning({ key: loginThrottles.key });
+    return purged.length;
+  },
+
+  // Single sign-on identity methods
+  async getUserIdentity(userId: string): Promise<UserIdentity | null> {
+    const [identity] = await connection().select().from(userIdentities).where(eq(userIdentities.userId, userId));
+    return identity || null;
+  },
+
+  async findUserIdentity(issuer: string, subject: string): Promise<UserIdentity | null> {
+    const [identity] = await connection().select().from(userIdentities)
+      .where(and(eq(userIdentities.issuer, issuer), eq(userIdentities.subject, subject)));
+    return identity || null;
+  },
+
+  async createUserIdentity(identityData: InsertUserIdentity): Promise<UserIdentity> {
+    const [identity] = await connection().insert(userIdentities).values(identityData).returning();
+    return identity;
+  },
+
+  // API token methods
+  async createApiToken(tokenData: InsertApiToken): Promise<ApiToken> {
+    const [token] = await connection().insert(apiTokens).values(tokenData).returning();
+    return token;
+  },
+
+  async listApiTokens(userId: string): Promise<ApiToken[]> {
+    return await connection().select().from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt), asc(apiTokens.id));
+  },
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+    const [token] = await connection().select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || null;
+  },
+
+  async touchApiToken(id: string, lastUsedAt: Date): Promise<void> {
+    await connection().update(apiTokens).set({ lastUsedAt }).where(eq(apiTokens.id, id));
+  },
+
+  async deleteApiToken(userId: string, id: string): Promise<boolean> {
+    const deleted = await connection().delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning({ id: apiTokens.id });
+    return deleted.length > 0;
+  },
+
+  async deleteUserApiTokens(userId: string): Promise<void> {
+    await connection().delete(apiTokens).where(eq(apiTokens.userId, userId));
+  },
+
+  // Settings methods
+  async getSetting(key: string): Promise<unknown> {
+    const [setting] = await connection().select().from(settings).where(eq(settings.key, key));
+    return setting ? setting.value : null;
+  },
+
+  async saveSetting(key: string, value: unknown, updatedBy: string | null): Promise<void> {
+    await connection().insert(settings).values({ key, value, updatedBy })
+      .onConflictDoUpdate({ target: settings.key, set: { value, updatedBy, updatedAt: new Date() } });
+  },
+
+  // Workspace methods
+  async exportWorkspace(): Promise<WorkspaceData> {
+    const db = connection();
+    return {
+      users: await db.select().from(users),
+      projects: await db.select().from(projects),
+      assignments: await db.select().from(projectAssignments),
+      documents: await db.select().from(documents),
+    };
+  },
+
+  async importWorkspace(data: WorkspaceData): Promise<void> {
+    const imported = remapWorkspace(data, randomUUID);
+    await postgresStorage.transaction(async () => {
+      // Users can be trashed by users inserted after them, so deletedBy is set
+      // once they are all in
+      await insertInBatches(users, imported.users.map(u => ({ ...u, deletedBy: null })));
+      for (const user of imported.users.filter(u => u.deletedBy)) {
+        await connection().update(users).set({ deletedBy: user.deletedBy }).where(eq(users.id, user.id));
+      }
+      await insertInBatches(projects, imported.projects);
+      await insertInBatches(projectAssignments, imported.assignments);
+      await insertInBatches(documents, imported.documents);
+    });
+  },
+
+  // Transaction method. Storage calls inside a transaction nest as savepoints.
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    return await connection().transaction(tx => activeTransaction.run(tx, work));
+  },
+
+  // Dashboard stats method
+  async getDashboardStats(): Promise<DashboardStats> {
+    const db = connection();
+    const statusCounts = await db
+      .select({ status: projects.status, total: count() })
+      .from(projects)
+      .where(isNull(projects.deletedAt))
+      .groupBy(projects.status);
+    const [{ totalUsers }] = await db.select({ totalUsers: count() }).from(users).where(isNull(users.deletedAt));
+    const [{ teamMembers }] = await db
+      .select({ teamMembers: count() })
+      .from(users)
+      .where(and(ne(users.role, 'admin'), isNull(users.deletedAt)));
+    const [{ totalDocuments }] = await db
+      .select({ totalDocuments: count() })
+      .from(documents)
+      .innerJoin(projects, eq(documents.projectId, projects.id))
+      .where(and(isNull(documents.deletedAt), isNull(projects.deletedAt)));
+    const now = new Date();
+    const weekFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+    const [{ dueThisWeek }] = await db
+      .select({ dueThisWeek: count() })
+      .from(projects)
+      .where(and(
+        ne(projects.status, 'completed'),
+        isNull(projects.deletedAt),
+        gte(projects.deadline, now),
+        lte(projects.deadline, weekFromNow),
+      ));
+
+    const countFor = (status: Project['status']) =>
+      statusCounts.find(s => s.status === status)?.total ?? 0;
+
+    return {
+      totalProjects: statusCounts.reduce((sum, s) => sum + s.total, 0),
+      activeProjects: countFor('active'),
+      completedProjects: countFor('completed'),
+      onHoldProjects: countFor('on_hold'),
+      teamMembers,
+      totalUsers,
+      totalDocuments,
+      dueThisWeek,
+    };
+  },
+};
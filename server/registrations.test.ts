@@ -0,0 +1,101 @@
+// Who can sign up under each registration policy, and sign-ups waiting for
+// approval, through the API on the in-memory backend
+import { describe, it, before, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer } from './test-server';
+import type { TestServer } from './test-server';
+import type { RegistrationPolicy } from '../shared/schema';
+
+const PASSWORD = 'Correct-Horse-Battery-9';
+
+describe('registrations', () => {
+  let app: TestServer;
+  let registrations: typeof import('./registrations');
+  let setRegistrationPolicy: (policy: RegistrationPolicy) => Promise<void>;
+
+  before(async () => {
+    app = await startTestServer();
+    registrations = await import('./registrations');
+    const { getSecuritySettings, saveSecuritySettings } = await import('./security-settings');
+    setRegistrationPolicy = async (registration) =>
+      saveSecuritySettings({ ...(await getSecuritySettings()), registration }, null);
+  });
+
+  beforeEach(async () => {
+    await app.reset();
+  });
+
+  after(async () => {
+    await app?.close();
+  });
+
+  describe('signUpRefusal', () => {
+    it('lets nobody sign up when registration is off or invite-only', () => {
+      const { signUpRefusal } = registrations;
+      assert.match(signUpRefusal({ mode: 'off', allowedDomains: [] }, 'dev@example.com')!, /not taking new members/);
+      assert.match(signUpRefusal({ mode: 'invite_only', allowedDomains: ['example.com'] }, 'dev@example.com')!, /invite-only/);
+    });
+
+    it('lets people sign up with an email at an allowed domain, whatever its case', () => {
+      const { signUpRefusal } = registrations;
+      const policy: RegistrationPolicy = { mode: 'domains', allowedDomains: ['example.com', 'studio.test'] };
+      assert.equal(signUpRefusal(policy, 'dev@example.com'), null);
+      assert.equal(signUpRefusal(policy, 'Dev@Studio.TEST'), null);
+      for (const email of ['dev@example.org', 'dev@mail.example.com', 'dev@example.com.evil.test', 'example.com@evil.test']) {
+        assert.match(signUpRefusal(policy, email)!, /@example\.com, @studio\.test/, email);
+      }
+    });
+
+    it('refuses invitations only when registration is off', () => {
+      const { invitationRefusal } = registrations;
+      assert.ok(invitationRefusal({ mode: 'off', allowedDomains: [] }));
+      assert.equal(invitationRefusal({ mode: 'invite_only', allowedDomains: [] }), null);
+      assert.equal(invitationRefusal({ mode: 'domains', allowedDomains: ['example.com'] }), null);
+    });
+  });
+
+  describe('signing up', () => {
+    const signUp = (email: string, password = PASSWORD) =>
+      app.client().request('POST', '/api/auth/register', { email, password, firstName: 'New', lastName: 'Person' });
+
+    it('refuses sign-ups the policy does not allow', async () => {
+      await setRegistrationPolicy({ mode: 'invite_only', allowedDomains: [] });
+      assert.equal((await signUp('dev@example.com')).status, 403);
+
+      await setRegistrationPolicy({ mode: 'domains', allowedDomains: ['studio.test'] });
+      assert.equal((await signUp('dev@example.com')).status, 403);
+      assert.deepEqual(await app.storage.listRegistrations(), []);
+    });
+
+    it('holds sign-ups for approval, and only then lets them sign in', async () => {
+      await setRegistrationPolicy({ mode: 'domains', allowedDomains: ['example.com'] });
+      const res = await signUp('dev@example.com');
+      assert.equal(res.status, 202);
+      assert.deepEqual(res.body, { status: 'pending', email: 'dev@example.com' });
+      assert.equal(await app.storage.getUserByEmail('dev@example.com'), null);
+
+      const early = await app.client().request('POST', '/api/auth/login', { email: 'dev@example.com', password: PASSWORD });
+      assert.equal(early.status, 403);
+      assert.equal(early.body.pendingApproval, true);
+      assert.equal((await signUp('dev@example.com')).status, 409);
+
+      await app.createUser('admin@example.com', 'admin', PASSWORD);
+      const admin = app.client();
+      await admin.login('admin@example.com', PASSWORD);
+      const [registration] = (await admin.request('GET', '/api/registrations')).body;
+      assert.equal(registration.passwordHash, undefined);
+      const approved = await admin.request('POST', `/api/registrations/${registration.id}/approve`, { role: 'project_lead' });
+      assert.equal(approved.status, 201);
+      assert.equal(approved.body.role, 'project_lead');
+
+      await app.client().login('dev@example.com', PASSWORD);
+    });
+
+    it('checks the password policy before holding a sign-up', async () => {
+      await setRegistrationPolicy({ mode: 'domains', allowedDomains: ['example.com'] });
+      const res = await signUp('dev@example.com', 'password123');
+      assert.equal(res.status, 400);
+      assert.deepEqual(await app.storage.listRegistrations(), []);
+    });
+  });
+});
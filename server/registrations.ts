@@ -0,0 +1,40 @@
+// Who can join the workspace, set by admins under Security Policy in Settings.
+// With registration off nobody new joins, not even by invitation; invite-only
+// leaves invitations as the way in; with allowed domains, people whose email
+// is at one of them can also sign up themselves. A sign-up is kept as a
+// registration, with its password already hashed, until an admin approves it
+// from the Users page - choosing the role - which creates the user, or
+// rejects it, which deletes it. Nobody signing up chooses their own role.
+import { getSecuritySettings } from './security-settings';
+import type { PendingRegistration, Registration, RegistrationPolicy } from '../shared/schema';
+
+const CLOSED = 'PixelForge Nexus is not taking new members right now';
+
+export async function getRegistrationPolicy(): Promise<RegistrationPolicy> {
+  return (await getSecuritySettings()).registration;
+}
+
+// Why invitations can't be sent or accepted, or null if they can
+export function invitationRefusal(policy: RegistrationPolicy): string | null {
+  return policy.mode === 'off' ? CLOSED : null;
+}
+
+// Why nobody can sign up with `email`, or null if they can
+export function signUpRefusal(policy: RegistrationPolicy, email: string): string | null {
+  switch (policy.mode) {
+    case 'off':
+      return CLOSED;
+    case 'invite_only':
+      return 'PixelForge Nexus is invite-only. Ask an administrator for an invitation.';
+    case 'domains': {
+      const domain = email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+      return policy.allowedDomains.includes(domain)
+        ? null
+        : `Sign-up is open to ${policy.allowedDomains.map(d => `@${d}`).join(', ')} email addresses only`;
+    }
+  }
+}
+
+export function toPendingRegistration({ passwordHash, ...registration }: Registration): PendingRegistration {
+  return registration;
+}
@@ -0,0 +1,92 @@
+// Signing in and reaching protected routes, through the API on the in-memory
+// backend
+import { describe, it, before, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer } from './test-server';
+import type { TestServer } from './test-server';
+
+const PASSWORD = 'Correct-Horse-Battery-9';
+
+describe('routes', () => {
+  let app: TestServer;
+
+  before(async () => {
+    app = await startTestServer();
+  });
+
+  beforeEach(async () => {
+    await app.reset();
+  });
+
+  after(async () => {
+    await app?.close();
+  });
+
+  it('refuses protected routes without a session', async () => {
+    const client = app.client();
+    assert.equal((await client.request('GET', '/api/projects')).status, 401);
+    assert.equal((await client.request('GET', '/api/auth/user')).status, 401);
+  });
+
+  it('refuses a wrong password, leaving the client signed out', async () => {
+    await app.createUser('dev@example.com', 'developer', PASSWORD);
+    const client = app.client();
+    const res = await client.request('POST', '/api/auth/login', { email: 'dev@example.com', password: 'Wrong-Password-1' });
+    assert.equal(res.status, 401);
+    assert.equal((await client.request('GET', '/api/projects')).status, 401);
+  });
+
+  it('signs in, reaches protected routes as that user, and signs out', async () => {
+    const admin = await app.createUser('admin@example.com', 'admin', PASSWORD);
+    const dev = await app.createUser('dev@example.com', 'developer', PASSWORD);
+    const assigned = await app.storage.createProject({ name: 'Assigned', createdBy: admin.id });
+    await app.storage.createProject({ name: 'Other', createdBy: admin.id });
+    await app.storage.assignUserToProject({ projectId: assigned.id, userId: dev.id, assignedBy: admin.id });
+
+    const client = app.client();
+    await client.login('dev@example.com', PASSWORD);
+    const user = await client.request('GET', '/api/auth/user');
+    assert.equal(user.status, 200);
+    assert.equal(user.body.email, 'dev@example.com');
+    assert.equal(user.body.passwordHash, undefined);
+
+    // Developers see only the projects they are assigned to
+    const projects = await client.request('GET', '/api/projects');
+    assert.equal(projects.status, 200);
+    assert.deepEqual(projects.body.items.map((p: { name: string }) => p.name), ['Assigned']);
+    assert.equal((await client.request('GET', '/api/users')).status, 403);
+
+    const adminClient = app.client();
+    await adminClient.login('admin@example.com', PASSWORD);
+    assert.equal((await adminClient.request('GET', '/api/projects')).body.total, 2);
+
+    const loggedOut = await client.request('POST', '/api/auth/logout');
+    assert.equal(loggedOut.status, 302);
+    assert.equal(loggedOut.headers.get('location'), '/');
+    assert.equal((await client.request('GET', '/api/projects')).status, 401);
+  });
+
+  it('ends a deleted user\'s sessions and API tokens, so a restore does not bring them back', async () => {
+    await app.createUser('admin@example.com', 'admin', PASSWORD);
+    const dev = await app.createUser('dev@example.com', 'developer', PASSWORD);
+    await app.storage.createApiToken({
+      userId: dev.id,
+      name: 'CI',
+      tokenHash: 'hash',
+      prefix: 'pfn_abcd',
+      access: 'read',
+      projectIds: [],
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    const client = app.client();
+    await client.login('dev@example.com', PASSWORD);
+
+    const adminClient = app.client();
+    await adminClient.login('admin@example.com', PASSWORD);
+    assert.equal((await adminClient.request('DELETE', `/api/users/${dev.id}`)).status, 204);
+    assert.equal((await adminClient.request('POST', `/api/trash/user/${dev.id}/restore`)).status, 204);
+
+    assert.equal((await client.request('GET', '/api/projects')).status, 401);
+    assert.deepEqual(await app.storage.listApiTokens(dev.id), []);
+  });
+});
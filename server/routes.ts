@@ -2,23 +2,57 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import express from "express";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated, type AuthRequest } from "./auth";
+import { setupAuth, isAuthenticated, isAuthenticatedForPasswordChange, isAuthenticatedWithApiToken, type AuthRequest } from "./auth";
 import type { Request, Response } from "express";
-import { requireAdmin, requireProjectLead, requireDeveloper } from "./middleware/auth";
-import { upload } from "./middleware/upload";
-import { sendWelcomeEmail } from "./email";
+import { requireAdmin, requireProjectLead, requireDeveloper, requireProjectMember } from "./middleware/auth";
+import { uploadTo, type StoredUpload } from "./middleware/upload";
+import { requireIfMatch } from "./middleware/if-match";
+import { invitationExpiry, newInvitationToken, sendInvitation, toPendingInvitation } from "./invitations";
+import { getRegistrationPolicy, invitationRefusal, toPendingRegistration } from "./registrations";
+import { sendRegistrationApprovedEmail, sendRegistrationRejectedEmail } from "./email";
+import { clearAccountThrottle, listLockedAccounts } from "./login-throttle";
+import { PasswordPolicyError, checkNewPassword, hashPassword, rememberPassword } from "./password-policy";
+import { fileStore, getFileStore } from "./file-store";
+import { DeleteRestrictedError, defaultUserDeletePolicy, isUserDeletePolicy } from "./delete-policy";
+import { purgeTrashItem } from "./trash";
+import { runUnitOfWork } from "./unit-of-work";
+import { VersionConflictError, toEtag } from "./versioning";
+import { recordAudit, diffFields, auditEntriesToCsv } from "./audit";
+import { verifyAuditChain } from "./audit-chain";
+import { createBackup, recordBackup, writeBackup } from "./backup";
+import { getSecuritySettings, saveSecuritySettings } from "./security-settings";
+import {
+  projectListQuerySchema,
+  userListQuerySchema,
+  searchQuerySchema,
+  auditLogQuerySchema,
+  projectActivityQuerySchema,
+  projectActivityActions,
+  securitySettingsSchema,
+  createInvitationSchema,
+  approveRegistrationSchema,
+  changePasswordSchema,
+} from "@shared/schema";
 // Import types from shared schema
-import type { CreateUser, InsertProject, InsertProjectAssignment } from "@shared/schema";
+import type { AccountLockout, CreateUser, InsertProject, InsertProjectAssignment, TrashItemType } from "@shared/schema";
 import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
 import bcrypt from "bcryptjs";
 
+// Documents' files are streamed into the file store for new uploads as they
+// arrive, before the route runs
+const documentUpload = uploadTo(fileStore, (req, file) => ({
+  folder: 'pixelforge-nexus/documents',
+  filename: `${req.params.id}_${Date.now()}_${file.originalname}`,
+  mimeType: file.mimetype,
+}));
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
   // Serve uploaded files with authentication check
-  // File uploads are now handled through Cloudinary - no local uploads directory needed
+  // File uploads go through the configured file storage provider (see file-store.ts)
 
   // Auth routes are now handled in auth.ts
 
@@ -30,7 +64,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }, async (req: AuthRequest, res: Response) => {
     try {
-      const users = await storage.getAllUsers();
+      const query = userListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: fromZodError(query.error).message });
+      }
+
+      const users = await storage.listUsers(query.data);
       res.json(users);
     } catch (error) {
       console.error("Error fetching users:", error);
@@ -38,69 +77,285 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/users', (req, res, next) => {
+  // Accounts locked out after too many failed sign-in attempts - see
+  // login-throttle.ts
+  app.get('/api/users/lockouts', (req, res, next) => {
     isAuthenticated(req as AuthRequest, res, (err) => {
       if (err) return next(err);
       requireAdmin(req as AuthRequest, res, next);
     });
   }, async (req: AuthRequest, res) => {
     try {
-      // Parse the data first with password
-      const { password, ...userData } = req.body;
-      
-      if (!password) {
-        return res.status(400).json({ message: "Password is required" });
+      const lockouts: AccountLockout[] = [];
+      for (const { email, lockedUntil } of await listLockedAccounts()) {
+        const user = await storage.getUserByEmail(email);
+        if (user) lockouts.push({ userId: user.id, email: user.email, lockedUntil });
       }
-      
-      // Hash the password
-      const passwordHash = await bcrypt.hash(password, 10);
-      
-      // Create the final user data with passwordHash
-      const finalUserData = {
-        ...userData,
-        passwordHash,
-      };
-      
-      // Basic validation for MongoDB
-      if (!finalUserData.email || !finalUserData.firstName || !finalUserData.lastName || !finalUserData.passwordHash) {
-        return res.status(400).json({ message: "Missing required fields" });
+      res.json(lockouts);
+    } catch (error) {
+      console.error("Error fetching lockouts:", error);
+      res.status(500).json({ message: "Failed to fetch lockouts" });
+    }
+  });
+
+  // Invitations (admin only). People join by accepting an emailed invitation
+  // and choosing their own password - see invitations.ts.
+  app.get('/api/invitations', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      res.json((await storage.listInvitations()).map(toPendingInvitation));
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+
+  app.post('/api/invitations', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const body = createInvitationSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: fromZodError(body.error).message });
       }
-      
-      const validatedData = {
-        email: finalUserData.email,
-        firstName: finalUserData.firstName,
-        lastName: finalUserData.lastName,
-        passwordHash: finalUserData.passwordHash,
-        role: finalUserData.role || 'developer',
-        profileImageUrl: finalUserData.profileImageUrl || null,
-      };
-      
-      const user = await storage.createUser(validatedData);
-      
-      // Send welcome email with temporary password
+      if (invitationRefusal(await getRegistrationPolicy())) {
+        return res.status(400).json({ message: "Registration is off. Turn it on under Security Policy in Settings to invite people." });
+      }
+
+      if (await storage.getUserByEmail(body.data.email)) {
+        return res.status(400).json({ message: "A user with this email already exists" });
+      }
+      if (await storage.getInvitationByEmail(body.data.email)) {
+        return res.status(409).json({ message: "This email has already been invited. Resend the invitation instead." });
+      }
+      if (await storage.getRegistrationByEmail(body.data.email)) {
+        return res.status(409).json({ message: "This email has signed up and is waiting for approval. Approve the sign-up instead." });
+      }
+
+      const { token, tokenHash } = newInvitationToken();
+      const invitation = await runUnitOfWork(async () => {
+        const invitation = await storage.createInvitation({
+          ...body.data,
+          invitedBy: req.user!.id,
+          expiresAt: invitationExpiry(),
+          tokenHash,
+        });
+        await recordAudit(req, {
+          action: 'invitation.create',
+          targetType: 'invitation',
+          targetId: invitation.id,
+          targetName: invitation.email,
+          changes: diffFields(null, invitation, ['email', 'firstName', 'lastName', 'role']),
+        });
+        return invitation;
+      });
+
       try {
-        await sendWelcomeEmail(validatedData.email, password, validatedData.firstName);
-        console.log(`Welcome email sent to ${validatedData.email}`);
+        await sendInvitation(invitation, token, req.user!);
       } catch (emailError) {
-        console.error("Failed to send welcome email, but user was created:", emailError);
-        // Don't fail the user creation if email fails
+        console.error("Failed to send invitation email:", emailError);
+        return res.status(502).json({ message: "The invitation was saved, but its email could not be sent. Try resending it." });
       }
-      
-      res.status(201).json(user);
+
+      res.status(201).json(toPendingInvitation(invitation));
+    } catch (error) {
+      console.error("Error creating invitation:", error);
+      res.status(500).json({ message: "Failed to create invitation" });
+    }
+  });
+
+  // Sends a new link that expires later; earlier links stop working
+  app.post('/api/invitations/:id/resend', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      if (invitationRefusal(await getRegistrationPolicy())) {
+        return res.status(400).json({ message: "Registration is off. Turn it on under Security Policy in Settings to invite people." });
+      }
+
+      const { token, tokenHash } = newInvitationToken();
+      const invitation = await runUnitOfWork(async () => {
+        const invitation = await storage.renewInvitation(req.params.id, invitationExpiry(), tokenHash);
+        if (!invitation) return null;
+        await recordAudit(req, {
+          action: 'invitation.resend',
+          targetType: 'invitation',
+          targetId: invitation.id,
+          targetName: invitation.email,
+        });
+        return invitation;
+      });
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      try {
+        await sendInvitation(invitation, token, req.user!);
+      } catch (emailError) {
+        console.error("Failed to send invitation email:", emailError);
+        return res.status(502).json({ message: "The invitation email could not be sent" });
+      }
+
+      res.json(toPendingInvitation(invitation));
+    } catch (error) {
+      console.error("Error resending invitation:", error);
+      res.status(500).json({ message: "Failed to resend invitation" });
+    }
+  });
+
+  app.delete('/api/invitations/:id', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const revoked = await runUnitOfWork(async () => {
+        const invitation = await storage.getInvitation(req.params.id);
+        if (!invitation || !(await storage.deleteInvitation(invitation.id))) return false;
+        await recordAudit(req, {
+          action: 'invitation.revoke',
+          targetType: 'invitation',
+          targetId: invitation.id,
+          targetName: invitation.email,
+        });
+        return true;
+      });
+      if (!revoked) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+
+  // Sign-ups waiting for approval (admin only) - see registrations.ts.
+  // Approving one creates the user with the role the admin chooses.
+  app.get('/api/registrations', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      res.json((await storage.listRegistrations()).map(toPendingRegistration));
+    } catch (error) {
+      console.error("Error fetching registrations:", error);
+      res.status(500).json({ message: "Failed to fetch sign-ups" });
+    }
+  });
+
+  app.post('/api/registrations/:id/approve', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const body = approveRegistrationSchema.safeParse(req.body ?? {});
+      if (!body.success) {
+        return res.status(400).json({ message: fromZodError(body.error).message });
+      }
+
+      const user = await runUnitOfWork(async () => {
+        const registration = await storage.getRegistration(req.params.id);
+        if (!registration || !(await storage.deleteRegistration(registration.id))) return null;
+
+        const user = await storage.createUser({
+          email: registration.email,
+          passwordHash: registration.passwordHash,
+          firstName: registration.firstName,
+          lastName: registration.lastName,
+          role: body.data.role,
+        });
+        await rememberPassword(user.id, registration.passwordHash);
+        await recordAudit(req, {
+          action: 'registration.approve',
+          targetType: 'user',
+          targetId: user.id,
+          targetName: user.email,
+          changes: diffFields(null, user, ['email', 'firstName', 'lastName', 'role']),
+        });
+        return user;
+      });
+      if (!user) {
+        return res.status(404).json({ message: "Sign-up not found" });
+      }
+
+      try {
+        await sendRegistrationApprovedEmail(user.email, user.firstName ?? user.email);
+      } catch (emailError) {
+        console.error("Failed to send registration approved email:", emailError);
+      }
+
+      const { passwordHash: _, ...userWithoutPassword } = user;
+      res.status(201).json(userWithoutPassword);
     } catch (error: any) {
-      console.error("Error creating user:", error);
-      if (error.message && error.message.includes('duplicate') || error.message.includes('unique')) {
-        return res.status(400).json({ message: "A user with this email already exists" });
+      console.error("Error approving registration:", error);
+      if (error.message?.includes('duplicate') || error.message?.includes('unique')) {
+        return res.status(409).json({ message: "A user with this email already exists" });
       }
-      res.status(500).json({ message: "Failed to create user" });
+      res.status(500).json({ message: "Failed to approve sign-up" });
     }
   });
 
-  app.patch('/api/users/:id/role', (req, res, next) => {
+  // Rejecting a sign-up deletes it; the person is emailed
+  app.delete('/api/registrations/:id', (req, res, next) => {
     isAuthenticated(req as AuthRequest, res, (err) => {
       if (err) return next(err);
       requireAdmin(req as AuthRequest, res, next);
     });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const registration = await runUnitOfWork(async () => {
+        const registration = await storage.getRegistration(req.params.id);
+        if (!registration || !(await storage.deleteRegistration(registration.id))) return null;
+        await recordAudit(req, {
+          action: 'registration.reject',
+          targetType: 'registration',
+          targetId: registration.id,
+          targetName: registration.email,
+        });
+        return registration;
+      });
+      if (!registration) {
+        return res.status(404).json({ message: "Sign-up not found" });
+      }
+
+      try {
+        await sendRegistrationRejectedEmail(registration.email, registration.firstName);
+      } catch (emailError) {
+        console.error("Failed to send registration rejected email:", emailError);
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error rejecting registration:", error);
+      res.status(500).json({ message: "Failed to reject sign-up" });
+    }
+  });
+
+  app.patch('/api/users/:id/role', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, (err2) => {
+        if (err2) return next(err2);
+        requireIfMatch(req, res, next);
+      });
+    });
   }, async (req: AuthRequest, res) => {
     try {
       const { id } = req.params;
@@ -110,7 +365,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid role" });
       }
 
-      await storage.updateUser(id, { role });
+      const user = await storage.getUserById(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      try {
+        await runUnitOfWork(async () => {
+          await storage.updateUser(id, { role }, res.locals.expectedVersion);
+          await recordAudit(req, {
+            action: 'user.role_change',
+            targetType: 'user',
+            targetId: id,
+            targetName: user.email,
+            changes: diffFields(user, { ...user, role }, ['role']),
+          });
+        });
+      } catch (error) {
+        if (!(error instanceof VersionConflictError)) throw error;
+        const { passwordHash, ...current } = (await storage.getUserById(id))!;
+        res.set('ETag', toEtag(error.currentVersion));
+        return res.status(412).json({ message: "User was changed by someone else", current });
+      }
+
+      res.set('ETag', toEtag(res.locals.expectedVersion + 1));
       res.json({ message: "User role updated successfully" });
     } catch (error) {
       console.error("Error updating user role:", error);
@@ -126,7 +404,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }, async (req: AuthRequest, res) => {
     try {
       const { id } = req.params;
-      await storage.deleteUser(id);
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot delete your own account" });
+      }
+
+      const user = await storage.getUserById(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Moves the user to the trash; they can no longer sign in. Their
+      // sessions and API tokens end, so a restore doesn't bring them back.
+      await runUnitOfWork(async () => {
+        await storage.moveToTrash('user', id, req.user!.id);
+        await storage.deleteUserSessions(id);
+        await storage.deleteUserApiTokens(id);
+        await recordAudit(req, { action: 'user.delete', targetType: 'user', targetId: id, targetName: user.email });
+      });
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting user:", error);
@@ -134,40 +428,127 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Password update route - users can update their own password
-  app.patch('/api/users/password', (req, res, next) => {
-    isAuthenticated(req as AuthRequest, res, next);
+  // Signs the user out everywhere, effective on their next request
+  app.delete('/api/users/:id/sessions', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
   }, async (req: AuthRequest, res) => {
     try {
-      const { currentPassword, newPassword } = req.body;
-      const userId = req.user!.id;
-      
-      if (!currentPassword || !newPassword) {
-        return res.status(400).json({ message: "Current password and new password are required" });
+      const { id } = req.params;
+      const user = await storage.getUserById(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      if (newPassword.length < 6) {
-        return res.status(400).json({ message: "New password must be at least 6 characters long" });
+      const sessions = await storage.listUserSessions(id);
+      await runUnitOfWork(async () => {
+        await storage.deleteUserSessions(id);
+        await recordAudit(req, {
+          action: 'user.sessions_revoke',
+          targetType: 'user',
+          targetId: id,
+          targetName: user.email,
+          note: `${sessions.length} session(s) revoked`,
+        });
+      });
+      res.json({ revoked: sessions.length });
+    } catch (error) {
+      console.error("Error revoking user sessions:", error);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
+  // Lets a locked-out user try to sign in again right away
+  app.delete('/api/users/:id/lockout', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const { id } = req.params;
+      const user = await storage.getUserById(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      // Get current user to verify password
-      const user = await storage.getUserById(userId);
+      await runUnitOfWork(async () => {
+        await clearAccountThrottle(user.email);
+        await recordAudit(req, { action: 'user.unlock', targetType: 'user', targetId: id, targetName: user.email });
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error unlocking user:", error);
+      res.status(500).json({ message: "Failed to unlock user" });
+    }
+  });
+
+  // For users who lost both their authenticator app and their recovery codes.
+  // They are signed out, and set two-factor authentication up again if their
+  // role requires it.
+  app.delete('/api/users/:id/two-factor', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const { id } = req.params;
+      const user = await storage.getUserById(id);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
+      if (!(await storage.getUserTwoFactor(id))) {
+        return res.status(404).json({ message: "Two-factor authentication is not set up for this user" });
+      }
+
+      await runUnitOfWork(async () => {
+        await storage.deleteUserTwoFactor(id);
+        await storage.deleteUserSessions(id);
+        await recordAudit(req, { action: 'user.two_factor_reset', targetType: 'user', targetId: id, targetName: user.email });
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error resetting two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  // Password update route - users can update their own password, including
+  // when it has expired
+  app.patch('/api/users/password', (req, res, next) => {
+    isAuthenticatedForPasswordChange(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      const body = changePasswordSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: fromZodError(body.error).message });
+      }
+      const user = req.user!;
 
       // Verify current password
-      const isValidPassword = await bcrypt.compare(currentPassword, user.passwordHash);
+      const isValidPassword = await bcrypt.compare(body.data.currentPassword, user.passwordHash);
       if (!isValidPassword) {
         return res.status(400).json({ message: "Current password is incorrect" });
       }
 
-      // Hash new password and update
-      const newPasswordHash = await bcrypt.hash(newPassword, 10);
-      await storage.updateUser(userId, { passwordHash: newPasswordHash });
+      await checkNewPassword(body.data.newPassword, user);
+      const passwordHash = await hashPassword(body.data.newPassword);
+      // The entry records that the password changed, never the hashes
+      await runUnitOfWork(async () => {
+        await storage.updateUser(user.id, { passwordHash });
+        await rememberPassword(user.id, passwordHash);
+        await recordAudit(req, { action: 'user.password_change', targetType: 'user', targetId: user.id, targetName: user.email });
+      });
+      req.session.passwordChangeRequired = false;
 
       res.json({ message: "Password updated successfully" });
     } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error updating password:", error);
       res.status(500).json({ message: "Failed to update password" });
     }
@@ -178,20 +559,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     isAuthenticated(req as AuthRequest, res, next);
   }, async (req: AuthRequest, res) => {
     try {
-      const userId = req.user!.id;
-      
-      let projects;
-      if (req.user!.role === 'admin') {
-        // Admins see all projects
-        projects = await storage.getAllProjects();
-      } else if (req.user!.role === 'project_lead') {
-        // Project leads see all projects (they can be assigned to any project)
-        projects = await storage.getAllProjects();
-      } else {
-        // Developers see only their assigned projects
-        projects = await storage.getUserProjects(userId);
+      const query = projectListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: fromZodError(query.error).message });
       }
-      
+
+      // Admins and project leads see all projects (leads can be assigned to any
+      // project); developers see only their assigned projects
+      const memberId = req.user!.role === 'developer' ? req.user!.id : undefined;
+      const projects = await storage.listProjects(query.data, memberId);
       res.json(projects);
     } catch (error) {
       console.error("Error fetching projects:", error);
@@ -200,7 +576,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.get('/api/projects/:id', (req, res, next) => {
-    isAuthenticated(req as AuthRequest, res, next);
+    isAuthenticatedWithApiToken('read')(req as AuthRequest, res, next);
   }, async (req: AuthRequest, res) => {
     try {
       const { id } = req.params;
@@ -213,19 +589,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Check access permissions
       if (req.user!.role === 'developer') {
-        const hasAccess = project.assignments.some((assignment: any) => assignment.userId === userId);
+        const hasAccess = project.assignments.some(assignment => assignment.userId === userId);
         if (!hasAccess) {
           return res.status(403).json({ message: "Access denied" });
         }
       } else if (req.user!.role === 'project_lead') {
         // Project leads can access projects they lead or are assigned to
         const isLead = project.projectLeadId === userId;
-        const isAssigned = project.assignments.some((assignment: any) => assignment.userId === userId);
+        const isAssigned = project.assignments.some(assignment => assignment.userId === userId);
         if (!isLead && !isAssigned) {
           return res.status(403).json({ message: "Access denied" });
         }
       }
 
+      // The ETag versions the project's own fields, not its assignments and
+      // documents, so it must not be used to revalidate a cached copy
+      res.set('ETag', toEtag(project.version));
+      res.set('Cache-Control', 'no-store');
       res.json(project);
     } catch (error) {
       console.error("Error fetching project:", error);
@@ -248,6 +628,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Project name is required" });
       }
       
+      if (projectLeadId) {
+        const projectLead = await storage.getUserById(projectLeadId);
+        if (!projectLead) {
+          return res.status(404).json({ message: "Project lead not found" });
+        }
+        if (projectLead.role !== 'project_lead' && projectLead.role !== 'admin') {
+          return res.status(400).json({ message: "User must be a project lead or admin" });
+        }
+      }
+
       const projectData = {
         name,
         description: description || null,
@@ -257,7 +647,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         createdBy: userId,
       };
       
-      const project = await storage.createProject(projectData);
+      // The lead joins the project's team; both are recorded or neither is
+      const project = await runUnitOfWork(async () => {
+        const project = await storage.createProject(projectData);
+        if (projectLeadId) {
+          await storage.assignUserToProject({ projectId: project.id, userId: projectLeadId, assignedBy: userId });
+        }
+        await recordAudit(req, {
+          action: 'project.create',
+          targetType: 'project',
+          targetId: project.id,
+          targetName: project.name,
+          changes: diffFields(null, project, ['name', 'description', 'deadline', 'status', 'projectLeadId']),
+        });
+        return project;
+      });
       
       res.status(201).json(project);
     } catch (error) {
@@ -268,15 +672,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Allow project leads to update their own projects and admins to update any project
   app.patch('/api/projects/:id', (req, res, next) => {
-    isAuthenticated(req as AuthRequest, res, (err) => {
+    isAuthenticatedWithApiToken('write')(req as AuthRequest, res, (err) => {
       if (err) return next(err);
-      requireProjectLead(req as AuthRequest, res, next);
+      requireProjectLead(req as AuthRequest, res, (err2) => {
+        if (err2) return next(err2);
+        requireIfMatch(req, res, next);
+      });
     });
   }, async (req: AuthRequest, res) => {
     try {
       const { id } = req.params;
       const userId = req.user!.id;
-      const { name, description, deadline, status, projectLeadId } = req.body;
+      const { name, description, deadline, status, projectLeadId, note } = req.body;
       
       const projectData = {
         ...(name && { name }),
@@ -285,21 +692,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...(status && { status }),
         ...(projectLeadId !== undefined && { projectLeadId }),
       };
+
+      // Optional reason for the change, shown in the project's activity feed
+      if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 500)) {
+        return res.status(400).json({ message: "Note must be text of at most 500 characters" });
+      }
       
+      const existing = await storage.getProjectById(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
       // Check if user can update this project
       if (req.user!.role === 'project_lead') {
-        const project = await storage.getProjectById(id);
-        if (!project) {
-          return res.status(404).json({ message: "Project not found" });
-        }
-        
-        if (project.projectLeadId !== userId && project.createdBy.id !== userId) {
+        if (existing.projectLeadId !== userId && existing.createdBy?.id !== userId) {
           return res.status(403).json({ message: "You can only update projects you lead or created" });
         }
       }
       // Admins can update any project (no additional checks needed)
       
-      const project = await storage.updateProject(id, projectData);
+      let project;
+      try {
+        project = await runUnitOfWork(async () => {
+          await storage.updateProject(id, projectData, res.locals.expectedVersion);
+          const project = (await storage.getProjectById(id))!;
+          await recordAudit(req, {
+            action: 'project.update',
+            targetType: 'project',
+            targetId: id,
+            targetName: project.name,
+            changes: diffFields(existing, project, ['name', 'description', 'deadline', 'status', 'projectLeadId']),
+            note: note?.trim() || null,
+          });
+          return project;
+        });
+      } catch (error) {
+        if (!(error instanceof VersionConflictError)) throw error;
+        // Someone saved first - send their version so the client can show both
+        const current = await storage.getProjectById(id);
+        res.set('ETag', toEtag(error.currentVersion));
+        return res.status(412).json({ message: "Project was changed by someone else", current });
+      }
+
+      res.set('ETag', toEtag(project.version));
       res.json(project);
     } catch (error) {
       console.error("Error updating project:", error);
@@ -315,7 +750,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }, async (req: AuthRequest, res) => {
     try {
       const { id } = req.params;
-      await storage.deleteProject(id);
+      const project = await storage.getProjectById(id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      // Moves the project, with its assignments and documents, to the trash
+      await runUnitOfWork(async () => {
+        await storage.moveToTrash('project', id, req.user!.id);
+        await recordAudit(req, { action: 'project.delete', targetType: 'project', targetId: id, targetName: project.name });
+      });
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting project:", error);
@@ -328,7 +772,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     isAuthenticated(req as AuthRequest, res, (err) => {
       if (err) return next(err);
       // Allow both admins and project leads to assign users
-      if (!req.user || !['admin', 'project_lead'].includes(req.user.role)) {
+      const { user } = req as AuthRequest;
+      if (!user || !['admin', 'project_lead'].includes(user.role)) {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
       next();
@@ -366,8 +811,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } else if (req.user!.role === 'project_lead') {
         // Check if the project lead has permission to assign to this project
         const isProjectLead = project.projectLeadId === assignedBy;
-        const isProjectCreator = project.createdBy === assignedBy;
-        const isAssignedToProject = project.assignments.some((a: any) => a.userId === assignedBy);
+        const isProjectCreator = project.createdBy?.id === assignedBy;
+        const isAssignedToProject = project.assignments.some(a => a.userId === assignedBy);
         
         if (!isProjectLead && !isProjectCreator && !isAssignedToProject) {
           return res.status(403).json({ message: "You can only assign users to projects you lead, created, or are assigned to" });
@@ -379,10 +824,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      const assignment = await storage.assignUserToProject({
-        projectId,
-        userId,
-        assignedBy
+      const assignment = await runUnitOfWork(async () => {
+        const assignment = await storage.assignUserToProject({
+          projectId,
+          userId,
+          assignedBy
+        });
+        await recordAudit(req, {
+          action: 'project.assign',
+          targetType: 'project',
+          targetId: projectId,
+          targetName: project.name,
+          changes: { member: { before: null, after: userToAssign.email } },
+        });
+        return assignment;
       });
       res.status(201).json(assignment);
     } catch (error) {
@@ -402,7 +857,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }, async (req: AuthRequest, res) => {
     try {
       const { projectId, userId } = req.params;
-      await storage.removeUserFromProject(projectId, userId);
+      const project = await storage.getProjectById(projectId);
+      const member = project?.assignments.find(a => a.userId === userId);
+      if (!project || !member) {
+        // Nothing to remove
+        return res.status(204).send();
+      }
+
+      await runUnitOfWork(async () => {
+        await storage.removeUserFromProject(projectId, userId);
+        await recordAudit(req, {
+          action: 'project.unassign',
+          targetType: 'project',
+          targetId: projectId,
+          targetName: project.name,
+          changes: { member: { before: member.user.email, after: null } },
+        });
+      });
       res.status(204).send();
     } catch (error) {
       console.error("Error removing user from project:", error);
@@ -435,18 +906,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "User must be a project lead or admin" });
       }
 
-      // Update the project's project lead
-      const updatedProject = await storage.updateProject(projectId, { projectLeadId });
-      res.json(updatedProject);
+      const project = await storage.getProjectById(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      // Update the project's project lead and add them to the team
+      await runUnitOfWork(async () => {
+        await storage.updateProject(projectId, { projectLeadId });
+        if (!project.assignments.some(a => a.userId === projectLeadId)) {
+          await storage.assignUserToProject({ projectId, userId: projectLeadId, assignedBy: req.user!.id });
+        }
+        await recordAudit(req, {
+          action: 'project.lead_change',
+          targetType: 'project',
+          targetId: projectId,
+          targetName: project.name,
+          // The emails keep the change readable in the project's activity feed
+          changes: diffFields(
+            { projectLeadId: project.projectLeadId, projectLead: project.projectLead?.email ?? null },
+            { projectLeadId, projectLead: projectLead.email },
+            ['projectLeadId', 'projectLead'],
+          ),
+        });
+      });
+      res.json(await storage.getProjectById(projectId));
     } catch (error: any) {
       console.error("Error assigning project lead:", error);
       res.status(500).json({ message: "Failed to assign project lead" });
     }
   });
 
+  // Project activity feed - the project's audit entries, minus IPs and hashes.
+  // Visible to whoever can see the project.
+  app.get('/api/projects/:id/activity', (req, res, next) => {
+    isAuthenticatedWithApiToken('read')(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const query = projectActivityQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: fromZodError(query.error).message });
+      }
+
+      const project = await storage.getProjectById(id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const isAssigned = project.assignments.some(assignment => assignment.userId === userId);
+      if (req.user!.role === 'developer' && !isAssigned) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (req.user!.role === 'project_lead' && project.projectLeadId !== userId && !isAssigned) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const page = await storage.listAuditEntries({ ...query.data, projectId: id, actions: projectActivityActions });
+      res.json({
+        ...page,
+        items: page.items.map(({ ip, hash, previousHash, sequence, projectId, ...activity }) => activity),
+      });
+    } catch (error) {
+      console.error("Error fetching project activity:", error);
+      res.status(500).json({ message: "Failed to fetch project activity" });
+    }
+  });
+
   // Document routes
   app.get('/api/projects/:id/documents', (req, res, next) => {
-    isAuthenticated(req as AuthRequest, res, next);
+    isAuthenticatedWithApiToken('read')(req as AuthRequest, res, next);
   }, async (req: AuthRequest, res) => {
     try {
       const { id } = req.params;
@@ -459,7 +990,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: "Project not found" });
         }
         
-        const hasAccess = project.assignments.some((assignment: any) => assignment.userId === userId);
+        const hasAccess = project.assignments.some(assignment => assignment.userId === userId);
         if (!hasAccess) {
           return res.status(403).json({ message: "Access denied" });
         }
@@ -474,45 +1005,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.post('/api/projects/:id/documents', (req, res, next) => {
-    isAuthenticated(req as AuthRequest, res, (err) => {
+    isAuthenticatedWithApiToken('write')(req as AuthRequest, res, (err) => {
       if (err) return next(err);
       requireProjectLead(req as AuthRequest, res, (err2) => {
         if (err2) return next(err2);
-        upload.array('files', 10)(req, res, next);
+        // Refused before any of the files are read
+        requireProjectMember(req as AuthRequest, res, (err3) => {
+          if (err3) return next(err3);
+          documentUpload.array('files', 10)(req, res, (err4) => {
+            if (err4?.code === 'LIMIT_FILE_SIZE') {
+              return res.status(413).json({ message: `Files can be at most ${fileStore.maxUploadSize / (1024 * 1024)} MB` });
+            }
+            next(err4);
+          });
+        });
       });
     });
   }, async (req: AuthRequest, res) => {
       try {
         const { id: projectId } = req.params;
         const userId = req.user!.id;
-        const files = req.files as Express.Multer.File[];
+        const files = req.files as StoredUpload[];
 
         if (!files || files.length === 0) {
           return res.status(400).json({ message: "No files uploaded" });
         }
 
-        const { cloudinaryService } = await import('./cloudinary');
-        const uploadedDocuments = [];
-        
-        for (const file of files) {
-          // Upload to Cloudinary
-          const cloudinaryResult = await cloudinaryService.uploadFile(file.buffer, {
-            folder: 'pixelforge-nexus/documents',
-            filename: `${projectId}_${Date.now()}_${file.originalname}`,
-          });
+        // Either every file is stored and recorded, or none is
+        const uploadedDocuments = await runUnitOfWork(async (unit) => {
+          // The files are already in the configured file storage provider
+          files.forEach(file => unit.adoptFile(fileStore, file.stored));
+          const uploadedDocuments = [];
 
-          const document = await storage.createDocument({
-            projectId,
-            fileName: cloudinaryResult.public_id,
-            originalName: file.originalname,
-            fileSize: file.size,
-            mimeType: file.mimetype,
-            uploadedBy: userId,
-            cloudinaryUrl: cloudinaryResult.secure_url,
-            cloudinaryPublicId: cloudinaryResult.public_id,
-          });
-          uploadedDocuments.push(document);
-        }
+          for (const file of files) {
+            const storedFile = file.stored;
+
+            const document = await storage.createDocument({
+              projectId,
+              fileName: storedFile.key,
+              originalName: file.originalname,
+              fileSize: file.size,
+              mimeType: file.mimetype,
+              uploadedBy: userId,
+              storageProvider: fileStore.name,
+              storageKey: storedFile.key,
+              storageUrl: storedFile.url,
+            });
+            await recordAudit(req, {
+              action: 'document.upload',
+              targetType: 'document',
+              targetId: document.id,
+              targetName: document.originalName,
+              projectId,
+              changes: diffFields(null, document, ['originalName', 'fileSize', 'mimeType']),
+            });
+            uploadedDocuments.push(document);
+          }
+
+          return uploadedDocuments;
+        });
 
         res.status(201).json(uploadedDocuments);
       } catch (error) {
@@ -522,7 +1073,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
-  // File download route - redirect to Cloudinary URL
+  // The largest file the upload form can send to the configured file store
+  app.get('/api/documents/upload-limit', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, next);
+  }, (req: AuthRequest, res) => {
+    res.json({ maxFileSize: fileStore.maxUploadSize });
+  });
+
+  // File download route - streams from the file storage provider, or redirects
+  // to a URL the provider hands out (Cloudinary asset, presigned S3 URL)
   app.get('/api/documents/:id/download', (req, res, next) => {
     isAuthenticated(req as AuthRequest, res, next);
   }, async (req: AuthRequest, res) => {
@@ -541,15 +1100,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       if (req.user!.role === 'developer') {
-        const hasAccess = project.assignments.some((assignment: any) => assignment.userId === req.user!.id);
+        const hasAccess = project.assignments.some(assignment => assignment.userId === req.user!.id);
         if (!hasAccess) {
           return res.status(403).json({ message: 'Access denied' });
         }
       }
 
-      // Redirect to Cloudinary URL for download
-      res.redirect(document.cloudinaryUrl);
-    } catch (error) {
+      // Who accessed which document is part of the audit trail
+      await recordAudit(req, {
+        action: 'document.download',
+        targetType: 'document',
+        targetId: document.id,
+        targetName: document.originalName,
+        projectId: document.projectId,
+      });
+
+      const download = await getFileStore(document.storageProvider).getDownload(
+        { key: document.storageKey, url: document.storageUrl },
+        { fileName: document.originalName, mimeType: document.mimeType },
+      );
+      if ('redirectUrl' in download) {
+        return res.redirect(download.redirectUrl);
+      }
+
+      res.setHeader('Content-Type', document.mimeType);
+      res.setHeader('Content-Length', document.fileSize);
+      res.attachment(document.originalName);
+      download.stream.on('error', (streamError) => {
+        console.error('Error streaming document:', streamError);
+        res.destroy(streamError);
+      });
+      download.stream.pipe(res);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return res.status(404).json({ message: 'File not found' });
+      }
       console.error('Error downloading document:', error);
       res.status(500).json({ message: 'Failed to download document' });
     }
@@ -564,23 +1149,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       
-      // Find the document first to get its Cloudinary public ID
       const document = await storage.getDocumentById(id);
       
       if (!document) {
         return res.status(404).json({ message: "Document not found" });
       }
       
-      // Delete from Cloudinary
-      try {
-        const { cloudinaryService } = await import('./cloudinary');
-        await cloudinaryService.deleteFile(document.cloudinaryPublicId);
-      } catch (cloudinaryError) {
-        console.error("Error deleting from Cloudinary:", cloudinaryError);
-        // Continue with database deletion even if Cloudinary deletion fails
-      }
-      
-      await storage.deleteDocument(id);
+      // Moves the document to the trash; its file is kept until the trash is purged
+      await runUnitOfWork(async () => {
+        await storage.moveToTrash('document', id, req.user!.id);
+        await recordAudit(req, {
+          action: 'document.delete',
+          targetType: 'document',
+          targetId: id,
+          targetName: document.originalName,
+          projectId: document.projectId,
+        });
+      });
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting document:", error);
@@ -588,6 +1173,260 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Trash routes (Admin only)
+  const trashItemTypes: TrashItemType[] = ['project', 'document', 'user'];
+
+  app.get('/api/trash', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const items = await storage.getTrash();
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  app.post('/api/trash/:type/:id/restore', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const { type, id } = req.params;
+      const item = (await storage.getTrash()).find(i => i.type === type && i.id === id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found in trash" });
+      }
+
+      await runUnitOfWork(async () => {
+        await storage.restoreFromTrash(item.type, item.id);
+        await recordAudit(req, {
+          action: 'trash.restore',
+          targetType: item.type,
+          targetId: item.id,
+          targetName: item.name,
+          projectId: item.projectId,
+        });
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error restoring from trash:", error);
+      res.status(500).json({ message: "Failed to restore item" });
+    }
+  });
+
+  app.delete('/api/trash/:type/:id', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const { type, id } = req.params;
+      if (!trashItemTypes.includes(type as TrashItemType)) {
+        return res.status(400).json({ message: "Invalid item type" });
+      }
+
+      const item = (await storage.getTrash()).find(i => i.type === type && i.id === id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found in trash" });
+      }
+
+      // For users, the body may choose what happens to their projects and records
+      const policy = req.body?.projectLead ? req.body : defaultUserDeletePolicy;
+      if (!isUserDeletePolicy(policy)) {
+        return res.status(400).json({ message: "Invalid delete policy" });
+      }
+
+      await runUnitOfWork(async () => {
+        await recordAudit(req, {
+          action: 'trash.purge',
+          targetType: item.type,
+          targetId: item.id,
+          targetName: item.name,
+          projectId: item.projectId,
+        });
+        await purgeTrashItem(item, policy);
+      });
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof DeleteRestrictedError) {
+        return res.status(409).json({ message: error.message, references: error.references });
+      }
+      console.error("Error purging from trash:", error);
+      res.status(500).json({ message: "Failed to permanently delete item" });
+    }
+  });
+
+  // Search route - results follow the same visibility rules as GET /api/projects/:id
+  app.get('/api/search', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, next);
+  }, async (req: AuthRequest, res) => {
+    try {
+      const query = searchQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: fromZodError(query.error).message });
+      }
+
+      // Admins search everything; project leads see projects they lead or are
+      // assigned to, developers only their assigned ones. People are listed for
+      // those who can see the user list.
+      const { id: userId, role } = req.user!;
+      const results = await storage.search(query.data, {
+        visibleTo: role === 'admin' ? undefined : { userId, includeLed: role === 'project_lead' },
+        includeUsers: role !== 'developer',
+      });
+      res.json(results);
+    } catch (error) {
+      console.error("Error searching:", error);
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+
+  // Audit log routes (Admin only)
+  app.get('/api/audit', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const query = auditLogQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: fromZodError(query.error).message });
+      }
+
+      const entries = await storage.listAuditEntries(query.data);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  // Every entry matching the filters, oldest first, as ?format=json (default) or csv
+  app.get('/api/audit/export', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const { format = 'json', ...filters } = req.query;
+      if (format !== 'json' && format !== 'csv') {
+        return res.status(400).json({ message: "Format must be json or csv" });
+      }
+      const query = auditLogQuerySchema.safeParse(filters);
+      if (!query.success) {
+        return res.status(400).json({ message: fromZodError(query.error).message });
+      }
+
+      const { page, pageSize, ...filter } = query.data;
+      const entries = await storage.getAuditEntries(filter);
+      const fileName = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.attachment(fileName);
+      if (format === 'csv') {
+        res.type('text/csv').send(auditEntriesToCsv(entries));
+      } else {
+        res.json(entries);
+      }
+    } catch (error) {
+      console.error("Error exporting audit log:", error);
+      res.status(500).json({ message: "Failed to export audit log" });
+    }
+  });
+
+  app.get('/api/audit/verify', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      res.json(verifyAuditChain(await storage.getAuditEntries({})));
+    } catch (error) {
+      console.error("Error verifying audit log:", error);
+      res.status(500).json({ message: "Failed to verify audit log" });
+    }
+  });
+
+  // Workspace security settings (admin only)
+  app.get('/api/settings/security', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      res.json(await getSecuritySettings());
+    } catch (error) {
+      console.error("Error fetching security settings:", error);
+      res.status(500).json({ message: "Failed to fetch security settings" });
+    }
+  });
+
+  app.put('/api/settings/security', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const settings = securitySettingsSchema.safeParse(req.body);
+      if (!settings.success) {
+        return res.status(400).json({ message: fromZodError(settings.error).message });
+      }
+
+      const before = await getSecuritySettings();
+      await runUnitOfWork(async () => {
+        await saveSecuritySettings(settings.data, req.user!.id);
+        await recordAudit(req, {
+          action: 'settings.update',
+          targetType: 'settings',
+          targetId: 'security',
+          targetName: 'Security settings',
+          changes: diffFields(before, settings.data, Object.keys(settings.data) as (keyof typeof settings.data)[]),
+        });
+      });
+      res.json(settings.data);
+    } catch (error) {
+      console.error("Error updating security settings:", error);
+      res.status(500).json({ message: "Failed to update security settings" });
+    }
+  });
+
+  // Workspace backup archive, see backup.ts. Password hashes and document files
+  // are only included when asked for.
+  app.get('/api/backup', (req, res, next) => {
+    isAuthenticated(req as AuthRequest, res, (err) => {
+      if (err) return next(err);
+      requireAdmin(req as AuthRequest, res, next);
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const options = {
+        includePasswordHashes: req.query.passwords === 'true',
+        includeFiles: req.query.files === 'true',
+      };
+      const archive = await createBackup(options);
+      await recordBackup(req, options);
+      res.attachment(`workspace-backup-${new Date().toISOString().slice(0, 10)}.jsonl.gz`);
+      res.type('application/gzip');
+      await writeBackup(archive, res, options);
+    } catch (error) {
+      console.error("Error creating backup:", error);
+      // Once the archive has started, all that can be done is to cut it short
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ message: "Failed to create backup" });
+    }
+  });
+
   // Dashboard stats route
   app.get('/api/dashboard/stats', (req, res, next) => {
     isAuthenticated(req as AuthRequest, res, next);
@@ -0,0 +1,115 @@
+import {
+  S3Client,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { Readable } from 'stream';
+import type {
+  FileStorageProvider,
+  StoredFile,
+  UploadOptions,
+  DownloadOptions,
+  FileDownload,
+} from './file-store';
+
+const S3_BUCKET = process.env.S3_BUCKET;
+// Parts above this size are sent as a multipart upload
+const PART_SIZE = 8 * 1024 * 1024;
+const PRESIGNED_URL_TTL = parseInt(process.env.S3_PRESIGNED_URL_TTL || '300', 10);
+const MAX_UPLOAD_MB = parseFloat(process.env.S3_MAX_UPLOAD_MB || '1024');
+
+let client: S3Client | null = null;
+
+// Create the client on first use so the server can boot without S3 settings.
+// S3_ENDPOINT and S3_FORCE_PATH_STYLE=true point it at MinIO or another
+// S3-compatible store; credentials fall back to the standard AWS chain.
+function getClient(): S3Client {
+  if (!S3_BUCKET) {
+    throw new Error('Please define the S3_BUCKET environment variable');
+  }
+
+  if (!client) {
+    client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY ? {
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      } : undefined,
+    });
+  }
+  return client;
+}
+
+function isNotFound(error: any): boolean {
+  return error?.name === 'NotFound' || error?.name === 'NoSuchKey' || error?.$metadata?.httpStatusCode === 404;
+}
+
+export const s3FileStore: FileStorageProvider = {
+  name: 's3',
+  maxUploadSize: MAX_UPLOAD_MB * 1024 * 1024,
+
+  // Streams are sent a part at a time as they arrive, so at most queueSize
+  // parts of a file are held in memory
+  async uploadFile(file: Buffer | Readable, options: UploadOptions): Promise<StoredFile> {
+    const key = `${options.folder}/${options.filename}`;
+    const s3 = getClient();
+    const upload = new Upload({
+      client: s3,
+      params: {
+        Bucket: S3_BUCKET,
+        Key: key,
+        Body: file,
+        ContentType: options.mimeType,
+      },
+      partSize: PART_SIZE,
+      queueSize: 4,
+    });
+    await upload.done();
+
+    if (Buffer.isBuffer(file)) {
+      return { key, url: null, size: file.length };
+    }
+    const head = await s3.send(new HeadObjectCommand({ Bucket: S3_BUCKET, Key: key }));
+    return { key, url: null, size: head.ContentLength ?? 0 };
+  },
+
+  async deleteFile(key: string): Promise<void> {
+    await getClient().send(new DeleteObjectCommand({ Bucket: S3_BUCKET, Key: key }));
+  },
+
+  async copyFile(source: Pick<StoredFile, 'key' | 'url'>, destinationKey: string): Promise<StoredFile> {
+    const s3 = getClient();
+    try {
+      await s3.send(new CopyObjectCommand({
+        Bucket: S3_BUCKET,
+        Key: destinationKey,
+        CopySource: `${S3_BUCKET}/${source.key.split('/').map(encodeURIComponent).join('/')}`,
+      }));
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw Object.assign(new Error(`File not found: ${source.key}`), { code: 'ENOENT' });
+      }
+      throw error;
+    }
+
+    const head = await s3.send(new HeadObjectCommand({ Bucket: S3_BUCKET, Key: destinationKey }));
+    return { key: destinationKey, url: null, size: head.ContentLength ?? 0 };
+  },
+
+  async getDownload(file: Pick<StoredFile, 'key' | 'url'>, options: DownloadOptions): Promise<FileDownload> {
+    const redirectUrl = await getSignedUrl(getClient(), new GetObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: file.key,
+      ResponseContentType: options.mimeType,
+      ResponseContentDisposition: `attachment; filename*=UTF-8''${encodeURIComponent(options.fileName)}`,
+    }), { expiresIn: PRESIGNED_URL_TTL });
+
+    return { redirectUrl };
+  },
+};
@@ -0,0 +1,33 @@
+// Workspace security settings, changed by admins on the Settings page. They are
+// checked on every authenticated request, so each instance keeps them for a
+// few seconds rather than reading them every time; a change made on another
+// instance applies once its copy runs out.
+import { storage } from './storage';
+import type { User } from './storage';
+import { securitySettingsSchema } from '../shared/schema';
+import type { SecuritySettings } from '../shared/schema';
+
+const SETTINGS_KEY = 'security';
+const CACHE_TTL = 10 * 1000;
+
+let cached: { settings: SecuritySettings; expiresAt: number } | null = null;
+
+export async function getSecuritySettings(): Promise<SecuritySettings> {
+  if (cached && cached.expiresAt > Date.now()) return cached.settings;
+
+  // Settings missing from the stored value - saved by an older release, or
+  // never saved at all - take their defaults
+  const stored = securitySettingsSchema.safeParse((await storage.getSetting(SETTINGS_KEY)) ?? {});
+  const settings = stored.success ? stored.data : securitySettingsSchema.parse({});
+  cached = { settings, expiresAt: Date.now() + CACHE_TTL };
+  return settings;
+}
+
+export async function saveSecuritySettings(settings: SecuritySettings, updatedBy: string | null): Promise<void> {
+  await storage.saveSetting(SETTINGS_KEY, settings, updatedBy);
+  cached = null;
+}
+
+export async function isTwoFactorRequired(role: User['role']): Promise<boolean> {
+  return (await getSecuritySettings()).twoFactorRequiredRoles.includes(role);
+}
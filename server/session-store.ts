@@ -0,0 +1,127 @@
+// Sessions kept by the storage backend, so signing in survives restarts and
+// works across instances. Alongside the session itself each record keeps its
+// user, user agent, IP and last-seen time for the active sessions list.
+// Sessions are read from storage on every request, so deleting one signs it
+// out on its next request - and is never undone by a request that read it
+// before it was deleted saving it afterwards.
+import { createHash } from 'crypto';
+import session from 'express-session';
+import type { SessionData } from 'express-session';
+import type { Request } from 'express';
+import { storage } from './storage';
+import type { ActiveSession, UserSession } from '../shared/schema';
+import type { PendingOidcLogin } from './oidc';
+
+export const SESSION_TTL = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+// Signs session cookies
+export function sessionSecret(): string {
+  return process.env.SESSION_SECRET || 'your-secret-key-change-in-production';
+}
+
+// How stale lastSeenAt may get before a request writes it again
+const LAST_SEEN_INTERVAL = 60 * 1000;
+const PURGE_INTERVAL = 60 * 60 * 1000;
+
+declare module 'express-session' {
+  interface SessionData {
+    userId: string | null;
+    userAgent: string | null;
+    ip: string | null;
+    // Milliseconds since the epoch
+    lastSeenAt: number;
+    // Signed in with a second factor, or set one up since - see two-factor.ts
+    twoFactorVerified: boolean;
+    // Signed in with an expired password, not changed since - see
+    // password-policy.ts
+    passwordChangeRequired: boolean;
+    // When a single sign-on session has to go back to the identity provider,
+    // in milliseconds since the epoch; null for password sign-ins - see oidc.ts
+    singleSignOnUntil: number | null;
+    // A single sign-on the identity provider has yet to send back
+    oidcLogin: PendingOidcLogin;
+    // Set once the session has been saved to the store
+    stored: boolean;
+  }
+}
+
+// express-session's store interface on top of the storage facade. There is no
+// touch(): the expiry moves forward when a request saves the session, which
+// noteSessionActivity makes happen at most once a minute.
+export class StorageSessionStore extends session.Store {
+  get(sid: string, callback: (err: any, session?: SessionData | null) => void): void {
+    storage.getUserSession(sid)
+      .then(record => callback(null, record ? (record.sess as SessionData) : null))
+      .catch(callback);
+  }
+
+  // New sessions are inserted; stored ones are updated only if they haven't
+  // been deleted since, as revoking them does
+  set(sid: string, sess: SessionData, callback?: (err?: any) => void): void {
+    const expires = sess.cookie?.expires;
+    const record = {
+      sid,
+      // A plain copy, so the stored session does not change along with the request's
+      sess: { ...JSON.parse(JSON.stringify(sess)), stored: true },
+      expire: expires ? new Date(expires) : new Date(Date.now() + SESSION_TTL),
+      userId: sess.userId ?? null,
+      userAgent: sess.userAgent ?? null,
+      ip: sess.ip ?? null,
+      lastSeenAt: new Date(sess.lastSeenAt ?? Date.now()),
+    };
+    (sess.stored ? storage.updateUserSession(record) : storage.saveUserSession(record))
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    storage.deleteUserSession(sid)
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+}
+
+// Records who is using `req`'s session and from where. Only writes when the
+// last-seen time is over a minute old, or the IP or user agent changed.
+export function noteSessionActivity(req: Request): void {
+  const now = Date.now();
+  const ip = req.ip ?? null;
+  const userAgent = req.get('user-agent') ?? null;
+  const s = req.session;
+  if (!s.lastSeenAt || now - s.lastSeenAt > LAST_SEEN_INTERVAL || s.ip !== ip || s.userAgent !== userAgent) {
+    s.lastSeenAt = now;
+    s.ip = ip;
+    s.userAgent = userAgent;
+  }
+}
+
+// Sessions are listed and revoked by a hash of their id - the id itself is as
+// good as the session cookie
+export function publicSessionId(sid: string): string {
+  return createHash('sha256').update(sid).digest('hex').slice(0, 32);
+}
+
+export function toActiveSession(record: UserSession, currentSid: string): ActiveSession {
+  return {
+    id: publicSessionId(record.sid),
+    userAgent: record.userAgent,
+    ip: record.ip,
+    createdAt: record.createdAt,
+    lastSeenAt: record.lastSeenAt,
+    expiresAt: record.expire,
+    current: record.sid === currentSid,
+  };
+}
+
+export function scheduleSessionPurge(): void {
+  const run = async () => {
+    try {
+      await storage.purgeExpiredSessions();
+    } catch (error) {
+      console.error('Error purging expired sessions:', error);
+    }
+  };
+
+  void run();
+  setInterval(run, PURGE_INTERVAL).unref();
+}
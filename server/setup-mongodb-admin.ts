@@ -1,32 +1,37 @@
 import { storage } from "./storage";
-import bcrypt from "bcryptjs";
+import { checkNewPassword, hashPassword, rememberPassword } from "./password-policy";
 
+// Creates the admin user from ADMIN_EMAIL and ADMIN_PASSWORD unless it exists.
+// There is no default password: ADMIN_PASSWORD must be set, and must meet the
+// password policy like any other new password.
 async function setupAdmin() {
-  try {
-    const adminEmail = process.env.ADMIN_EMAIL || "admin@gamedev.com";
-    const adminPassword = process.env.ADMIN_PASSWORD || "admin123";
-    
-    // Check if admin user already exists
-    const existingAdmin = await storage.getUserByEmail(adminEmail);
-    if (existingAdmin) {
-      console.log("Admin user already exists:", adminEmail);
-      return;
-    }
-    
-    // Create admin user
-    const passwordHash = await bcrypt.hash(adminPassword, 10);
-    const adminUser = await storage.createUser({
-      email: adminEmail,
-      firstName: "Admin",
-      lastName: "User",
-      passwordHash,
-      role: "admin",
-    });
-    
-    console.log("Admin user created successfully:", adminUser.email);
-  } catch (error) {
-    console.error("Failed to create admin user:", error);
+  const adminEmail = process.env.ADMIN_EMAIL || "admin@gamedev.com";
+  const adminPassword = process.env.ADMIN_PASSWORD;
+
+  // Check if admin user already exists
+  const existingAdmin = await storage.getUserByEmail(adminEmail);
+  if (existingAdmin) {
+    console.log("Admin user already exists:", adminEmail);
+    return;
+  }
+
+  if (!adminPassword) {
+    throw new Error("ADMIN_PASSWORD is not set - set it to create the admin user");
   }
+  await checkNewPassword(adminPassword, null);
+
+  // Create admin user
+  const passwordHash = await hashPassword(adminPassword);
+  const adminUser = await storage.createUser({
+    email: adminEmail,
+    firstName: "Admin",
+    lastName: "User",
+    passwordHash,
+    role: "admin",
+  });
+  await rememberPassword(adminUser.id, passwordHash);
+
+  console.log("Admin user created successfully:", adminUser.email);
 }
 
 // Run if called directly
@@ -34,9 +39,9 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   setupAdmin().then(() => {
     process.exit(0);
   }).catch((error) => {
-    console.error(error);
+    console.error("Failed to create admin user:", error);
     process.exit(1);
   });
 }
 
-export { setupAdmin };
\ No newline at end of file
+export { setupAdmin };
@@ -0,0 +1,1579 @@
+// Behavioral contract for IStorage. Every backend must pass this suite.
+//
+// The in-memory backend always runs. The database backends run against a
+// dedicated, disposable database only - every table/collection is wiped
+// between tests:
+//   TEST_DATABASE_URL=postgres://...  npm test
+//   TEST_MONGODB_URI=mongodb://...    npm test
+import { describe, it, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { IStorage, User } from './storage';
+import { DeleteRestrictedError } from './delete-policy';
+import { VersionConflictError } from './versioning';
+import { verifyAuditChain } from './audit-chain';
+import type { InsertAuditEntry } from './storage';
+import { projectListQuerySchema, userListQuerySchema, searchQuerySchema, auditLogQuerySchema } from '../shared/schema';
+import type { InsertInvitation, UserSession } from '../shared/schema';
+
+if (process.env.TEST_DATABASE_URL) process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+if (process.env.TEST_MONGODB_URI) process.env.MONGODB_URI = process.env.TEST_MONGODB_URI;
+
+type BackendHarness = {
+  storage: IStorage;
+  reset(): Promise<void>;
+  close(): Promise<void>;
+};
+
+const backends: { name: string; enabled: boolean; load(): Promise<BackendHarness> }[] = [
+  {
+    name: 'memory',
+    enabled: true,
+    async load() {
+      const { memoryStorage } = await import('./memory-storage');
+      return {
+        storage: memoryStorage,
+        reset: () => memoryStorage.reset(),
+        close: async () => {},
+      };
+    },
+  },
+  {
+    name: 'postgres',
+    enabled: !!process.env.TEST_DATABASE_URL,
+    async load() {
+      const { postgresStorage } = await import('./postgres-storage');
+      const { getDb, closeDb } = await import('./db');
+      const schema = await import('../shared/schema');
+      return {
+        storage: postgresStorage,
+        async reset() {
+          const db = getDb();
+          await db.delete(schema.auditLog);
+          await db.delete(schema.sessions);
+          await db.delete(schema.userTwoFactor);
+          await db.delete(schema.settings);
+          await db.delete(schema.passwordResetTokens);
+          await db.delete(schema.passwordHistory);
+          await db.delete(schema.apiTokens);
+          await db.delete(schema.userIdentities);
+          await db.delete(schema.invitations);
+          await db.delete(schema.registrations);
+          await db.delete(schema.loginThrottles);
+          await db.delete(schema.documents);
+          await db.delete(schema.projectAssignments);
+          await db.delete(schema.projects);
+          await db.delete(schema.users);
+        },
+        close: closeDb,
+      };
+    },
+  },
+  {
+    name: 'mongodb',
+    enabled: !!process.env.TEST_MONGODB_URI,
+    async load() {
+      const { mongoStorage } = await import('./mongodb-storage');
+      const { connectToDatabase } = await import('./mongodb');
+      const models = await import('../shared/mongoose-schema');
+      return {
+        storage: mongoStorage,
+        async reset() {
+          await connectToDatabase();
+          await models.AuditEntry.deleteMany({});
+          await models.Session.deleteMany({});
+          await models.UserTwoFactor.deleteMany({});
+          await models.Setting.deleteMany({});
+          await models.PasswordResetToken.deleteMany({});
+          await models.PasswordHistory.deleteMany({});
+          await models.ApiToken.deleteMany({});
+          await models.UserIdentity.deleteMany({});
+          await models.Invitation.deleteMany({});
+          await models.Registration.deleteMany({});
+          await models.LoginThrottle.deleteMany({});
+          await models.Document.deleteMany({});
+          await models.ProjectAssignment.deleteMany({});
+          await models.Project.deleteMany({});
+          await models.User.deleteMany({});
+        },
+        async close() {
+          const mongoose = (await import('mongoose')).default;
+          await mongoose.disconnect();
+        },
+      };
+    },
+  },
+];
+
+// A well-formed id that no backend will have issued
+const MISSING_ID = '64b000000000000000000000';
+
+for (const backend of backends) {
+  describe(`${backend.name} storage`, { skip: !backend.enabled }, () => {
+    let harness: BackendHarness;
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      harness ??= await backend.load();
+      storage = harness.storage;
+      await harness.reset();
+    });
+
+    after(async () => {
+      await harness?.close();
+    });
+
+    const createUser = (email: string, role: User['role'] = 'developer') =>
+      storage.createUser({ email, firstName: 'Test', lastName: 'User', passwordHash: 'hash', role });
+
+    // List pages from query string style parameters, with the endpoints' defaults
+    const projectPage = (params: Record<string, unknown> = {}, memberId?: string) =>
+      storage.listProjects(projectListQuerySchema.parse(params), memberId);
+    const userPage = (params: Record<string, unknown> = {}) =>
+      storage.listUsers(userListQuerySchema.parse(params));
+    const listProjects = async (params: Record<string, unknown> = {}, memberId?: string) =>
+      (await projectPage(params, memberId)).items;
+    const listUsers = async (params: Record<string, unknown> = {}) =>
+      (await userPage(params)).items;
+
+    describe('users', () => {
+      it('creates users and finds them by id and email', async () => {
+        const user = await createUser('dev@example.com');
+
+        assert.equal(typeof user.id, 'string');
+        assert.equal(user.email, 'dev@example.com');
+        assert.equal(user.role, 'developer');
+        assert.equal(user.profileImageUrl, null);
+        assert.ok(user.createdAt instanceof Date);
+
+        assert.equal((await storage.getUserById(user.id))?.email, 'dev@example.com');
+        assert.equal((await storage.getUserByEmail('dev@example.com'))?.id, user.id);
+      });
+
+      it('returns null for unknown users', async () => {
+        assert.equal(await storage.getUserById(MISSING_ID), null);
+        assert.equal(await storage.getUserById('not-an-id'), null);
+        assert.equal(await storage.getUserByEmail('nobody@example.com'), null);
+      });
+
+      it('defaults the role to developer', async () => {
+        const user = await storage.createUser({ email: 'plain@example.com', passwordHash: 'hash' });
+        assert.equal(user.role, 'developer');
+        assert.equal(user.firstName, null);
+      });
+
+      it('rejects duplicate emails', async () => {
+        await createUser('dup@example.com');
+        await assert.rejects(() => createUser('dup@example.com'));
+      });
+
+      it('updates and deletes users', async () => {
+        const user = await createUser('lead@example.com');
+
+        await storage.updateUser(user.id, { role: 'project_lead', firstName: 'Renamed' });
+        const updated = await storage.getUserById(user.id);
+        assert.equal(updated?.role, 'project_lead');
+        assert.equal(updated?.firstName, 'Renamed');
+
+        await storage.deleteUser(user.id);
+        assert.equal(await storage.getUserById(user.id), null);
+      });
+
+      it('counts projects per role in listUsers', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const lead = await createUser('lead@example.com', 'project_lead');
+        const dev = await createUser('dev@example.com');
+
+        const first = await storage.createProject({ name: 'First', createdBy: lead.id });
+        await storage.createProject({ name: 'Second', createdBy: admin.id });
+        await storage.assignUserToProject({ projectId: first.id, userId: dev.id, assignedBy: lead.id });
+
+        const users = await listUsers();
+        const countFor = (id: string) => users.find(u => u.id === id)?._count.projectAssignments;
+        assert.equal(users.length, 3);
+        assert.equal(countFor(admin.id), 2);
+        assert.equal(countFor(lead.id), 1);
+        assert.equal(countFor(dev.id), 1);
+      });
+    });
+
+    describe('projects', () => {
+      it('creates projects with defaults', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const project = await storage.createProject({ name: 'Defaults', createdBy: admin.id });
+
+        assert.equal(project.name, 'Defaults');
+        assert.equal(project.status, 'active');
+        assert.equal(project.description, null);
+        assert.equal(project.deadline, null);
+        assert.equal(project.projectLeadId, null);
+        assert.equal(project.createdBy, admin.id);
+      });
+
+      it('returns project details with creator, lead, assignments and documents', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const lead = await createUser('lead@example.com', 'project_lead');
+        const dev = await createUser('dev@example.com');
+        const project = await storage.createProject({
+          name: 'Detailed',
+          description: 'A project',
+          createdBy: admin.id,
+          projectLeadId: lead.id,
+        });
+        await storage.assignUserToProject({ projectId: project.id, userId: dev.id, assignedBy: lead.id });
+        await storage.createDocument({
+          projectId: project.id,
+          fileName: 'spec.pdf',
+          originalName: 'spec.pdf',
+          fileSize: 42,
+          mimeType: 'application/pdf',
+          uploadedBy: lead.id,
+          storageProvider: 'memory',
+          storageKey: 'spec',
+        });
+
+        const details = await storage.getProjectById(project.id);
+        assert.ok(details);
+        assert.equal(details.id, project.id);
+        assert.equal(details.description, 'A project');
+        assert.deepEqual(details.createdBy, {
+          id: admin.id, firstName: 'Test', lastName: 'User', email: 'admin@example.com',
+        });
+        assert.equal(details.projectLead?.id, lead.id);
+        assert.equal(details.projectLeadId, lead.id);
+        assert.equal(details.assignments.length, 1);
+        assert.equal(details.assignments[0].userId, dev.id);
+        assert.equal(details.assignments[0].user.email, 'dev@example.com');
+        assert.equal(details.assignments[0].user.profileImageUrl, null);
+        assert.equal(details.documents.length, 1);
+        assert.equal(details.documents[0].originalName, 'spec.pdf');
+        assert.deepEqual(details._count, { assignments: 1, documents: 1 });
+      });
+
+      it('returns null for unknown projects', async () => {
+        assert.equal(await storage.getProjectById(MISSING_ID), null);
+      });
+
+      it('lists projects newest first by default', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        await storage.createProject({ name: 'Older', createdBy: admin.id });
+        await new Promise(resolve => setTimeout(resolve, 10));
+        await storage.createProject({ name: 'Newer', createdBy: admin.id });
+
+        const projects = await listProjects();
+        assert.deepEqual(projects.map(p => p.name), ['Newer', 'Older']);
+        assert.equal(projects[0].projectLead, null);
+      });
+
+      it('updates and deletes projects', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const project = await storage.createProject({ name: 'Mutable', createdBy: admin.id });
+        const deadline = new Date('2030-01-01T00:00:00.000Z');
+
+        await storage.updateProject(project.id, { status: 'on_hold', deadline });
+        const updated = await storage.getProjectById(project.id);
+        assert.equal(updated?.status, 'on_hold');
+        assert.equal(updated?.deadline?.toISOString(), deadline.toISOString());
+        assert.equal(updated?.name, 'Mutable');
+
+        await storage.deleteProject(project.id);
+        assert.equal(await storage.getProjectById(project.id), null);
+      });
+    });
+
+    describe('assignments', () => {
+      it('assigns, lists and removes project members', async () => {
+        const lead = await createUser('lead@example.com', 'project_lead');
+        const dev = await createUser('dev@example.com');
+        const assigned = await storage.createProject({ name: 'Assigned', createdBy: lead.id });
+        await storage.createProject({ name: 'Other', createdBy: lead.id });
+
+        const assignment = await storage.assignUserToProject({
+          projectId: assigned.id,
+          userId: dev.id,
+          assignedBy: lead.id,
+        });
+        assert.equal(assignment.projectId, assigned.id);
+        assert.equal(assignment.userId, dev.id);
+        assert.equal(assignment.assignedBy, lead.id);
+
+        const devProjects = await listProjects({}, dev.id);
+        assert.deepEqual(devProjects.map(p => p.name), ['Assigned']);
+        assert.equal(devProjects[0].assignments[0].user.id, dev.id);
+
+        await storage.removeUserFromProject(assigned.id, dev.id);
+        assert.deepEqual(await listProjects({}, dev.id), []);
+      });
+
+      it('rejects assigning the same user twice', async () => {
+        const lead = await createUser('lead@example.com', 'project_lead');
+        const dev = await createUser('dev@example.com');
+        const project = await storage.createProject({ name: 'Once', createdBy: lead.id });
+        const assignment = { projectId: project.id, userId: dev.id, assignedBy: lead.id };
+
+        await storage.assignUserToProject(assignment);
+        await assert.rejects(
+          () => storage.assignUserToProject(assignment),
+          { message: 'User is already assigned to this project' },
+        );
+      });
+    });
+
+    describe('documents', () => {
+      it('creates, lists, finds and deletes documents', async () => {
+        const lead = await createUser('lead@example.com', 'project_lead');
+        const project = await storage.createProject({ name: 'Docs', createdBy: lead.id });
+        const document = await storage.createDocument({
+          projectId: project.id,
+          fileName: 'art/concept.png',
+          originalName: 'concept.png',
+          fileSize: 1024,
+          mimeType: 'image/png',
+          uploadedBy: lead.id,
+          storageProvider: 'memory',
+          storageKey: 'art/concept',
+        });
+
+        assert.equal(document.projectId, project.id);
+        assert.equal(document.uploadedBy, lead.id);
+        assert.equal(document.fileSize, 1024);
+        assert.equal(document.storageKey, 'art/concept');
+        assert.equal(document.storageUrl, null);
+
+        assert.deepEqual((await storage.getProjectDocuments(project.id)).map(d => d.id), [document.id]);
+        assert.equal((await storage.getDocumentById(document.id))?.originalName, 'concept.png');
+        assert.equal(await storage.getDocumentById(MISSING_ID), null);
+
+        await storage.deleteDocument(document.id);
+        assert.equal(await storage.getDocumentById(document.id), null);
+        assert.deepEqual(await storage.getProjectDocuments(project.id), []);
+      });
+    });
+
+    describe('lists', () => {
+      it('pages through projects with the total count', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        for (const name of ['A', 'B', 'C', 'D', 'E']) {
+          await storage.createProject({ name, createdBy: admin.id });
+        }
+
+        const second = await projectPage({ sort: 'name', pageSize: 2, page: 2 });
+        assert.deepEqual(second.items.map(p => p.name), ['C', 'D']);
+        assert.equal(second.total, 5);
+        assert.equal(second.page, 2);
+        assert.equal(second.pageSize, 2);
+
+        const last = await projectPage({ sort: 'name', pageSize: 2, page: 3 });
+        assert.deepEqual(last.items.map(p => p.name), ['E']);
+        assert.deepEqual((await projectPage({ pageSize: 2, page: 4 })).items, []);
+      });
+
+      it('filters projects by status, lead, deadline range and text', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const lead = await createUser('lead@example.com', 'project_lead');
+        await storage.createProject({
+          name: 'Space Shooter',
+          description: 'Arcade prototype',
+          status: 'on_hold',
+          deadline: new Date('2030-03-15T00:00:00.000Z'),
+          createdBy: admin.id,
+          projectLeadId: lead.id,
+        });
+        await storage.createProject({
+          name: 'Puzzle Quest',
+          description: 'A 100% arcade_style puzzler',
+          deadline: new Date('2030-06-01T00:00:00.000Z'),
+          createdBy: admin.id,
+        });
+        await storage.createProject({ name: 'Racing Sim', createdBy: admin.id, projectLeadId: lead.id });
+
+        const names = async (params: Record<string, unknown>) =>
+          (await listProjects({ sort: 'name', ...params })).map(p => p.name);
+        assert.deepEqual(await names({ status: 'on_hold' }), ['Space Shooter']);
+        assert.deepEqual(await names({ leadId: lead.id }), ['Racing Sim', 'Space Shooter']);
+        assert.deepEqual(await names({ leadId: MISSING_ID }), []);
+        assert.deepEqual(await names({ deadlineFrom: '2030-03-15T00:00:00.000Z' }), ['Puzzle Quest', 'Space Shooter']);
+        assert.deepEqual(await names({ deadlineTo: '2030-03-15T00:00:00.000Z' }), ['Space Shooter']);
+        assert.deepEqual(await names({ deadlineFrom: '2030-04-01', deadlineTo: '2030-12-31' }), ['Puzzle Quest']);
+        assert.deepEqual(await names({ q: 'ARCADE' }), ['Puzzle Quest', 'Space Shooter']);
+        assert.deepEqual(await names({ q: 'sim' }), ['Racing Sim']);
+        // Wildcard and pattern characters match literally
+        assert.deepEqual(await names({ q: '100%' }), ['Puzzle Quest']);
+        assert.deepEqual(await names({ q: 'e_s' }), ['Puzzle Quest']);
+        assert.deepEqual(await names({ q: '.*' }), []);
+        assert.deepEqual(await names({ status: 'on_hold', q: 'puzzle' }), []);
+      });
+
+      it('sorts projects by deadline with undated projects last, and by status', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        await storage.createProject({ name: 'Undated', status: 'completed', createdBy: admin.id });
+        await storage.createProject({
+          name: 'Later', status: 'on_hold', deadline: new Date('2031-01-01'), createdBy: admin.id,
+        });
+        await storage.createProject({ name: 'Sooner', deadline: new Date('2030-01-01'), createdBy: admin.id });
+
+        const names = async (params: Record<string, unknown>) => (await listProjects(params)).map(p => p.name);
+        assert.deepEqual(await names({ sort: 'deadline' }), ['Sooner', 'Later', 'Undated']);
+        assert.deepEqual(await names({ sort: 'deadline', order: 'desc' }), ['Later', 'Sooner', 'Undated']);
+        assert.deepEqual(await names({ sort: 'status' }), ['Sooner', 'Undated', 'Later']);
+        assert.deepEqual(await names({ sort: 'name', order: 'desc' }), ['Undated', 'Sooner', 'Later']);
+      });
+
+      it('applies filters within a member\'s assigned projects', async () => {
+        const lead = await createUser('lead@example.com', 'project_lead');
+        const dev = await createUser('dev@example.com');
+        const active = await storage.createProject({ name: 'Active', createdBy: lead.id });
+        const held = await storage.createProject({ name: 'Held', status: 'on_hold', createdBy: lead.id });
+        await storage.createProject({ name: 'Unassigned', status: 'on_hold', createdBy: lead.id });
+        for (const project of [active, held]) {
+          await storage.assignUserToProject({ projectId: project.id, userId: dev.id, assignedBy: lead.id });
+        }
+
+        const page = await projectPage({ status: 'on_hold' }, dev.id);
+        assert.deepEqual(page.items.map(p => p.name), ['Held']);
+        assert.equal(page.total, 1);
+      });
+
+      it('filters, sorts and pages users', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        await createUser('zed@example.com');
+        await createUser('amy@example.com');
+        await createUser('lead@example.com', 'project_lead');
+        await storage.createUser({
+          email: 'sam@studio.dev', firstName: 'Samantha', lastName: 'Reyes', passwordHash: 'hash',
+        });
+        await storage.moveToTrash('user', (await createUser('gone@example.com')).id, admin.id);
+
+        const emails = async (params: Record<string, unknown>) => (await listUsers(params)).map(u => u.email);
+        assert.deepEqual(await emails({ sort: 'email' }), [
+          'admin@example.com', 'amy@example.com', 'lead@example.com', 'sam@studio.dev', 'zed@example.com',
+        ]);
+        assert.deepEqual(await emails({ sort: 'email', order: 'desc', role: 'developer' }), [
+          'zed@example.com', 'sam@studio.dev', 'amy@example.com',
+        ]);
+        assert.deepEqual((await emails({ sort: 'role', pageSize: 2 })), ['admin@example.com', 'lead@example.com']);
+        assert.deepEqual(await emails({ q: 'reyes' }), ['sam@studio.dev']);
+        assert.deepEqual(await emails({ q: 'SAMANTHA' }), ['sam@studio.dev']);
+        assert.deepEqual(await emails({ q: 'studio.dev' }), ['sam@studio.dev']);
+
+        const page = await userPage({ sort: 'email', pageSize: 2, page: 3 });
+        assert.deepEqual(page.items.map(u => u.email), ['zed@example.com']);
+        assert.equal(page.total, 5);
+      });
+    });
+
+    describe('search', () => {
+      const search = (params: Record<string, unknown>, scope: Parameters<IStorage['search']>[1] = { includeUsers: true }) =>
+        storage.search(searchQuerySchema.parse(params), scope);
+      const uploadDocument = (projectId: string, originalName: string, uploadedBy: string) =>
+        storage.createDocument({
+          projectId,
+          fileName: originalName,
+          originalName,
+          fileSize: 1,
+          mimeType: 'text/plain',
+          uploadedBy,
+          storageProvider: 'memory',
+          storageKey: originalName,
+        });
+
+      it('matches every term across fields and groups the results by type', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const lead = await storage.createUser({
+          email: 'sam@studio.dev', firstName: 'Samantha', lastName: 'Reyes', passwordHash: 'hash', role: 'project_lead',
+        });
+        const shooter = await storage.createProject({
+          name: 'Space Shooter', description: 'Arcade prototype', status: 'on_hold', createdBy: admin.id,
+        });
+        await storage.createProject({ name: 'Space Sim', createdBy: admin.id });
+        await uploadDocument(shooter.id, 'arcade-design.pdf', admin.id);
+
+        const results = await search({ q: 'ARCADE space' });
+        assert.deepEqual(results.projects, [{
+          id: shooter.id, name: 'Space Shooter', description: 'Arcade prototype', status: 'on_hold',
+        }]);
+        assert.deepEqual(results.documents, []);
+        assert.deepEqual(results.users, []);
+
+        const byName = await search({ q: 'arcade' });
+        assert.deepEqual(byName.projects.map(p => p.name), ['Space Shooter']);
+        assert.deepEqual(byName.documents.map(d => [d.originalName, d.projectId, d.projectName]), [
+          ['arcade-design.pdf', shooter.id, 'Space Shooter'],
+        ]);
+
+        const people = await search({ q: 'sam reyes' });
+        assert.deepEqual(people.users, [{
+          id: lead.id, firstName: 'Samantha', lastName: 'Reyes', email: 'sam@studio.dev', role: 'project_lead',
+        }]);
+        assert.deepEqual((await search({ q: 'studio.dev' })).users.map(u => u.id), [lead.id]);
+      });
+
+      it('leaves out trashed records and respects the limit', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const kept = await storage.createProject({ name: 'Kart B', createdBy: admin.id });
+        const trashed = await storage.createProject({ name: 'Kart A', createdBy: admin.id });
+        await storage.createProject({ name: 'Kart C', createdBy: admin.id });
+        await uploadDocument(trashed.id, 'kart-notes.txt', admin.id);
+        const document = await uploadDocument(kept.id, 'kart-old.txt', admin.id);
+        await uploadDocument(kept.id, 'kart-track.txt', admin.id);
+        await storage.moveToTrash('project', trashed.id, admin.id);
+        await storage.moveToTrash('document', document.id, admin.id);
+        await storage.moveToTrash('user', (await createUser('kart@example.com')).id, admin.id);
+
+        const results = await search({ q: 'kart' });
+        assert.deepEqual(results.projects.map(p => p.name), ['Kart B', 'Kart C']);
+        assert.deepEqual(results.documents.map(d => d.originalName), ['kart-track.txt']);
+        assert.deepEqual(results.users, []);
+
+        assert.deepEqual((await search({ q: 'kart', limit: 1 })).projects.map(p => p.name), ['Kart B']);
+      });
+
+      it('limits projects and documents to the visible projects and people to those allowed', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const lead = await createUser('lead@example.com', 'project_lead');
+        const dev = await createUser('dev@example.com');
+        const led = await storage.createProject({ name: 'Quest Led', createdBy: admin.id, projectLeadId: lead.id });
+        const assigned = await storage.createProject({ name: 'Quest Assigned', createdBy: admin.id });
+        await storage.createProject({ name: 'Quest Hidden', createdBy: admin.id });
+        await storage.assignUserToProject({ projectId: assigned.id, userId: dev.id, assignedBy: admin.id });
+        await storage.assignUserToProject({ projectId: assigned.id, userId: lead.id, assignedBy: admin.id });
+        await uploadDocument(led.id, 'quest-led.txt', lead.id);
+        await uploadDocument(assigned.id, 'quest-assigned.txt', admin.id);
+
+        const asLead = await search({ q: 'quest' }, { visibleTo: { userId: lead.id, includeLed: true }, includeUsers: true });
+        assert.deepEqual(asLead.projects.map(p => p.name), ['Quest Assigned', 'Quest Led']);
+        assert.deepEqual(asLead.documents.map(d => d.originalName), ['quest-assigned.txt', 'quest-led.txt']);
+
+        const asDev = await search({ q: 'quest' }, { visibleTo: { userId: dev.id, includeLed: false }, includeUsers: false });
+        assert.deepEqual(asDev.projects.map(p => p.name), ['Quest Assigned']);
+        assert.deepEqual(asDev.documents.map(d => d.originalName), ['quest-assigned.txt']);
+        assert.deepEqual((await search({ q: 'example' }, { includeUsers: false })).users, []);
+        assert.deepEqual(
+          (await search({ q: 'example' }, { visibleTo: { userId: dev.id, includeLed: false }, includeUsers: true })).users
+            .map(u => u.email),
+          ['admin@example.com', 'dev@example.com', 'lead@example.com'],
+        );
+      });
+    });
+
+    describe('deletes', () => {
+      // Admin-created project led by `lead`, with `dev` assigned by and a document uploaded by `lead`
+      const createTeamProject = async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const lead = await createUser('lead@example.com', 'project_lead');
+        const dev = await createUser('dev@example.com');
+        const project = await storage.createProject({ name: 'Team', createdBy: admin.id, projectLeadId: lead.id });
+        await storage.assignUserToProject({ projectId: project.id, userId: dev.id, assignedBy: lead.id });
+        const document = await storage.createDocument({
+          projectId: project.id,
+          fileName: 'plan.txt',
+          originalName: 'plan.txt',
+          fileSize: 4,
+          mimeType: 'text/plain',
+          uploadedBy: lead.id,
+          storageProvider: 'memory',
+          storageKey: 'plan',
+        });
+        return { admin, lead, dev, project, document };
+      };
+
+      it('removes a project with its assignments and documents', async () => {
+        const { dev, project, document } = await createTeamProject();
+
+        const removed = await storage.deleteProject(project.id);
+        assert.deepEqual(removed.map(d => d.storageKey), ['plan']);
+        assert.equal(await storage.getDocumentById(document.id), null);
+        assert.deepEqual(await listProjects({}, dev.id), []);
+        assert.deepEqual(await storage.deleteProject(MISSING_ID), []);
+      });
+
+      it('removes a user with their assignments and clears their leads by default', async () => {
+        const { dev, project } = await createTeamProject();
+        await storage.updateProject(project.id, { projectLeadId: dev.id });
+
+        await storage.deleteUser(dev.id);
+        const details = await storage.getProjectById(project.id);
+        assert.equal(await storage.getUserById(dev.id), null);
+        assert.equal(details?.projectLeadId, null);
+        assert.equal(details?.projectLead, null);
+        assert.deepEqual(details?.assignments, []);
+      });
+
+      it('refuses by default to remove a user who created records', async () => {
+        const { lead } = await createTeamProject();
+
+        await assert.rejects(() => storage.deleteUser(lead.id), (error: unknown) => {
+          assert.ok(error instanceof DeleteRestrictedError);
+          assert.deepEqual(error.references, {
+            ledProjects: 1, createdProjects: 0, assignmentsMade: 1, uploadedDocuments: 1,
+          });
+          return true;
+        });
+        assert.ok(await storage.getUserById(lead.id));
+      });
+
+      it('refuses to remove a project lead under the restrict policy', async () => {
+        const { lead } = await createTeamProject();
+
+        await assert.rejects(
+          () => storage.deleteUser(lead.id, { projectLead: 'restrict', ownedRecords: 'reassign' }),
+          DeleteRestrictedError,
+        );
+        assert.ok(await storage.getUserById(lead.id));
+      });
+
+      it('hands a removed user\'s leads and records to another user', async () => {
+        const { admin, lead, dev, project, document } = await createTeamProject();
+
+        await storage.deleteUser(lead.id, { projectLead: 'reassign', ownedRecords: 'reassign', reassignTo: admin.id });
+        const details = await storage.getProjectById(project.id);
+        assert.equal(details?.projectLeadId, admin.id);
+        assert.equal(details?.assignments[0].userId, dev.id);
+        assert.equal(details?.assignments[0].assignedBy, admin.id);
+        assert.equal((await storage.getDocumentById(document.id))?.uploadedBy, admin.id);
+      });
+
+      it('only reassigns to an existing admin or project lead', async () => {
+        const { lead, dev } = await createTeamProject();
+
+        for (const reassignTo of [undefined, MISSING_ID, dev.id, lead.id]) {
+          await assert.rejects(
+            () => storage.deleteUser(lead.id, { projectLead: 'nullify', ownedRecords: 'reassign', reassignTo }),
+            DeleteRestrictedError,
+          );
+        }
+        assert.ok(await storage.getUserById(lead.id));
+      });
+    });
+
+    describe('trash', () => {
+      const createDocument = (projectId: string, uploadedBy: string, name: string) => storage.createDocument({
+        projectId,
+        fileName: name,
+        originalName: name,
+        fileSize: 1,
+        mimeType: 'text/plain',
+        uploadedBy,
+        storageProvider: 'memory',
+        storageKey: name,
+      });
+
+      it('hides a trashed project with its documents until restored', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const dev = await createUser('dev@example.com');
+        const project = await storage.createProject({ name: 'Trashed', createdBy: admin.id });
+        await storage.assignUserToProject({ projectId: project.id, userId: dev.id, assignedBy: admin.id });
+        const document = await createDocument(project.id, admin.id, 'brief.txt');
+
+        await storage.moveToTrash('project', project.id, admin.id);
+        assert.equal(await storage.getProjectById(project.id), null);
+        assert.deepEqual(await listProjects(), []);
+        assert.deepEqual(await listProjects({}, dev.id), []);
+        assert.equal(await storage.getDocumentById(document.id), null);
+        assert.deepEqual(await storage.getProjectDocuments(project.id), []);
+        assert.equal((await storage.getDashboardStats()).totalProjects, 0);
+        assert.equal((await storage.getDashboardStats()).totalDocuments, 0);
+
+        const [item] = await storage.getTrash();
+        assert.equal(item.type, 'project');
+        assert.equal(item.id, project.id);
+        assert.equal(item.name, 'Trashed');
+        assert.ok(item.deletedAt instanceof Date);
+        assert.equal(item.deletedBy?.email, 'admin@example.com');
+
+        await storage.restoreFromTrash('project', project.id);
+        const restored = await storage.getProjectById(project.id);
+        assert.equal(restored?.deletedAt, null);
+        assert.equal(restored?.assignments.length, 1);
+        assert.equal(restored?.documents.length, 1);
+        assert.deepEqual(await storage.getTrash(), []);
+      });
+
+      it('hides a trashed document from its project', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const project = await storage.createProject({ name: 'Docs', createdBy: admin.id });
+        const kept = await createDocument(project.id, admin.id, 'kept.txt');
+        const trashed = await createDocument(project.id, admin.id, 'trashed.txt');
+
+        await storage.moveToTrash('document', trashed.id, admin.id);
+        assert.equal(await storage.getDocumentById(trashed.id), null);
+        assert.deepEqual((await storage.getProjectDocuments(project.id)).map(d => d.id), [kept.id]);
+        assert.deepEqual((await storage.getProjectById(project.id))?.documents.map(d => d.id), [kept.id]);
+
+        const [item] = await storage.getTrash();
+        assert.deepEqual(
+          { type: item.type, id: item.id, name: item.name, projectId: item.projectId },
+          { type: 'document', id: trashed.id, name: 'trashed.txt', projectId: project.id },
+        );
+
+        const purged = await storage.deleteDocument(trashed.id);
+        assert.equal(purged?.storageKey, 'trashed.txt');
+        assert.deepEqual(await storage.getTrash(), []);
+      });
+
+      it('hides a trashed user from lookups and project members', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const dev = await createUser('dev@example.com');
+        const project = await storage.createProject({ name: 'Team', createdBy: admin.id });
+        await storage.assignUserToProject({ projectId: project.id, userId: dev.id, assignedBy: admin.id });
+
+        await storage.moveToTrash('user', dev.id, admin.id);
+        assert.equal(await storage.getUserById(dev.id), null);
+        assert.equal(await storage.getUserByEmail('dev@example.com'), null);
+        assert.deepEqual((await listUsers()).map(u => u.id), [admin.id]);
+        assert.deepEqual((await storage.getProjectById(project.id))?.assignments, []);
+        assert.equal((await storage.getDashboardStats()).totalUsers, 1);
+
+        await storage.restoreFromTrash('user', dev.id);
+        assert.equal((await storage.getUserById(dev.id))?.email, 'dev@example.com');
+        assert.equal((await storage.getProjectById(project.id))?.assignments.length, 1);
+      });
+
+      it('lists the trash newest first', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const dev = await createUser('dev@example.com');
+        const project = await storage.createProject({ name: 'First', createdBy: admin.id });
+
+        await storage.moveToTrash('project', project.id, admin.id);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        await storage.moveToTrash('user', dev.id, admin.id);
+
+        assert.deepEqual((await storage.getTrash()).map(i => i.type), ['user', 'project']);
+      });
+
+      it('keeps a trashed record when whoever trashed it is purged', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const other = await createUser('other@example.com', 'admin');
+        const project = await storage.createProject({ name: 'Orphaned', createdBy: other.id });
+
+        await storage.moveToTrash('project', project.id, other.id);
+        await storage.deleteUser(other.id, { projectLead: 'nullify', ownedRecords: 'reassign', reassignTo: admin.id });
+
+        const [item] = await storage.getTrash();
+        assert.equal(item.id, project.id);
+        assert.equal(item.deletedBy, null);
+      });
+    });
+
+    describe('versions', () => {
+      it('starts projects at version 1 and bumps the version on every update', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const project = await storage.createProject({ name: 'Versioned', createdBy: admin.id });
+        assert.equal(project.version, 1);
+
+        await storage.updateProject(project.id, { description: 'First' });
+        await storage.updateProject(project.id, { description: 'Second' }, 2);
+        const updated = await storage.getProjectById(project.id);
+        assert.equal(updated?.version, 3);
+        assert.equal(updated?.description, 'Second');
+        assert.equal((await listProjects())[0].version, 3);
+      });
+
+      it('refuses a project update based on an older version without changing anything', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const project = await storage.createProject({ name: 'Contested', createdBy: admin.id });
+        await storage.updateProject(project.id, { description: 'Saved first' }, 1);
+
+        await assert.rejects(
+          storage.updateProject(project.id, { description: 'Saved second' }, 1),
+          (error: unknown) => error instanceof VersionConflictError && error.currentVersion === 2,
+        );
+        const current = await storage.getProjectById(project.id);
+        assert.equal(current?.description, 'Saved first');
+        assert.equal(current?.version, 2);
+      });
+
+      it('versions user updates the same way', async () => {
+        const dev = await createUser('dev@example.com');
+        assert.equal(dev.version, 1);
+
+        await storage.updateUser(dev.id, { role: 'project_lead' }, 1);
+        await assert.rejects(
+          storage.updateUser(dev.id, { role: 'developer' }, 1),
+          (error: unknown) => error instanceof VersionConflictError && error.currentVersion === 2,
+        );
+        const current = await storage.getUserById(dev.id);
+        assert.equal(current?.role, 'project_lead');
+        assert.equal(current?.version, 2);
+        assert.equal((await listUsers())[0].version, 2);
+      });
+    });
+
+    describe('audit log', () => {
+      const auditEntry = (overrides: Partial<InsertAuditEntry> = {}): InsertAuditEntry => ({
+        actorId: 'actor-1',
+        actorEmail: 'admin@example.com',
+        action: 'project.update',
+        targetType: 'project',
+        targetId: 'project-1',
+        targetName: 'Apollo',
+        projectId: 'project-1',
+        changes: null,
+        note: null,
+        ip: '127.0.0.1',
+        ...overrides,
+      });
+      const auditPage = (params: Record<string, unknown> = {}) =>
+        storage.listAuditEntries(auditLogQuerySchema.parse(params));
+
+      it('chains every entry onto the one before it', async () => {
+        const first = await storage.appendAuditEntry(auditEntry());
+        // Keys out of order - the database may store them in another order
+        await storage.appendAuditEntry(auditEntry({
+          changes: { status: { before: 'active', after: 'on_hold' }, name: { before: 'Apollo', after: 'Apollo II' } },
+        }));
+        await storage.appendAuditEntry(auditEntry({ action: 'document.download', targetType: 'document', targetId: 'doc-1' }));
+
+        const entries = await storage.getAuditEntries({});
+        assert.deepEqual(entries.map(e => e.sequence), [1, 2, 3]);
+        assert.equal(entries[0].hash, first.hash);
+        assert.equal(entries[1].previousHash, entries[0].hash);
+        assert.deepEqual(entries[1].changes, {
+          name: { before: 'Apollo', after: 'Apollo II' },
+          status: { before: 'active', after: 'on_hold' },
+        });
+        assert.deepEqual(verifyAuditChain(entries), { valid: true, entries: 3, brokenAt: null });
+      });
+
+      it('detects a changed or missing entry', async () => {
+        for (const targetName of ['One', 'Two', 'Three']) {
+          await storage.appendAuditEntry(auditEntry({ targetName }));
+        }
+        const entries = await storage.getAuditEntries({});
+
+        const changed = entries.map(e => (e.sequence === 2 ? { ...e, targetName: 'Forged' } : e));
+        assert.deepEqual(verifyAuditChain(changed), { valid: false, entries: 3, brokenAt: 2 });
+        assert.equal(verifyAuditChain([entries[0], entries[2]]).brokenAt, 3);
+      });
+
+      it('keeps the chain intact under concurrent appends', async () => {
+        await Promise.all([1, 2, 3, 4, 5].map(n => storage.appendAuditEntry(auditEntry({ targetId: `project-${n}` }))));
+
+        const entries = await storage.getAuditEntries({});
+        assert.deepEqual(entries.map(e => e.sequence), [1, 2, 3, 4, 5]);
+        assert.equal(verifyAuditChain(entries).valid, true);
+      });
+
+      it('lists entries newest first, filtered and paginated', async () => {
+        await storage.appendAuditEntry(auditEntry({ action: 'project.create' }));
+        await storage.appendAuditEntry(auditEntry({ actorId: 'actor-2', targetId: 'project-2' }));
+        await storage.appendAuditEntry(auditEntry({ action: 'user.role_change', targetType: 'user', targetId: 'user-1' }));
+
+        const all = await auditPage({ pageSize: '2' });
+        assert.equal(all.total, 3);
+        assert.deepEqual(all.items.map(e => e.sequence), [3, 2]);
+
+        assert.deepEqual((await auditPage({ actorId: 'actor-1' })).items.map(e => e.sequence), [3, 1]);
+        assert.deepEqual((await auditPage({ targetType: 'project', targetId: 'project-1' })).items.map(e => e.sequence), [1]);
+        assert.deepEqual((await storage.getAuditEntries({ action: 'user.role_change' })).map(e => e.sequence), [3]);
+
+        const from = new Date(Date.now() + 60_000);
+        assert.equal((await auditPage({ from: from.toISOString() })).total, 0);
+        assert.equal((await auditPage({ to: from.toISOString() })).total, 3);
+      });
+
+      it('narrows entries to a project and a set of actions', async () => {
+        await storage.appendAuditEntry(auditEntry({ action: 'project.update', note: 'Waiting on the publisher' }));
+        await storage.appendAuditEntry(auditEntry({ action: 'document.download', targetType: 'document', targetId: 'doc-1' }));
+        await storage.appendAuditEntry(auditEntry({ action: 'document.upload', targetType: 'document', targetId: 'doc-2' }));
+        await storage.appendAuditEntry(auditEntry({ projectId: 'project-2', targetId: 'project-2' }));
+
+        const activity = await storage.listAuditEntries({
+          ...auditLogQuerySchema.parse({}),
+          projectId: 'project-1',
+          actions: ['project.update', 'document.upload'],
+        });
+        assert.equal(activity.total, 2);
+        assert.deepEqual(activity.items.map(e => e.sequence), [3, 1]);
+        assert.equal(activity.items[1].note, 'Waiting on the publisher');
+        assert.equal((await auditPage({ projectId: 'project-2' })).total, 1);
+        assert.equal(verifyAuditChain(await storage.getAuditEntries({})).valid, true);
+      });
+
+      it('drops entries appended in a failed transaction', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        await assert.rejects(storage.transaction(async () => {
+          await storage.updateUser(admin.id, { role: 'project_lead' });
+          await storage.appendAuditEntry(auditEntry({ action: 'user.role_change' }));
+          throw new Error('Work failed');
+        }), /Work failed/);
+
+        assert.deepEqual(await storage.getAuditEntries({}), []);
+        const next = await storage.appendAuditEntry(auditEntry());
+        assert.equal(next.sequence, 1);
+      });
+    });
+
+    describe('workspace', () => {
+      it('exports every record, trashed ones included', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const dev = await createUser('dev@example.com');
+        const project = await storage.createProject({ name: 'Apollo', createdBy: admin.id });
+        await storage.assignUserToProject({ projectId: project.id, userId: dev.id, assignedBy: admin.id });
+        await storage.moveToTrash('project', project.id, admin.id);
+        await storage.moveToTrash('user', dev.id, admin.id);
+
+        const data = await storage.exportWorkspace();
+        assert.deepEqual(data.users.map(u => u.email).sort(), ['admin@example.com', 'dev@example.com']);
+        assert.equal(data.users.find(u => u.id === dev.id)?.deletedBy, admin.id);
+        assert.equal(data.users[0].passwordHash, 'hash');
+        assert.deepEqual(data.projects.map(p => p.id), [project.id]);
+        assert.ok(data.projects[0].deletedAt instanceof Date);
+        assert.equal(data.assignments.length, 1);
+        assert.deepEqual(data.documents, []);
+      });
+
+      it('imports records under new ids with their references, timestamps and trash state', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const lead = await createUser('lead@example.com', 'project_lead');
+        const project = await storage.createProject({ name: 'Apollo', createdBy: admin.id, projectLeadId: lead.id });
+        await storage.updateProject(project.id, { status: 'on_hold' });
+        await storage.assignUserToProject({ projectId: project.id, userId: lead.id, assignedBy: admin.id });
+        const document = await storage.createDocument({
+          projectId: project.id,
+          fileName: 'brief.txt',
+          originalName: 'brief.txt',
+          fileSize: 1,
+          mimeType: 'text/plain',
+          uploadedBy: lead.id,
+          storageProvider: 'memory',
+          storageKey: 'brief',
+        });
+        const trashed = await storage.createProject({ name: 'Shelved', createdBy: lead.id });
+        await storage.moveToTrash('project', trashed.id, lead.id);
+        const data = await storage.exportWorkspace();
+
+        await harness.reset();
+        await storage.importWorkspace(data);
+
+        const importedLead = await storage.getUserByEmail('lead@example.com');
+        assert.ok(importedLead && importedLead.id !== lead.id);
+        assert.equal(importedLead.passwordHash, 'hash');
+        assert.equal(importedLead.createdAt?.getTime(), lead.createdAt?.getTime());
+
+        const [imported] = await listProjects();
+        assert.notEqual(imported.id, project.id);
+        assert.equal(imported.name, 'Apollo');
+        assert.equal(imported.status, 'on_hold');
+        assert.equal(imported.version, 2);
+        assert.equal(imported.createdBy?.email, 'admin@example.com');
+        assert.equal(imported.projectLead?.email, 'lead@example.com');
+        assert.deepEqual(imported.assignments.map(a => a.user.email), ['lead@example.com']);
+        assert.deepEqual(imported.documents.map(d => [d.originalName, d.storageKey, d.uploadedBy]), [['brief.txt', 'brief', importedLead.id]]);
+        assert.notEqual(imported.documents[0].id, document.id);
+
+        const [item] = await storage.getTrash();
+        assert.equal(item.name, 'Shelved');
+        assert.equal(item.deletedBy?.email, 'lead@example.com');
+      });
+    });
+
+    describe('sessions', () => {
+      const HOUR = 60 * 60 * 1000;
+      const userSession = (sid: string, userId: string | null, overrides: Partial<UserSession> = {}) => ({
+        sid,
+        sess: { cookie: { path: '/' }, userId },
+        expire: new Date(Date.now() + HOUR),
+        userId,
+        userAgent: 'Mozilla/5.0',
+        ip: '127.0.0.1',
+        lastSeenAt: new Date(),
+        ...overrides,
+      });
+
+      it('saves sessions and updates them in place, keeping when they were created', async () => {
+        const user = await createUser('dev@example.com');
+        await storage.saveUserSession(userSession('sid-1', user.id));
+        const saved = await storage.getUserSession('sid-1');
+        assert.equal(saved?.userId, user.id);
+        assert.deepEqual(saved?.sess, { cookie: { path: '/' }, userId: user.id });
+        assert.ok(saved?.createdAt instanceof Date);
+
+        const later = new Date(Date.now() + 60_000);
+        await storage.saveUserSession(userSession('sid-1', user.id, { ip: '10.0.0.1', lastSeenAt: later }));
+        const updated = await storage.getUserSession('sid-1');
+        assert.equal(updated?.ip, '10.0.0.1');
+        assert.equal(updated?.lastSeenAt.getTime(), later.getTime());
+        assert.equal(updated?.createdAt.getTime(), saved?.createdAt.getTime());
+
+        await storage.deleteUserSession('sid-1');
+        assert.equal(await storage.getUserSession('sid-1'), null);
+      });
+
+      it('updates sessions only while they exist', async () => {
+        const user = await createUser('dev@example.com');
+        assert.equal(await storage.updateUserSession(userSession('sid-1', user.id)), false);
+        assert.equal(await storage.getUserSession('sid-1'), null);
+
+        await storage.saveUserSession(userSession('sid-1', user.id));
+        assert.equal(await storage.updateUserSession(userSession('sid-1', user.id, { ip: '10.0.0.1' })), true);
+        assert.equal((await storage.getUserSession('sid-1'))?.ip, '10.0.0.1');
+
+        await storage.deleteUserSession('sid-1');
+        assert.equal(await storage.updateUserSession(userSession('sid-1', user.id)), false);
+        assert.equal(await storage.getUserSession('sid-1'), null);
+      });
+
+      it('hides expired sessions and purges them', async () => {
+        const user = await createUser('dev@example.com');
+        await storage.saveUserSession(userSession('live', user.id));
+        await storage.saveUserSession(userSession('expired', user.id, { expire: new Date(Date.now() - 1000) }));
+
+        assert.equal(await storage.getUserSession('expired'), null);
+        assert.deepEqual((await storage.listUserSessions(user.id)).map(s => s.sid), ['live']);
+        assert.equal(await storage.purgeExpiredSessions(), 1);
+        assert.equal(await storage.purgeExpiredSessions(), 0);
+        assert.ok(await storage.getUserSession('live'));
+      });
+
+      it("lists and revokes a user's sessions, most recently seen first", async () => {
+        const dev = await createUser('dev@example.com');
+        const other = await createUser('other@example.com');
+        await storage.saveUserSession(userSession('older', dev.id, { lastSeenAt: new Date(Date.now() - HOUR) }));
+        await storage.saveUserSession(userSession('newer', dev.id));
+        await storage.saveUserSession(userSession('theirs', other.id));
+        await storage.saveUserSession(userSession('anonymous', null));
+
+        assert.deepEqual((await storage.listUserSessions(dev.id)).map(s => s.sid), ['newer', 'older']);
+
+        await storage.deleteUserSessions(dev.id);
+        assert.deepEqual(await storage.listUserSessions(dev.id), []);
+        assert.ok(await storage.getUserSession('theirs'));
+        assert.ok(await storage.getUserSession('anonymous'));
+      });
+
+      it('removes the sessions of deleted users', async () => {
+        const user = await createUser('dev@example.com');
+        await storage.saveUserSession(userSession('sid-1', user.id));
+        await storage.deleteUser(user.id);
+        assert.equal(await storage.getUserSession('sid-1'), null);
+      });
+    });
+
+    describe('two-factor', () => {
+      it('saves a user\'s two-factor record and replaces it in place', async () => {
+        const user = await createUser('dev@example.com');
+        assert.equal(await storage.getUserTwoFactor(user.id), null);
+
+        const pending = await storage.saveUserTwoFactor({
+          userId: user.id,
+          secret: 'JBSWY3DPEHPK3PXP',
+          enabledAt: null,
+          recoveryCodeHashes: [],
+          lastUsedStep: null,
+        });
+        assert.equal(pending.enabledAt, null);
+        assert.ok(pending.createdAt instanceof Date);
+
+        const enabledAt = new Date();
+        await storage.saveUserTwoFactor({
+          userId: user.id,
+          secret: 'JBSWY3DPEHPK3PXP',
+          enabledAt,
+          recoveryCodeHashes: ['a', 'b'],
+          lastUsedStep: 42,
+        });
+        const saved = await storage.getUserTwoFactor(user.id);
+        assert.equal(saved?.enabledAt?.getTime(), enabledAt.getTime());
+        assert.deepEqual(saved?.recoveryCodeHashes, ['a', 'b']);
+        assert.equal(saved?.lastUsedStep, 42);
+        assert.equal(saved?.createdAt.getTime(), pending.createdAt.getTime());
+
+        await storage.deleteUserTwoFactor(user.id);
+        assert.equal(await storage.getUserTwoFactor(user.id), null);
+      });
+
+      it('uses up each app code step and recovery code once', async () => {
+        const user = await createUser('dev@example.com');
+        assert.equal(await storage.useTotpStep(user.id, 42), false);
+        await storage.saveUserTwoFactor({ userId: user.id, secret: 'JBSWY3DPEHPK3PXP', enabledAt: new Date(), recoveryCodeHashes: ['a', 'b'], lastUsedStep: null });
+
+        assert.deepEqual(await Promise.all([storage.useTotpStep(user.id, 42), storage.useTotpStep(user.id, 42)]).then(r => r.sort()), [false, true]);
+        assert.equal(await storage.useTotpStep(user.id, 41), false);
+        assert.equal(await storage.useTotpStep(user.id, 43), true);
+
+        assert.equal(await storage.useRecoveryCode(user.id, 'a'), true);
+        assert.equal(await storage.useRecoveryCode(user.id, 'a'), false);
+        assert.equal(await storage.useRecoveryCode(user.id, 'c'), false);
+        const used = await storage.getUserTwoFactor(user.id);
+        assert.deepEqual(used?.recoveryCodeHashes, ['b']);
+        assert.equal(used?.lastUsedStep, 43);
+      });
+
+      it('removes the two-factor record of deleted users', async () => {
+        const user = await createUser('dev@example.com');
+        await storage.saveUserTwoFactor({ userId: user.id, secret: 'JBSWY3DPEHPK3PXP', enabledAt: new Date(), recoveryCodeHashes: [], lastUsedStep: null });
+        await storage.deleteUser(user.id);
+        assert.equal(await storage.getUserTwoFactor(user.id), null);
+      });
+    });
+
+    describe('password resets', () => {
+      const HOUR = 60 * 60 * 1000;
+      const resetToken = (tokenHash: string, userId: string, expiresAt = new Date(Date.now() + HOUR)) => ({ tokenHash, userId, expiresAt });
+
+      it('hands a token over once, then forgets it', async () => {
+        const user = await createUser('dev@example.com');
+        await storage.savePasswordResetToken(resetToken('a'.repeat(64), user.id));
+
+        assert.equal(await storage.consumePasswordResetToken('a'.repeat(64)), user.id);
+        assert.equal(await storage.consumePasswordResetToken('a'.repeat(64)), null);
+        assert.equal(await storage.consumePasswordResetToken('b'.repeat(64)), null);
+      });
+
+      it('keeps only the newest token of a user', async () => {
+        const user = await createUser('dev@example.com');
+        const other = await createUser('other@example.com');
+        await storage.savePasswordResetToken(resetToken('a'.repeat(64), user.id));
+        await storage.savePasswordResetToken(resetToken('b'.repeat(64), user.id));
+        await storage.savePasswordResetToken(resetToken('c'.repeat(64), other.id));
+
+        assert.equal(await storage.consumePasswordResetToken('a'.repeat(64)), null);
+        assert.equal(await storage.consumePasswordResetToken('b'.repeat(64)), user.id);
+        assert.equal(await storage.consumePasswordResetToken('c'.repeat(64)), other.id);
+      });
+
+      it('refuses expired tokens and those of deleted users', async () => {
+        const user = await createUser('dev@example.com');
+        const deleted = await createUser('deleted@example.com');
+        await storage.savePasswordResetToken(resetToken('a'.repeat(64), user.id, new Date(Date.now() - 1000)));
+        await storage.savePasswordResetToken(resetToken('b'.repeat(64), deleted.id));
+        await storage.deleteUser(deleted.id);
+
+        assert.equal(await storage.consumePasswordResetToken('a'.repeat(64)), null);
+        assert.equal(await storage.consumePasswordResetToken('b'.repeat(64)), null);
+      });
+    });
+
+    describe('password history', () => {
+      const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+      it('lists passwords newest first, keeping only the newest few of each user', async () => {
+        const user = await createUser('dev@example.com');
+        const other = await createUser('other@example.com');
+        for (const hash of ['one', 'two', 'three', 'four']) {
+          await storage.addPasswordHistory(user.id, hash, 3);
+          await tick();
+        }
+        await storage.addPasswordHistory(other.id, 'other', 3);
+
+        const history = await storage.listPasswordHistory(user.id, 10);
+        assert.deepEqual(history.map(entry => entry.passwordHash), ['four', 'three', 'two']);
+        assert.ok(history[0].createdAt instanceof Date);
+        assert.deepEqual((await storage.listPasswordHistory(user.id, 1)).map(entry => entry.passwordHash), ['four']);
+        assert.deepEqual(await storage.listPasswordHistory('00000000-0000-0000-0000-000000000000', 10), []);
+      });
+
+      it('forgets the passwords of deleted users', async () => {
+        const user = await createUser('dev@example.com');
+        await storage.addPasswordHistory(user.id, 'one', 3);
+        await storage.deleteUser(user.id);
+        assert.deepEqual(await storage.listPasswordHistory(user.id, 10), []);
+      });
+    });
+
+    describe('single sign-on identities', () => {
+      const issuer = 'https://id.example.com';
+
+      it('links a user to their account at the identity provider', async () => {
+        const user = await createUser('dev@example.com');
+        const identity = await storage.createUserIdentity({ userId: user.id, issuer, subject: 'sub-1' });
+
+        assert.equal(identity.subject, 'sub-1');
+        assert.ok(identity.createdAt instanceof Date);
+        assert.equal((await storage.getUserIdentity(user.id))?.subject, 'sub-1');
+        assert.equal((await storage.findUserIdentity(issuer, 'sub-1'))?.userId, user.id);
+        assert.equal(await storage.findUserIdentity('https://other.example.com', 'sub-1'), null);
+        assert.equal(await storage.findUserIdentity(issuer, 'sub-2'), null);
+      });
+
+      it('links each user and each provider account once', async () => {
+        const user = await createUser('dev@example.com');
+        const other = await createUser('other@example.com');
+        await storage.createUserIdentity({ userId: user.id, issuer, subject: 'sub-1' });
+
+        await assert.rejects(storage.createUserIdentity({ userId: user.id, issuer, subject: 'sub-2' }));
+        await assert.rejects(storage.createUserIdentity({ userId: other.id, issuer, subject: 'sub-1' }));
+      });
+
+      it('unlinks deleted users', async () => {
+        const user = await createUser('dev@example.com');
+        await storage.createUserIdentity({ userId: user.id, issuer, subject: 'sub-1' });
+        await storage.deleteUser(user.id);
+        assert.equal(await storage.findUserIdentity(issuer, 'sub-1'), null);
+      });
+    });
+
+    describe('API tokens', () => {
+      const DAY = 24 * 60 * 60 * 1000;
+      const addToken = (userId: string, tokenHash: string, projectIds: string[]) => storage.createApiToken({
+        userId,
+        name: `CI ${tokenHash}`,
+        tokenHash,
+        prefix: 'pfn_abcd',
+        access: 'write',
+        projectIds,
+        expiresAt: new Date(Date.now() + DAY),
+      });
+
+      it('creates tokens, finds them by hash and lists them per user, newest first', async () => {
+        const user = await createUser('dev@example.com');
+        const other = await createUser('other@example.com');
+        const project = await storage.createProject({ name: 'Nightly', createdBy: user.id });
+        const first = await addToken(user.id, 'a'.repeat(64), [project.id]);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const second = await addToken(user.id, 'b'.repeat(64), [project.id]);
+        await addToken(other.id, 'c'.repeat(64), [project.id]);
+
+        assert.equal(first.access, 'write');
+        assert.deepEqual(first.projectIds, [project.id]);
+        assert.equal(first.lastUsedAt, null);
+        assert.ok(first.createdAt instanceof Date);
+        assert.equal((await storage.getApiTokenByHash('a'.repeat(64)))?.id, first.id);
+        assert.equal(await storage.getApiTokenByHash('d'.repeat(64)), null);
+        assert.deepEqual((await storage.listApiTokens(user.id)).map(t => t.id), [second.id, first.id]);
+      });
+
+      it('refuses a second token with the same hash', async () => {
+        const user = await createUser('dev@example.com');
+        await addToken(user.id, 'a'.repeat(64), []);
+        await assert.rejects(addToken(user.id, 'a'.repeat(64), []));
+      });
+
+      it('records when a token was last used', async () => {
+        const user = await createUser('dev@example.com');
+        const token = await addToken(user.id, 'a'.repeat(64), []);
+        const usedAt = new Date(Date.now() - 1000);
+        await storage.touchApiToken(token.id, usedAt);
+        assert.equal((await storage.getApiTokenByHash('a'.repeat(64)))?.lastUsedAt?.getTime(), usedAt.getTime());
+      });
+
+      it('deletes a token only for its owner', async () => {
+        const user = await createUser('dev@example.com');
+        const other = await createUser('other@example.com');
+        const token = await addToken(user.id, 'a'.repeat(64), []);
+
+        assert.equal(await storage.deleteApiToken(other.id, token.id), false);
+        assert.equal(await storage.deleteApiToken(user.id, token.id), true);
+        assert.equal(await storage.deleteApiToken(user.id, token.id), false);
+        assert.equal(await storage.getApiTokenByHash('a'.repeat(64)), null);
+      });
+
+      it('removes the tokens of deleted users', async () => {
+        const user = await createUser('dev@example.com');
+        await addToken(user.id, 'a'.repeat(64), []);
+        await storage.deleteUser(user.id);
+        assert.equal(await storage.getApiTokenByHash('a'.repeat(64)), null);
+      });
+    });
+
+    describe('invitations', () => {
+      const DAY = 24 * 60 * 60 * 1000;
+      const invite = (email: string, invitedBy: string | null, overrides: Partial<InsertInvitation> = {}) => storage.createInvitation({
+        email,
+        firstName: null,
+        lastName: null,
+        role: 'developer',
+        invitedBy,
+        expiresAt: new Date(Date.now() + DAY),
+        tokenHash: `${email}-token`,
+        ...overrides,
+      });
+
+      it('creates invitations and finds them by id and email, newest first', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const first = await invite('first@example.com', admin.id, { firstName: 'Ada', role: 'project_lead' });
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const second = await invite('second@example.com', admin.id);
+
+        assert.equal(first.firstName, 'Ada');
+        assert.equal(first.lastName, null);
+        assert.equal(first.role, 'project_lead');
+        assert.equal(first.invitedBy, admin.id);
+        assert.ok(first.sentAt instanceof Date);
+        assert.equal((await storage.getInvitation(first.id))?.email, 'first@example.com');
+        assert.equal((await storage.getInvitationByEmail('second@example.com'))?.id, second.id);
+        assert.equal(await storage.getInvitationByEmail('nobody@example.com'), null);
+        assert.equal((await storage.getInvitationByTokenHash('first@example.com-token'))?.id, first.id);
+        assert.equal(await storage.getInvitationByTokenHash('unknown'), null);
+        assert.deepEqual((await storage.listInvitations()).map(i => i.email), ['second@example.com', 'first@example.com']);
+      });
+
+      it('refuses a second invitation for the same email', async () => {
+        await invite('dev@example.com', null);
+        await assert.rejects(invite('dev@example.com', null));
+      });
+
+      it('renews and deletes invitations', async () => {
+        const invitation = await invite('dev@example.com', null);
+        const expiresAt = new Date(Date.now() + 7 * DAY);
+        const renewed = await storage.renewInvitation(invitation.id, expiresAt, 'new-token');
+        assert.equal(renewed?.expiresAt.getTime(), expiresAt.getTime());
+        assert.equal(renewed?.tokenHash, 'new-token');
+        assert.ok(renewed!.sentAt.getTime() >= invitation.sentAt.getTime());
+        assert.equal(await storage.getInvitationByTokenHash('dev@example.com-token'), null);
+
+        assert.equal(await storage.deleteInvitation(invitation.id), true);
+        assert.equal(await storage.deleteInvitation(invitation.id), false);
+        assert.equal(await storage.getInvitation(invitation.id), null);
+        assert.equal(await storage.renewInvitation(invitation.id, expiresAt, 'newer-token'), null);
+      });
+
+      it('consumes an unexpired invitation by its token once', async () => {
+        const invitation = await invite('dev@example.com', null);
+        assert.equal(await storage.consumeInvitation('unknown'), null);
+        assert.equal(await storage.consumeInvitation('dev@example.com-token', new Date(Date.now() + 2 * DAY)), null);
+
+        const [consumed, again] = await Promise.all([
+          storage.consumeInvitation('dev@example.com-token'),
+          storage.consumeInvitation('dev@example.com-token'),
+        ]);
+        assert.equal(consumed?.id ?? again?.id, invitation.id);
+        assert.ok(!consumed || !again);
+        assert.equal(await storage.getInvitation(invitation.id), null);
+      });
+
+      it('keeps invitations sent by a user who is deleted later', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const invitation = await invite('dev@example.com', admin.id);
+        await storage.deleteUser(admin.id);
+        assert.equal((await storage.getInvitation(invitation.id))?.invitedBy, null);
+      });
+    });
+
+    describe('registrations', () => {
+      const register = (email: string) => storage.createRegistration({
+        email,
+        firstName: 'Ada',
+        lastName: 'Lovelace',
+        passwordHash: 'hash',
+      });
+
+      it('creates registrations and finds them by id and email, oldest first', async () => {
+        const first = await register('first@example.com');
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const second = await register('second@example.com');
+
+        assert.equal(first.firstName, 'Ada');
+        assert.equal(first.passwordHash, 'hash');
+        assert.ok(first.createdAt instanceof Date);
+        assert.equal((await storage.getRegistration(first.id))?.email, 'first@example.com');
+        assert.equal((await storage.getRegistrationByEmail('second@example.com'))?.id, second.id);
+        assert.equal(await storage.getRegistrationByEmail('nobody@example.com'), null);
+        assert.deepEqual((await storage.listRegistrations()).map(r => r.email), ['first@example.com', 'second@example.com']);
+      });
+
+      it('refuses a second registration for the same email', async () => {
+        await register('dev@example.com');
+        await assert.rejects(register('dev@example.com'));
+      });
+
+      it('deletes registrations', async () => {
+        const registration = await register('dev@example.com');
+        assert.equal(await storage.deleteRegistration(registration.id), true);
+        assert.equal(await storage.deleteRegistration(registration.id), false);
+        assert.equal(await storage.getRegistration(registration.id), null);
+      });
+    });
+
+    describe('login throttles', () => {
+      const MINUTE = 60 * 1000;
+      const ago = (ms: number) => new Date(Date.now() - ms);
+
+      it('counts failures and starts over after a quiet spell', async () => {
+        assert.equal(await storage.getLoginThrottle('account:dev@example.com'), null);
+
+        await storage.recordLoginFailure('account:dev@example.com', ago(20 * MINUTE), ago(35 * MINUTE));
+        const second = await storage.recordLoginFailure('account:dev@example.com', ago(10 * MINUTE), ago(25 * MINUTE));
+        assert.equal(second.failures, 2);
+        assert.equal(second.lockedUntil, null);
+
+        const now = new Date();
+        await storage.lockLoginThrottle('account:dev@example.com', new Date(now.getTime() + MINUTE));
+        assert.equal((await storage.getLoginThrottle('account:dev@example.com'))?.lockedUntil?.getTime(), now.getTime() + MINUTE);
+
+        // The last failure was before resetBefore
+        const restarted = await storage.recordLoginFailure('account:dev@example.com', now, ago(5 * MINUTE));
+        assert.equal(restarted.failures, 1);
+        assert.equal(restarted.lockedUntil, null);
+        assert.equal(restarted.lastFailureAt.getTime(), now.getTime());
+      });
+
+      it('counts concurrent failures', async () => {
+        const now = new Date();
+        await Promise.all(Array.from({ length: 5 }, () => storage.recordLoginFailure('ip:10.0.0.1', now, ago(MINUTE))));
+        assert.equal((await storage.getLoginThrottle('ip:10.0.0.1'))?.failures, 5);
+      });
+
+      it('takes back failures, never below none', async () => {
+        const now = new Date();
+        await storage.recordLoginFailure('ip:10.0.0.1', now, ago(MINUTE));
+        await storage.recordLoginFailure('ip:10.0.0.1', now, ago(MINUTE));
+        await Promise.all([storage.releaseLoginFailure('ip:10.0.0.1'), storage.releaseLoginFailure('ip:10.0.0.1'), storage.releaseLoginFailure('ip:10.0.0.1')]);
+        assert.equal((await storage.getLoginThrottle('ip:10.0.0.1'))?.failures, 0);
+        await storage.releaseLoginFailure('ip:10.0.0.2');
+        assert.equal(await storage.getLoginThrottle('ip:10.0.0.2'), null);
+      });
+
+      it('lists those locked now and clears them', async () => {
+        const now = new Date();
+        await storage.recordLoginFailure('account:locked@example.com', now, ago(MINUTE));
+        await storage.recordLoginFailure('account:expired@example.com', now, ago(MINUTE));
+        await storage.recordLoginFailure('ip:10.0.0.1', now, ago(MINUTE));
+        await storage.lockLoginThrottle('account:locked@example.com', new Date(now.getTime() + MINUTE));
+        await storage.lockLoginThrottle('account:expired@example.com', ago(MINUTE));
+
+        assert.deepEqual((await storage.listLockedLoginThrottles(now)).map(t => t.key), ['account:locked@example.com']);
+
+        await storage.clearLoginThrottle('account:locked@example.com');
+        assert.equal(await storage.getLoginThrottle('account:locked@example.com'), null);
+        assert.deepEqual(await storage.listLockedLoginThrottles(now), []);
+      });
+
+      it('purges those that ended before a time', async () => {
+        await storage.recordLoginFailure('account:old@example.com', ago(30 * MINUTE), ago(45 * MINUTE));
+        await storage.recordLoginFailure('account:old-locked@example.com', ago(30 * MINUTE), ago(45 * MINUTE));
+        await storage.lockLoginThrottle('account:old-locked@example.com', new Date(Date.now() + MINUTE));
+        await storage.recordLoginFailure('account:recent@example.com', ago(MINUTE), ago(16 * MINUTE));
+
+        assert.equal(await storage.purgeLoginThrottles(ago(15 * MINUTE)), 1);
+        assert.equal(await storage.getLoginThrottle('account:old@example.com'), null);
+        assert.ok(await storage.getLoginThrottle('account:old-locked@example.com'));
+        assert.ok(await storage.getLoginThrottle('account:recent@example.com'));
+      });
+    });
+
+    describe('settings', () => {
+      it('reads back saved values and null for keys never saved', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        assert.equal(await storage.getSetting('security'), null);
+
+        await storage.saveSetting('security', { twoFactorRequiredRoles: ['admin'] }, admin.id);
+        await storage.saveSetting('security', { twoFactorRequiredRoles: ['admin', 'project_lead'] }, admin.id);
+        assert.deepEqual(await storage.getSetting('security'), { twoFactorRequiredRoles: ['admin', 'project_lead'] });
+      });
+
+      it('keeps settings saved by a user who is deleted later', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        await storage.saveSetting('security', { twoFactorRequiredRoles: [] }, admin.id);
+        await storage.deleteUser(admin.id);
+        assert.deepEqual(await storage.getSetting('security'), { twoFactorRequiredRoles: [] });
+      });
+    });
+
+    describe('transactions', () => {
+      it('commits every write when the work succeeds', async () => {
+        const lead = await createUser('lead@example.com', 'project_lead');
+        const dev = await createUser('dev@example.com');
+
+        const project = await storage.transaction(async () => {
+          const project = await storage.createProject({ name: 'Committed', createdBy: lead.id });
+          await storage.assignUserToProject({ projectId: project.id, userId: dev.id, assignedBy: lead.id });
+          return project;
+        });
+
+        const saved = await storage.getProjectById(project.id);
+        assert.deepEqual(saved?.assignments.map(a => a.userId), [dev.id]);
+      });
+
+      it('rolls back every write and rethrows when the work fails', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const dev = await createUser('dev@example.com');
+        const existing = await storage.createProject({ name: 'Existing', createdBy: admin.id });
+        const failure = new Error('upload failed');
+
+        await assert.rejects(storage.transaction(async () => {
+          const project = await storage.createProject({ name: 'Rolled Back', createdBy: admin.id });
+          await storage.assignUserToProject({ projectId: project.id, userId: dev.id, assignedBy: admin.id });
+          await storage.createDocument({
+            projectId: project.id,
+            fileName: 'notes.txt',
+            originalName: 'notes.txt',
+            fileSize: 1,
+            mimeType: 'text/plain',
+            uploadedBy: admin.id,
+            storageProvider: 'memory',
+            storageKey: 'notes',
+          });
+          await storage.updateProject(existing.id, { name: 'Renamed' });
+          await storage.updateUser(dev.id, { role: 'project_lead' });
+          await storage.moveToTrash('user', admin.id, admin.id);
+          throw failure;
+        }), failure);
+
+        assert.deepEqual((await listProjects()).map(p => p.name), ['Existing']);
+        assert.equal((await storage.getUserById(dev.id))?.role, 'developer');
+        assert.equal((await storage.getUserById(admin.id))?.id, admin.id);
+        assert.deepEqual(await storage.getTrash(), []);
+      });
+
+      it('undoes a nested transaction with the one around it', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+
+        await assert.rejects(storage.transaction(async () => {
+          await storage.transaction(() => storage.createProject({ name: 'Inner', createdBy: admin.id }));
+          throw new Error('outer failed');
+        }));
+
+        assert.deepEqual(await listProjects(), []);
+      });
+
+      it('keeps writes made alongside a failed transaction', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        let started!: () => void;
+        const running = new Promise<void>(resolve => { started = resolve; });
+
+        const failing = storage.transaction(async () => {
+          await storage.createProject({ name: 'Rolled Back', createdBy: admin.id });
+          started();
+          await new Promise(resolve => setTimeout(resolve, 20));
+          throw new Error('failed');
+        });
+        await running;
+        const alongside = Promise.all([
+          storage.createProject({ name: 'Alongside', createdBy: admin.id }),
+          storage.transaction(() => storage.createProject({ name: 'Committed', createdBy: admin.id })),
+        ]);
+        await assert.rejects(failing);
+        await alongside;
+
+        assert.deepEqual((await listProjects()).map(p => p.name).sort(), ['Alongside', 'Committed']);
+      });
+    });
+
+    describe('dashboard stats', () => {
+      it('counts projects by status, users and documents', async () => {
+        const admin = await createUser('admin@example.com', 'admin');
+        const lead = await createUser('lead@example.com', 'project_lead');
+        await createUser('dev@example.com');
+        const inThreeDays = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000);
+        const nextMonth = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+
+        const active = await storage.createProject({ name: 'Active', createdBy: admin.id, deadline: inThreeDays });
+        await storage.createProject({ name: 'Later', createdBy: admin.id, deadline: nextMonth });
+        await storage.createProject({ name: 'Done', createdBy: admin.id, status: 'completed', deadline: inThreeDays });
+        await storage.createProject({ name: 'Paused', createdBy: admin.id, status: 'on_hold' });
+        await storage.createDocument({
+          projectId: active.id,
+          fileName: 'notes.txt',
+          originalName: 'notes.txt',
+          fileSize: 5,
+          mimeType: 'text/plain',
+          uploadedBy: lead.id,
+          storageProvider: 'memory',
+          storageKey: 'notes',
+        });
+
+        assert.deepEqual(await storage.getDashboardStats(), {
+          totalProjects: 4,
+          activeProjects: 2,
+          completedProjects: 1,
+          onHoldProjects: 1,
+          teamMembers: 2,
+          totalUsers: 3,
+          totalDocuments: 1,
+          dueThisWeek: 1,
+        });
+      });
+    });
+  });
+}
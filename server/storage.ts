@@ -1,5 +1,37 @@
-// MongoDB Atlas storage implementation with Cloudinary for file storage
+// Storage facade - forwards to the MongoDB Atlas, PostgreSQL or in-memory backend
+// selected by the STORAGE_BACKEND environment variable (defaults to mongodb)
 import { mongoStorage } from './mongodb-storage';
+import { postgresStorage } from './postgres-storage';
+import { memoryStorage } from './memory-storage';
+import type { UserDeletePolicy } from './delete-policy';
+import type {
+  ProjectWithDetails,
+  UserWithStats,
+  DashboardStats,
+  TrashItem,
+  TrashItemType,
+  Page,
+  ProjectListQuery,
+  UserListQuery,
+  SearchQuery,
+  SearchResults,
+  AuditEntry,
+  AuditLogQuery,
+  AuditLogFilter,
+  UserSession,
+  UserTwoFactor,
+  PasswordResetToken,
+  Invitation,
+  InsertInvitation,
+  Registration,
+  InsertRegistration,
+  LoginThrottle,
+  PasswordHistoryEntry,
+  ApiToken,
+  InsertApiToken,
+  UserIdentity,
+  InsertUserIdentity,
+} from '../shared/schema';
 
 // Types for compatibility with existing code
 export type User = {
@@ -10,8 +42,11 @@ export type User = {
   profileImageUrl: string | null;
   passwordHash: string;
   role: 'admin' | 'project_lead' | 'developer';
+  version: number;
   createdAt: Date | null;
   updatedAt: Date | null;
+  deletedAt: Date | null;
+  deletedBy: string | null;
 };
 
 export type CreateUser = {
@@ -33,8 +68,11 @@ export type Project = {
   status: 'active' | 'completed' | 'on_hold';
   createdBy: string;
   projectLeadId: string | null;
+  version: number;
   createdAt: Date | null;
   updatedAt: Date | null;
+  deletedAt: Date | null;
+  deletedBy: string | null;
 };
 
 export type InsertProject = {
@@ -68,9 +106,12 @@ export type Document = {
   fileSize: number;
   mimeType: string;
   uploadedBy: string;
-  cloudinaryUrl: string;
-  cloudinaryPublicId: string;
+  storageProvider: string;
+  storageKey: string;
+  storageUrl: string | null;
   createdAt: Date | null;
+  deletedAt: Date | null;
+  deletedBy: string | null;
 };
 
 export type InsertDocument = {
@@ -80,89 +121,539 @@ export type InsertDocument = {
   fileSize: number;
   mimeType: string;
   uploadedBy: string;
-  cloudinaryUrl: string;
-  cloudinaryPublicId: string;
+  storageProvider: string;
+  storageKey: string;
+  storageUrl?: string | null;
 };
 
-export const storage = {
+// An audit log entry as recorded; the backend adds id, sequence, time and hashes
+export type InsertAuditEntry = Pick<
+  AuditEntry,
+  'actorId' | 'actorEmail' | 'action' | 'targetType' | 'targetId' | 'targetName' | 'projectId' | 'changes' | 'note' | 'ip'
+>;
+
+// Every user, project, assignment and document, trashed ones included
+export type WorkspaceData = {
+  users: User[];
+  projects: Project[];
+  assignments: ProjectAssignment[];
+  documents: Document[];
+};
+
+export type SearchScope = {
+  // Only projects, and documents in projects, this user is assigned to - or
+  // leads, with `includeLed`. Unset for every project.
+  visibleTo?: { userId: string; includeLed: boolean };
+  includeUsers: boolean;
+};
+
+// Contract every storage backend implements. Shapes must match across backends -
+// the client pages depend on them.
+export interface IStorage {
+  // User methods
+  createUser(userData: CreateUser): Promise<User>;
+  getUserById(id: string): Promise<User | null>;
+  getUserByEmail(email: string): Promise<User | null>;
+  listUsers(query: UserListQuery): Promise<Page<UserWithStats>>;
+  // Bumps the version. With `expectedVersion`, throws VersionConflictError
+  // instead when the user is no longer at that version.
+  updateUser(id: string, updates: Partial<UpsertUser>, expectedVersion?: number): Promise<void>;
+  // Applies the policy to the user's projects and records, see delete-policy.ts
+  deleteUser(id: string, policy?: UserDeletePolicy): Promise<void>;
+
+  // Project methods
+  createProject(projectData: InsertProject): Promise<Project>;
+  // `memberId` limits the list to projects that user is assigned to
+  listProjects(query: ProjectListQuery, memberId?: string): Promise<Page<ProjectWithDetails>>;
+  getProjectById(id: string): Promise<ProjectWithDetails | null>;
+  // Versioned like updateUser
+  updateProject(id: string, updates: Partial<InsertProject>, expectedVersion?: number): Promise<void>;
+  // Also removes the project's assignments and documents; returns the removed
+  // documents so their files can be deleted from the file store
+  deleteProject(id: string): Promise<Document[]>;
+
+  // Project assignment methods
+  assignUserToProject(assignmentData: InsertProjectAssignment): Promise<ProjectAssignment>;
+  removeUserFromProject(projectId: string, userId: string): Promise<void>;
+
+  // Document methods
+  createDocument(documentData: InsertDocument): Promise<Document>;
+  getProjectDocuments(projectId: string): Promise<Document[]>;
+  // Returns the removed document so its file can be deleted from the file store
+  deleteDocument(id: string): Promise<Document | null>;
+  getDocumentById(id: string): Promise<Document | null>;
+
+  // Trash methods. Trashed users, projects and documents are hidden from the
+  // methods above until restored; the delete methods purge them for good.
+  moveToTrash(type: TrashItemType, id: string, deletedBy: string): Promise<void>;
+  restoreFromTrash(type: TrashItemType, id: string): Promise<void>;
+  // Newest first
+  getTrash(): Promise<TrashItem[]>;
+
+  // Search method. Projects match on name and description, documents on their
+  // original name and users on first name, last name and email.
+  search(query: SearchQuery, scope: SearchScope): Promise<SearchResults>;
+
+  // Audit log methods. The log is append-only: entries are chained onto the
+  // newest one as they are appended, and never changed or removed.
+  appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  // Newest first
+  listAuditEntries(query: AuditLogQuery & AuditLogFilter): Promise<Page<AuditEntry>>;
+  // Every matching entry, oldest first - for exports and chain verification
+  getAuditEntries(filter: AuditLogFilter): Promise<AuditEntry[]>;
+
+  // Session methods, backing the session store - see session-store.ts.
+  // Expired sessions are never returned.
+  getUserSession(sid: string): Promise<UserSession | null>;
+  // Inserts or replaces the session; createdAt is kept from the first save
+  saveUserSession(session: Omit<UserSession, 'createdAt'>): Promise<void>;
+  // Replaces the session only if it is still there; false if it has been
+  // deleted, and stays deleted
+  updateUserSession(session: Omit<UserSession, 'createdAt'>): Promise<boolean>;
+  deleteUserSession(sid: string): Promise<void>;
+  // Most recently seen first
+  listUserSessions(userId: string): Promise<UserSession[]>;
+  deleteUserSessions(userId: string): Promise<void>;
+  // Returns how many expired sessions were removed
+  purgeExpiredSessions(now?: Date): Promise<number>;
+
+  // Two-factor methods - see two-factor.ts
+  getUserTwoFactor(userId: string): Promise<UserTwoFactor | null>;
+  // Inserts or replaces the user's two-factor record
+  saveUserTwoFactor(twoFactor: Omit<UserTwoFactor, 'createdAt' | 'updatedAt'>): Promise<UserTwoFactor>;
+  deleteUserTwoFactor(userId: string): Promise<void>;
+  // Each uses up a code in one conditional update, so that of two requests
+  // using the same code at once only one succeeds. useTotpStep records `step`
+  // unless that or a later step was used already; useRecoveryCode removes the
+  // hash. False if there was nothing to use up.
+  useTotpStep(userId: string, step: number): Promise<boolean>;
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+
+  // Password reset methods - see password-reset.ts. Saving a token replaces
+  // any the user had before.
+  savePasswordResetToken(token: Omit<PasswordResetToken, 'createdAt'>): Promise<void>;
+  // Removes the token, returning its user's id - or null if there is no such
+  // token or it has expired
+  consumePasswordResetToken(tokenHash: string, now?: Date): Promise<string | null>;
+
+  // Invitation methods - see invitations.ts
+  createInvitation(invitation: InsertInvitation): Promise<Invitation>;
+  getInvitation(id: string): Promise<Invitation | null>;
+  getInvitationByEmail(email: string): Promise<Invitation | null>;
+  getInvitationByTokenHash(tokenHash: string): Promise<Invitation | null>;
+  // Newest first, expired ones included
+  listInvitations(): Promise<Invitation[]>;
+  // Marks the invitation as sent again now, with a new token and expiry
+  renewInvitation(id: string, expiresAt: Date, tokenHash: string): Promise<Invitation | null>;
+  // Removes the invitation with this token, returning it - or null if there
+  // is no such invitation or it has expired
+  consumeInvitation(tokenHash: string, now?: Date): Promise<Invitation | null>;
+  // Whether there was such an invitation
+  deleteInvitation(id: string): Promise<boolean>;
+
+  // Registration methods - sign-ups waiting for approval, see registrations.ts
+  createRegistration(registration: InsertRegistration): Promise<Registration>;
+  getRegistration(id: string): Promise<Registration | null>;
+  getRegistrationByEmail(email: string): Promise<Registration | null>;
+  // Oldest first, the order they are approved in
+  listRegistrations(): Promise<Registration[]>;
+  // Whether there was such a registration
+  deleteRegistration(id: string): Promise<boolean>;
+
+  // Password history methods - see password-policy.ts
+  // Remembers a password hash the user set, keeping only their newest `keep`
+  addPasswordHistory(userId: string, passwordHash: string, keep: number): Promise<void>;
+  // Newest first
+  listPasswordHistory(userId: string, limit: number): Promise<PasswordHistoryEntry[]>;
+
+  // Login throttle methods - see login-throttle.ts
+  getLoginThrottle(key: string): Promise<LoginThrottle | null>;
+  // Counts a failure in one step, so concurrent attempts are all counted. The
+  // count starts over, unlocked, if the last failure was before resetBefore.
+  recordLoginFailure(key: string, now: Date, resetBefore: Date): Promise<LoginThrottle>;
+  // Takes back one failure counted by recordLoginFailure, in one step
+  releaseLoginFailure(key: string): Promise<void>;
+  lockLoginThrottle(key: string, lockedUntil: Date): Promise<void>;
+  clearLoginThrottle(key: string): Promise<void>;
+  // Those locked at `now`
+  listLockedLoginThrottles(now: Date): Promise<LoginThrottle[]>;
+  // Removes those whose last failure, and lock if any, ended before `before`;
+  // returns how many
+  purgeLoginThrottles(before: Date): Promise<number>;
+
+  // Single sign-on identity methods - see oidc.ts
+  getUserIdentity(userId: string): Promise<UserIdentity | null>;
+  findUserIdentity(issuer: string, subject: string): Promise<UserIdentity | null>;
+  // Fails if the user or the provider's account is linked already
+  createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity>;
+
+  // API token methods - see api-tokens.ts
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  // The user's tokens, newest first, expired ones included
+  listApiTokens(userId: string): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | null>;
+  touchApiToken(id: string, lastUsedAt: Date): Promise<void>;
+  // Whether the user had such a token
+  deleteApiToken(userId: string, id: string): Promise<boolean>;
+  deleteUserApiTokens(userId: string): Promise<void>;
+
+  // Settings methods. Values are JSON; a key never saved reads as null.
+  getSetting(key: string): Promise<unknown>;
+  saveSetting(key: string, value: unknown, updatedBy: string | null): Promise<void>;
+
+  // Workspace methods, for backups - see backup.ts. importWorkspace inserts
+  // the records under new ids, keeping their timestamps, versions and trash
+  // state; it expects an empty workspace.
+  exportWorkspace(): Promise<WorkspaceData>;
+  importWorkspace(data: WorkspaceData): Promise<void>;
+
+  // Transaction method. Runs `work` as one unit: the storage calls made inside
+  // it, through this or any other storage reference, are committed together or
+  // rolled back when it throws.
+  transaction<T>(work: () => Promise<T>): Promise<T>;
+
+  // Dashboard stats method
+  getDashboardStats(): Promise<DashboardStats>;
+}
+
+export type StorageBackend = 'mongodb' | 'postgres' | 'memory';
+
+function resolveBackend(): StorageBackend {
+  const backend = (process.env.STORAGE_BACKEND || 'mongodb').toLowerCase();
+  if (backend === 'postgres' || backend === 'postgresql') return 'postgres';
+  if (backend === 'mongodb' || backend === 'mongo') return 'mongodb';
+  if (backend === 'memory') return 'memory';
+  throw new Error(`Unknown STORAGE_BACKEND "${process.env.STORAGE_BACKEND}" (expected mongodb, postgres or memory)`);
+}
+
+export const storageBackend = resolveBackend();
+
+const backends: Record<StorageBackend, IStorage> = {
+  mongodb: mongoStorage,
+  postgres: postgresStorage,
+  memory: memoryStorage,
+};
+
+const backend = backends[storageBackend];
+
+export const storage: IStorage = {
   // User methods
   async createUser(userData: CreateUser): Promise<User> {
-    return await mongoStorage.createUser(userData);
+    return await backend.createUser(userData);
   },
 
   async getUserById(id: string): Promise<User | null> {
-    return await mongoStorage.getUserById(id);
+    return await backend.getUserById(id);
   },
 
   async getUserByEmail(email: string): Promise<User | null> {
-    return await mongoStorage.getUserByEmail(email);
+    return await backend.getUserByEmail(email);
   },
 
-  async getAllUsers(): Promise<any[]> {
-    return await mongoStorage.getAllUsers();
+  async listUsers(query: UserListQuery): Promise<Page<UserWithStats>> {
+    return await backend.listUsers(query);
   },
 
-  async updateUser(id: string, updates: Partial<UpsertUser>): Promise<void> {
-    await mongoStorage.updateUser(id, updates);
+  async updateUser(id: string, updates: Partial<UpsertUser>, expectedVersion?: number): Promise<void> {
+    await backend.updateUser(id, updates, expectedVersion);
   },
 
-  async deleteUser(id: string): Promise<void> {
-    await mongoStorage.deleteUser(id);
+  async deleteUser(id: string, policy?: UserDeletePolicy): Promise<void> {
+    await backend.deleteUser(id, policy);
   },
 
   // Project methods
   async createProject(projectData: InsertProject): Promise<Project> {
-    return await mongoStorage.createProject(projectData);
+    return await backend.createProject(projectData);
   },
 
-  async getAllProjects(): Promise<any[]> {
-    return await mongoStorage.getAllProjects();
+  async listProjects(query: ProjectListQuery, memberId?: string): Promise<Page<ProjectWithDetails>> {
+    return await backend.listProjects(query, memberId);
   },
 
-  async getProjectById(id: string): Promise<any | null> {
-    return await mongoStorage.getProjectById(id);
+  async getProjectById(id: string): Promise<ProjectWithDetails | null> {
+    return await backend.getProjectById(id);
   },
 
-  async updateProject(id: string, updates: Partial<InsertProject>): Promise<void> {
-    await mongoStorage.updateProject(id, updates);
+  async updateProject(id: string, updates: Partial<InsertProject>, expectedVersion?: number): Promise<void> {
+    await backend.updateProject(id, updates, expectedVersion);
   },
 
-  async deleteProject(id: string): Promise<void> {
-    await mongoStorage.deleteProject(id);
+  async deleteProject(id: string): Promise<Document[]> {
+    return await backend.deleteProject(id);
   },
 
   // Project assignment methods
   async assignUserToProject(assignmentData: InsertProjectAssignment): Promise<ProjectAssignment> {
-    return await mongoStorage.assignUserToProject(assignmentData);
+    return await backend.assignUserToProject(assignmentData);
   },
 
   async removeUserFromProject(projectId: string, userId: string): Promise<void> {
-    await mongoStorage.removeUserFromProject(projectId, userId);
-  },
-
-  async getUserProjects(userId: string): Promise<any[]> {
-    return await mongoStorage.getUserProjects(userId);
+    await backend.removeUserFromProject(projectId, userId);
   },
 
   // Document methods
   async createDocument(documentData: InsertDocument): Promise<Document> {
-    return await mongoStorage.createDocument(documentData);
+    return await backend.createDocument(documentData);
   },
 
   async getProjectDocuments(projectId: string): Promise<Document[]> {
-    return await mongoStorage.getProjectDocuments(projectId);
+    return await backend.getProjectDocuments(projectId);
   },
 
-  async deleteDocument(id: string): Promise<void> {
-    await mongoStorage.deleteDocument(id);
+  async deleteDocument(id: string): Promise<Document | null> {
+    return await backend.deleteDocument(id);
   },
 
   async getDocumentById(id: string): Promise<Document | null> {
-    return await mongoStorage.getDocumentById(id);
+    return await backend.getDocumentById(id);
+  },
+
+  // Trash methods
+  async moveToTrash(type: TrashItemType, id: string, deletedBy: string): Promise<void> {
+    await backend.moveToTrash(type, id, deletedBy);
+  },
+
+  async restoreFromTrash(type: TrashItemType, id: string): Promise<void> {
+    await backend.restoreFromTrash(type, id);
+  },
+
+  async getTrash(): Promise<TrashItem[]> {
+    return await backend.getTrash();
+  },
+
+  // Search method
+  async search(query: SearchQuery, scope: SearchScope): Promise<SearchResults> {
+    return await backend.search(query, scope);
+  },
+
+  // Audit log methods
+  async appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    return await backend.appendAuditEntry(entry);
+  },
+
+  async listAuditEntries(query: AuditLogQuery & AuditLogFilter): Promise<Page<AuditEntry>> {
+    return await backend.listAuditEntries(query);
+  },
+
+  async getAuditEntries(filter: AuditLogFilter): Promise<AuditEntry[]> {
+    return await backend.getAuditEntries(filter);
+  },
+
+  // Session methods
+  async getUserSession(sid: string): Promise<UserSession | null> {
+    return await backend.getUserSession(sid);
+  },
+
+  async saveUserSession(session: Omit<UserSession, 'createdAt'>): Promise<void> {
+    await backend.saveUserSession(session);
+  },
+
+  async updateUserSession(session: Omit<UserSession, 'createdAt'>): Promise<boolean> {
+    return await backend.updateUserSession(session);
+  },
+
+  async deleteUserSession(sid: string): Promise<void> {
+    await backend.deleteUserSession(sid);
+  },
+
+  async listUserSessions(userId: string): Promise<UserSession[]> {
+    return await backend.listUserSessions(userId);
+  },
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    await backend.deleteUserSessions(userId);
+  },
+
+  async purgeExpiredSessions(now?: Date): Promise<number> {
+    return await backend.purgeExpiredSessions(now);
+  },
+
+  // Two-factor methods
+  async getUserTwoFactor(userId: string): Promise<UserTwoFactor | null> {
+    return await backend.getUserTwoFactor(userId);
+  },
+
+  async saveUserTwoFactor(twoFactor: Omit<UserTwoFactor, 'createdAt' | 'updatedAt'>): Promise<UserTwoFactor> {
+    return await backend.saveUserTwoFactor(twoFactor);
+  },
+
+  async deleteUserTwoFactor(userId: string): Promise<void> {
+    await backend.deleteUserTwoFactor(userId);
+  },
+
+  async useTotpStep(userId: string, step: number): Promise<boolean> {
+    return await backend.useTotpStep(userId, step);
+  },
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    return await backend.useRecoveryCode(userId, codeHash);
+  },
+
+  // Password reset methods
+  async savePasswordResetToken(token: Omit<PasswordResetToken, 'createdAt'>): Promise<void> {
+    await backend.savePasswordResetToken(token);
+  },
+
+  async consumePasswordResetToken(tokenHash: string, now?: Date): Promise<string | null> {
+    return await backend.consumePasswordResetToken(tokenHash, now);
+  },
+
+  // Invitation methods
+  async createInvitation(invitation: InsertInvitation): Promise<Invitation> {
+    return await backend.createInvitation(invitation);
+  },
+
+  async getInvitation(id: string): Promise<Invitation | null> {
+    return await backend.getInvitation(id);
+  },
+
+  async getInvitationByEmail(email: string): Promise<Invitation | null> {
+    return await backend.getInvitationByEmail(email);
+  },
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | null> {
+    return await backend.getInvitationByTokenHash(tokenHash);
+  },
+
+  async listInvitations(): Promise<Invitation[]> {
+    return await backend.listInvitations();
+  },
+
+  async renewInvitation(id: string, expiresAt: Date, tokenHash: string): Promise<Invitation | null> {
+    return await backend.renewInvitation(id, expiresAt, tokenHash);
+  },
+
+  async consumeInvitation(tokenHash: string, now?: Date): Promise<Invitation | null> {
+    return await backend.consumeInvitation(tokenHash, now);
+  },
+
+  async deleteInvitation(id: string): Promise<boolean> {
+    return await backend.deleteInvitation(id);
+  },
+
+  // Registration methods
+  async createRegistration(registration: InsertRegistration): Promise<Registration> {
+    return await backend.createRegistration(registration);
+  },
+
+  async getRegistration(id: string): Promise<Registration | null> {
+    return await backend.getRegistration(id);
+  },
+
+  async getRegistrationByEmail(email: string): Promise<Registration | null> {
+    return await backend.getRegistrationByEmail(email);
+  },
+
+  async listRegistrations(): Promise<Registration[]> {
+    return await backend.listRegistrations();
+  },
+
+  async deleteRegistration(id: string): Promise<boolean> {
+    return await backend.deleteRegistration(id);
+  },
+
+  // Password history methods
+  async addPasswordHistory(userId: string, passwordHash: string, keep: number): Promise<void> {
+    await backend.addPasswordHistory(userId, passwordHash, keep);
+  },
+
+  async listPasswordHistory(userId: string, limit: number): Promise<PasswordHistoryEntry[]> {
+    return await backend.listPasswordHistory(userId, limit);
+  },
+
+  // Login throttle methods
+  async getLoginThrottle(key: string): Promise<LoginThrottle | null> {
+    return await backend.getLoginThrottle(key);
+  },
+
+  async recordLoginFailure(key: string, now: Date, resetBefore: Date): Promise<LoginThrottle> {
+    return await backend.recordLoginFailure(key, now, resetBefore);
+  },
+
+  async releaseLoginFailure(key: string): Promise<void> {
+    await backend.releaseLoginFailure(key);
+  },
+
+  async lockLoginThrottle(key: string, lockedUntil: Date): Promise<void> {
+    await backend.lockLoginThrottle(key, lockedUntil);
+  },
+
+  async clearLoginThrottle(key: string): Promise<void> {
+    await backend.clearLoginThrottle(key);
+  },
+
+  async listLockedLoginThrottles(now: Date): Promise<LoginThrottle[]> {
+    return await backend.listLockedLoginThrottles(now);
+  },
+
+  async purgeLoginThrottles(before: Date): Promise<number> {
+    return await backend.purgeLoginThrottles(before);
+  },
+
+  // Single sign-on identity methods
+  async getUserIdentity(userId: string): Promise<UserIdentity | null> {
+    return await backend.getUserIdentity(userId);
+  },
+
+  async findUserIdentity(issuer: string, subject: string): Promise<UserIdentity | null> {
+    return await backend.findUserIdentity(issuer, subject);
+  },
+
+  async createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity> {
+    return await backend.createUserIdentity(identity);
+  },
+
+  // API token methods
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    return await backend.createApiToken(token);
+  },
+
+  async listApiTokens(userId: string): Promise<ApiToken[]> {
+    return await backend.listApiTokens(userId);
+  },
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+    return await backend.getApiTokenByHash(tokenHash);
+  },
+
+  async touchApiToken(id: string, lastUsedAt: Date): Promise<void> {
+    await backend.touchApiToken(id, lastUsedAt);
+  },
+
+  async deleteApiToken(userId: string, id: string): Promise<boolean> {
+    return await backend.deleteApiToken(userId, id);
+  },
+
+  async deleteUserApiTokens(userId: string): Promise<void> {
+    await backend.deleteUserApiTokens(userId);
+  },
+
+  // Settings methods
+  async getSetting(key: string): Promise<unknown> {
+    return await backend.getSetting(key);
+  },
+
+  async saveSetting(key: string, value: unknown, updatedBy: string | null): Promise<void> {
+    await backend.saveSetting(key, value, updatedBy);
+  },
+
+  // Workspace methods
+  async exportWorkspace(): Promise<WorkspaceData> {
+    return await backend.exportWorkspace();
+  },
+
+  async importWorkspace(data: WorkspaceData): Promise<void> {
+    await backend.importWorkspace(data);
+  },
+
+  // Transaction method
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    return await backend.transaction(work);
   },
 
   // Dashboard stats method
-  async getDashboardStats(): Promise<any> {
-    return await mongoStorage.getDashboardStats();
+  async getDashboardStats(): Promise<DashboardStats> {
+    return await backend.getDashboardStats();
   },
 };
\ No newline at end of file
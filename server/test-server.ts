@@ -0,0 +1,116 @@
+// The API routes on the in-memory backend and file store, for route tests.
+// Each client keeps its own session cookie, as a browser would, and doesn't
+// follow redirects, so tests can look at where they go. Emails are kept
+// rather than sent.
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { IStorage, User } from './storage';
+
+export type TestResponse = {
+  status: number;
+  headers: Headers;
+  // Parsed JSON, else the text
+  body: any;
+};
+
+export type TestClient = {
+  // The session cookie sent with requests, as name=value
+  cookie: string;
+  // Sends `body` as JSON, or as multipart form data if it is a FormData
+  request(method: string, path: string, body?: unknown): Promise<TestResponse>;
+  // Signs in with a password, throwing if that fails
+  login(email: string, password: string): Promise<void>;
+};
+
+export type SentEmail = { to: string; subject: string; html: string };
+
+export type TestServer = {
+  base: string;
+  storage: IStorage;
+  sentEmails: SentEmail[];
+  client(): TestClient;
+  // A user with `password` as their password
+  createUser(email: string, role: User['role'], password: string): Promise<User>;
+  // Empties the storage, signing everyone out
+  reset(): Promise<void>;
+  close(): Promise<void>;
+};
+
+export async function startTestServer(): Promise<TestServer> {
+  // Read when the storage and file store are first imported
+  process.env.STORAGE_BACKEND = 'memory';
+  process.env.FILE_STORE = 'memory';
+  // Before email.ts sets up its transport
+  const sentEmails: SentEmail[] = [];
+  const nodemailer = (await import('nodemailer')).default;
+  (nodemailer as { createTransport: unknown }).createTransport = () => ({
+    sendMail: async (message: SentEmail) => {
+      sentEmails.push(message);
+    },
+  });
+  const { registerRoutes } = await import('./routes');
+  const { storage } = await import('./storage');
+  const { memoryStorage } = await import('./memory-storage');
+  const { hashPassword } = await import('./password-policy');
+
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const client = (): TestClient => {
+    const browser: TestClient = {
+      cookie: '',
+      request,
+      async login(email, password) {
+        const res = await request('POST', '/api/auth/login', { email, password });
+        if (res.status !== 200) {
+          throw new Error(`Signing in as ${email} failed with ${res.status}: ${JSON.stringify(res.body)}`);
+        }
+      },
+    };
+    async function request(method: string, path: string, body?: unknown): Promise<TestResponse> {
+      const json = body !== undefined && !(body instanceof FormData);
+      const res = await fetch(new URL(path, base), {
+        method,
+        redirect: 'manual',
+        headers: {
+          ...(browser.cookie && { cookie: browser.cookie }),
+          ...(json && { 'content-type': 'application/json' }),
+        },
+        body: json ? JSON.stringify(body) : (body as FormData | undefined),
+      });
+      const setCookie = res.headers.get('set-cookie');
+      if (setCookie) browser.cookie = setCookie.split(';')[0];
+      const text = await res.text();
+      let parsed: unknown = text;
+      try {
+        parsed = JSON.parse(text);
+      } catch {}
+      return { status: res.status, headers: res.headers, body: parsed };
+    }
+    return browser;
+  };
+
+  return {
+    base,
+    storage,
+    sentEmails,
+    client,
+    async createUser(email, role, password) {
+      return await storage.createUser({
+        email,
+        firstName: 'Test',
+        lastName: 'User',
+        passwordHash: await hashPassword(password),
+        role,
+      });
+    },
+    async reset() {
+      await memoryStorage.reset();
+      sentEmails.length = 0;
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  };
+}
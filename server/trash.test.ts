@@ -0,0 +1,66 @@
+// Purging expired trash on the in-memory backend: who takes over a purged
+// user's records
+import { describe, it, before, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { IStorage } from './storage';
+
+process.env.STORAGE_BACKEND = 'memory';
+
+let storage: IStorage;
+let memoryStorage: typeof import('./memory-storage').memoryStorage;
+let trash: typeof import('./trash');
+
+before(async () => {
+  ({ storage } = await import('./storage'));
+  ({ memoryStorage } = await import('./memory-storage'));
+  trash = await import('./trash');
+});
+
+// Past the default 30 days of retention
+const LATER = new Date(Date.now() + 31 * 24 * 60 * 60 * 1000);
+
+describe('purgeExpiredTrash', () => {
+  beforeEach(async () => {
+    await memoryStorage.reset();
+  });
+
+  const createUser = (email: string, role: 'admin' | 'project_lead' | 'developer') =>
+    storage.createUser({ email, passwordHash: 'hash', role });
+
+  // A lead who created a project, trashed by `deletedBy`
+  const trashLead = async (deletedBy: string) => {
+    const lead = await createUser('lead@example.com', 'project_lead');
+    const project = await storage.createProject({ name: 'Game', createdBy: lead.id });
+    await storage.moveToTrash('user', lead.id, deletedBy);
+    return { lead, project };
+  };
+
+  it('hands a purged user\'s records to whoever trashed them', async () => {
+    await createUser('first@example.com', 'admin');
+    const admin = await createUser('admin@example.com', 'admin');
+    const { project } = await trashLead(admin.id);
+
+    assert.equal(await trash.purgeExpiredTrash(LATER), 1);
+    assert.equal((await storage.getProjectById(project.id))!.createdBy?.id, admin.id);
+  });
+
+  it('hands them to the earliest admin once whoever trashed the user is gone', async () => {
+    const first = await createUser('first@example.com', 'admin');
+    const admin = await createUser('admin@example.com', 'admin');
+    const { project } = await trashLead(admin.id);
+    await storage.moveToTrash('user', admin.id, first.id);
+    await storage.deleteUser(admin.id, { projectLead: 'nullify', ownedRecords: 'restrict' });
+
+    assert.equal(await trash.purgeExpiredTrash(LATER), 1);
+    assert.equal((await storage.getProjectById(project.id))!.createdBy?.id, first.id);
+  });
+
+  it('keeps the user in the trash when there is no admin to take over', async () => {
+    const admin = await createUser('admin@example.com', 'admin');
+    const { lead } = await trashLead(admin.id);
+    await storage.updateUser(admin.id, { role: 'developer' });
+
+    assert.equal(await trash.purgeExpiredTrash(LATER), 0);
+    assert.deepEqual((await storage.getTrash()).map(item => item.id), [lead.id]);
+  });
+});
@@ -0,0 +1,104 @@
+// Permanent removal of trashed records. Files stay in the file store while a
+// document or project is in the trash, so a restore brings them back; they are
+// deleted when the record is purged. Trash older than TRASH_RETENTION_DAYS
+// (default 30, 0 keeps trash until purged by hand) is purged automatically.
+import { storage } from './storage';
+import type { Document } from './storage';
+import { getFileStore } from './file-store';
+import { runUnitOfWork } from './unit-of-work';
+import { recordAudit } from './audit';
+import type { UserDeletePolicy } from './delete-policy';
+import { userListQuerySchema } from '../shared/schema';
+import type { TrashItem } from '../shared/schema';
+
+const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10);
+const PURGE_INTERVAL = 60 * 60 * 1000;
+
+async function deleteStoredFiles(documents: Document[]): Promise<void> {
+  for (const document of documents) {
+    try {
+      await getFileStore(document.storageProvider).deleteFile(document.storageKey);
+    } catch (error) {
+      console.error(`Error deleting stored file ${document.storageKey}:`, error);
+    }
+  }
+}
+
+// `userPolicy` decides what happens to a purged user's projects and records
+export async function purgeTrashItem(item: Pick<TrashItem, 'type' | 'id'>, userPolicy?: UserDeletePolicy): Promise<void> {
+  switch (item.type) {
+    case 'project':
+      await deleteStoredFiles(await storage.deleteProject(item.id));
+      break;
+    case 'document': {
+      const document = await storage.deleteDocument(item.id);
+      if (document) await deleteStoredFiles([document]);
+      break;
+    }
+    case 'user':
+      await storage.deleteUser(item.id, userPolicy);
+      break;
+  }
+}
+
+// Who takes over an expired user's projects and records: whoever trashed the
+// user, or else the earliest admin if that user is gone or now a developer
+async function purgeReassignee(item: TrashItem): Promise<string | null> {
+  const deleter = item.deletedBy && await storage.getUserById(item.deletedBy.id);
+  if (deleter && deleter.role !== 'developer') return deleter.id;
+  const admins = await storage.listUsers(userListQuerySchema.parse({ role: 'admin', sort: 'createdAt', order: 'asc', pageSize: 1 }));
+  return admins.items[0]?.id ?? null;
+}
+
+export async function purgeExpiredTrash(now = new Date()): Promise<number> {
+  const cutoff = now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const expired = (await storage.getTrash()).filter(item => new Date(item.deletedAt).getTime() < cutoff);
+
+  let purged = 0;
+  for (const item of expired) {
+    try {
+      const reassignTo = item.type === 'user' ? await purgeReassignee(item) : null;
+      if (item.type === 'user' && !reassignTo) {
+        console.error(`Not purging user ${item.id} from the trash: there is no admin to take over their records`);
+        continue;
+      }
+      // The audit entry has no actor: nobody asked for this purge
+      await runUnitOfWork(async () => {
+        await recordAudit(null, {
+          action: 'trash.purge',
+          targetType: item.type,
+          targetId: item.id,
+          targetName: item.name,
+          projectId: item.projectId,
+        });
+        await purgeTrashItem(item, {
+          projectLead: 'nullify',
+          ownedRecords: 'reassign',
+          reassignTo: reassignTo ?? undefined,
+        });
+      });
+      purged++;
+    } catch (error) {
+      console.error(`Failed to purge ${item.type} ${item.id} from the trash:`, error);
+    }
+  }
+  return purged;
+}
+
+export function scheduleTrashPurge(): void {
+  if (TRASH_RETENTION_DAYS <= 0) return;
+
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredTrash();
+      if (purged > 0) {
+        console.log(`Purged ${purged} item(s) older than ${TRASH_RETENTION_DAYS} days from the trash`);
+      }
+    } catch (error) {
+      console.error('Error purging expired trash:', error);
+    }
+  };
+
+  void run();
+  setInterval(run, PURGE_INTERVAL).unref();
+}
@@ -0,0 +1,128 @@
+// Two-factor codes: TOTP against RFC 6238's test vectors, and codes of either
+// kind working only once
+import { describe, it, before, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { IStorage } from './storage';
+
+process.env.STORAGE_BACKEND = 'memory';
+
+let storage: IStorage;
+let memoryStorage: typeof import('./memory-storage').memoryStorage;
+let twoFactor: typeof import('./two-factor');
+
+before(async () => {
+  ({ storage } = await import('./storage'));
+  ({ memoryStorage } = await import('./memory-storage'));
+  twoFactor = await import('./two-factor');
+});
+
+// RFC 6238 appendix B's SHA-1 key, "12345678901234567890", in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+// Unix time in seconds and the 8 digit code, of which we use the last 6
+const RFC_VECTORS: [number, string][] = [
+  [59, '94287082'],
+  [1111111109, '07081804'],
+  [1111111111, '14050471'],
+  [1234567890, '89005924'],
+  [2000000000, '69279037'],
+  [20000000000, '65353130'],
+];
+
+describe('TOTP', () => {
+  it('matches the RFC 6238 test vectors', () => {
+    for (const [time, code] of RFC_VECTORS) {
+      const step = twoFactor.currentTotpStep(time * 1000);
+      assert.equal(twoFactor.totpCode(RFC_SECRET, step), code.slice(-6), `T = ${time}`);
+      assert.equal(twoFactor.verifyTotp(RFC_SECRET, code.slice(-6), null, time * 1000), step, `T = ${time}`);
+    }
+  });
+
+  it('accepts the codes of the steps either side of now, and no further', () => {
+    const now = 1234567890 * 1000;
+    const step = twoFactor.currentTotpStep(now);
+    assert.equal(twoFactor.verifyTotp(RFC_SECRET, twoFactor.totpCode(RFC_SECRET, step - 1), null, now), step - 1);
+    assert.equal(twoFactor.verifyTotp(RFC_SECRET, twoFactor.totpCode(RFC_SECRET, step + 1), null, now), step + 1);
+    assert.equal(twoFactor.verifyTotp(RFC_SECRET, twoFactor.totpCode(RFC_SECRET, step - 2), null, now), null);
+    assert.equal(twoFactor.verifyTotp(RFC_SECRET, twoFactor.totpCode(RFC_SECRET, step + 2), null, now), null);
+  });
+
+  it('rejects codes of steps up to the last one used', () => {
+    const now = 1234567890 * 1000;
+    const step = twoFactor.currentTotpStep(now);
+    const code = twoFactor.totpCode(RFC_SECRET, step);
+    assert.equal(twoFactor.verifyTotp(RFC_SECRET, code, step, now), null);
+    assert.equal(twoFactor.verifyTotp(RFC_SECRET, twoFactor.totpCode(RFC_SECRET, step - 1), step - 1, now), null);
+    // A later step is still fine
+    assert.equal(twoFactor.verifyTotp(RFC_SECRET, code, step - 1, now), step);
+  });
+
+  it('rejects anything but six digits', () => {
+    const now = 59 * 1000;
+    for (const code of ['', '28708', '2870820', '28708a', ' 287082', '94287082']) {
+      assert.equal(twoFactor.verifyTotp(RFC_SECRET, code, null, now), null, JSON.stringify(code));
+    }
+  });
+});
+
+describe('second factors', () => {
+  beforeEach(async () => {
+    await memoryStorage.reset();
+  });
+
+  const enableTwoFactor = async (recoveryCodes: string[] = []) => {
+    const user = await storage.createUser({ email: 'dev@example.com', passwordHash: 'hash', role: 'developer' });
+    return await storage.saveUserTwoFactor({
+      userId: user.id,
+      secret: twoFactor.generateTotpSecret(),
+      enabledAt: new Date(),
+      recoveryCodeHashes: recoveryCodes.map(twoFactor.hashRecoveryCode),
+      lastUsedStep: null,
+    });
+  };
+
+  it('accepts an app code once', async () => {
+    const record = await enableTwoFactor();
+    const code = twoFactor.totpCode(record.secret, twoFactor.currentTotpStep());
+
+    assert.equal(await twoFactor.verifySecondFactor(record, { code }), true);
+    const used = (await storage.getUserTwoFactor(record.userId))!;
+    assert.ok(used.lastUsedStep !== null);
+    assert.equal(await twoFactor.verifySecondFactor(used, { code }), false);
+  });
+
+  it('accepts a code sent twice at once only once', async () => {
+    const recoveryCodes = twoFactor.generateRecoveryCodes();
+    const record = await enableTwoFactor(recoveryCodes);
+    const twice = (factor: { code?: string; recoveryCode?: string }) => Promise.all([
+      twoFactor.verifySecondFactor(record, factor),
+      twoFactor.verifySecondFactor(record, factor),
+    ]).then(accepted => accepted.sort());
+
+    assert.deepEqual(await twice({ code: twoFactor.totpCode(record.secret, twoFactor.currentTotpStep()) }), [false, true]);
+    assert.deepEqual(await twice({ recoveryCode: recoveryCodes[0] }), [false, true]);
+  });
+
+  it('accepts each recovery code once, however it is typed', async () => {
+    const codes = twoFactor.generateRecoveryCodes();
+    assert.equal(codes.length, 10);
+    assert.equal(new Set(codes).size, 10);
+    for (const code of codes) assert.match(code, /^[0-9a-f]{5}-[0-9a-f]{5}$/);
+
+    let record = await enableTwoFactor(codes);
+    const typed = ` ${codes[3].toUpperCase().replace('-', ' ')} `;
+    assert.equal(await twoFactor.verifySecondFactor(record, { recoveryCode: typed }), true);
+
+    record = (await storage.getUserTwoFactor(record.userId))!;
+    assert.equal(record.recoveryCodeHashes.length, 9);
+    assert.equal(await twoFactor.verifySecondFactor(record, { recoveryCode: codes[3] }), false);
+    assert.equal(await twoFactor.verifySecondFactor(record, { recoveryCode: codes[4] }), true);
+  });
+
+  it('rejects wrong codes and empty answers', async () => {
+    const record = await enableTwoFactor(twoFactor.generateRecoveryCodes());
+    const wrong = String((Number(twoFactor.totpCode(record.secret, twoFactor.currentTotpStep())) + 500000) % 1000000).padStart(6, '0');
+    assert.equal(await twoFactor.verifySecondFactor(record, { code: wrong }), false);
+    assert.equal(await twoFactor.verifySecondFactor(record, { recoveryCode: 'aaaaa-bbbbb' }), false);
+    assert.equal(await twoFactor.verifySecondFactor(record, {}), false);
+  });
+});
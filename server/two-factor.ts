@@ -0,0 +1,155 @@
+// Two-factor authentication with time-based one-time passwords (TOTP, RFC 6238)
+// from an authenticator app, plus single-use recovery codes for when the app is
+// lost. Users turn it on from Settings; admins can require it for whole roles
+// in the security settings, and users of those roles must set it up before
+// anything else once they sign in.
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import QRCode from 'qrcode';
+import { storage } from './storage';
+import type { User } from './storage';
+import { isTwoFactorRequired } from './security-settings';
+import type { TwoFactorStatus, UserTwoFactor } from '../shared/schema';
+
+const ISSUER = 'PixelForge Nexus';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes of the steps either side of the current one are accepted too, for
+// clocks that are a little off
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of Array.from(bytes)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(text: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of text.toUpperCase().replace(/=+$/, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function currentTotpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+// The time step `code` is for, or null if it is not a code for a step around
+// now. Steps up to `lastUsedStep` are skipped, so no code works twice.
+export function verifyTotp(secret: string, code: string, lastUsedStep: number | null, now = Date.now()): number | null {
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(code)) return null;
+  const current = currentTotpStep(now);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(code))) return step;
+  }
+  return null;
+}
+
+// The otpauth:// link authenticator apps read from the QR code
+export function totpUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+export async function totpQrCode(uri: string): Promise<string> {
+  return await QRCode.toDataURL(uri, { margin: 1, width: 200 });
+}
+
+// Recovery codes look like "3f9a1-c07be"; only their hashes are stored
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Case, spaces and dashes don't matter when a code is typed in
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.toLowerCase().replace(/[^0-9a-z]/g, '')).digest('hex');
+}
+
+// A code from the user's app or one of their recovery codes, from a request body
+export type SecondFactor = { code?: string; recoveryCode?: string };
+
+export function readSecondFactor(body: any): SecondFactor {
+  return {
+    code: typeof body?.code === 'string' && body.code.trim() ? body.code.trim() : undefined,
+    recoveryCode: typeof body?.recoveryCode === 'string' && body.recoveryCode.trim() ? body.recoveryCode.trim() : undefined,
+  };
+}
+
+// Checks `factor` against the user's two-factor record and uses it up: the
+// app code's time step is remembered, the recovery code removed. Using it up
+// is what decides, so a code sent twice at once is accepted only once.
+export async function verifySecondFactor(twoFactor: UserTwoFactor, factor: SecondFactor): Promise<boolean> {
+  if (factor.code) {
+    const step = verifyTotp(twoFactor.secret, factor.code, twoFactor.lastUsedStep);
+    if (step === null) return false;
+    return await storage.useTotpStep(twoFactor.userId, step);
+  }
+
+  if (factor.recoveryCode) {
+    return await storage.useRecoveryCode(twoFactor.userId, hashRecoveryCode(factor.recoveryCode));
+  }
+
+  return false;
+}
+
+// The user's two-factor record, if they have finished setting it up
+export async function getEnabledTwoFactor(userId: string): Promise<UserTwoFactor | null> {
+  const twoFactor = await storage.getUserTwoFactor(userId);
+  return twoFactor?.enabledAt ? twoFactor : null;
+}
+
+export async function getTwoFactorStatus(user: User): Promise<TwoFactorStatus> {
+  const twoFactor = await getEnabledTwoFactor(user.id);
+  return {
+    enabled: !!twoFactor,
+    required: await isTwoFactorRequired(user.role),
+    recoveryCodesRemaining: twoFactor?.recoveryCodeHashes.length ?? 0,
+  };
+}
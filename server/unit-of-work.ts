@@ -0,0 +1,41 @@
+// Multi-step operations that write to the database and to a file store. The
+// storage calls run in one transaction; files uploaded through the unit of work
+// are deleted again if it fails, so a failed request leaves neither orphaned
+// files nor half-recorded documents behind.
+import { storage } from './storage';
+import type { Readable } from 'stream';
+import type { FileStorageProvider, StoredFile, UploadOptions } from './file-store';
+
+export interface UnitOfWork {
+  uploadFile(store: FileStorageProvider, file: Buffer | Readable, options: UploadOptions): Promise<StoredFile>;
+  // Takes on a file stored before the work began, such as a streamed upload,
+  // so it is deleted too if the work fails
+  adoptFile(store: FileStorageProvider, file: StoredFile): void;
+}
+
+export async function runUnitOfWork<T>(work: (unit: UnitOfWork) => Promise<T>): Promise<T> {
+  const uploaded: { store: FileStorageProvider; key: string }[] = [];
+  const unit: UnitOfWork = {
+    async uploadFile(store, file, options) {
+      const storedFile = await store.uploadFile(file, options);
+      uploaded.push({ store, key: storedFile.key });
+      return storedFile;
+    },
+    adoptFile(store, file) {
+      uploaded.push({ store, key: file.key });
+    },
+  };
+
+  try {
+    return await storage.transaction(() => work(unit));
+  } catch (error) {
+    for (const { store, key } of uploaded.reverse()) {
+      try {
+        await store.deleteFile(key);
+      } catch (deleteError) {
+        console.error(`Error deleting uploaded file ${key} after a failed operation:`, deleteError);
+      }
+    }
+    throw error;
+  }
+}
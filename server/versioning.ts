@@ -0,0 +1,23 @@
+// Optimistic concurrency for projects and users. Every update bumps the
+// record's version. GET responses carry it as the ETag, and PATCH requests must
+// send it back in If-Match: an update based on an older version is refused with
+// 412 instead of silently overwriting someone else's change.
+
+// Thrown by updateProject/updateUser when the record has moved past the
+// version the update was based on. Nothing has been changed.
+export class VersionConflictError extends Error {
+  constructor(readonly currentVersion: number) {
+    super(`Record has been changed since version was read (now at version ${currentVersion})`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+export function toEtag(version: number): string {
+  return `"${version}"`;
+}
+
+// Version in an If-Match header, or null when it is not one of our ETags
+export function parseIfMatch(header: string): number | null {
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header.trim());
+  return match ? parseInt(match[1], 10) : null;
+}
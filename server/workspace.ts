@@ -0,0 +1,45 @@
+// Copying a whole workspace into another instance, for backup restores. The
+// storage backends give the records new ids of their own kind as they import
+// them; remapWorkspace rewrites every reference to match.
+import type { WorkspaceData } from './storage';
+
+export function remapWorkspace(data: WorkspaceData, newId: () => string): WorkspaceData {
+  const ids = new Map<string, string>();
+  const remap = (id: string) => {
+    if (!ids.has(id)) ids.set(id, newId());
+    return ids.get(id)!;
+  };
+  // References to records missing from the data are dropped, or fail the
+  // import where the reference is required
+  const known = new Set([...data.users, ...data.projects, ...data.assignments, ...data.documents].map(r => r.id));
+  const ref = (id: string) => {
+    if (!known.has(id)) throw new Error(`Reference to unknown record ${id}`);
+    return remap(id);
+  };
+  const optionalRef = (id: string | null) => (id && known.has(id) ? remap(id) : null);
+
+  return {
+    users: data.users.map(u => ({ ...u, id: remap(u.id), deletedBy: optionalRef(u.deletedBy) })),
+    projects: data.projects.map(p => ({
+      ...p,
+      id: remap(p.id),
+      createdBy: ref(p.createdBy),
+      projectLeadId: optionalRef(p.projectLeadId),
+      deletedBy: optionalRef(p.deletedBy),
+    })),
+    assignments: data.assignments.map(a => ({
+      ...a,
+      id: remap(a.id),
+      projectId: ref(a.projectId),
+      userId: ref(a.userId),
+      assignedBy: ref(a.assignedBy),
+    })),
+    documents: data.documents.map(d => ({
+      ...d,
+      id: remap(d.id),
+      projectId: ref(d.projectId),
+      uploadedBy: ref(d.uploadedBy),
+      deletedBy: optionalRef(d.deletedBy),
+    })),
+  };
+}
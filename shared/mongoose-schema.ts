@@ -28,6 +28,21 @@ const userSchema = new mongoose.Schema({
     enum: ['admin', 'project_lead', 'developer'],
     default: 'developer',
   },
+  // Bumped by every update, for optimistic concurrency (If-Match)
+  version: {
+    type: Number,
+    default: 1,
+  },
+  // Set while the user is in the trash
+  deletedAt: {
+    type: Date,
+    required: false,
+  },
+  deletedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: false,
+  },
 }, {
   timestamps: true,
 });
@@ -61,6 +76,21 @@ const projectSchema = new mongoose.Schema({
     ref: 'User',
     required: false,
   },
+  // Bumped by every update, for optimistic concurrency (If-Match)
+  version: {
+    type: Number,
+    default: 1,
+  },
+  // Set while the project is in the trash
+  deletedAt: {
+    type: Date,
+    required: false,
+  },
+  deletedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: false,
+  },
 }, {
   timestamps: true,
 });
@@ -114,24 +144,422 @@ const documentSchema = new mongoose.Schema({
     ref: 'User',
     required: true,
   },
-  // Cloudinary fields
-  cloudinaryUrl: {
+  // File storage provider (cloudinary, s3, local, ...) and the object key within it
+  storageProvider: {
+    type: String,
+    required: true,
+    default: 'cloudinary',
+  },
+  storageKey: {
     type: String,
     required: true,
   },
+  // Public URL, for providers that serve files themselves (Cloudinary)
+  storageUrl: {
+    type: String,
+    required: false,
+  },
+  // Legacy Cloudinary fields, present on documents uploaded before storage providers
+  cloudinaryUrl: {
+    type: String,
+    required: false,
+  },
   cloudinaryPublicId: {
+    type: String,
+    required: false,
+  },
+  // Set while the document is in the trash
+  deletedAt: {
+    type: Date,
+    required: false,
+  },
+  deletedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: false,
+  },
+}, {
+  timestamps: true,
+});
+
+// Audit log entry - append-only, see server/audit-chain.ts. Actor and target
+// ids are plain strings: entries outlive the records they describe.
+const auditEntrySchema = new mongoose.Schema({
+  sequence: {
+    type: Number,
+    required: true,
+    unique: true,
+  },
+  actorId: {
+    type: String,
+    required: false,
+  },
+  actorEmail: {
+    type: String,
+    required: false,
+  },
+  action: {
+    type: String,
+    required: true,
+  },
+  targetType: {
     type: String,
     required: true,
   },
+  targetId: {
+    type: String,
+    required: true,
+  },
+  targetName: {
+    type: String,
+    required: false,
+  },
+  // Project the target belongs to, for the project's activity feed
+  projectId: {
+    type: String,
+    required: false,
+  },
+  changes: {
+    type: mongoose.Schema.Types.Mixed,
+    required: false,
+  },
+  // Why, in the actor's words
+  note: {
+    type: String,
+    required: false,
+  },
+  ip: {
+    type: String,
+    required: false,
+  },
+  createdAt: {
+    type: Date,
+    required: true,
+  },
+  previousHash: {
+    type: String,
+    required: true,
+  },
+  hash: {
+    type: String,
+    required: true,
+  },
+}, {
+  // Keep empty objects in `changes` - the entry's hash covers them
+  minimize: false,
+});
+
+// Signed-in session, keyed by session id - see server/session-store.ts. The
+// fields after `expire` copy fields of `sess` so a user's sessions can be
+// listed and revoked.
+const sessionSchema = new mongoose.Schema({
+  _id: {
+    type: String,
+    required: true,
+  },
+  sess: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true,
+  },
+  expire: {
+    type: Date,
+    required: true,
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: false,
+  },
+  userAgent: {
+    type: String,
+    required: false,
+  },
+  ip: {
+    type: String,
+    required: false,
+  },
+  createdAt: {
+    type: Date,
+    required: true,
+  },
+  lastSeenAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// A user's two-factor authentication, keyed by user id - see server/two-factor.ts
+const userTwoFactorSchema = new mongoose.Schema({
+  _id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  secret: {
+    type: String,
+    required: true,
+  },
+  enabledAt: {
+    type: Date,
+    required: false,
+  },
+  recoveryCodeHashes: {
+    type: [String],
+    default: [],
+  },
+  lastUsedStep: {
+    type: Number,
+    required: false,
+  },
 }, {
   timestamps: true,
 });
 
+// Workspace settings admins change at runtime, keyed by name
+const settingSchema = new mongoose.Schema({
+  _id: {
+    type: String,
+    required: true,
+  },
+  value: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true,
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: false,
+  },
+}, {
+  timestamps: { createdAt: false, updatedAt: true },
+});
+
+// An outstanding password reset link, keyed by the hash of its token - see
+// server/password-reset.ts
+const passwordResetTokenSchema = new mongoose.Schema({
+  _id: {
+    type: String,
+    required: true,
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+// An invitation nobody has accepted yet - see server/invitations.ts
+const invitationSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  firstName: {
+    type: String,
+    required: false,
+  },
+  lastName: {
+    type: String,
+    required: false,
+  },
+  role: {
+    type: String,
+    enum: ['admin', 'project_lead', 'developer'],
+    default: 'developer',
+  },
+  invitedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: false,
+  },
+  // Of the current link's token - only the hash is kept
+  tokenHash: {
+    type: String,
+    unique: true,
+    sparse: true,
+  },
+  sentAt: {
+    type: Date,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+// A sign-up waiting for an admin's approval - see server/registrations.ts
+const registrationSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  firstName: {
+    type: String,
+    required: true,
+  },
+  lastName: {
+    type: String,
+    required: true,
+  },
+  passwordHash: {
+    type: String,
+    required: true,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+// A password a user set, as a hash - see server/password-policy.ts
+const passwordHistorySchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  passwordHash: {
+    type: String,
+    required: true,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+// Failed sign-in attempts for an account or address - see
+// server/login-throttle.ts
+const loginThrottleSchema = new mongoose.Schema({
+  _id: {
+    type: String,
+    required: true,
+  },
+  failures: {
+    type: Number,
+    default: 0,
+  },
+  lastFailureAt: {
+    type: Date,
+    required: true,
+  },
+  lockedUntil: {
+    type: Date,
+    default: null,
+  },
+}, {
+  versionKey: false,
+});
+
+// A user's account at the single sign-on identity provider, keyed by user id
+// - see server/oidc.ts
+const userIdentitySchema = new mongoose.Schema({
+  _id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  issuer: {
+    type: String,
+    required: true,
+  },
+  subject: {
+    type: String,
+    required: true,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+// A personal API token, as a hash - see server/api-tokens.ts
+const apiTokenSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  prefix: {
+    type: String,
+    required: true,
+  },
+  access: {
+    type: String,
+    enum: ['read', 'write'],
+    default: 'read',
+  },
+  projectIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Project',
+  }],
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+// Indexes behind the filtered, sorted and paginated list endpoints
+userSchema.index({ deletedAt: 1, createdAt: -1 });
+userSchema.index({ role: 1 });
+projectSchema.index({ deletedAt: 1, createdAt: -1 });
+projectSchema.index({ status: 1 });
+projectSchema.index({ projectLeadId: 1 });
+projectSchema.index({ deadline: 1 });
+projectSchema.index({ name: 1 });
+projectAssignmentSchema.index({ projectId: 1 });
+projectAssignmentSchema.index({ userId: 1 });
+documentSchema.index({ projectId: 1 });
+auditEntrySchema.index({ createdAt: -1 });
+auditEntrySchema.index({ actorId: 1 });
+auditEntrySchema.index({ targetType: 1, targetId: 1 });
+auditEntrySchema.index({ projectId: 1, sequence: -1 });
+sessionSchema.index({ userId: 1 });
+// MongoDB removes sessions once they expire
+sessionSchema.index({ expire: 1 }, { expireAfterSeconds: 0 });
+passwordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+passwordHistorySchema.index({ userId: 1, createdAt: -1 });
+loginThrottleSchema.index({ lockedUntil: 1 });
+apiTokenSchema.index({ userId: 1, createdAt: -1 });
+userIdentitySchema.index({ issuer: 1, subject: 1 }, { unique: true });
+
 // Create models
 export const User = mongoose.models.User || mongoose.model('User', userSchema);
 export const Project = mongoose.models.Project || mongoose.model('Project', projectSchema);
 export const ProjectAssignment = mongoose.models.ProjectAssignment || mongoose.model('ProjectAssignment', projectAssignmentSchema);
 export const Document = mongoose.models.Document || mongoose.model('Document', documentSchema);
+export const AuditEntry = mongoose.models.AuditEntry || mongoose.model('AuditEntry', auditEntrySchema);
+export const Session = mongoose.models.Session || mongoose.model('Session', sessionSchema);
+export const UserTwoFactor = mongoose.models.UserTwoFactor || mongoose.model('UserTwoFactor', userTwoFactorSchema);
+export const Setting = mongoose.models.Setting || mongoose.model('Setting', settingSchema);
+export const PasswordResetToken = mongoose.models.PasswordResetToken || mongoose.model('PasswordResetToken', passwordResetTokenSchema);
+export const Invitation = mongoose.models.Invitation || mongoose.model('Invitation', invitationSchema);
+export const Registration = mongoose.models.Registration || mongoose.model('Registration', registrationSchema);
+export const PasswordHistory = mongoose.models.PasswordHistory || mongoose.model('PasswordHistory', passwordHistorySchema);
+export const LoginThrottle = mongoose.models.LoginThrottle || mongoose.model('LoginThrottle', loginThrottleSchema);
+export const UserIdentity = mongoose.models.UserIdentity || mongoose.model('UserIdentity', userIdentitySchema);
+export const ApiToken = mongoose.models.ApiToken || mongoose.model('ApiToken', apiTokenSchema);
 
 // Export types
 export type IUser = {
@@ -143,8 +571,11 @@ export type IUser = {
   profileImageUrl: string | null;
   passwordHash: string;
   role: 'admin' | 'project_lead' | 'developer';
+  version: number;
   createdAt: Date | null;
   updatedAt: Date | null;
+  deletedAt: Date | null;
+  deletedBy: string | null;
 };
 
 export type IProject = {
@@ -156,8 +587,11 @@ export type IProject = {
   status: 'active' | 'completed' | 'on_hold';
   createdBy: string;
   projectLeadId: string | null;
+  version: number;
   createdAt: Date | null;
   updatedAt: Date | null;
+  deletedAt: Date | null;
+  deletedBy: string | null;
 };
 
 export type IProjectAssignment = {
@@ -179,8 +613,113 @@ export type IDocument = {
   fileSize: number;
   mimeType: string;
   uploadedBy: string;
-  cloudinaryUrl: string;
-  cloudinaryPublicId: string;
+  storageProvider: string;
+  storageKey: string;
+  storageUrl: string | null;
   createdAt: Date | null;
   updatedAt: Date | null;
-};
\ No newline at end of file
+  deletedAt: Date | null;
+  deletedBy: string | null;
+};
+
+export type IAuditEntry = {
+  id: string;
+  sequence: number;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: string;
+  targetType: string;
+  targetId: string;
+  targetName: string | null;
+  projectId: string | null;
+  changes: Record<string, { before: unknown; after: unknown }> | null;
+  note: string | null;
+  ip: string | null;
+  createdAt: Date;
+  previousHash: string;
+  hash: string;
+};
+
+export type ISession = {
+  sid: string;
+  sess: Record<string, any>;
+  expire: Date;
+  userId: string | null;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+};
+
+export type IUserTwoFactor = {
+  userId: string;
+  secret: string;
+  enabledAt: Date | null;
+  recoveryCodeHashes: string[];
+  lastUsedStep: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type IPasswordResetToken = {
+  tokenHash: string;
+  userId: string;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+export type IInvitation = {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: 'admin' | 'project_lead' | 'developer';
+  invitedBy: string | null;
+  tokenHash: string | null;
+  sentAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+export type IRegistration = {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  passwordHash: string;
+  createdAt: Date;
+};
+
+export type IPasswordHistoryEntry = {
+  id: string;
+  userId: string;
+  passwordHash: string;
+  createdAt: Date;
+};
+
+export type IUserIdentity = {
+  userId: string;
+  issuer: string;
+  subject: string;
+  createdAt: Date;
+};
+
+export type IApiToken = {
+  id: string;
+  userId: string;
+  name: string;
+  tokenHash: string;
+  prefix: string;
+  access: 'read' | 'write';
+  projectIds: string[];
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+};
+
+export type ILoginThrottle = {
+  key: string;
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+};
@@ -0,0 +1,38 @@
+// Password checks the forms run as a password is typed, and the server again
+// when it is set. The server also refuses common passwords and recently used
+// ones, which need what only it has - see server/password-policy.ts.
+import type { PasswordPolicy } from './schema';
+
+export type PasswordRule = {
+  // E.g. "At least 8 characters"
+  label: string;
+  met: boolean;
+};
+
+// The policy's rules, each with whether `password` meets it
+export function passwordRules(password: string, policy: PasswordPolicy): PasswordRule[] {
+  const rules: PasswordRule[] = [
+    { label: `At least ${policy.minLength} characters`, met: password.length >= policy.minLength },
+  ];
+  if (policy.requireLowercase) rules.push({ label: 'A lowercase letter', met: /[a-z]/.test(password) });
+  if (policy.requireUppercase) rules.push({ label: 'An uppercase letter', met: /[A-Z]/.test(password) });
+  if (policy.requireNumber) rules.push({ label: 'A number', met: /[0-9]/.test(password) });
+  if (policy.requireSymbol) rules.push({ label: 'A symbol', met: /[^A-Za-z0-9]/.test(password) });
+  return rules;
+}
+
+// A rough guide to how hard `password` is to guess, from 0 (very weak) to 4
+// (strong), going by its length and the kinds of characters in it
+export function passwordStrength(password: string): number {
+  if (!password) return 0;
+  const kinds = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^A-Za-z0-9]/].filter(kind => kind.test(password)).length;
+
+  let score = 0;
+  if (password.length >= 8) score++;
+  if (password.length >= 12) score++;
+  if (password.length >= 16) score++;
+  if (kinds >= 3) score++;
+  // Long runs of the same few characters are no better than short passwords
+  if (new Set(password).size < 5) score = Math.min(score, 1);
+  return Math.min(score, 4);
+}
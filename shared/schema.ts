@@ -9,20 +9,32 @@ import {
   pgEnum,
   boolean,
   integer,
+  uniqueIndex,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
+// The columns after `expire` copy fields of `sess` so a user's sessions can be
+// listed and revoked, see server/session-store.ts.
 export const sessions = pgTable(
   "sessions",
   {
     sid: varchar("sid").primaryKey(),
-    sess: jsonb("sess").notNull(),
+    sess: jsonb("sess").$type<Record<string, any>>().notNull(),
     expire: timestamp("expire").notNull(),
+    userId: varchar("user_id").references((): AnyPgColumn => users.id, { onDelete: 'cascade' }),
+    userAgent: text("user_agent"),
+    ip: varchar("ip"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(),
   },
-  (table) => [index("IDX_session_expire").on(table.expire)],
+  (table) => [
+    index("IDX_session_expire").on(table.expire),
+    index("IDX_session_user").on(table.userId),
+  ],
 );
 
 // User roles enum
@@ -31,6 +43,9 @@ export const userRoleEnum = pgEnum('user_role', ['admin', 'project_lead', 'devel
 // Project status enum
 export const projectStatusEnum = pgEnum('project_status', ['active', 'completed', 'on_hold']);
 
+// What a personal API token may do on its projects; write includes read
+export const apiTokenAccessEnum = pgEnum('api_token_access', ['read', 'write']);
+
 // User storage table.
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -40,9 +55,17 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   passwordHash: varchar("password_hash").notNull(),
   role: userRoleEnum("role").notNull().default('developer'),
+  // Bumped by every update, for optimistic concurrency (If-Match)
+  version: integer("version").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+  // Set while the user is in the trash
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: varchar("deleted_by").references((): AnyPgColumn => users.id, { onDelete: 'set null' }),
+}, (table) => [
+  index("IDX_users_role").on(table.role),
+  index("IDX_users_created_at").on(table.createdAt),
+]);
 
 // Projects table
 export const projects = pgTable("projects", {
@@ -53,9 +76,19 @@ export const projects = pgTable("projects", {
   status: projectStatusEnum("status").notNull().default('active'),
   createdBy: varchar("created_by").notNull().references(() => users.id),
   projectLeadId: varchar("project_lead_id").references(() => users.id),
+  // Bumped by every update, for optimistic concurrency (If-Match)
+  version: integer("version").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+  // Set while the project is in the trash
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: varchar("deleted_by").references(() => users.id, { onDelete: 'set null' }),
+}, (table) => [
+  index("IDX_projects_status").on(table.status),
+  index("IDX_projects_lead").on(table.projectLeadId),
+  index("IDX_projects_deadline").on(table.deadline),
+  index("IDX_projects_created_at").on(table.createdAt),
+]);
 
 // Project assignments table (many-to-many relationship between users and projects)
 export const projectAssignments = pgTable("project_assignments", {
@@ -64,7 +97,10 @@ export const projectAssignments = pgTable("project_assignments", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
   assignedBy: varchar("assigned_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_project_assignments_project").on(table.projectId),
+  index("IDX_project_assignments_user").on(table.userId),
+]);
 
 // Documents table
 export const documents = pgTable("documents", {
@@ -75,9 +111,163 @@ export const documents = pgTable("documents", {
   fileSize: integer("file_size").notNull(),
   mimeType: varchar("mime_type", { length: 100 }).notNull(),
   uploadedBy: varchar("uploaded_by").notNull().references(() => users.id),
+  storageProvider: varchar("storage_provider", { length: 50 }).notNull(),
+  storageKey: varchar("storage_key").notNull(),
+  storageUrl: varchar("storage_url"),
   createdAt: timestamp("created_at").defaultNow(),
+  // Set while the document is in the trash
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: varchar("deleted_by").references(() => users.id, { onDelete: 'set null' }),
+}, (table) => [
+  index("IDX_documents_project").on(table.projectId),
+]);
+
+// Audit log table - append-only, see server/audit-chain.ts. Actor and target
+// are not foreign keys: entries outlive the records they describe.
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sequence: integer("sequence").notNull().unique(),
+  actorId: varchar("actor_id"),
+  actorEmail: varchar("actor_email"),
+  action: varchar("action", { length: 64 }).notNull(),
+  targetType: varchar("target_type", { length: 32 }).notNull(),
+  targetId: varchar("target_id").notNull(),
+  targetName: varchar("target_name"),
+  // Project the target belongs to, for the project's activity feed
+  projectId: varchar("project_id"),
+  changes: jsonb("changes").$type<AuditChanges>(),
+  // Why, in the actor's words
+  note: text("note"),
+  ip: varchar("ip", { length: 64 }),
+  createdAt: timestamp("created_at").notNull(),
+  previousHash: varchar("previous_hash", { length: 64 }).notNull(),
+  hash: varchar("hash", { length: 64 }).notNull(),
+}, (table) => [
+  index("IDX_audit_log_created_at").on(table.createdAt),
+  index("IDX_audit_log_actor").on(table.actorId),
+  index("IDX_audit_log_target").on(table.targetType, table.targetId),
+  index("IDX_audit_log_project").on(table.projectId),
+]);
+
+// A user's two-factor authentication, see server/two-factor.ts. Set up but not
+// yet confirmed while enabledAt is null.
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  // Base32 TOTP secret, as shown to the user's authenticator app
+  secret: varchar("secret").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  // SHA-256 hashes of the recovery codes not used yet
+  recoveryCodeHashes: jsonb("recovery_code_hashes").$type<string[]>().notNull().default([]),
+  // Time step of the last code accepted, so no code is accepted twice
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Workspace settings admins change at runtime, one JSON value per key
+export const settings = pgTable("settings", {
+  key: varchar("key", { length: 64 }).primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: 'set null' }),
+});
+
+// Outstanding password reset links, at most one per user - see
+// server/password-reset.ts. Only a hash of the emailed token is kept.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  tokenHash: varchar("token_hash", { length: 64 }).primaryKey(),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Invitations admins have sent and nobody has accepted yet - see
+// server/invitations.ts. Accepting one creates the user and removes it. Only a
+// hash of the emailed token is kept.
+export const invitations = pgTable("invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: varchar("email").unique().notNull(),
+  // Suggested to the invitee, who can change them
+  firstName: varchar("first_name"),
+  lastName: varchar("last_name"),
+  role: userRoleEnum("role").notNull().default('developer'),
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: 'set null' }),
+  // Of the current link's token. Resending sends a new link with a new token
+  // and expiry, and the old link stops working.
+  tokenHash: varchar("token_hash", { length: 64 }).unique(),
+  // When the current link was sent
+  sentAt: timestamp("sent_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// A sign-up waiting for an admin to approve it - see server/registrations.ts.
+// Approving it creates the user; rejecting it deletes it.
+export const registrations = pgTable("registrations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: varchar("email").unique().notNull(),
+  firstName: varchar("first_name").notNull(),
+  lastName: varchar("last_name").notNull(),
+  passwordHash: varchar("password_hash").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Users' recent passwords, as hashes, for the password policy's reuse check
+// and expiry - see server/password-policy.ts
+export const passwordHistory = pgTable("password_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: varchar("password_hash").notNull(),
+  // When the user set it
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_password_history_user_id").on(table.userId, table.createdAt),
+]);
+
+// Failed sign-in attempts, counted per account and per IP address - see
+// server/login-throttle.ts
+export const loginThrottles = pgTable("login_throttles", {
+  // "account:<email>" or "ip:<address>"
+  key: varchar("key", { length: 320 }).primaryKey(),
+  // Failures since the count last started over
+  failures: integer("failures").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at").notNull(),
+  lockedUntil: timestamp("locked_until"),
+}, (table) => [
+  index("IDX_login_throttles_locked_until").on(table.lockedUntil),
+]);
+
+// Personal API tokens, which scripts send as "Authorization: Bearer <token>" -
+// see server/api-tokens.ts. Only a hash of the token is kept.
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  // Start of the token, so its owner can tell which one it is
+  prefix: varchar("prefix", { length: 16 }).notNull(),
+  access: apiTokenAccessEnum("access").notNull().default('read'),
+  // The projects it can be used on
+  projectIds: jsonb("project_ids").$type<string[]>().notNull().default([]),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_api_tokens_user_id").on(table.userId),
+]);
+
+// Users' accounts at the single sign-on identity provider - see
+// server/oidc.ts. A linked user signs in through the provider only.
+export const userIdentities = pgTable("user_identities", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  issuer: varchar("issuer").notNull(),
+  // The provider's id for the user, the ID token's "sub" claim
+  subject: varchar("subject").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_user_identities_subject").on(table.issuer, table.subject),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   createdProjects: many(projects, { relationName: "created_projects" }),
@@ -140,15 +330,81 @@ export const loginSchema = z.object({
 
 export type LoginForm = z.infer<typeof loginSchema>;
 
+// New passwords are checked against the password policy on the server - see
+// server/password-policy.ts
+const newPassword = z.string().min(1, "Password is required");
+
 export const registerSchema = z.object({
   email: z.string().email("Invalid email address"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  password: newPassword,
   firstName: z.string().min(1, "First name is required"),
   lastName: z.string().min(1, "Last name is required"),
 });
 
 export type RegisterForm = z.infer<typeof registerSchema>;
 
+// POST /api/registrations/:id/approve. The admin chooses the role; the
+// person signing up never does.
+export const approveRegistrationSchema = z.object({
+  role: z.enum(userRoleEnum.enumValues).default('developer'),
+});
+
+// POST /api/auth/forgot
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+// POST /api/auth/reset, with the token from the emailed link
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: newPassword,
+});
+
+export type ResetPasswordForm = z.infer<typeof resetPasswordSchema>;
+
+// POST /api/invitations
+export const createInvitationSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  firstName: z.string().trim().optional().transform(v => v || null),
+  lastName: z.string().trim().optional().transform(v => v || null),
+  role: z.enum(userRoleEnum.enumValues).default('developer'),
+});
+
+export type CreateInvitationForm = z.input<typeof createInvitationSchema>;
+
+// POST /api/auth/invitation, with the token from the invite link
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, "Invitation token is required"),
+  firstName: z.string().trim().min(1, "First name is required"),
+  lastName: z.string().trim().min(1, "Last name is required"),
+  password: newPassword,
+});
+
+export type AcceptInvitationForm = z.infer<typeof acceptInvitationSchema>;
+
+// PATCH /api/users/password
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword,
+});
+
+export type ChangePasswordForm = z.infer<typeof changePasswordSchema>;
+
+// Days a new API token can be valid for
+export const apiTokenLifetimes = [7, 30, 90, 365] as const;
+
+// POST /api/auth/tokens
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+  access: z.enum(apiTokenAccessEnum.enumValues).default('read'),
+  projectIds: z.array(z.string().min(1)).min(1, "Choose at least one project").max(100),
+  expiresInDays: z.coerce.number().int()
+    .refine(days => (apiTokenLifetimes as readonly number[]).includes(days), "Choose an expiry from the list")
+    .default(30),
+});
+
+export type CreateApiTokenForm = z.input<typeof createApiTokenSchema>;
+
 export type InsertProject = typeof projects.$inferInsert;
 export type Project = typeof projects.$inferSelect;
 
@@ -163,6 +419,8 @@ export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
+  deletedBy: true,
 }).extend({
   password: z.string().optional(), // For frontend use
 });
@@ -172,6 +430,8 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
   createdBy: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
+  deletedBy: true,
 }).extend({
   deadline: z.string().optional().transform((val) => {
     if (!val || val === '') return null;
@@ -189,14 +449,18 @@ export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
   uploadedBy: true,
   createdAt: true,
+  deletedAt: true,
+  deletedBy: true,
 });
 
 // Extended types for API responses
-export type ProjectWithDetails = Project & {
-  createdBy: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>;
-  projectLead?: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>;
+export type UserSummary = Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>;
+
+export type ProjectWithDetails = Omit<Project, 'createdBy'> & {
+  createdBy: UserSummary | null;
+  projectLead: UserSummary | null;
   assignments: (ProjectAssignment & {
-    user: Pick<User, 'id' | 'firstName' | 'lastName' | 'email' | 'profileImageUrl'>;
+    user: UserSummary & Pick<User, 'profileImageUrl'>;
   })[];
   documents: Document[];
   _count: {
@@ -211,13 +475,345 @@ export type UserWithStats = User & {
   };
 };
 
+// One page of a paginated list endpoint
+export type Page<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export const MAX_PAGE_SIZE = 100;
+
+export const projectSortFields = ['createdAt', 'name', 'deadline', 'status'] as const;
+export const userSortFields = ['createdAt', 'email', 'role'] as const;
+
+export type ProjectSortField = typeof projectSortFields[number];
+export type UserSortField = typeof userSortFields[number];
+export type SortOrder = 'asc' | 'desc';
+
+// Query string parameters shared by the list endpoints. Dates sort newest
+// first unless an order is given, everything else ascending.
+const listQueryParams = {
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(20),
+  order: z.enum(['asc', 'desc']).optional(),
+  // Case-insensitive text match
+  q: z.string().trim().max(200).optional(),
+};
+
+// Empty parameters (`?status=`) count as absent
+const withoutEmptyParams = (params: unknown) =>
+  params && typeof params === 'object'
+    ? Object.fromEntries(Object.entries(params).filter(([, value]) => value !== ''))
+    : params;
+
+const withDefaultOrder = <T extends { sort: string; order?: SortOrder }>(query: T) => ({
+  ...query,
+  order: query.order ?? (query.sort === 'createdAt' ? 'desc' : 'asc') as SortOrder,
+});
+
+// GET /api/projects. `q` matches name and description; deadline bounds are
+// inclusive. Projects without a deadline sort last either way.
+export const projectListQuerySchema = z.preprocess(withoutEmptyParams, z.object({
+  ...listQueryParams,
+  sort: z.enum(projectSortFields).default('createdAt'),
+  status: z.enum(projectStatusEnum.enumValues).optional(),
+  leadId: z.string().min(1).optional(),
+  deadlineFrom: z.coerce.date().optional(),
+  deadlineTo: z.coerce.date().optional(),
+})).transform(withDefaultOrder);
+
+// GET /api/users. `q` matches first name, last name and email; roles sort
+// admin, project lead, developer.
+export const userListQuerySchema = z.preprocess(withoutEmptyParams, z.object({
+  ...listQueryParams,
+  sort: z.enum(userSortFields).default('createdAt'),
+  role: z.enum(userRoleEnum.enumValues).optional(),
+})).transform(withDefaultOrder);
+
+export type ProjectListQuery = z.output<typeof projectListQuerySchema>;
+export type UserListQuery = z.output<typeof userListQuerySchema>;
+
+// GET /api/search. Every whitespace-separated term has to match, each one
+// anywhere in any of the searched fields.
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  // Results per type
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+}).transform(({ q, limit }) => ({ terms: q.split(/\s+/), limit }));
+
+export type SearchQuery = z.output<typeof searchQuerySchema>;
+
+// Search matches grouped by type, each sorted by name
+export type SearchResults = {
+  projects: Pick<Project, 'id' | 'name' | 'description' | 'status'>[];
+  documents: (Pick<Document, 'id' | 'projectId' | 'originalName' | 'mimeType'> & { projectName: string })[];
+  users: (UserSummary & Pick<User, 'role'>)[];
+};
+
 // Dashboard stats interface
 export interface DashboardStats {
   totalProjects: number;
   activeProjects: number;
   completedProjects: number;
-  onHoldProjects?: number;
-  teamMembers?: number;
+  onHoldProjects: number;
+  teamMembers: number;
   totalUsers: number;
   totalDocuments: number;
+  dueThisWeek: number;
 }
+
+// Audited actions, named <target type>.<what happened>. Trash actions name
+// the type of the restored or purged record as their target.
+export const auditActions = [
+  'user.register',
+  'user.create',
+  'user.role_change',
+  'user.password_change',
+  'user.password_reset',
+  'invitation.create',
+  'invitation.resend',
+  'invitation.revoke',
+  'invitation.accept',
+  'registration.create',
+  'registration.approve',
+  'registration.reject',
+  'user.login',
+  'user.login_failure',
+  'user.lockout',
+  'user.unlock',
+  'user.delete',
+  'user.sessions_revoke',
+  'user.two_factor_enable',
+  'user.two_factor_disable',
+  'user.two_factor_reset',
+  'user.recovery_codes_regenerate',
+  'user.sso_link',
+  'api_token.create',
+  'api_token.revoke',
+  'project.create',
+  'project.update',
+  'project.delete',
+  'project.assign',
+  'project.unassign',
+  'project.lead_change',
+  'document.upload',
+  'document.download',
+  'document.delete',
+  'trash.restore',
+  'trash.purge',
+  'workspace.backup',
+  'workspace.restore',
+  'settings.update',
+] as const;
+
+export const auditTargetTypes = ['user', 'project', 'document', 'workspace', 'settings', 'invitation', 'registration', 'api_token'] as const;
+
+export type AuditAction = typeof auditActions[number];
+export type AuditTargetType = typeof auditTargetTypes[number];
+
+// Values of the fields an action changed
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type AuditEntry = typeof auditLog.$inferSelect;
+
+// GET /api/audit and /api/audit/export. Time bounds are inclusive.
+export const auditLogQuerySchema = z.preprocess(withoutEmptyParams, z.object({
+  page: listQueryParams.page,
+  pageSize: listQueryParams.pageSize,
+  actorId: z.string().min(1).optional(),
+  action: z.enum(auditActions).optional(),
+  targetType: z.enum(auditTargetTypes).optional(),
+  targetId: z.string().min(1).optional(),
+  projectId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}));
+
+export type AuditLogQuery = z.output<typeof auditLogQuerySchema>;
+export type AuditLogFilter = Omit<AuditLogQuery, 'page' | 'pageSize'> & {
+  // Entries with any of these actions, for views narrower than the whole log
+  actions?: readonly AuditAction[];
+};
+
+// Actions listed in a project's activity feed - its changes, team and documents
+export const projectActivityActions: readonly AuditAction[] = [
+  'project.create',
+  'project.update',
+  'project.assign',
+  'project.unassign',
+  'project.lead_change',
+  'document.upload',
+  'document.delete',
+  'trash.restore',
+];
+
+// GET /api/projects/:id/activity, newest first
+export const projectActivityQuerySchema = z.object({
+  page: listQueryParams.page,
+  pageSize: listQueryParams.pageSize,
+});
+
+// An audit entry as project members see it, without the IP and hashes
+export type ProjectActivity = Pick<
+  AuditEntry,
+  'id' | 'createdAt' | 'actorId' | 'actorEmail' | 'action' | 'targetType' | 'targetId' | 'targetName' | 'changes' | 'note'
+>;
+
+// Result of checking the hash chain from the first entry to the last
+export type AuditChainStatus = {
+  valid: boolean;
+  entries: number;
+  // Sequence number of the first entry that does not match its hash or does
+  // not follow on from the entry before it
+  brokenAt: number | null;
+};
+
+export type UserSession = typeof sessions.$inferSelect;
+
+// A signed-in session, as listed in Settings. The id is derived from the
+// session id, which never leaves the server.
+export type ActiveSession = {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  // The session making the request
+  current: boolean;
+};
+
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+export type Invitation = typeof invitations.$inferSelect;
+export type InsertInvitation = Pick<typeof invitations.$inferInsert, 'email' | 'firstName' | 'lastName' | 'role' | 'invitedBy' | 'expiresAt'> & { tokenHash: string };
+
+// GET /api/invitations - an invitation as admins see it, without its link
+export type PendingInvitation = Omit<Invitation, 'tokenHash'>;
+
+export type Registration = typeof registrations.$inferSelect;
+export type InsertRegistration = Pick<Registration, 'email' | 'firstName' | 'lastName' | 'passwordHash'>;
+
+// GET /api/registrations - a sign-up waiting for approval, as admins see it
+export type PendingRegistration = Omit<Registration, 'passwordHash'>;
+
+// POST /api/auth/register - signing up never signs anyone in; the account
+// waits for an admin's approval
+export type RegisterResult = {
+  status: 'pending';
+  email: string;
+};
+
+export type PasswordHistoryEntry = typeof passwordHistory.$inferSelect;
+
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type InsertUserIdentity = Pick<UserIdentity, 'userId' | 'issuer' | 'subject'>;
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = Pick<ApiToken, 'userId' | 'name' | 'tokenHash' | 'prefix' | 'access' | 'projectIds' | 'expiresAt'>;
+export type ApiTokenAccess = ApiToken['access'];
+
+// GET /api/auth/tokens - a token as its owner sees it, without the hash
+export type ApiTokenSummary = Omit<ApiToken, 'tokenHash' | 'userId'>;
+
+// POST /api/auth/tokens - the token itself is shown this once
+export type CreatedApiToken = ApiTokenSummary & { token: string };
+
+// GET /api/users/lockouts - accounts locked out after too many failed
+// sign-in attempts
+export type AccountLockout = {
+  userId: string;
+  email: string;
+  lockedUntil: Date;
+};
+
+// GET /api/auth/invitation - what the invitee sees before accepting
+export type InvitationDetails = Pick<Invitation, 'email' | 'firstName' | 'lastName' | 'role' | 'expiresAt'>;
+
+// GET /api/auth/oidc - whether the sign-in page offers single sign-on, and
+// the name of the identity provider to show on it
+export type OidcProvider = {
+  enabled: boolean;
+  name: string | null;
+};
+
+// GET /api/auth/two-factor
+export type TwoFactorStatus = {
+  enabled: boolean;
+  // The user's role must have two-factor authentication
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+// Rules for new passwords, part of the security settings. Anyone can read
+// them (GET /api/auth/password-policy) to check a password as it is typed.
+export const passwordPolicySchema = z.object({
+  minLength: z.number().int().min(6).max(128).default(8),
+  requireLowercase: z.boolean().default(false),
+  requireUppercase: z.boolean().default(false),
+  requireNumber: z.boolean().default(false),
+  requireSymbol: z.boolean().default(false),
+  // Refuse passwords on the built-in list of common ones
+  blockCommon: z.boolean().default(true),
+  // How many of their previous passwords users can't choose again; 0 for none
+  historySize: z.number().int().min(0).max(10).default(0),
+  // Days after which users have to change their password; 0 for never
+  maxAgeDays: z.number().int().min(0).max(3650).default(0),
+});
+
+export type PasswordPolicy = z.infer<typeof passwordPolicySchema>;
+
+export const registrationModes = ['off', 'invite_only', 'domains'] as const;
+
+export type RegistrationMode = typeof registrationModes[number];
+
+const emailDomain = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)+$/;
+
+// Who can join the workspace, part of the security settings. Anyone can read
+// it (GET /api/auth/registration) to know whether to offer signing up.
+export const registrationPolicySchema = z.object({
+  // off: nobody new joins, not even by invitation. invite_only: people join
+  // by accepting an admin's invitation. domains: people with an email at one
+  // of allowedDomains can also sign up, and wait for an admin's approval.
+  mode: z.enum(registrationModes).default('invite_only'),
+  allowedDomains: z.array(
+    z.string().trim().toLowerCase().regex(emailDomain, "Email domains look like studio.com"),
+  ).max(50).default([]),
+}).refine(policy => policy.mode !== 'domains' || policy.allowedDomains.length > 0, {
+  message: "Add at least one email domain to open sign-up to",
+  path: ['allowedDomains'],
+});
+
+export type RegistrationPolicy = z.infer<typeof registrationPolicySchema>;
+
+// Security settings admins change on the Settings page (GET/PUT
+// /api/settings/security). Stored under the "security" key; settings missing
+// from the stored value take their defaults.
+export const securitySettingsSchema = z.object({
+  // Users with these roles must set up two-factor authentication
+  twoFactorRequiredRoles: z.array(z.enum(userRoleEnum.enumValues)).default([]),
+  passwordPolicy: passwordPolicySchema.default({}),
+  registration: registrationPolicySchema.default({}),
+});
+
+export type SecuritySettings = z.infer<typeof securitySettingsSchema>;
+
+export type TrashItemType = 'project' | 'document' | 'user';
+
+// A soft-deleted record, as listed on the admin Trash page
+export type TrashItem = {
+  type: TrashItemType;
+  id: string;
+  // Project name, document file name or user email
+  name: string;
+  // Project a trashed document belongs to
+  projectId: string | null;
+  deletedAt: Date;
+  deletedBy: UserSummary | null;
+};